@@ -28,6 +28,7 @@ import Conversations from "@/pages/client/conversations";
 import WhatsAppDisparo from "@/pages/client/whatsapp-disparo";
 import WhatsAppListaTransmissao from "@/pages/client/whatsapp-lista-transmissao";
 import WhatsAppProxy from "@/pages/client/whatsapp-proxy";
+import WhatsAppBloqueados from "@/pages/client/whatsapp-bloqueados";
 import ComercialAtendimentos from "@/pages/client/comercial-atendimentos";
 import ComercialLeads from "@/pages/client/comercial-leads";
 import MeusImoveis from "@/pages/client/meus-imoveis";
@@ -184,8 +185,8 @@ function Router() {
         <ProtectedRoute 
           component={Conversations}
           requiredRole="client"
-          title="Conversas"
-          subtitle="Histórico de conversas"
+          title="Caixa de entrada"
+          subtitle="Conversas de todos os números em tempo real"
         />
       </Route>
       <Route path="/client/whatsapp/disparo">
@@ -204,6 +205,14 @@ function Router() {
           subtitle="Gerenciar listas de contatos para disparo"
         />
       </Route>
+      <Route path="/client/whatsapp/bloqueados">
+        <ProtectedRoute 
+          component={WhatsAppBloqueados}
+          requiredRole="client"
+          title="Números bloqueados"
+          subtitle="Contatos que não recebem disparos nem alertas"
+        />
+      </Route>
       <Route path="/client/whatsapp/proxy">
         <ProtectedRoute 
           component={WhatsAppProxy}
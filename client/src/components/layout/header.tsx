@@ -1,6 +1,14 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
 import { Bell } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import { apiPut } from "@/lib/api";
+import { CompanyNotification } from "@/types";
 
 interface HeaderProps {
   title: string;
@@ -9,6 +17,31 @@ interface HeaderProps {
 
 export function Header({ title, subtitle }: HeaderProps) {
   const { user } = useAuth();
+  const [, setLocation] = useLocation();
+
+  // Avisos da empresa (ex.: WhatsApp desconectado); só usuários de empresa têm avisos
+  const { data: notifications = [] } = useQuery<CompanyNotification[]>({
+    queryKey: ["/api/notifications"],
+    enabled: user?.role === "client",
+    refetchInterval: 60000,
+  });
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  const markReadMutation = useMutation({
+    mutationFn: (id?: string) => apiPut(id ? `/api/notifications/${id}/read` : "/api/notifications/read-all"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const openNotification = (notification: CompanyNotification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
+  };
 
   return (
     <header className="bg-card shadow-sm border-b border-border px-6 py-4">
@@ -20,10 +53,53 @@ export function Header({ title, subtitle }: HeaderProps) {
           )}
         </div>
         <div className="flex items-center space-x-4">
-          <Button variant="ghost" size="sm" className="relative">
-            <Bell className="w-5 h-5" />
-            <span className="absolute top-0 right-0 block h-2 w-2 rounded-full bg-destructive"></span>
-          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="relative">
+                <Bell className="w-5 h-5" />
+                {unreadCount > 0 && (
+                  <span className="absolute top-0 right-0 block h-2 w-2 rounded-full bg-destructive"></span>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80 p-0" align="end">
+              <div className="flex items-center justify-between border-b px-4 py-2">
+                <p className="text-sm font-medium">Avisos</p>
+                {unreadCount > 0 && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => markReadMutation.mutate(undefined)}
+                  >
+                    Marcar todos como lidos
+                  </Button>
+                )}
+              </div>
+              {notifications.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-muted-foreground">Nenhum aviso</p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto">
+                  {notifications.map(notification => (
+                    <button
+                      key={notification.id}
+                      type="button"
+                      className={`block w-full border-b px-4 py-3 text-left last:border-b-0 hover:bg-muted/50 ${notification.readAt ? "" : "bg-muted/30"}`}
+                      onClick={() => openNotification(notification)}
+                    >
+                      <p className={`text-sm ${notification.readAt ? "text-foreground" : "font-medium text-foreground"}`}>
+                        {notification.title}
+                      </p>
+                      <p className="mt-1 text-xs text-muted-foreground">{notification.message}</p>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {format(new Date(notification.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
           <div className="h-6 w-px bg-border"></div>
           <div className="text-sm">
             <p className="font-medium text-foreground">Sistema Online</p>
@@ -7,7 +7,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Building, Settings, Waypoints, Bot, Users,
   LayoutDashboard, User, MessageSquare,
-  LogOut, ChevronDown, ChevronRight, Send, List, Home, UserPlus, Sparkles, MapPin, CreditCard, Calendar
+  LogOut, ChevronDown, ChevronRight, Send, List, Home, UserPlus, Sparkles, MapPin, CreditCard, Calendar, BellOff, Inbox
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { GlobalConfiguration } from "@/types";
@@ -37,8 +37,10 @@ const clientNavItems: NavItem[] = [
     icon: <MessageSquare className="w-5 h-5" />,
     children: [
       { href: "/client/whatsapp", label: "Números conectados", icon: <MessageSquare className="w-4 h-4" /> },
+      { href: "/client/conversations", label: "Caixa de entrada", icon: <Inbox className="w-4 h-4" /> },
       { href: "/client/whatsapp/disparo", label: "Disparo", icon: <Send className="w-4 h-4" /> },
       { href: "/client/whatsapp/lista-transmissao", label: "Lista de transmissão", icon: <List className="w-4 h-4" /> },
+      { href: "/client/whatsapp/bloqueados", label: "Números bloqueados", icon: <BellOff className="w-4 h-4" /> },
     ]
   },
   {
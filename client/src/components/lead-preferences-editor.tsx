@@ -0,0 +1,238 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiGet, apiPut } from "@/lib/api";
+import { LeadPreferenceField, LeadPreferences } from "@/types";
+import { Target } from "lucide-react";
+
+interface PreferencesForm {
+  transactionType: string;
+  propertyType: string;
+  city: string;
+  neighborhoods: string;
+  budgetMin: string;
+  budgetMax: string;
+  bedrooms: string;
+  amenities: string;
+  moveInTimeframe: string;
+  needsFinancing: string;
+  financingNotes: string;
+}
+
+const NOT_INFORMED = "none";
+
+const listToText = (list: string[] | null) => (list || []).join(", ");
+const textToList = (text: string) => text.split(",").map(item => item.trim()).filter(Boolean);
+const textToNumber = (text: string) => (text.trim() === "" ? null : Math.max(0, Math.round(Number(text))));
+const textToValue = (text: string) => text.trim() || null;
+
+function toForm(profile: LeadPreferences | null | undefined): PreferencesForm {
+  return {
+    transactionType: profile?.transactionType || NOT_INFORMED,
+    propertyType: profile?.propertyType || "",
+    city: profile?.city || "",
+    neighborhoods: listToText(profile?.neighborhoods ?? null),
+    budgetMin: profile?.budgetMin?.toString() ?? "",
+    budgetMax: profile?.budgetMax?.toString() ?? "",
+    bedrooms: profile?.bedrooms?.toString() ?? "",
+    amenities: listToText(profile?.amenities ?? null),
+    moveInTimeframe: profile?.moveInTimeframe || "",
+    needsFinancing: profile?.needsFinancing == null ? NOT_INFORMED : profile.needsFinancing ? "yes" : "no",
+    financingNotes: profile?.financingNotes || "",
+  };
+}
+
+// Valor de cada campo no formato da API
+function fromForm(form: PreferencesForm): Record<LeadPreferenceField, unknown> {
+  return {
+    transactionType: form.transactionType === NOT_INFORMED ? null : form.transactionType,
+    propertyType: textToValue(form.propertyType),
+    city: textToValue(form.city),
+    neighborhoods: textToList(form.neighborhoods),
+    budgetMin: textToNumber(form.budgetMin),
+    budgetMax: textToNumber(form.budgetMax),
+    bedrooms: textToNumber(form.bedrooms),
+    amenities: textToList(form.amenities),
+    moveInTimeframe: textToValue(form.moveInTimeframe),
+    needsFinancing: form.needsFinancing === NOT_INFORMED ? null : form.needsFinancing === "yes",
+    financingNotes: textToValue(form.financingNotes),
+  };
+}
+
+/**
+ * Perfil de preferências do contato, preenchido pela IA durante as conversas.
+ * Só os campos alterados aqui são enviados: eles passam a ser manuais e a IA não os sobrescreve.
+ */
+export function LeadPreferencesEditor({ phone }: { phone: string }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PreferencesForm>(toForm(null));
+
+  const { data: profile, isLoading } = useQuery<LeadPreferences | null>({
+    queryKey: ["/api/lead-preferences", phone],
+    queryFn: () => apiGet(`/lead-preferences?phone=${encodeURIComponent(phone)}`),
+    enabled: !!phone,
+  });
+
+  useEffect(() => {
+    setForm(toForm(profile));
+  }, [profile]);
+
+  const original = fromForm(toForm(profile));
+  const current = fromForm(form);
+  const changedFields = (Object.keys(current) as LeadPreferenceField[])
+    .filter(field => JSON.stringify(current[field]) !== JSON.stringify(original[field]));
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiPut("/lead-preferences", {
+      phone,
+      ...Object.fromEntries(changedFields.map(field => [field, current[field]])),
+    }),
+    onSuccess: (saved: LeadPreferences) => {
+      queryClient.setQueryData(["/api/lead-preferences", phone], saved);
+      toast({ title: "Preferências salvas", description: "Os campos editados não serão mais alterados pela IA." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro",
+        description: error?.message || "Erro ao salvar preferências",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Preferência de comunicação: salva na hora, sem marcar campos como manuais
+  const alertsMutation = useMutation({
+    mutationFn: (alertsOptOut: boolean) => apiPut("/lead-preferences", { phone, alertsOptOut }),
+    onSuccess: (saved: LeadPreferences) => {
+      queryClient.setQueryData(["/api/lead-preferences", phone], saved);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro",
+        description: error?.message || "Erro ao salvar preferência de alertas",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const manual = profile?.manualFields || [];
+  const label = (field: LeadPreferenceField, text: string) => (
+    <Label className="text-xs">
+      {text}
+      {manual.includes(field) && <span className="ml-1 text-muted-foreground">(manual)</span>}
+    </Label>
+  );
+  const update = (field: keyof PreferencesForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <Label className="flex items-center gap-2">
+        <Target className="w-4 h-4" />
+        Preferências do Cliente
+      </Label>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando preferências...</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {profile?.lastExtractedAt
+              ? `Atualizado pela IA em ${new Date(profile.lastExtractedAt).toLocaleString("pt-BR")}.`
+              : "A IA preenche este perfil durante as conversas no WhatsApp."}
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              {label("transactionType", "Transação")}
+              <Select value={form.transactionType} onValueChange={(value) => setForm(prev => ({ ...prev, transactionType: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_INFORMED}>Não informado</SelectItem>
+                  <SelectItem value="venda">Compra</SelectItem>
+                  <SelectItem value="locacao">Locação</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              {label("propertyType", "Tipo de Imóvel")}
+              <Input value={form.propertyType} onChange={update("propertyType")} placeholder="Ex: apartamento" />
+            </div>
+            <div>
+              {label("city", "Cidade")}
+              <Input value={form.city} onChange={update("city")} placeholder="Ex: Joaçaba" />
+            </div>
+            <div>
+              {label("neighborhoods", "Bairros")}
+              <Input value={form.neighborhoods} onChange={update("neighborhoods")} placeholder="Separados por vírgula" />
+            </div>
+            <div>
+              {label("budgetMin", "Orçamento Mínimo (R$)")}
+              <Input type="number" min="0" value={form.budgetMin} onChange={update("budgetMin")} />
+            </div>
+            <div>
+              {label("budgetMax", "Orçamento Máximo (R$)")}
+              <Input type="number" min="0" value={form.budgetMax} onChange={update("budgetMax")} />
+            </div>
+            <div>
+              {label("bedrooms", "Quartos (mínimo)")}
+              <Input type="number" min="0" value={form.bedrooms} onChange={update("bedrooms")} />
+            </div>
+            <div>
+              {label("moveInTimeframe", "Prazo para Mudança")}
+              <Input value={form.moveInTimeframe} onChange={update("moveInTimeframe")} placeholder="Ex: até 3 meses" />
+            </div>
+            <div className="col-span-2">
+              {label("amenities", "Comodidades Indispensáveis")}
+              <Input value={form.amenities} onChange={update("amenities")} placeholder="Ex: piscina, garagem, elevador" />
+            </div>
+            <div>
+              {label("needsFinancing", "Financiamento")}
+              <Select value={form.needsFinancing} onValueChange={(value) => setForm(prev => ({ ...prev, needsFinancing: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_INFORMED}>Não informado</SelectItem>
+                  <SelectItem value="yes">Precisa</SelectItem>
+                  <SelectItem value="no">Não precisa</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              {label("financingNotes", "Obs. do Financiamento")}
+              <Input value={form.financingNotes} onChange={update("financingNotes")} placeholder="FGTS, entrada..." />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="lead-alerts"
+                checked={!profile?.alertsOptOut}
+                onCheckedChange={(checked) => alertsMutation.mutate(!checked)}
+                disabled={alertsMutation.isPending}
+              />
+              <Label htmlFor="lead-alerts" className="text-sm font-normal">Receber alertas de imóveis novos</Label>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => saveMutation.mutate()}
+              disabled={changedFields.length === 0 || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Salvando..." : "Salvar Preferências"}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
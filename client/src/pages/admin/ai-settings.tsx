@@ -23,6 +23,7 @@ export default function AiSettings() {
   const [formData, setFormData] = useState<Partial<AiConfiguration>>({});
   const [showApiKey, setShowApiKey] = useState(false);
   const [testPrompt, setTestPrompt] = useState("");
+  const [testProvider, setTestProvider] = useState<"openai" | "local">("openai");
   const [availableModels, setAvailableModels] = useState<OpenAIModel[]>([]);
 
   const { data: config, isLoading, error } = useQuery<AiConfiguration>({
@@ -61,7 +62,7 @@ export default function AiSettings() {
   });
 
   const testMutation = useMutation({
-    mutationFn: (prompt: string) => apiPost("/ai-config/test", { prompt }),
+    mutationFn: (prompt: string) => apiPost("/ai-config/test", { prompt, provider: testProvider }),
     onSuccess: (data) => {
       toast({
         title: "✅ Teste bem-sucedido!",
@@ -158,7 +159,6 @@ export default function AiSettings() {
                 onChange={(e) => handleInputChange("apiKey", e.target.value)}
                 placeholder="sk-..."
                 className="pr-10"
-                required
               />
               <Button
                 type="button"
@@ -252,8 +252,58 @@ export default function AiSettings() {
             </div>
           </div>
 
+          <div className="border rounded-lg p-4 space-y-4">
+            <div>
+              <h4 className="text-sm font-medium">LLM Local (compatível com OpenAI)</h4>
+              <p className="text-xs text-muted-foreground mt-1">
+                Servidor próprio como Ollama, vLLM ou LM Studio. Os agentes podem escolher este provedor no cadastro.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div>
+                <Label htmlFor="localBaseUrl">URL do Endpoint</Label>
+                <Input
+                  id="localBaseUrl"
+                  value={formData.localBaseUrl || ""}
+                  onChange={(e) => handleInputChange("localBaseUrl", e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="localApiKey">Chave da API (opcional)</Label>
+                <Input
+                  id="localApiKey"
+                  type="password"
+                  value={formData.localApiKey || ""}
+                  onChange={(e) => handleInputChange("localApiKey", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="localModelo">Modelo Padrão</Label>
+                <Input
+                  id="localModelo"
+                  value={formData.localModelo || ""}
+                  onChange={(e) => handleInputChange("localModelo", e.target.value)}
+                  placeholder="llama3.1"
+                />
+              </div>
+            </div>
+          </div>
+
           <div className="bg-muted rounded-lg p-4">
             <h4 className="text-sm font-medium mb-3">Teste de Funcionamento</h4>
+            <div className="mb-3 max-w-xs">
+              <Label htmlFor="testProvider">Provedor</Label>
+              <Select value={testProvider} onValueChange={(value: "openai" | "local") => setTestProvider(value)}>
+                <SelectTrigger id="testProvider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="openai">OpenAI</SelectItem>
+                  <SelectItem value="local">LLM Local</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <Label htmlFor="testPrompt">Digite um prompt para testar</Label>
             <Textarea
               id="testPrompt"
@@ -13,11 +13,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api";
-import { AiAgent, WhatsappInstance } from "@/types";
+import { AiAgent, KnowledgeSource, PropertySearchDetection, SearchTermsMatch, WhatsappInstance } from "@/types";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { Bot, Plus, Edit, Trash2, FileText, Upload, TestTube2, Send, BarChart3, MessageCircle, User, RefreshCw, Lock, ShieldCheck } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 
+// Termos reconhecidos pela detecção de busca, ex.: 'tipo: apartamento ("apto") · cidade: Joaçaba ("joacaba", aproximado)'
+function formatDetectedTerms(terms: SearchTermsMatch): string {
+  const labels: Array<[keyof SearchTermsMatch, string]> = [["propertyType", "tipo"], ["city", "cidade"], ["neighborhood", "bairro"]];
+  return labels
+    .filter(([key]) => terms[key])
+    .map(([key, label]) => {
+      const term = terms[key]!;
+      return `${label}: ${term.value} ("${term.typed}"${term.exact ? "" : ", aproximado"})`;
+    })
+    .join(" · ");
+}
+
 // Component for Agent Usage History
 function AgentUsageHistory() {
   const { toast } = useToast();
@@ -293,6 +305,8 @@ export default function AiAgents() {
     name: "",
     prompt: "",
     temperatura: "0.7",
+    provider: "openai" as "openai" | "local",
+    modelo: "",
     trainingFiles: [] as string[],
     agentType: "main" as "main" | "secondary",
     parentAgentId: "",
@@ -302,7 +316,7 @@ export default function AiAgents() {
 
   // Chat test modal state
   const [chatMessage, setChatMessage] = useState("");
-  const [chatHistory, setChatHistory] = useState<{message: string, response: string, timestamp: string}[]>([]);
+  const [chatHistory, setChatHistory] = useState<{message: string, response: string, timestamp: string, sources?: KnowledgeSource[], searchDetection?: PropertySearchDetection | null}[]>([]);
   const [testingAgent, setTestingAgent] = useState<AiAgent | null>(null);
 
   // Link form state
@@ -338,6 +352,11 @@ export default function AiAgents() {
     queryKey: ["/api/ai-config/public"],
   });
 
+  const defaultModelFor = (provider: "openai" | "local") =>
+    provider === "local"
+      ? (aiConfig as any)?.localModelo || "llama3.1"
+      : (aiConfig as any)?.modelo || "gpt-4o";
+
   const createMutation = useMutation({
     mutationFn: (data: any) => apiPost("/ai-agents", data),
     onSuccess: () => {
@@ -416,12 +435,14 @@ export default function AiAgents() {
 
   const chatMutation = useMutation({
     mutationFn: ({ id, message }: { id: string; message: string }) => 
-      apiPost(`/ai-agents/${id}/chat`, { message }),
+      apiPost(`/ai-agents/${id}/chat`, { message, history: chatHistory.map(entry => entry.message) }),
     onSuccess: (data, variables) => {
       const newEntry = {
         message: variables.message,
         response: data.response,
         timestamp: new Date().toLocaleTimeString(),
+        sources: data.sources || [],
+        searchDetection: data.searchDetection || null,
       };
       setChatHistory(prev => [...prev, newEntry]);
       setChatMessage("");
@@ -484,6 +505,8 @@ export default function AiAgents() {
       name: "",
       prompt: "",
       temperatura: "0.7",
+      provider: "openai",
+      modelo: "",
       trainingFiles: [],
       agentType: "main",
       parentAgentId: "",
@@ -563,10 +586,10 @@ export default function AiAgents() {
       }
     }
     
-    // Adicionar configurações globais de IA automaticamente
+    // Adicionar configurações globais de IA automaticamente (sem modelo, vale o padrão atual do provedor)
     const dataWithAiConfig = {
       ...formData,
-      modelo: (aiConfig as any)?.modelo || "gpt-4o",
+      modelo: formData.modelo.trim() || null,
       numeroTokens: (aiConfig as any)?.numeroTokens || 1000,
     };
     
@@ -583,6 +606,8 @@ export default function AiAgents() {
       name: agent.name,
       prompt: agent.prompt,
       temperatura: agent.temperatura.toString(),
+      provider: (agent.provider || "openai") as "openai" | "local",
+      modelo: agent.modelo || "",
       trainingFiles: agent.trainingFiles || [],
       agentType: (agent.agentType || "main") as "main" | "secondary",
       parentAgentId: agent.parentAgentId || "",
@@ -703,7 +728,9 @@ export default function AiAgents() {
                               </Badge>
                             )}
                           </h4>
-                          <p className="text-sm text-muted-foreground">{agent.modelo}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {agent.modelo || defaultModelFor((agent.provider || "openai") as "openai" | "local")}{agent.provider === "local" ? " (LLM Local)" : ""}
+                          </p>
                           {agent.agentType === "secondary" && agent.specialization && (
                             <p className="text-xs text-blue-600 dark:text-blue-400">
                               📋 {agent.specialization}
@@ -820,6 +847,34 @@ export default function AiAgents() {
                                   <div className="flex justify-start">
                                     <div className="max-w-[80%] bg-muted p-3 rounded-lg">
                                       <p className="text-sm">{entry.response}</p>
+                                      {entry.sources && entry.sources.length > 0 && (
+                                        <div className="mt-2 pt-2 border-t border-border space-y-1">
+                                          <p className="text-xs font-medium text-muted-foreground">Fontes consultadas:</p>
+                                          {entry.sources.map((source, sourceIndex) => (
+                                            <p
+                                              key={sourceIndex}
+                                              className="text-xs text-muted-foreground"
+                                              title={source.excerpt}
+                                            >
+                                              [{sourceIndex + 1}] {source.sourceName} · trecho {source.chunkIndex + 1} · relevância {Math.round(source.score * 100)}%
+                                            </p>
+                                          ))}
+                                        </div>
+                                      )}
+                                      {entry.searchDetection && (
+                                        <div className="mt-2 pt-2 border-t border-border space-y-1">
+                                          <p className="text-xs font-medium text-muted-foreground">
+                                            Busca de imóveis: {entry.searchDetection.isPropertySearch ? "detectada" : "não detectada"}
+                                          </p>
+                                          <p className="text-xs text-muted-foreground">{entry.searchDetection.reason}</p>
+                                          {formatDetectedTerms(entry.searchDetection.message) && (
+                                            <p className="text-xs text-muted-foreground">Mensagem: {formatDetectedTerms(entry.searchDetection.message)}</p>
+                                          )}
+                                          {formatDetectedTerms(entry.searchDetection.history) && (
+                                            <p className="text-xs text-muted-foreground">Histórico: {formatDetectedTerms(entry.searchDetection.history)}</p>
+                                          )}
+                                        </div>
+                                      )}
                                     </div>
                                   </div>
                                 </div>
@@ -883,10 +938,42 @@ export default function AiAgents() {
                   onChange={(e) => setFormData(prev => ({ ...prev, temperatura: e.target.value }))}
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  Modelo: {(aiConfig as any)?.modelo || "gpt-4o"} | Tokens: {(aiConfig as any)?.numeroTokens || 1000}
+                  Tokens: {(aiConfig as any)?.numeroTokens || 1000}
                 </p>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="provider">Provedor de IA</Label>
+                  <Select
+                    value={formData.provider}
+                    onValueChange={(value: "openai" | "local") => setFormData(prev => ({ ...prev, provider: value, modelo: "" }))}
+                  >
+                    <SelectTrigger id="provider" data-testid="select-agent-provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="openai">OpenAI</SelectItem>
+                      <SelectItem value="local" disabled={!(aiConfig as any)?.localEnabled}>
+                        LLM Local {!(aiConfig as any)?.localEnabled && "(não configurado)"}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="modelo">Modelo</Label>
+                  <Input
+                    id="modelo"
+                    value={formData.modelo}
+                    onChange={(e) => setFormData(prev => ({ ...prev, modelo: e.target.value }))}
+                    placeholder={defaultModelFor(formData.provider)}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Deixe em branco para usar o modelo padrão do provedor
+                  </p>
+                </div>
+              </div>
+
               {/* Agent Type Selection */}
               <div>
                 <Label htmlFor="agentType">Tipo de Agente</Label>
@@ -1209,7 +1296,7 @@ export default function AiAgents() {
                             ) : (
                               mainAgentsForLinking.map((agent) => (
                                 <SelectItem key={agent.id} value={agent.id}>
-                                  🤖 {agent.name} - {agent.modelo}
+                                  🤖 {agent.name} - {agent.modelo || defaultModelFor((agent.provider || "openai") as "openai" | "local")}
                                 </SelectItem>
                               ))
                             )}
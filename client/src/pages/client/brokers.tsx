@@ -32,9 +32,17 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Pencil, Trash2, Search, User, AlertCircle } from 'lucide-react';
+import { Plus, Pencil, Trash2, Search, User, AlertCircle, Clock, X } from 'lucide-react';
 import { apiGet, apiPost, apiPut, apiDelete } from '@/lib/api';
+import { DEFAULT_BROKER_WORKING_HOURS, type BrokerWorkingHours } from '@shared/schema';
 
 interface Broker {
   id: string;
@@ -42,10 +50,20 @@ interface Broker {
   name: string;
   email: string | null;
   whatsapp: string | null;
+  workingHours: BrokerWorkingHours | null;
+  visitDurationMinutes: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface BlockedPeriod {
+  id: string;
+  brokerId: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
 interface BrokerLimits {
   currentCount: number;
   limit: number;
@@ -59,6 +77,7 @@ export default function Brokers() {
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [selectedBroker, setSelectedBroker] = useState<Broker | null>(null);
+  const [scheduleBroker, setScheduleBroker] = useState<Broker | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -351,6 +370,14 @@ export default function Brokers() {
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex items-center justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setScheduleBroker(broker)}
+                        title="Agenda e disponibilidade"
+                      >
+                        <Clock className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="icon"
@@ -455,6 +482,225 @@ export default function Brokers() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {scheduleBroker && (
+        <BrokerScheduleDialog broker={scheduleBroker} onClose={() => setScheduleBroker(null)} />
+      )}
     </div>
   );
 }
+
+const WEEKDAYS = [
+  { key: '1', label: 'Segunda' },
+  { key: '2', label: 'Terça' },
+  { key: '3', label: 'Quarta' },
+  { key: '4', label: 'Quinta' },
+  { key: '5', label: 'Sexta' },
+  { key: '6', label: 'Sábado' },
+  { key: '0', label: 'Domingo' },
+] as const;
+
+type WeekdayKey = typeof WEEKDAYS[number]['key'];
+
+const VISIT_DURATIONS = [30, 45, 60, 90, 120];
+
+function BrokerScheduleDialog({ broker, onClose }: { broker: Broker; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [workingHours, setWorkingHours] = useState<BrokerWorkingHours>(
+    broker.workingHours && Object.keys(broker.workingHours).length > 0 ? broker.workingHours : DEFAULT_BROKER_WORKING_HOURS
+  );
+  const [visitDuration, setVisitDuration] = useState(broker.visitDurationMinutes || 60);
+  const [newBlock, setNewBlock] = useState({ startsAt: '', endsAt: '', reason: '' });
+
+  const { data: blockedPeriods = [] } = useQuery<BlockedPeriod[]>({
+    queryKey: ['brokers', broker.id, 'blocked-periods'],
+    queryFn: () => apiGet(`/brokers/${broker.id}/blocked-periods`),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiPut(`/brokers/${broker.id}`, { workingHours, visitDurationMinutes: visitDuration }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['brokers'] });
+      toast({ title: 'Sucesso', description: 'Agenda do corretor atualizada!' });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Erro', description: error.message || 'Erro ao salvar agenda', variant: 'destructive' });
+    }
+  });
+
+  const createBlockMutation = useMutation({
+    mutationFn: () => apiPost(`/brokers/${broker.id}/blocked-periods`, {
+      startsAt: new Date(newBlock.startsAt).toISOString(),
+      endsAt: new Date(newBlock.endsAt).toISOString(),
+      reason: newBlock.reason.trim() || null,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['brokers', broker.id, 'blocked-periods'] });
+      setNewBlock({ startsAt: '', endsAt: '', reason: '' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Erro', description: error.message || 'Erro ao bloquear agenda', variant: 'destructive' });
+    }
+  });
+
+  const deleteBlockMutation = useMutation({
+    mutationFn: (periodId: string) => apiDelete(`/brokers/${broker.id}/blocked-periods/${periodId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['brokers', broker.id, 'blocked-periods'] });
+    }
+  });
+
+  const setDayIntervals = (day: WeekdayKey, intervals: { start: string; end: string }[]) => {
+    setWorkingHours(prev => {
+      const next = { ...prev };
+      if (intervals.length > 0) {
+        next[day] = intervals;
+      } else {
+        delete next[day];
+      }
+      return next;
+    });
+  };
+
+  const invalidInterval = Object.values(workingHours).some(intervals =>
+    (intervals || []).some(interval => !interval.start || !interval.end || interval.start >= interval.end)
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Agenda de {broker.name}</DialogTitle>
+          <DialogDescription>
+            A IA só oferece horários dentro do expediente, fora dos bloqueios e sem outras visitas marcadas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Expediente semanal</Label>
+            {WEEKDAYS.map(({ key, label }) => {
+              const intervals = workingHours[key] || [];
+              return (
+                <div key={key} className="flex items-start gap-3 border rounded-md p-2">
+                  <div className="w-24 pt-2 text-sm font-medium">{label}</div>
+                  <div className="flex-1 space-y-2">
+                    {intervals.length === 0 && (
+                      <p className="text-sm text-muted-foreground pt-2">Sem atendimento</p>
+                    )}
+                    {intervals.map((interval, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          className="w-32"
+                          value={interval.start}
+                          onChange={(e) => setDayIntervals(key, intervals.map((item, i) => i === index ? { ...item, start: e.target.value } : item))}
+                        />
+                        <span className="text-sm text-muted-foreground">até</span>
+                        <Input
+                          type="time"
+                          className="w-32"
+                          value={interval.end}
+                          onChange={(e) => setDayIntervals(key, intervals.map((item, i) => i === index ? { ...item, end: e.target.value } : item))}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDayIntervals(key, intervals.filter((_, i) => i !== index))}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDayIntervals(key, [...intervals, { start: '09:00', end: '18:00' }])}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Duração de cada visita</Label>
+            <Select value={String(visitDuration)} onValueChange={(value) => setVisitDuration(Number(value))}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VISIT_DURATIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} minutos</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Bloqueios de agenda (folgas, férias, compromissos)</Label>
+            {blockedPeriods.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum bloqueio futuro.</p>
+            ) : (
+              blockedPeriods.map(period => (
+                <div key={period.id} className="flex items-center justify-between border rounded-md p-2 text-sm">
+                  <span>
+                    {new Date(period.startsAt).toLocaleString('pt-BR')} até {new Date(period.endsAt).toLocaleString('pt-BR')}
+                    {period.reason && <span className="text-muted-foreground"> · {period.reason}</span>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteBlockMutation.mutate(period.id)}
+                    disabled={deleteBlockMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <Input
+                type="datetime-local"
+                value={newBlock.startsAt}
+                onChange={(e) => setNewBlock(prev => ({ ...prev, startsAt: e.target.value }))}
+              />
+              <Input
+                type="datetime-local"
+                value={newBlock.endsAt}
+                onChange={(e) => setNewBlock(prev => ({ ...prev, endsAt: e.target.value }))}
+              />
+              <Input
+                placeholder="Motivo (opcional)"
+                value={newBlock.reason}
+                onChange={(e) => setNewBlock(prev => ({ ...prev, reason: e.target.value }))}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => createBlockMutation.mutate()}
+              disabled={!newBlock.startsAt || !newBlock.endsAt || createBlockMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Bloquear período
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={invalidInterval || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Salvando...' : 'Salvar agenda'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
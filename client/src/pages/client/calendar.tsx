@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, User, Clock, Phone, Home, MapPin } from 'lucide-react';
+import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, User, Clock, Phone, Home, MapPin, CalendarCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -40,6 +40,19 @@ interface Appointment {
   updatedAt: string;
 }
 
+interface TimeRange {
+  start: string;
+  end: string;
+}
+
+interface BrokerAvailability {
+  brokerId: string | null;
+  brokerName: string | null;
+  visitDurationMinutes: number;
+  freeSlots: TimeRange[];
+  busy: Array<TimeRange & { type: 'appointment' | 'blocked'; label: string | null }>;
+}
+
 const DAYS_OF_WEEK = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sab'];
 const MONTHS = [
   'Janeiro', 'Fevereiro', 'Marco', 'Abril', 'Maio', 'Junho',
@@ -63,6 +76,7 @@ const STATUS_LABELS: Record<string, string> = {
 export default function Calendar() {
   const [selectedBrokerId, setSelectedBrokerId] = useState<string>('all');
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
 
   // Fetch brokers
   const { data: brokers = [], isLoading: isLoadingBrokers } = useQuery<Broker[]>({
@@ -77,9 +91,52 @@ export default function Calendar() {
     queryKey: ['appointments'],
     queryFn: async () => {
       return await apiGet('/appointments');
-    }
+    },
+    refetchInterval: 30000, // Visitas remarcadas/canceladas pelo WhatsApp aparecem sem recarregar a página
+    refetchOnWindowFocus: true,
+  });
+
+  // Fetch availability for the visible month
+  const toDateParam = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  const monthStart = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+  const monthEnd = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+
+  const { data: availability = [] } = useQuery<BrokerAvailability[]>({
+    queryKey: ['brokers-availability', selectedBrokerId, toDateParam(monthStart)],
+    queryFn: async () => {
+      return await apiGet(`/brokers/availability?from=${toDateParam(monthStart)}&to=${toDateParam(monthEnd)}&brokerId=${selectedBrokerId}`);
+    },
+    refetchInterval: 30000,
+    refetchOnWindowFocus: true,
   });
 
+  const isSameDay = (value: string, day: number) => {
+    const date = new Date(value);
+    return date.getDate() === day &&
+      date.getMonth() === currentDate.getMonth() &&
+      date.getFullYear() === currentDate.getFullYear();
+  };
+
+  // Bloqueios de vários dias aparecem em todos os dias que cobrem
+  const overlapsDay = (range: TimeRange, day: number) => {
+    const dayStart = new Date(currentDate.getFullYear(), currentDate.getMonth(), day);
+    const dayEnd = new Date(currentDate.getFullYear(), currentDate.getMonth(), day + 1);
+    return new Date(range.start) < dayEnd && new Date(range.end) > dayStart;
+  };
+
+  // Horários distintos em que pelo menos um corretor está livre
+  const getFreeSlotCountForDay = (day: number) => {
+    const starts = new Set<string>();
+    availability.forEach(agenda => agenda.freeSlots.forEach(slot => {
+      if (isSameDay(slot.start, day)) starts.add(slot.start);
+    }));
+    return starts.size;
+  };
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
   // Filter appointments by selected broker
   const appointments = selectedBrokerId === 'all'
     ? allAppointments
@@ -89,14 +146,17 @@ export default function Calendar() {
 
   // Calendar navigation
   const goToPreviousMonth = () => {
+    setSelectedDay(null);
     setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1));
   };
 
   const goToNextMonth = () => {
+    setSelectedDay(null);
     setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
   };
 
   const goToToday = () => {
+    setSelectedDay(new Date().getDate());
     setCurrentDate(new Date());
   };
 
@@ -249,13 +309,16 @@ export default function Calendar() {
           <div className="grid grid-cols-7 gap-1">
             {days.map((day, index) => {
               const dayAppointments = day ? getAppointmentsForDay(day) : [];
+              const freeSlotCount = day ? getFreeSlotCountForDay(day) : 0;
               return (
                 <div
                   key={index}
+                  onClick={() => day && setSelectedDay(day)}
                   className={`
                     min-h-[100px] p-2 border rounded-lg
-                    ${day === null ? 'bg-muted/30' : 'bg-background'}
+                    ${day === null ? 'bg-muted/30' : 'bg-background cursor-pointer hover:bg-muted/40'}
                     ${day && isToday(day) ? 'border-primary border-2' : 'border-border'}
+                    ${day && day === selectedDay ? 'ring-2 ring-primary/50' : ''}
                   `}
                 >
                   {day && (
@@ -286,6 +349,11 @@ export default function Calendar() {
                           )}
                         </div>
                       )}
+                      {freeSlotCount > 0 && (
+                        <div className="mt-1 text-xs text-green-700 dark:text-green-400">
+                          {freeSlotCount} horário(s) livre(s)
+                        </div>
+                      )}
                     </>
                   )}
                 </div>
@@ -295,6 +363,52 @@ export default function Calendar() {
         </CardContent>
       </Card>
 
+      {/* Availability for the selected day */}
+      {selectedDay && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CalendarCheck className="w-5 h-5" />
+              Disponibilidade em {String(selectedDay).padStart(2, '0')}/{String(currentDate.getMonth() + 1).padStart(2, '0')}/{currentDate.getFullYear()}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {availability.map(agenda => {
+              const freeSlots = agenda.freeSlots.filter(slot => isSameDay(slot.start, selectedDay));
+              const busy = agenda.busy.filter(range => overlapsDay(range, selectedDay));
+              return (
+                <div key={agenda.brokerId || 'company'} className="space-y-2">
+                  <p className="font-medium">
+                    {agenda.brokerName || 'Agenda da empresa'}
+                    <span className="text-sm text-muted-foreground"> · visitas de {agenda.visitDurationMinutes} min</span>
+                  </p>
+                  {freeSlots.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Sem horários livres neste dia</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {freeSlots.map(slot => (
+                        <Badge key={slot.start} variant="outline" className="border-green-500 text-green-700 dark:text-green-400">
+                          {formatTime(slot.start)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {busy.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {busy.map(range => (
+                        <Badge key={`${range.type}-${range.start}`} variant="secondary">
+                          {formatTime(range.start)}–{formatTime(range.end)} · {range.type === 'blocked' ? (range.label || 'Bloqueado') : range.label}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Appointments List */}
       <Card>
         <CardHeader>
@@ -10,8 +10,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { apiGet, apiPut, apiDelete } from "@/lib/api";
-import { FunnelStage, Customer } from "@/types";
+import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api";
+import { FunnelStage, Customer, CustomerActivity, CustomerActivityType, FunnelReport } from "@/types";
+import { LeadPreferencesEditor } from "@/components/lead-preferences-editor";
 
 interface City {
   id: string;
@@ -19,7 +20,9 @@ interface City {
 }
 import {
   Users, MessageCircle, Phone, Calendar,
-  MoreVertical, Edit, Trash2, Filter, Plus, Home, MapPin
+  MoreVertical, Edit, Trash2, Filter, Plus, Home, MapPin,
+  Settings2, ArrowUp, ArrowDown, Archive, RotateCcw, History, BarChart3,
+  ArrowRightLeft, StickyNote, Megaphone, UserCheck, BellRing, BellOff
 } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -39,6 +42,8 @@ export default function ComercialAtendimentos() {
   const [localCustomers, setLocalCustomers] = useState<Customer[]>([]);
   const [isCreatingCustomer, setIsCreatingCustomer] = useState(false);
   const [createStageId, setCreateStageId] = useState<string>("");
+  const [isManagingStages, setIsManagingStages] = useState(false);
+  const [isViewingReport, setIsViewingReport] = useState(false);
   const [editForm, setEditForm] = useState({
     name: "",
     phone: "",
@@ -121,6 +126,7 @@ export default function ComercialAtendimentos() {
       
       // Invalidar a query para refrescar os dados
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers", variables.id, "activities"] });
       
       setEditingCustomer(null);
       resetEditForm();
@@ -472,14 +478,26 @@ export default function ComercialAtendimentos() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold flex items-center gap-2">
-          <Users className="w-6 h-6" />
-          Atendimentos
-        </h1>
-        <p className="text-muted-foreground">
-          Gerencie seus clientes no funil de vendas
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Users className="w-6 h-6" />
+            Atendimentos
+          </h1>
+          <p className="text-muted-foreground">
+            Gerencie seus clientes no funil de vendas
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsViewingReport(true)}>
+            <BarChart3 className="w-4 h-4 mr-2" />
+            Relatório do funil
+          </Button>
+          <Button variant="outline" onClick={() => setIsManagingStages(true)}>
+            <Settings2 className="w-4 h-4 mr-2" />
+            Gerenciar etapas
+          </Button>
+        </div>
       </div>
 
       {/* Kanban Board */}
@@ -798,6 +816,10 @@ export default function ComercialAtendimentos() {
                 {editCustomerMutation.isPending ? "Salvando..." : "Salvar"}
               </Button>
             </div>
+
+            {editingCustomer && <LeadPreferencesEditor phone={editingCustomer.phone} />}
+
+            {editingCustomer && <CustomerTimeline customerId={editingCustomer.id} />}
           </div>
         </DialogContent>
       </Dialog>
@@ -893,6 +915,454 @@ export default function ComercialAtendimentos() {
         </DialogContent>
       </Dialog>
 
+      <FunnelStagesDialog open={isManagingStages} onOpenChange={setIsManagingStages} />
+      <FunnelReportDialog open={isViewingReport} onOpenChange={setIsViewingReport} />
     </div>
   );
+}
+
+const activityIcons: Record<CustomerActivityType, typeof History> = {
+  created: Plus,
+  stage_change: ArrowRightLeft,
+  note: StickyNote,
+  appointment: Calendar,
+  conversation: MessageCircle,
+  broadcast: Megaphone,
+  lead_conversion: UserCheck,
+  property_alert: BellRing,
+  opt_out: BellOff,
+};
+
+const activityLabels: Record<CustomerActivityType, string> = {
+  created: "Cliente criado",
+  stage_change: "Mudança de etapa",
+  note: "Anotação",
+  appointment: "Agendamento",
+  conversation: "Conversa no WhatsApp",
+  broadcast: "Disparo recebido",
+  lead_conversion: "Lead convertido",
+  property_alert: "Alerta de imóvel",
+  opt_out: "Bloqueio de mensagens",
+};
+
+function CustomerTimeline({ customerId }: { customerId: string }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+
+  const { data: activities = [], isLoading } = useQuery<CustomerActivity[]>({
+    queryKey: ["/api/customers", customerId, "activities"],
+    queryFn: () => apiGet(`/customers/${customerId}/activities`),
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: () => apiPost(`/customers/${customerId}/activities`, { description: note.trim() }),
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/customers", customerId, "activities"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro",
+        description: error?.message || "Erro ao registrar anotação",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <Label className="flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Histórico
+      </Label>
+
+      <div className="flex gap-2">
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && note.trim() && addNoteMutation.mutate()}
+          placeholder="Adicionar anotação..."
+        />
+        <Button
+          variant="outline"
+          onClick={() => addNoteMutation.mutate()}
+          disabled={!note.trim() || addNoteMutation.isPending}
+        >
+          Anotar
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando histórico...</p>
+      ) : activities.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma atividade registrada para este cliente.</p>
+      ) : (
+        <div className="space-y-3">
+          {activities.map((activity) => {
+            const Icon = activityIcons[activity.type] || History;
+            return (
+              <div key={activity.id} className="flex gap-3 text-sm">
+                <div className="mt-0.5 rounded-full bg-muted p-1.5 h-fit">
+                  <Icon className="w-3.5 h-3.5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">
+                    {activity.type === "stage_change"
+                      ? `${activity.fromStageName || "Sem etapa"} → ${activity.toStageName || "Etapa removida"}`
+                      : activityLabels[activity.type] || activity.type}
+                  </div>
+                  {activity.description && (
+                    <p className="text-muted-foreground whitespace-pre-wrap break-words">{activity.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(activity.createdAt).toLocaleString("pt-BR")}
+                    {activity.userName ? ` · ${activity.userName}` : ""}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatHours(hours: number | null) {
+  if (hours === null) return "—";
+  if (hours < 24) return `${hours.toLocaleString("pt-BR")} h`;
+  return `${(Math.round((hours / 24) * 10) / 10).toLocaleString("pt-BR")} dias`;
+}
+
+function FunnelReportDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [period, setPeriod] = useState({ from: "", to: "" });
+
+  const { data: report, isLoading } = useQuery<FunnelReport>({
+    queryKey: ["/api/reports/funnel", period],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (period.from) params.set("from", period.from);
+      if (period.to) params.set("to", period.to);
+      return apiGet(`/reports/funnel?${params.toString()}`);
+    },
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Relatório do funil</DialogTitle>
+          <DialogDescription>
+            Tempo médio em cada etapa e conversão, calculados a partir do histórico de movimentações dos clientes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div>
+            <Label htmlFor="report-from">De</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={period.from}
+              onChange={(e) => setPeriod(prev => ({ ...prev, from: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="report-to">Até</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={period.to}
+              onChange={(e) => setPeriod(prev => ({ ...prev, to: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        {isLoading || !report ? (
+          <p className="text-sm text-muted-foreground">Calculando relatório...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">Clientes que entraram no funil</p>
+                  <p className="text-2xl font-bold">{report.cohortSize}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">Leads criados / convertidos</p>
+                  <p className="text-2xl font-bold">{report.leads.created} / {report.leads.converted}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">Conversão de leads</p>
+                  <p className="text-2xl font-bold">{report.leads.conversionRate.toLocaleString("pt-BR")}%</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2">Etapa</th>
+                  <th className="py-2 text-right">Entradas</th>
+                  <th className="py-2 text-right">Alcançaram</th>
+                  <th className="py-2 text-right">Tempo médio</th>
+                  <th className="py-2 text-right">Na etapa agora</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.stages.map(stage => (
+                  <tr key={stage.stageId} className={`border-b ${stage.isActive ? "" : "text-muted-foreground"}`}>
+                    <td className="py-2">
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: stage.color }} />
+                        {stage.name}
+                        {!stage.isActive && <Badge variant="outline">Arquivada</Badge>}
+                      </div>
+                    </td>
+                    <td className="py-2 text-right">{stage.entered}</td>
+                    <td className="py-2 text-right">{stage.reached} ({stage.reachedRate.toLocaleString("pt-BR")}%)</td>
+                    <td className="py-2 text-right">{formatHours(stage.avgHoursInStage)}</td>
+                    <td className="py-2 text-right">
+                      {stage.currentCustomers}
+                      {stage.avgHoursCurrent !== null && (
+                        <span className="text-muted-foreground"> · há {formatHours(stage.avgHoursCurrent)}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FunnelStagesDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [newStage, setNewStage] = useState({ name: "", color: "#3B82F6" });
+  const [archivingStageId, setArchivingStageId] = useState<string | null>(null);
+  const [archiveTargetId, setArchiveTargetId] = useState("");
+
+  const { data: stages = [] } = useQuery<FunnelStage[]>({
+    queryKey: ["/api/funnel-stages", { includeArchived: true }],
+    queryFn: () => apiGet("/funnel-stages?includeArchived=true"),
+    enabled: open,
+  });
+
+  const activeStages = stages.filter(stage => stage.isActive).sort((a, b) => a.order - b.order);
+  const archivedStages = stages.filter(stage => !stage.isActive);
+
+  // A primeira alteração copia o funil global para a empresa e troca a etapa dos clientes
+  const refreshStages = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/funnel-stages"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+  };
+
+  const showError = (error: any, fallback: string) => {
+    toast({
+      title: "Erro",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createStageMutation = useMutation({
+    mutationFn: () => apiPost("/funnel-stages", { name: newStage.name.trim(), color: newStage.color }),
+    onSuccess: () => {
+      refreshStages();
+      setNewStage({ name: "", color: "#3B82F6" });
+    },
+    onError: (error: any) => showError(error, "Erro ao criar etapa"),
+  });
+
+  const updateStageMutation = useMutation({
+    mutationFn: ({ id, ...updates }: { id: string; name?: string; color?: string }) => apiPut(`/funnel-stages/${id}`, updates),
+    onSuccess: () => refreshStages(),
+    onError: (error: any) => showError(error, "Erro ao atualizar etapa"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (stageIds: string[]) => apiPut("/funnel-stages/reorder", { stageIds }),
+    onSuccess: () => refreshStages(),
+    onError: (error: any) => showError(error, "Erro ao reordenar etapas"),
+  });
+
+  const archiveStageMutation = useMutation({
+    mutationFn: ({ id, targetStageId }: { id: string; targetStageId: string }) =>
+      apiPost(`/funnel-stages/${id}/archive`, { targetStageId }),
+    onSuccess: (response: { movedCustomers: number }) => {
+      refreshStages();
+      setArchivingStageId(null);
+      setArchiveTargetId("");
+      toast({
+        title: "Etapa arquivada",
+        description: `${response.movedCustomers} cliente(s) movido(s) para a etapa escolhida.`,
+      });
+    },
+    onError: (error: any) => showError(error, "Erro ao arquivar etapa"),
+  });
+
+  const restoreStageMutation = useMutation({
+    mutationFn: (id: string) => apiPost(`/funnel-stages/${id}/restore`),
+    onSuccess: () => refreshStages(),
+    onError: (error: any) => showError(error, "Erro ao restaurar etapa"),
+  });
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const stageIds = activeStages.map(stage => stage.id);
+    const target = index + direction;
+    if (target < 0 || target >= stageIds.length) return;
+    [stageIds[index], stageIds[target]] = [stageIds[target], stageIds[index]];
+    reorderMutation.mutate(stageIds);
+  };
+
+  const commitStage = (stage: FunnelStage, updates: { name?: string; color?: string }) => {
+    const name = updates.name?.trim();
+    if (updates.name !== undefined && (!name || name === stage.name)) return;
+    if (updates.color !== undefined && updates.color === stage.color) return;
+    updateStageMutation.mutate({ id: stage.id, ...updates, ...(name ? { name } : {}) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Etapas do funil</DialogTitle>
+          <DialogDescription>
+            Renomeie, mude a cor, reordene ou arquive as etapas do funil da sua empresa.
+            Novos contatos do WhatsApp entram sempre na primeira etapa.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {activeStages.map((stage, index) => (
+            <div key={stage.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  key={`${stage.id}-${stage.color}`}
+                  defaultValue={stage.color}
+                  onBlur={(e) => commitStage(stage, { color: e.target.value })}
+                  className="w-9 h-9 rounded border cursor-pointer"
+                  title="Cor da etapa"
+                />
+                <Input
+                  key={`${stage.id}-${stage.name}`}
+                  defaultValue={stage.name}
+                  onBlur={(e) => commitStage(stage, { name: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={index === 0 || reorderMutation.isPending}
+                  onClick={() => moveStage(index, -1)}
+                  title="Mover para cima"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={index === activeStages.length - 1 || reorderMutation.isPending}
+                  onClick={() => moveStage(index, 1)}
+                  title="Mover para baixo"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={activeStages.length <= 1}
+                  onClick={() => {
+                    setArchivingStageId(archivingStageId === stage.id ? null : stage.id);
+                    setArchiveTargetId("");
+                  }}
+                  title="Arquivar etapa"
+                >
+                  <Archive className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {archivingStageId === stage.id && (
+                <div className="flex items-center gap-2 bg-muted/50 rounded p-2">
+                  <span className="text-sm whitespace-nowrap">Mover clientes para</span>
+                  <Select value={archiveTargetId} onValueChange={setArchiveTargetId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a etapa" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeStages.filter(s => s.id !== stage.id).map(s => (
+                        <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={!archiveTargetId || archiveStageMutation.isPending}
+                    onClick={() => archiveStageMutation.mutate({ id: stage.id, targetStageId: archiveTargetId })}
+                  >
+                    {archiveStageMutation.isPending ? "Arquivando..." : "Arquivar"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 pt-2">
+          <input
+            type="color"
+            value={newStage.color}
+            onChange={(e) => setNewStage(prev => ({ ...prev, color: e.target.value }))}
+            className="w-9 h-9 rounded border cursor-pointer"
+            title="Cor da nova etapa"
+          />
+          <Input
+            value={newStage.name}
+            onChange={(e) => setNewStage(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Nome da nova etapa"
+          />
+          <Button
+            onClick={() => createStageMutation.mutate()}
+            disabled={!newStage.name.trim() || createStageMutation.isPending}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Adicionar
+          </Button>
+        </div>
+
+        {archivedStages.length > 0 && (
+          <div className="space-y-2 pt-4">
+            <Label>Etapas arquivadas</Label>
+            {archivedStages.map(stage => (
+              <div key={stage.id} className="flex items-center justify-between border rounded-lg p-2 text-sm text-muted-foreground">
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: stage.color }} />
+                  {stage.name}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={restoreStageMutation.isPending}
+                  onClick={() => restoreStageMutation.mutate(stage.id)}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restaurar
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
 }
\ No newline at end of file
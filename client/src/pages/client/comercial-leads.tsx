@@ -38,6 +38,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Plus, MoreVertical, Edit, Trash2, ArrowRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { LeadPreferencesEditor } from "@/components/lead-preferences-editor";
 import type { Lead, InsertLead, FunnelStage } from "@shared/schema";
 
 interface LeadForm {
@@ -342,7 +343,7 @@ export default function ComercialLeads() {
                   Novo Lead
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>
                     {isEditMode ? "Editar Lead" : "Novo Lead"}
@@ -422,6 +423,8 @@ export default function ComercialLeads() {
                     </Button>
                   </DialogFooter>
                 </form>
+
+                {isEditMode && currentLead && <LeadPreferencesEditor phone={currentLead.phone} />}
               </DialogContent>
             </Dialog>
           </div>
@@ -1,305 +1,791 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { WhatsappInstance } from "@/types";
-import { MessageCircle, Bot, BarChart3, Clock, RefreshCw } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiPost, apiPut } from "@/lib/api";
+import { WhatsappInstance, ConversationAiState, InboxConversation, Message, ConversationNote, InboxAssignees } from "@/types";
+import { MessageCircle, Bot, UserRound, Search, Send, Paperclip, X, Radio, StickyNote, Tag, FileText, MapPin, Contact, Check, CheckCheck, AlertCircle } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { UNDELIVERED_AFTER_MINUTES } from "@shared/schema";
 
-// Helper function to format contact display name
-function formatContactName(chat: any): string {
-  // Priority: pushName > name > formatted phone number
-  if (chat.pushName) return chat.pushName;
-  if (chat.name) return chat.name;
-  
-  // Extract phone number from remoteJid (remove @s.whatsapp.net or @g.us)
-  if (chat.remoteJid) {
-    const phoneNumber = chat.remoteJid.replace(/@[sg]\.(?:whatsapp\.net|us)$/i, '');
-    // Format Brazilian phone numbers
-    if (phoneNumber.startsWith('55')) {
-      const cleaned = phoneNumber.substring(2);
-      if (cleaned.length === 11) {
-        return `+55 ${cleaned.substring(0, 2)} ${cleaned.substring(2, 7)}-${cleaned.substring(7)}`;
+const ALL_INSTANCES = "all";
+const ALL_STATUSES = "all";
+const UNASSIGNED = "none";
+const MAX_MEDIA_BYTES = 16 * 1024 * 1024; // Limite de mídia do WhatsApp
+
+type MediaType = "image" | "audio" | "video";
+
+interface Attachment {
+  base64: string;
+  fileName: string;
+  mediaType: MediaType;
+}
+
+type InboxFilter = "all" | "mine" | "unassigned" | "waiting";
+
+const CONVERSATIONS_PATH = "/api/inbox/conversations";
+const conversationKey = (conversationId: string) => [`${CONVERSATIONS_PATH}/${conversationId}`];
+const messagesKey = (conversationId: string) => [`/api/conversations/${conversationId}/messages`];
+const notesKey = (conversationId: string) => [`/api/conversations/${conversationId}/notes`];
+
+// Listas (com qualquer filtro) e conversas abertas
+const invalidateConversations = () =>
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith(CONVERSATIONS_PATH) });
+
+const FILTER_LABELS: Record<InboxFilter, string> = {
+  all: "Todas",
+  mine: "Minhas",
+  unassigned: "Sem responsável",
+  waiting: "Aguardando resposta",
+};
+
+const STATUS_LABELS: Record<InboxConversation['status'], string> = {
+  open: "Aberta",
+  pending: "Pendente",
+  resolved: "Resolvida",
+};
+
+const STATUS_COLORS: Record<InboxConversation['status'], string> = {
+  open: "bg-blue-100 text-blue-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  resolved: "bg-gray-100 text-gray-600",
+};
+
+const DEFAULT_MIME: Record<string, string> = {
+  image: "image/jpeg",
+  audio: "audio/mpeg",
+  video: "video/mp4",
+};
+
+// Nome do contato ou telefone formatado (+55 11 99999-8888)
+function formatContactName(conversation: InboxConversation): string {
+  if (conversation.contactName) return conversation.contactName;
+
+  const phone = conversation.contactPhone || "";
+  if (phone.startsWith("55") && phone.length === 13) {
+    return `+55 ${phone.substring(2, 4)} ${phone.substring(4, 9)}-${phone.substring(9)}`;
+  }
+  return phone || "Contato Desconhecido";
+}
+
+function formatTime(value?: string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "" : format(date, "HH:mm dd/MM", { locale: ptBR });
+}
+
+// Arquivo salvo no servidor; mensagens antigas ainda trazem o base64
+function mediaSource(message: Message): string | null {
+  if (message.mediaPath) return message.mediaPath;
+  if (!message.mediaBase64) return null;
+  if (message.mediaBase64.startsWith("data:")) return message.mediaBase64;
+  return `data:${DEFAULT_MIME[message.messageType] || "application/octet-stream"};base64,${message.mediaBase64}`;
+}
+
+const AI_STATE_LABELS: Record<ConversationAiState['aiState'], string> = {
+  active: "IA ativa",
+  paused: "IA pausada - corretor atendendo",
+  handed_off: "Cliente pediu um corretor",
+};
+
+const SENDER_LABELS: Record<Message['sender'], string> = {
+  user: "Cliente",
+  ai: "IA",
+  assistant: "IA",
+  agent: "Corretor",
+};
+
+const STREAM_RECONNECT_MS = 5000;
+
+/**
+ * Atualizações ao vivo da caixa de entrada (SSE): mensagens novas entram direto no cache
+ * do react-query, sem recarregar a lista nem a conversa aberta.
+ */
+function useInboxStream(): boolean {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!localStorage.getItem("token")) return;
+
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    // O ticket do stream é de uso único: a cada queda pede outro em vez de deixar o EventSource reconectar sozinho
+    const reconnect = () => {
+      setConnected(false);
+      source?.close();
+      if (!closed) retry = setTimeout(connect, STREAM_RECONNECT_MS);
+    };
+
+    const connect = async () => {
+      try {
+        const { ticket } = await apiPost("/inbox/stream-ticket") as { ticket: string };
+        if (closed) return;
+        source = new EventSource(`/api/inbox/stream?ticket=${encodeURIComponent(ticket)}`);
+      } catch {
+        reconnect();
+        return;
       }
+      source.onopen = () => setConnected(true);
+      source.onerror = reconnect;
+      listenToInbox(source);
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retry);
+      source?.close();
+    };
+  }, []);
+
+  return connected;
+}
+
+// Aplica no cache do react-query os eventos publicados pelo servidor
+function listenToInbox(source: EventSource) {
+  source.addEventListener("message", (event) => {
+    const { conversationId, message } = JSON.parse((event as MessageEvent).data) as { conversationId: string; message: Message };
+    // Mensagem já listada: é uma confirmação de entrega/leitura atualizando os ticks
+    queryClient.setQueryData<Message[]>(messagesKey(conversationId), (current) =>
+      !current ? current
+        : current.some(existing => existing.id === message.id)
+          ? current.map(existing => existing.id === message.id ? message : existing)
+          : [...current, message]
+    );
+  });
+
+  source.addEventListener("note", (event) => {
+    const { conversationId, note } = JSON.parse((event as MessageEvent).data) as { conversationId: string; note: ConversationNote };
+    queryClient.setQueryData<ConversationNote[]>(notesKey(conversationId), (current) =>
+      current && !current.some(existing => existing.id === note.id) ? [...current, note] : current
+    );
+  });
+
+  // A conversa pode entrar ou sair dos filtros da lista: recarrega as listas abertas
+  source.addEventListener("conversation", (event) => {
+    const { conversation } = JSON.parse((event as MessageEvent).data) as { conversation: InboxConversation };
+    queryClient.setQueryData(conversationKey(conversation.id), conversation);
+    invalidateConversations();
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations/ai-state"] });
+  });
+}
+
+// Estado da IA na conversa selecionada, com opção de pausar/retomar manualmente
+function AiStateControl({ instanceId, phone }: { instanceId: string; phone: string }) {
+  const { toast } = useToast();
+
+  const { data: aiState, isLoading } = useQuery<ConversationAiState>({
+    queryKey: ["/api/conversations/ai-state", { instanceId, phone }],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (state: ConversationAiState['aiState']) =>
+      apiPut("/conversations/ai-state", { instanceId, phone, aiState: state }),
+    onSuccess: (_data, state) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations/ai-state"] });
+      toast({
+        title: "Sucesso",
+        description: state === "active" ? "IA retomada nesta conversa" : "IA pausada nesta conversa",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao atualizar estado da IA",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !aiState) return null;
+
+  const isActive = aiState.aiState === "active";
+
+  return (
+    <div className="flex items-center gap-2 ml-auto">
+      <Badge
+        variant="secondary"
+        className={`text-xs ${isActive ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'}`}
+        title={!isActive && aiState.resumeIdleMinutes
+          ? `Volta sozinha após ${aiState.resumeIdleMinutes} min sem resposta do corretor`
+          : undefined}
+      >
+        {isActive ? <Bot className="w-3 h-3 mr-1" /> : <UserRound className="w-3 h-3 mr-1" />}
+        {AI_STATE_LABELS[aiState.aiState]}
+      </Badge>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => updateMutation.mutate(isActive ? "paused" : "active")}
+        disabled={updateMutation.isPending}
+      >
+        {isActive ? "Pausar IA" : "Retomar IA"}
+      </Button>
+    </div>
+  );
+}
+
+// Status, responsável e etiquetas da conversa
+function ConversationControls({ conversation }: { conversation: InboxConversation }) {
+  const { toast } = useToast();
+  const [newTag, setNewTag] = useState("");
+
+  const { data: assignees } = useQuery<InboxAssignees>({
+    queryKey: ["/api/inbox/assignees"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: Partial<Pick<InboxConversation, 'status' | 'assignedUserId' | 'assignedBrokerId' | 'tags'>>) =>
+      apiPut(`/conversations/${conversation.id}`, changes),
+    onSuccess: (updated: InboxConversation) => {
+      queryClient.setQueryData(conversationKey(conversation.id), updated);
+      invalidateConversations();
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao atualizar conversa",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const assigneeValue = conversation.assignedUserId
+    ? `user:${conversation.assignedUserId}`
+    : conversation.assignedBrokerId ? `broker:${conversation.assignedBrokerId}` : UNASSIGNED;
+
+  const handleAssign = (value: string) => {
+    const [kind, id] = value.split(":");
+    updateMutation.mutate({
+      assignedUserId: kind === "user" ? id : null,
+      assignedBrokerId: kind === "broker" ? id : null,
+    });
+  };
+
+  const tags = conversation.tags || [];
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (!tag) return;
+    if (!tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      updateMutation.mutate({ tags: [...tags, tag] });
     }
-    return phoneNumber;
+    setNewTag("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={conversation.status} onValueChange={(status) => updateMutation.mutate({ status: status as InboxConversation['status'] })}>
+        <SelectTrigger className="w-36 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(STATUS_LABELS).map(([status, label]) => (
+            <SelectItem key={status} value={status}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={assigneeValue} onValueChange={handleAssign}>
+        <SelectTrigger className="w-48 h-8">
+          <SelectValue placeholder="Responsável" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+          {assignees?.users.map(user => (
+            <SelectItem key={user.id} value={`user:${user.id}`}>{user.name}</SelectItem>
+          ))}
+          {assignees?.brokers.map(broker => (
+            <SelectItem key={broker.id} value={`broker:${broker.id}`}>{broker.name} (corretor)</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {tags.map(tag => (
+        <Badge key={tag} variant="outline" className="text-xs gap-1">
+          <Tag className="w-3 h-3" />
+          {tag}
+          <button
+            type="button"
+            onClick={() => updateMutation.mutate({ tags: tags.filter(existing => existing !== tag) })}
+            className="hover:text-destructive"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+      <Input
+        value={newTag}
+        onChange={(e) => setNewTag(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            addTag();
+          }
+        }}
+        placeholder="+ etiqueta"
+        className="w-28 h-8 text-xs"
+      />
+    </div>
+  );
+}
+
+function NoteBubble({ note }: { note: ConversationNote }) {
+  return (
+    <div className="flex justify-center">
+      <div className="max-w-[85%] rounded-lg border border-yellow-300 bg-yellow-50 p-3 space-y-1">
+        <div className="flex items-center justify-between gap-4 text-xs text-yellow-900">
+          <span className="flex items-center gap-1 font-medium">
+            <StickyNote className="w-3 h-3" />
+            Nota interna
+          </span>
+          <span>{formatTime(note.createdAt)}</span>
+        </div>
+        <p className="text-sm whitespace-pre-wrap break-words text-yellow-950">{note.content}</p>
+      </div>
+    </div>
+  );
+}
+
+// Confirmações do WhatsApp: ✓ enviada, ✓✓ entregue, ✓✓ azul lida. Sem entrega depois do prazo, o número
+// da instância pode estar banido ou restrito
+function DeliveryTicks({ message }: { message: Message }) {
+  const status = message.deliveryStatus;
+  if (!status) return null;
+
+  const undelivered = status === "sent" &&
+    Date.now() - new Date(message.createdAt).getTime() > UNDELIVERED_AFTER_MINUTES * 60 * 1000;
+  if (status === "failed" || undelivered) {
+    return (
+      <span className="flex items-center gap-1 font-medium text-destructive">
+        <AlertCircle className="w-3 h-3" />
+        {status === "failed" ? "Falhou" : "Não entregue"}
+      </span>
+    );
   }
-  
-  return 'Contato Desconhecido';
+
+  if (status === "read") {
+    return (
+      <span title={`Lida ${formatTime(message.readAt)}`}>
+        <CheckCheck className="w-4 h-4 text-blue-500" />
+      </span>
+    );
+  }
+  return (
+    <span title={status === "delivered" ? `Entregue ${formatTime(message.deliveredAt)}` : "Enviada"}>
+      {status === "delivered" ? <CheckCheck className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+    </span>
+  );
 }
 
-// Component for Real-time Conversations
-function RealTimeConversations() {
-  const [selectedInstanceId, setSelectedInstanceId] = useState<string>("");
-  const [selectedChatId, setSelectedChatId] = useState<string>("");
-  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+function MessageBubble({ message }: { message: Message }) {
+  const isClient = message.sender === "user";
+  const source = mediaSource(message);
+  const location = message.metadata?.location;
+  const contacts = message.metadata?.contacts;
+  const text = source || location || contacts ? message.caption : message.content;
 
-  const { data: instances = [] } = useQuery<WhatsappInstance[]>({
-    queryKey: ["/api/whatsapp-instances"],
+  return (
+    <div className={`flex ${isClient ? 'justify-start' : 'justify-end'}`}>
+      <div className={`max-w-[75%] rounded-lg p-3 space-y-2 ${
+        isClient ? 'bg-muted' : message.sender === 'agent' ? 'bg-blue-100 text-blue-950' : 'bg-green-100 text-green-950'
+      }`}>
+        <div className="flex items-center justify-between gap-4 text-xs">
+          <span className="font-medium">{SENDER_LABELS[message.sender] || message.sender}</span>
+          <span className="flex items-center gap-1 text-muted-foreground">
+            {formatTime(message.createdAt)}
+            <DeliveryTicks message={message} />
+          </span>
+        </div>
+        {source && message.messageType === "image" && (
+          <img src={source} alt={message.caption || "Imagem"} className="max-h-64 rounded-md" />
+        )}
+        {source && message.messageType === "audio" && <audio controls src={source} className="max-w-full" />}
+        {source && message.messageType === "video" && <video controls src={source} className="max-h-64 rounded-md" />}
+        {source && message.messageType === "sticker" && <img src={source} alt="Figurinha" className="h-32 w-32 object-contain" />}
+        {message.messageType === "document" && (
+          <div className="flex items-center gap-2 text-sm">
+            <FileText className="w-4 h-4 shrink-0" />
+            {source
+              ? <a href={source} target="_blank" rel="noopener noreferrer" className="underline break-all">{message.fileName || "Documento"}</a>
+              : <span className="break-all">{message.fileName || message.content}</span>}
+            {message.extractedText && <Badge variant="outline" className="shrink-0">Lido pela IA</Badge>}
+          </div>
+        )}
+        {location && (
+          <a
+            href={`https://maps.google.com/?q=${location.latitude},${location.longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-start gap-2 text-sm underline"
+          >
+            <MapPin className="w-4 h-4 shrink-0 mt-0.5" />
+            <span>{[location.name, location.address].filter(Boolean).join(" - ") || `${location.latitude}, ${location.longitude}`}</span>
+          </a>
+        )}
+        {contacts?.map((contact, index) => (
+          <div key={index} className="flex items-start gap-2 text-sm">
+            <Contact className="w-4 h-4 shrink-0 mt-0.5" />
+            <div>
+              <p className="font-medium">{contact.name}</p>
+              {contact.phones.map(phone => <p key={phone} className="text-xs">{phone}</p>)}
+            </div>
+          </div>
+        ))}
+        {text && <p className="text-sm whitespace-pre-wrap break-words">{text}</p>}
+      </div>
+    </div>
+  );
+}
+
+// Conversa aberta: histórico gravado no banco e resposta pelo WhatsApp da instância
+function ConversationThread({ conversation }: { conversation: InboxConversation }) {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [attachment, setAttachment] = useState<Attachment | null>(null);
+  const [isNote, setIsNote] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: messages = [], isLoading } = useQuery<Message[]>({
+    queryKey: messagesKey(conversation.id),
   });
 
-  // Get selected instance details
-  const selectedInstance = instances.find(inst => inst.id === selectedInstanceId);
-  
-  // Fetch conversations from Evolution API - using instanceId (not evolutionInstanceId) for the API route
-  const { data: evolutionChatsRaw, isLoading: chatsLoading, error: chatsError, refetch: refetchChats } = useQuery<any>({
-    queryKey: [`/api/conversations/evolution/${selectedInstanceId}`],
-    enabled: !!selectedInstanceId,
-    retry: 2,
+  const { data: notes = [] } = useQuery<ConversationNote[]>({
+    queryKey: notesKey(conversation.id),
   });
 
-  // Ensure evolutionChats is always an array
-  const evolutionChats = Array.isArray(evolutionChatsRaw) ? evolutionChatsRaw : [];
+  // Mensagens e notas internas na ordem em que aconteceram
+  const timeline = [
+    ...messages.map(message => ({ kind: "message" as const, at: message.createdAt, message })),
+    ...notes.map(note => ({ kind: "note" as const, at: note.createdAt, note })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [timeline.length, conversation.id]);
 
-  // Fetch messages from specific chat - using instanceId for the API route
-  const { data: chatMessagesRaw, isLoading: messagesLoading, refetch: refetchMessages } = useQuery<any>({
-    queryKey: [`/api/conversations/evolution/${selectedInstanceId}/${selectedChatId}/messages`],
-    enabled: !!selectedInstanceId && !!selectedChatId,
+  useEffect(() => {
+    setText("");
+    setAttachment(null);
+    setIsNote(false);
+  }, [conversation.id]);
+
+  const sendMutation = useMutation({
+    mutationFn: () => apiPost(`/conversations/${conversation.id}/messages`, {
+      content: text.trim() || undefined,
+      media: attachment || undefined,
+    }),
+    onSuccess: (sent: Message[]) => {
+      queryClient.setQueryData<Message[]>(messagesKey(conversation.id), (current = []) =>
+        [...current, ...sent.filter(message => !current.some(existing => existing.id === message.id))]
+      );
+      invalidateConversations();
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations/ai-state"] });
+      setText("");
+      setAttachment(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao enviar mensagem",
+        variant: "destructive",
+      });
+    },
   });
 
-  // Ensure chatMessages is always an array
-  const chatMessages = Array.isArray(chatMessagesRaw) ? chatMessagesRaw : [];
-
-  // Refresh function with loading state
-  const handleRefresh = async () => {
-    setIsRefreshing(true);
-    try {
-      // Refresh chats
-      await refetchChats();
-      
-      // If a chat is selected, refresh its messages too
-      if (selectedChatId) {
-        await refetchMessages();
-      }
-      
-      // Optional: Show success feedback
-      console.log("✅ Conversas atualizadas com sucesso!");
-    } catch (error) {
-      console.error("❌ Erro ao atualizar conversas:", error);
-    } finally {
-      setIsRefreshing(false);
+  const noteMutation = useMutation({
+    mutationFn: () => apiPost(`/conversations/${conversation.id}/notes`, { content: text.trim() }),
+    onSuccess: (note: ConversationNote) => {
+      queryClient.setQueryData<ConversationNote[]>(notesKey(conversation.id), (current = []) =>
+        current.some(existing => existing.id === note.id) ? current : [...current, note]
+      );
+      setText("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao salvar nota",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+
+    const mediaType = file.type.split("/")[0] as MediaType;
+    if (!["image", "audio", "video"].includes(mediaType)) {
+      toast({ title: "Erro", description: "Envie uma imagem, áudio ou vídeo", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_MEDIA_BYTES) {
+      toast({ title: "Erro", description: "O arquivo deve ter no máximo 16 MB", variant: "destructive" });
+      return;
     }
+
+    const reader = new FileReader();
+    reader.onload = () => setAttachment({ base64: reader.result as string, fileName: file.name, mediaType });
+    reader.readAsDataURL(file);
   };
 
+  const isPending = sendMutation.isPending || noteMutation.isPending;
+  const canSend = (isNote ? !!text.trim() : !!text.trim() || !!attachment) && !isPending;
+  const submit = () => (isNote ? noteMutation.mutate() : sendMutation.mutate());
+
   return (
-    <div className="space-y-6">
-      {/* Controls */}
+    <Card className="flex flex-col lg:col-span-2">
+      <CardHeader className="border-b">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <div>
+            <p>{formatContactName(conversation)}</p>
+            <p className="text-xs font-normal text-muted-foreground">
+              {conversation.contactPhone} · {conversation.instanceName}
+            </p>
+          </div>
+          <AiStateControl instanceId={conversation.whatsappInstanceId} phone={conversation.contactPhone} />
+        </CardTitle>
+        <ConversationControls conversation={conversation} />
+      </CardHeader>
+      <CardContent className="flex-1 space-y-3 overflow-y-auto py-4 max-h-[55vh] min-h-[40vh]">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Carregando mensagens...</p>
+        ) : timeline.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nenhuma mensagem nesta conversa</p>
+        ) : (
+          timeline.map(item => item.kind === "message"
+            ? <MessageBubble key={item.message.id} message={item.message} />
+            : <NoteBubble key={item.note.id} note={item.note} />)
+        )}
+        <div ref={bottomRef} />
+      </CardContent>
+      <div className={`border-t p-4 space-y-2 ${isNote ? 'bg-yellow-50' : ''}`}>
+        <div className="flex gap-2">
+          <Button size="sm" variant={isNote ? "ghost" : "secondary"} onClick={() => setIsNote(false)}>
+            <Send className="w-3 h-3 mr-1" />
+            Responder
+          </Button>
+          <Button size="sm" variant={isNote ? "secondary" : "ghost"} onClick={() => setIsNote(true)}>
+            <StickyNote className="w-3 h-3 mr-1" />
+            Nota interna
+          </Button>
+        </div>
+        {!isNote && attachment && (
+          <div className="flex items-center gap-2 text-sm">
+            <Paperclip className="w-4 h-4" />
+            <span className="truncate">{attachment.fileName}</span>
+            <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setAttachment(null)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,audio/*,video/*"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+          {!isNote && (
+            <Button variant="outline" size="icon" onClick={() => fileInputRef.current?.click()} title="Anexar arquivo">
+              <Paperclip className="w-4 h-4" />
+            </Button>
+          )}
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={isNote
+              ? "Nota visível só para a equipe, nunca enviada ao cliente..."
+              : "Digite uma resposta... (Enter envia, Shift+Enter quebra a linha)"}
+            rows={2}
+            className="flex-1 resize-none bg-background"
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                if (canSend) submit();
+              }
+            }}
+          />
+          <Button onClick={submit} disabled={!canSend}>
+            {isNote ? <StickyNote className="w-4 h-4 mr-1" /> : <Send className="w-4 h-4 mr-1" />}
+            {isPending ? "Salvando..." : isNote ? "Salvar nota" : "Enviar"}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * Caixa de entrada unificada: conversas de todos os números da empresa, lidas do banco
+ * e atualizadas ao vivo. As respostas saem pelo WhatsApp e pausam a IA na conversa.
+ */
+export default function Conversations() {
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [instanceFilter, setInstanceFilter] = useState<string>(ALL_INSTANCES);
+  const [inboxFilter, setInboxFilter] = useState<InboxFilter>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("open");
+  const [searchTerm, setSearchTerm] = useState("");
+  const connected = useInboxStream();
+
+  const { data: instances = [] } = useQuery<WhatsappInstance[]>({
+    queryKey: ["/api/whatsapp-instances"],
+  });
+
+  const { data: conversations = [], isLoading } = useQuery<InboxConversation[]>({
+    queryKey: [CONVERSATIONS_PATH, {
+      filter: inboxFilter,
+      status: statusFilter === ALL_STATUSES ? undefined : statusFilter,
+    }],
+  });
+
+  // Buscada à parte para continuar aberta mesmo quando sai dos filtros (ex.: ao resolver)
+  const { data: selected } = useQuery<InboxConversation>({
+    queryKey: conversationKey(selectedId),
+    enabled: !!selectedId,
+  });
+
+  const term = searchTerm.toLowerCase();
+  const termDigits = searchTerm.replace(/\D/g, "");
+  const filteredConversations = conversations.filter(conversation =>
+    (instanceFilter === ALL_INSTANCES || conversation.whatsappInstanceId === instanceFilter) &&
+    (!term ||
+      (conversation.contactName || "").toLowerCase().includes(term) ||
+      (termDigits !== "" && conversation.contactPhone.includes(termDigits)))
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <MessageCircle className="w-5 h-5" />
-              Conversas da Evolution API
-            </div>
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={handleRefresh}
-              disabled={isRefreshing || !selectedInstanceId}
+        <CardHeader className="space-y-3">
+          <CardTitle className="flex items-center gap-2">
+            <MessageCircle className="w-5 h-5" />
+            Conversas
+            <Badge
+              variant="secondary"
+              className={`ml-auto text-xs ${connected ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
             >
-              <RefreshCw className={`w-4 h-4 mr-1 ${isRefreshing ? 'animate-spin' : ''}`} />
-              {isRefreshing ? 'Atualizando...' : 'Atualizar'}
-            </Button>
+              <Radio className="w-3 h-3 mr-1" />
+              {connected ? "Ao vivo" : "Reconectando..."}
+            </Badge>
           </CardTitle>
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(FILTER_LABELS) as InboxFilter[]).map(filter => (
+              <Button
+                key={filter}
+                size="sm"
+                variant={inboxFilter === filter ? "secondary" : "ghost"}
+                onClick={() => setInboxFilter(filter)}
+              >
+                {FILTER_LABELS[filter]}
+              </Button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Abertas</SelectItem>
+                <SelectItem value="pending">Pendentes</SelectItem>
+                <SelectItem value="resolved">Resolvidas</SelectItem>
+                <SelectItem value={ALL_STATUSES}>Todos os status</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={instanceFilter} onValueChange={setInstanceFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_INSTANCES}>Todas as instâncias</SelectItem>
+                {instances.map((instance) => (
+                  <SelectItem key={instance.id} value={instance.id}>
+                    {instance.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Buscar por nome ou telefone..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
         </CardHeader>
-      </Card>
-
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Instance Selector & Conversations */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MessageCircle className="w-5 h-5" />
-              Selecionar Conversa
-              {(chatsLoading || isRefreshing) && <RefreshCw className="w-4 h-4 animate-spin" />}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <label className="text-sm font-medium mb-2 block">Instância do WhatsApp</label>
-              <Select value={selectedInstanceId} onValueChange={(value) => {
-                setSelectedInstanceId(value);
-                setSelectedChatId(""); // Reset chat selection
-              }}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Selecione uma instância..." />
-                </SelectTrigger>
-                <SelectContent>
-                  {instances.map((instance) => (
-                    <SelectItem key={instance.id} value={instance.id}>
-                      {instance.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            
-            {selectedInstanceId && (
-              <div>
-                <label className="text-sm font-medium mb-2 block">
-                  Conversas da Evolution API {chatsLoading && "(Carregando...)"}
-                </label>
-                {chatsError ? (
-                  <div className="p-4 border border-red-200 rounded-lg bg-red-50">
-                    <p className="text-sm text-red-800 font-medium">Erro ao carregar conversas:</p>
-                    <p className="text-sm text-red-600 mt-1">
-                      {chatsError?.message || "Erro desconhecido"}
-                    </p>
-                    <Button 
-                      size="sm" 
-                      variant="outline" 
-                      className="mt-2"
-                      onClick={() => refetchChats()}
-                    >
-                      Tentar Novamente
-                    </Button>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Carregando conversas...</p>
+          ) : filteredConversations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma conversa encontrada</p>
+          ) : (
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {filteredConversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  onClick={() => setSelectedId(conversation.id)}
+                  className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                    selectedId === conversation.id ? 'bg-primary/10 border-primary' : 'hover:bg-muted'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium truncate">{formatContactName(conversation)}</p>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {formatTime(conversation.lastMessageAt || conversation.createdAt)}
+                    </span>
                   </div>
-                ) : evolutionChats.length === 0 && !chatsLoading ? (
-                  <p className="text-sm text-muted-foreground">Nenhuma conversa encontrada</p>
-                ) : (
-                  <div className={`space-y-2 max-h-60 overflow-y-auto ${isRefreshing ? 'opacity-60' : ''}`}>
-                    {evolutionChats.map((chat: any) => (
-                      <div
-                        key={chat.id || chat.remoteJid}
-                        onClick={() => setSelectedChatId(chat.remoteJid || chat.id)}
-                        className={`p-3 rounded-lg border cursor-pointer transition-colors ${
-                          selectedChatId === (chat.remoteJid || chat.id) 
-                            ? 'bg-primary/10 border-primary' 
-                            : 'hover:bg-muted'
-                        }`}
-                      >
-                        <div className="flex items-center space-x-3">
-                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          <div className="flex-1">
-                            <p className="font-medium">
-                              {formatContactName(chat)}
-                            </p>
-                            <p className="text-xs text-muted-foreground">
-                              {chat.lastMessage?.text || "Clique para ver mensagens"}
-                            </p>
-                          </div>
-                          {chat.unreadCount > 0 && (
-                            <Badge variant="destructive" className="text-xs">
-                              {chat.unreadCount}
-                            </Badge>
-                          )}
-                        </div>
-                      </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {conversation.lastMessage || "Sem mensagens"}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                    <Badge variant="secondary" className={`text-xs ${STATUS_COLORS[conversation.status]}`}>
+                      {STATUS_LABELS[conversation.status]}
+                    </Badge>
+                    <Badge variant="outline" className="text-xs">{conversation.instanceName}</Badge>
+                    {(conversation.tags || []).map(tag => (
+                      <Badge key={tag} variant="outline" className="text-xs">
+                        <Tag className="w-3 h-3 mr-1" />
+                        {tag}
+                      </Badge>
                     ))}
+                    {conversation.aiState && conversation.aiState !== "active" && (
+                      <Badge variant="secondary" className="text-xs bg-orange-100 text-orange-800">
+                        <UserRound className="w-3 h-3 mr-1" />
+                        {conversation.aiState === "handed_off" ? "Pediu corretor" : "Corretor"}
+                      </Badge>
+                    )}
                   </div>
-                )}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
 
-        {/* Messages from Evolution API */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Clock className="w-5 h-5" />
-              Mensagens da Conversa
-              {(messagesLoading || (isRefreshing && selectedChatId)) && <RefreshCw className="w-4 h-4 animate-spin" />}
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {!selectedChatId ? (
-              <div className="text-center py-8">
-                <MessageCircle className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
-                <p className="text-muted-foreground">Selecione uma conversa para ver as mensagens</p>
-              </div>
-            ) : chatMessages.length === 0 && !messagesLoading ? (
-              <div className="text-center py-8">
-                <MessageCircle className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
-                <p className="text-muted-foreground">Nenhuma mensagem encontrada</p>
-              </div>
-            ) : (
-              <div className={`space-y-3 max-h-96 overflow-y-auto ${isRefreshing && selectedChatId ? 'opacity-60' : ''}`}>
-                {chatMessages.map((message: any, index: number) => (
-                  <div key={message.id || index} className="border rounded-lg p-3">
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex items-center space-x-2">
-                        <div className={`w-3 h-3 rounded-full ${
-                          message.fromMe ? 'bg-green-500' : 'bg-blue-500'
-                        }`}></div>
-                        <span className="text-sm font-medium">
-                          {message.fromMe ? 'Bot/Agente' : 'Cliente'}
-                        </span>
-                        {message.fromMe && (
-                          <Badge variant="secondary" className="text-xs bg-purple-100 text-purple-800">
-                            Evolution API
-                          </Badge>
-                        )}
-                      </div>
-                      <span className="text-xs text-muted-foreground">
-                        {(() => {
-                          try {
-                            const timestamp = message.messageTimestamp || message.timestamp;
-                            if (!timestamp) return '--:--';
-                            const date = new Date(timestamp * 1000); // Evolution API uses Unix timestamp
-                            return isNaN(date.getTime()) ? '--:--' : format(date, "HH:mm dd/MM", { locale: ptBR });
-                          } catch {
-                            return '--:--';
-                          }
-                        })()}
-                      </span>
-                    </div>
-                    <div className="space-y-2">
-                      {/* Handle different message types */}
-                      {message.message?.imageMessage && (
-                        <div className="space-y-1">
-                          <div className="w-48 h-32 bg-muted rounded-lg flex items-center justify-center">
-                            <MessageCircle className="w-8 h-8 text-muted-foreground" />
-                            <p className="text-xs text-muted-foreground ml-2">Imagem</p>
-                          </div>
-                          {message.message.imageMessage.caption && (
-                            <p className="text-xs text-muted-foreground italic">
-                              Legenda: {message.message.imageMessage.caption}
-                            </p>
-                          )}
-                        </div>
-                      )}
-                      {message.message?.audioMessage && (
-                        <div className="flex items-center gap-2 p-2 bg-muted rounded-lg">
-                          <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
-                            <div className="w-2 h-2 bg-white rounded-full"></div>
-                          </div>
-                          <span className="text-sm">Mensagem de áudio</span>
-                        </div>
-                      )}
-                      {message.message?.conversation && (
-                        <p className="text-sm">{message.message.conversation}</p>
-                      )}
-                      {message.message?.extendedTextMessage?.text && (
-                        <p className="text-sm">{message.message.extendedTextMessage.text}</p>
-                      )}
-                      {/* Fallback for text content */}
-                      {!message.message?.conversation && 
-                       !message.message?.extendedTextMessage?.text && 
-                       !message.message?.imageMessage && 
-                       !message.message?.audioMessage && 
-                       message.text && (
-                        <p className="text-sm">{message.text}</p>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
+      {selected ? (
+        <ConversationThread conversation={selected} />
+      ) : (
+        <Card className="lg:col-span-2">
+          <CardContent className="text-center py-16">
+            <MessageCircle className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
+            <p className="text-muted-foreground">Selecione uma conversa para ver as mensagens</p>
           </CardContent>
         </Card>
-      </div>
-    </div>
-  );
-}
-
-export default function Conversations() {
-  return (
-    <div className="space-y-6">
-      <RealTimeConversations />
+      )}
     </div>
   );
 }
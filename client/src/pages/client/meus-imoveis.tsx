@@ -1,5 +1,5 @@
 import { useState, useRef } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,7 +14,7 @@ import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import * as Icons from "lucide-react";
-import { Home, Plus, MoreVertical, Edit, Power, MapPin, Car, Bath, Bed, Search, Upload, X, Image as ImageIcon, FileSpreadsheet, Download, AlertCircle, CheckCircle2, Loader2, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from "lucide-react";
+import { Home, Plus, MoreVertical, Edit, Power, MapPin, Car, Bath, Bed, Search, Upload, X, Image as ImageIcon, FileSpreadsheet, Download, AlertCircle, CheckCircle2, Loader2, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, BellRing } from "lucide-react";
 import * as XLSX from "xlsx";
 
 interface Property {
@@ -46,6 +46,20 @@ interface Property {
   updatedAt: string;
 }
 
+interface PropertyAlert {
+  id: string;
+  reason: "new_property" | "price_drop";
+  price: string | null;
+  previousPrice: string | null;
+  name: string;
+  phone: string;
+  matchedCriteria: string[] | null;
+  status: "pending" | "sending" | "sent" | "failed" | "skipped";
+  statusReason: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
 interface City {
   id: string;
   companyId: string;
@@ -170,9 +184,13 @@ const brazilianStates = [
 export default function MeusImoveis() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingProperty, setEditingProperty] = useState<Property | null>(null);
+  const [alertsProperty, setAlertsProperty] = useState<Property | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterTransactionType, setFilterTransactionType] = useState<string>("all");
   const [filterPropertyType, setFilterPropertyType] = useState<string>("all");
+  const [filterCity, setFilterCity] = useState<string>("all");
+  const [filterMinBedrooms, setFilterMinBedrooms] = useState<string>("all");
+  const [sortBy, setSortBy] = useState<string>("recent");
   const [uploadingImages, setUploadingImages] = useState(false);
 
   // Pagination states
@@ -213,11 +231,23 @@ export default function MeusImoveis() {
     price: ""
   });
 
-  // Fetch properties
-  const { data: properties = [], isLoading, error } = useQuery<Property[]>({
-    queryKey: ["/api/properties"],
+  // Fetch properties (filtros, ordenação e paginação feitos no servidor)
+  const searchParams = new URLSearchParams({
+    status: "all",
+    sortBy,
+    limit: String(itemsPerPage),
+    offset: String((currentPage - 1) * itemsPerPage),
+  });
+  if (searchTerm.trim()) searchParams.set("text", searchTerm.trim());
+  if (filterTransactionType !== "all") searchParams.set("transactionType", filterTransactionType);
+  if (filterPropertyType !== "all") searchParams.set("propertyType", filterPropertyType);
+  if (filterCity !== "all") searchParams.set("city", filterCity);
+  if (filterMinBedrooms !== "all") searchParams.set("minBedrooms", filterMinBedrooms);
+
+  const { data: searchResult, isLoading, error } = useQuery<{ properties: Property[]; total: number }>({
+    queryKey: ["/api/properties", "search", searchParams.toString()],
     queryFn: async () => {
-      const response = await fetch("/api/properties", {
+      const response = await fetch(`/api/properties/search?${searchParams.toString()}`, {
         headers: {
           Authorization: `Bearer ${localStorage.getItem("token")}`
         }
@@ -227,10 +257,12 @@ export default function MeusImoveis() {
         throw new Error('Failed to fetch properties');
       }
 
-      const data = await response.json();
-      return Array.isArray(data) ? data : [];
+      return response.json();
     },
+    placeholderData: keepPreviousData,
   });
+  const properties = searchResult?.properties || [];
+  const totalProperties = searchResult?.total || 0;
 
   // Fetch cities
   const { data: cities = [], isLoading: isLoadingCities, error: citiesError } = useQuery<City[]>({
@@ -274,42 +306,23 @@ export default function MeusImoveis() {
     staleTime: 5 * 60 * 1000, // Consider data stale after 5 minutes
   });
 
-  // Filter properties based on search term and filters
-  const filteredProperties = properties.filter((property) => {
-    // Filter by search term
-    if (searchTerm) {
-      const searchLower = searchTerm.toLowerCase().trim();
-      if (!property.name.toLowerCase().includes(searchLower) &&
-          !property.code.toLowerCase().includes(searchLower)) {
-        return false;
-      }
-    }
-
-    // Filter by transaction type
-    if (filterTransactionType !== "all" && property.transactionType !== filterTransactionType) {
-      return false;
-    }
-
-    // Filter by property type
-    if (filterPropertyType !== "all" && property.propertyType !== filterPropertyType) {
-      return false;
-    }
-
-    return true;
-  });
+  const hasFilters = Boolean(searchTerm) || filterTransactionType !== "all" || filterPropertyType !== "all" ||
+    filterCity !== "all" || filterMinBedrooms !== "all";
 
   // Pagination calculations
-  const totalPages = Math.ceil(filteredProperties.length / itemsPerPage);
+  const totalPages = Math.ceil(totalProperties / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedProperties = filteredProperties.slice(startIndex, endIndex);
+  const endIndex = startIndex + properties.length;
 
   // Reset page when filters change
-  const handleFilterChange = (type: 'search' | 'transaction' | 'property', value: string) => {
+  const handleFilterChange = (type: 'search' | 'transaction' | 'property' | 'city' | 'bedrooms' | 'sort', value: string) => {
     setCurrentPage(1);
     if (type === 'search') setSearchTerm(value);
     if (type === 'transaction') setFilterTransactionType(value);
     if (type === 'property') setFilterPropertyType(value);
+    if (type === 'city') setFilterCity(value);
+    if (type === 'bedrooms') setFilterMinBedrooms(value);
+    if (type === 'sort') setSortBy(value);
   };
 
   // Create property mutation
@@ -1539,7 +1552,55 @@ export default function MeusImoveis() {
           </Select>
         </div>
 
-        {(searchTerm || filterTransactionType !== "all" || filterPropertyType !== "all") && (
+        {/* City Filter */}
+        <div className="w-full sm:w-44">
+          <Select value={filterCity} onValueChange={(value) => handleFilterChange('city', value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Cidade" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as Cidades</SelectItem>
+              {cities.map((city) => (
+                <SelectItem key={city.id} value={city.name}>{city.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Bedrooms Filter */}
+        <div className="w-full sm:w-36">
+          <Select value={filterMinBedrooms} onValueChange={(value) => handleFilterChange('bedrooms', value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Quartos" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Quartos</SelectItem>
+              <SelectItem value="1">1+ quarto</SelectItem>
+              <SelectItem value="2">2+ quartos</SelectItem>
+              <SelectItem value="3">3+ quartos</SelectItem>
+              <SelectItem value="4">4+ quartos</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Sort */}
+        <div className="w-full sm:w-44">
+          <Select value={sortBy} onValueChange={(value) => handleFilterChange('sort', value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Ordenar" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="recent">Mais recentes</SelectItem>
+              <SelectItem value="price_asc">Menor preço</SelectItem>
+              <SelectItem value="price_desc">Maior preço</SelectItem>
+              <SelectItem value="area_desc">Maior área</SelectItem>
+              <SelectItem value="area_asc">Menor área</SelectItem>
+              <SelectItem value="bedrooms_desc">Mais quartos</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {hasFilters && (
           <Button
             variant="outline"
             size="sm"
@@ -1548,6 +1609,8 @@ export default function MeusImoveis() {
               setSearchTerm("");
               setFilterTransactionType("all");
               setFilterPropertyType("all");
+              setFilterCity("all");
+              setFilterMinBedrooms("all");
             }}
           >
             Limpar Filtros
@@ -1561,14 +1624,7 @@ export default function MeusImoveis() {
             <CardTitle>Lista de Imóveis</CardTitle>
             {properties.length > 0 && (
               <div className="text-sm text-muted-foreground">
-                {filteredProperties.length > 0 ? (
-                  <>
-                    Mostrando {startIndex + 1}-{Math.min(endIndex, filteredProperties.length)} de {filteredProperties.length} imóveis
-                    {filteredProperties.length !== properties.length && ` (${properties.length} total)`}
-                  </>
-                ) : (
-                  <>{properties.length} {properties.length === 1 ? 'imóvel' : 'imóveis'}</>
-                )}
+                Mostrando {startIndex + 1}-{endIndex} de {totalProperties} {totalProperties === 1 ? 'imóvel' : 'imóveis'}
               </div>
             )}
           </div>
@@ -1580,11 +1636,11 @@ export default function MeusImoveis() {
             <div className="text-center py-8 text-red-500">
               Erro ao carregar imóveis. Tente novamente.
             </div>
-          ) : !Array.isArray(properties) || properties.length === 0 ? (
+          ) : properties.length === 0 && !hasFilters ? (
             <div className="text-center py-8 text-muted-foreground">
               Nenhum imóvel cadastrado. Clique em "Adicionar Novo" para começar.
             </div>
-          ) : filteredProperties.length === 0 ? (
+          ) : properties.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               Nenhum imóvel encontrado com os filtros aplicados.
             </div>
@@ -1606,7 +1662,7 @@ export default function MeusImoveis() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {paginatedProperties.map((property) => (
+                  {properties.map((property) => (
                     <TableRow key={property.id}>
                       <TableCell className="font-medium">{property.code}</TableCell>
                       <TableCell>{property.name}</TableCell>
@@ -1697,6 +1753,10 @@ export default function MeusImoveis() {
                                 Ver Localização
                               </DropdownMenuItem>
                             )}
+                            <DropdownMenuItem onClick={() => setAlertsProperty(property)}>
+                              <BellRing className="w-4 h-4 mr-2" />
+                              Alertas Enviados
+                            </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -1780,6 +1840,91 @@ export default function MeusImoveis() {
           )}
         </CardContent>
       </Card>
+
+      <PropertyAlertsDialog property={alertsProperty} onClose={() => setAlertsProperty(null)} />
     </div>
   );
+}
+
+const alertStatusLabels: Record<PropertyAlert["status"], string> = {
+  pending: "Na fila",
+  sending: "Enviando",
+  sent: "Enviado",
+  failed: "Falhou",
+  skipped: "Não enviado",
+};
+
+// Contatos avisados sobre o imóvel (novidade ou redução de preço), inclusive os ignorados por opt-out ou limite
+function PropertyAlertsDialog({ property, onClose }: { property: Property | null; onClose: () => void }) {
+  const { data: alerts = [], isLoading } = useQuery<PropertyAlert[]>({
+    queryKey: ["/api/properties", property?.id, "alerts"],
+    queryFn: async () => {
+      const response = await fetch(`/api/properties/${property!.id}/alerts`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("token")}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch property alerts');
+      }
+
+      return response.json();
+    },
+    enabled: !!property,
+  });
+
+  return (
+    <Dialog open={!!property} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Alertas Enviados</DialogTitle>
+          <DialogDescription>
+            {property ? `${property.code} - ${property.name}: contatos interessados avisados pelo WhatsApp` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando alertas...</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum contato interessado foi encontrado para este imóvel.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contato</TableHead>
+                <TableHead>Motivo</TableHead>
+                <TableHead>Interesses atendidos</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.map((alert) => (
+                <TableRow key={alert.id}>
+                  <TableCell>
+                    <div className="font-medium">{alert.name}</div>
+                    <div className="text-xs text-muted-foreground">{alert.phone}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {alert.reason === "price_drop" ? "Redução de preço" : "Imóvel novo"}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {(alert.matchedCriteria || []).join(" · ")}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={alert.status === "sent" ? "default" : alert.status === "failed" ? "destructive" : "secondary"}>
+                      {alertStatusLabels[alert.status] || alert.status}
+                    </Badge>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {alert.statusReason || new Date(alert.sentAt || alert.createdAt).toLocaleString("pt-BR")}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
 }
\ No newline at end of file
@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
@@ -11,10 +13,38 @@ import { apiGet, apiPut } from "@/lib/api";
 import { Company } from "@/types";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { Building, Camera } from "lucide-react";
+import { DEFAULT_COMPANY_TIMEZONE, DEFAULT_PROPERTY_TYPE_SYNONYMS } from "@shared/schema";
+
+const PROPERTY_TYPE_LABELS: Record<string, string> = {
+  casa: "Casa",
+  apartamento: "Apartamento",
+  sala: "Sala Comercial",
+  terreno: "Terreno",
+  sobrado: "Sobrado",
+  "chácara": "Chácara",
+};
+
+const TIMEZONE_LABELS: Record<string, string> = {
+  "America/Sao_Paulo": "Brasília (SP, RJ, MG, Sul, GO, DF)",
+  "America/Bahia": "Bahia",
+  "America/Fortaleza": "Fortaleza (CE, RN, PB, PI, MA)",
+  "America/Recife": "Recife (PE, AL, SE)",
+  "America/Belem": "Belém (PA, AP, TO)",
+  "America/Cuiaba": "Cuiabá (MT)",
+  "America/Campo_Grande": "Campo Grande (MS)",
+  "America/Manaus": "Manaus (AM, RR, RO)",
+  "America/Rio_Branco": "Rio Branco (AC)",
+  "America/Noronha": "Fernando de Noronha",
+};
+
+// Sinônimos editados como texto separado por vírgulas
+const synonymsToText = (synonyms: Record<string, string[]>) =>
+  Object.fromEntries(Object.entries(synonyms).map(([type, words]) => [type, words.join(", ")]));
 
 export default function Profile() {
   const { toast } = useToast();
   const [formData, setFormData] = useState<Partial<Company>>({});
+  const [synonymsText, setSynonymsText] = useState<Record<string, string>>(synonymsToText(DEFAULT_PROPERTY_TYPE_SYNONYMS));
 
   const { data: company, isLoading } = useQuery<Company>({
     queryKey: ["/profile"],
@@ -23,6 +53,7 @@ export default function Profile() {
   useEffect(() => {
     if (company) {
       setFormData(company);
+      setSynonymsText(synonymsToText({ ...DEFAULT_PROPERTY_TYPE_SYNONYMS, ...(company.propertyTypeSynonyms || {}) }));
     }
   }, [company]);
 
@@ -46,7 +77,10 @@ export default function Profile() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    updateMutation.mutate(formData);
+    const propertyTypeSynonyms = Object.fromEntries(
+      Object.entries(synonymsText).map(([type, text]) => [type, text.split(",").map(word => word.trim()).filter(Boolean)])
+    );
+    updateMutation.mutate({ ...formData, propertyTypeSynonyms });
   };
 
   const handleInputChange = (field: keyof Company, value: string) => {
@@ -180,6 +214,75 @@ export default function Profile() {
             />
           </div>
 
+          <div>
+            <Label htmlFor="aiResumeIdleMinutes">Retomar IA após inatividade do corretor (minutos)</Label>
+            <Input
+              id="aiResumeIdleMinutes"
+              type="number"
+              min={0}
+              value={formData.aiResumeIdleMinutes ?? 30}
+              onChange={(e) => setFormData(prev => ({ ...prev, aiResumeIdleMinutes: Math.max(0, parseInt(e.target.value) || 0) }))}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Quando um corretor assume uma conversa, a IA fica pausada e volta a responder após esse tempo sem mensagens do corretor. Use 0 para retomar apenas manualmente.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="autoAssignConversations"
+                checked={!!formData.autoAssignConversations}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, autoAssignConversations: checked }))}
+              />
+              <Label htmlFor="autoAssignConversations">Distribuir conversas entre os corretores automaticamente</Label>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Conversas sem responsável são atribuídas aos corretores em rodízio, a mesma ordem usada nos agendamentos de visita.
+            </p>
+          </div>
+
+          <div>
+            <Label htmlFor="timezone">Fuso horário</Label>
+            <Select
+              value={formData.timezone || DEFAULT_COMPANY_TIMEZONE}
+              onValueChange={(value) => handleInputChange("timezone", value)}
+            >
+              <SelectTrigger id="timezone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TIMEZONE_LABELS).map(([timezone, label]) => (
+                  <SelectItem key={timezone} value={timezone}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Usado nas janelas de horário e nos limites diários dos disparos.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <Label>Palavras usadas pelos clientes para cada tipo de imóvel</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Separadas por vírgula. A IA usa essas palavras, junto com as cidades cadastradas e as cidades e bairros dos seus imóveis, para reconhecer quando o cliente está procurando um imóvel. Acentos e pequenos erros de digitação são tolerados.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {Object.keys(synonymsText).map((type) => (
+                <div key={type}>
+                  <Label htmlFor={`synonyms-${type}`} className="text-sm">{PROPERTY_TYPE_LABELS[type] || type}</Label>
+                  <Input
+                    id={`synonyms-${type}`}
+                    value={synonymsText[type]}
+                    onChange={(e) => setSynonymsText(prev => ({ ...prev, [type]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="flex justify-end space-x-3">
             <Button type="button" variant="outline">
               Cancelar
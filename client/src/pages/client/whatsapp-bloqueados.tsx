@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Trash2, Search, BellOff } from 'lucide-react';
+import { apiGet, apiPost, apiDelete } from '@/lib/api';
+import { ContactOptOut } from '@/types';
+
+const emptyForm = { phone: '', name: '', reason: '' };
+
+// Formata 5511999998888 como (11) 99999-8888
+function formatPhone(phone: string) {
+  const digits = phone.replace(/\D/g, '');
+  const local = digits.startsWith('55') && digits.length > 11 ? digits.substring(2) : digits;
+  if (local.length === 11) return `(${local.slice(0, 2)}) ${local.slice(2, 7)}-${local.slice(7)}`;
+  if (local.length === 10) return `(${local.slice(0, 2)}) ${local.slice(2, 6)}-${local.slice(6)}`;
+  return phone;
+}
+
+/**
+ * Números que não recebem disparos nem alertas automáticos. Contatos entram sozinhos ao
+ * responder "sair" ou "parar" no WhatsApp, ou são bloqueados manualmente pela equipe.
+ */
+export default function WhatsAppBloqueados() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [selectedOptOut, setSelectedOptOut] = useState<ContactOptOut | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: optOuts = [], isLoading } = useQuery<ContactOptOut[]>({
+    queryKey: ['contact-opt-outs'],
+    queryFn: async () => {
+      return await apiGet('/contact-opt-outs');
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof emptyForm) => {
+      return await apiPost('/contact-opt-outs', {
+        phone: data.phone,
+        name: data.name.trim() || undefined,
+        reason: data.reason.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contact-opt-outs'] });
+      toast({
+        title: 'Sucesso',
+        description: 'Número bloqueado. Ele não receberá mais disparos nem alertas.',
+      });
+      setIsCreateOpen(false);
+      setFormData(emptyForm);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Erro',
+        description: error?.message || 'Erro ao bloquear número',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiDelete(`/contact-opt-outs/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contact-opt-outs'] });
+      toast({
+        title: 'Sucesso',
+        description: 'Número desbloqueado com sucesso!',
+      });
+      setSelectedOptOut(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Erro',
+        description: error?.message || 'Erro ao desbloquear número',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const handleCreate = () => {
+    const digits = formData.phone.replace(/\D/g, '');
+    if (digits.length < 10 || digits.length > 13) {
+      toast({
+        title: 'Erro',
+        description: 'Digite o telefone com DDD',
+        variant: 'destructive',
+      });
+      return;
+    }
+    createMutation.mutate(formData);
+  };
+
+  const term = searchTerm.toLowerCase();
+  const termDigits = searchTerm.replace(/\D/g, '');
+  const filteredOptOuts = optOuts.filter(optOut =>
+    (optOut.name || '').toLowerCase().includes(term) ||
+    (termDigits !== '' && optOut.phone.includes(termDigits))
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Carregando lista de bloqueio...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <BellOff className="w-6 h-6 text-primary" />
+            <h1 className="text-2xl font-bold">Números bloqueados</h1>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            Contatos que respondem "sair", "parar" ou "não quero mais" entram aqui automaticamente.
+          </p>
+        </div>
+        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => setFormData(emptyForm)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Bloquear Número
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Bloquear Número</DialogTitle>
+              <DialogDescription>
+                O número deixa de receber disparos e alertas de imóveis
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="phone">Telefone</Label>
+                <Input
+                  id="phone"
+                  placeholder="Ex: (11) 99999-8888"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name">Nome (opcional)</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reason">Motivo (opcional)</Label>
+                <Input
+                  id="reason"
+                  placeholder="Ex: Pediu por telefone para não receber mensagens"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      handleCreate();
+                    }
+                  }}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancelar
+              </Button>
+              <Button onClick={handleCreate} disabled={createMutation.isPending}>
+                {createMutation.isPending ? 'Bloqueando...' : 'Bloquear'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Search */}
+      <div className="relative max-w-md">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+        <Input
+          placeholder="Buscar por nome ou telefone..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {/* Table */}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Telefone</TableHead>
+              <TableHead>Nome</TableHead>
+              <TableHead>Origem</TableHead>
+              <TableHead>Motivo</TableHead>
+              <TableHead>Data</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredOptOuts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  {searchTerm ? 'Nenhum número encontrado' : 'Nenhum número bloqueado'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredOptOuts.map((optOut) => (
+                <TableRow key={optOut.id}>
+                  <TableCell className="font-medium">{formatPhone(optOut.phone)}</TableCell>
+                  <TableCell>{optOut.name || '-'}</TableCell>
+                  <TableCell>
+                    <Badge variant={optOut.source === 'keyword' ? 'secondary' : 'outline'}>
+                      {optOut.source === 'keyword' ? 'Pedido do contato' : 'Manual'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate text-muted-foreground">{optOut.reason || '-'}</TableCell>
+                  <TableCell>
+                    {new Date(optOut.createdAt).toLocaleDateString('pt-BR')}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setSelectedOptOut(optOut)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Delete Alert */}
+      <AlertDialog open={!!selectedOptOut} onOpenChange={(open) => !open && setSelectedOptOut(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Desbloquear Número</AlertDialogTitle>
+            <AlertDialogDescription>
+              {selectedOptOut?.source === 'keyword'
+                ? 'Este contato pediu para não receber mensagens. Só desbloqueie se ele autorizou novamente o envio.'
+                : `O número ${selectedOptOut ? formatPhone(selectedOptOut.phone) : ''} voltará a receber disparos e alertas.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedOptOut && deleteMutation.mutate(selectedOptOut.id)}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? 'Desbloqueando...' : 'Desbloquear'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { apiGet } from "@/lib/api";
+import { apiGet, apiPost } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,12 +8,43 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { WhatsappInstance } from "@/types";
-import { Send, MessageSquare, Mic, Image, Video, Eye, Upload, X, Users, Phone, List, Clock, Shuffle, CheckSquare, RefreshCw, Calendar, Timer, History, Trash2, AlertCircle, CheckCircle, Loader2, XCircle, CheckCircle2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { WhatsappInstance, FunnelStage, DeliveryCounts } from "@/types";
+import { renderTemplate, firstName, TEMPLATE_VARIABLES } from "@shared/messageTemplate";
+import { BROADCAST_WARMUP_PROFILE, UNDELIVERED_AFTER_MINUTES } from "@shared/schema";
+import { Send, MessageSquare, Mic, Image, Video, Eye, Upload, X, Users, Phone, List, Clock, Shuffle, CheckSquare, RefreshCw, Calendar, Timer, History, Trash2, AlertCircle, CheckCircle, Loader2, XCircle, CheckCircle2, PauseCircle, ShieldCheck } from "lucide-react";
 
 type MessageType = "text" | "audio" | "image" | "video";
 
+type AudienceType = "contact_list" | "segment";
+
+// Filtros de segmento do CRM (espelha audienceSegmentFiltersSchema do servidor)
+interface SegmentFilters {
+  target: "leads" | "customers" | "all";
+  leadStatuses?: string[];
+  funnelStageIds?: string[];
+  interestedCityIds?: string[];
+  interestedPropertyTypes?: string[];
+  interestedTransactionTypes?: string[];
+  sources?: string[];
+  lastContactFrom?: string;
+  lastContactTo?: string;
+}
+
+interface SegmentPreview {
+  total: number;
+  leads: number;
+  customers: number;
+  sample: { name: string; phone: string }[];
+}
+
+interface City {
+  id: string;
+  name: string;
+}
+
 interface Contact {
   name: string;
   phone: string;
@@ -49,10 +80,24 @@ interface ScheduleConfig {
   time: string;
 }
 
+// Ritmo do disparo: horários e dias permitidos (fuso da empresa) e limites por instância
+interface SendingConfig {
+  windowEnabled: boolean;
+  windowStart: string;
+  windowEnd: string;
+  weekdays: number[];
+  dailyLimit: string; // Vazio = sem limite
+  warmupEnabled: boolean;
+}
+
+const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
 interface ScheduledMessage {
   id: string;
   companyId: string;
-  contactListId: string;
+  contactListId: string | null;
+  audienceType?: AudienceType;
+  segmentFilters?: SegmentFilters | null;
   instanceIds: string[];
   messageType: string;
   messageContent: string;
@@ -64,6 +109,13 @@ interface ScheduledMessage {
   intervalMax: number;
   useMultipleInstances: boolean;
   randomizeInstances: boolean;
+  sendWindowStart?: string | null;
+  sendWindowEnd?: string | null;
+  sendWeekdays?: number[] | null;
+  dailyLimitPerInstance?: number | null;
+  warmupEnabled?: boolean;
+  pausedUntil?: string | null;
+  pauseReason?: string | null;
   status: 'scheduled' | 'processing' | 'completed' | 'cancelled' | 'failed';
   totalMessages: number;
   sentMessages: number;
@@ -75,10 +127,37 @@ interface ScheduledMessage {
   updatedAt: string;
 }
 
+type RecipientStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+interface BroadcastRecipient {
+  id: string;
+  scheduledMessageId: string;
+  name?: string;
+  phone: string;
+  status: RecipientStatus;
+  instanceName?: string;
+  evolutionMessageId?: string;
+  errorMessage?: string;
+  attempts: number;
+  deliveryStatus?: 'sent' | 'delivered' | 'read' | 'failed' | null;
+  sentAt?: string;
+  deliveredAt?: string | null;
+  readAt?: string | null;
+  failedAt?: string;
+}
+
+interface BroadcastRecipientsResponse {
+  recipients: BroadcastRecipient[];
+  counts: Record<RecipientStatus, number>;
+  delivery: DeliveryCounts;
+}
+
 export default function WhatsAppDisparo() {
   const { toast } = useToast();
   const [selectedInstance, setSelectedInstance] = useState<string>("");
   const [selectedContactList, setSelectedContactList] = useState<string>("");
+  const [audienceType, setAudienceType] = useState<AudienceType>("contact_list");
+  const [segmentFilters, setSegmentFilters] = useState<SegmentFilters>({ target: "all" });
   const [message, setMessage] = useState<BroadcastMessage>({
     type: "text",
     content: "",
@@ -86,6 +165,7 @@ export default function WhatsAppDisparo() {
   });
   const [showPreview, setShowPreview] = useState(false);
   const [showScheduledList, setShowScheduledList] = useState(false);
+  const [recipientsMessage, setRecipientsMessage] = useState<ScheduledMessage | null>(null);
   const [broadcastConfig, setBroadcastConfig] = useState<BroadcastConfig>({
     intervalMin: 60,
     intervalMax: 120,
@@ -99,6 +179,14 @@ export default function WhatsAppDisparo() {
     date: "",
     time: ""
   });
+  const [sendingConfig, setSendingConfig] = useState<SendingConfig>({
+    windowEnabled: true,
+    windowStart: "08:00",
+    windowEnd: "20:00",
+    weekdays: [1, 2, 3, 4, 5, 6],
+    dailyLimit: "",
+    warmupEnabled: true
+  });
 
   const { data: instances = [], isLoading } = useQuery<WhatsappInstance[]>({
     queryKey: ["/api/whatsapp-instances"],
@@ -127,6 +215,25 @@ export default function WhatsAppDisparo() {
     refetchInterval: showScheduledList ? 5000 : false, // Refresh every 5 seconds when viewing list
   });
 
+  const { data: funnelStages = [] } = useQuery<FunnelStage[]>({
+    queryKey: ["/api/funnel-stages"],
+    queryFn: () => apiGet("/funnel-stages"),
+    enabled: audienceType === "segment",
+  });
+
+  const { data: cities = [] } = useQuery<City[]>({
+    queryKey: ["/api/cities"],
+    queryFn: () => apiGet("/cities"),
+    enabled: audienceType === "segment",
+  });
+
+  // Contagem do segmento recalculada a cada mudança de filtro (o envio resolve de novo na hora)
+  const { data: segmentPreview, isFetching: segmentPreviewLoading } = useQuery<SegmentPreview>({
+    queryKey: ["/api/audience-segments/preview", segmentFilters],
+    queryFn: () => apiPost("/audience-segments/preview", { filters: segmentFilters }),
+    enabled: audienceType === "segment",
+  });
+
   // Function to get real-time connection status for an instance
   const getConnectionStatus = (instanceId: string) => {
     return useQuery({
@@ -160,12 +267,41 @@ export default function WhatsAppDisparo() {
     return contactLists.find(list => list.id === selectedContactList);
   };
 
+  const hasAudience = audienceType === "segment" ? !!segmentPreview : !!selectedContactList;
+
+  // Pré-visualização com os dados do primeiro contato do público (e exemplos para o que vem do CRM)
+  const personalizePreview = (text: string) => {
+    const sampleName = audienceType === "segment"
+      ? segmentPreview?.sample[0]?.name
+      : getSelectedContactList()?.contacts.find(c => c.valid)?.name;
+    const nome = sampleName || "Maria Silva";
+    return renderTemplate(text, {
+      nome,
+      primeiro_nome: firstName(nome),
+      cidade_interesse: "Joaçaba",
+      corretor: "Carlos",
+    }, () => 0); // spintax: mostra sempre a primeira opção para a prévia não mudar a cada render
+  };
+
+  const templateHint = (
+    <p className="text-xs text-muted-foreground mt-1">
+      Personalize com {TEMPLATE_VARIABLES.map(v => `{{${v.name}}}`).join(", ")} (ex: {"{{corretor|nossa equipe}}"} para valor padrão)
+      e varie o texto com {"{Olá|Oi|Bom dia}"}.
+    </p>
+  );
+
+  const getAudienceName = () => {
+    return audienceType === "segment" ? "Segmento do CRM" : getSelectedContactList()?.name;
+  };
+
   const getValidContactsCount = () => {
+    if (audienceType === "segment") return segmentPreview?.total || 0;
     const selectedList = getSelectedContactList();
     return selectedList ? selectedList.contacts.filter(c => c.valid).length : 0;
   };
 
   const getTotalContactsCount = () => {
+    if (audienceType === "segment") return segmentPreview?.total || 0;
     const selectedList = getSelectedContactList();
     return selectedList ? selectedList.contacts.length : 0;
   };
@@ -317,6 +453,27 @@ export default function WhatsAppDisparo() {
     }
   };
 
+  const handleRetryFailed = async (id: string) => {
+    const confirmed = window.confirm('Reenviar a mensagem para os contatos que falharam?');
+    if (!confirmed) return;
+
+    try {
+      const result = await apiPost(`/scheduled-messages/${id}/retry-failed`);
+      toast({
+        title: "Sucesso",
+        description: `${result.retried} contato(s) voltaram para a fila de envio`,
+      });
+      refetchScheduled();
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduled-messages", id, "recipients"] });
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao reenviar falhas",
+        variant: "destructive"
+      });
+    }
+  };
+
   const getStatusBadge = (status: ScheduledMessage['status']) => {
     switch (status) {
       case 'scheduled':
@@ -469,10 +626,10 @@ export default function WhatsAppDisparo() {
       return;
     }
 
-    if (!selectedContactList) {
+    if (!hasAudience) {
       toast({
         title: "Erro",
-        description: "Selecione uma lista de contatos",
+        description: audienceType === "segment" ? "Aguarde o cálculo do público do segmento" : "Selecione uma lista de contatos",
         variant: "destructive"
       });
       return;
@@ -502,7 +659,16 @@ export default function WhatsAppDisparo() {
     if (validContacts === 0) {
       toast({
         title: "Erro",
-        description: "A lista selecionada não possui contatos válidos",
+        description: audienceType === "segment" ? "Nenhum contato do CRM corresponde ao segmento" : "A lista selecionada não possui contatos válidos",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (sendingConfig.windowEnabled && (sendingConfig.windowStart >= sendingConfig.windowEnd || sendingConfig.weekdays.length === 0)) {
+      toast({
+        title: "Erro",
+        description: "A janela de envio precisa de ao menos um dia e o horário final depois do inicial",
         variant: "destructive"
       });
       return;
@@ -549,7 +715,9 @@ export default function WhatsAppDisparo() {
       }
 
       const scheduleData = {
-        contactListId: selectedContactList,
+        audienceType,
+        contactListId: audienceType === "contact_list" ? selectedContactList : null,
+        segmentFilters: audienceType === "segment" ? segmentFilters : null,
         instanceIds: useMultipleInstances ? broadcastConfig.selectedInstances : [selectedInstance],
         messageType: message.type,
         messageContent: message.type === "text" && useMultipleMessages 
@@ -563,6 +731,11 @@ export default function WhatsAppDisparo() {
         intervalMax: broadcastConfig.intervalMax,
         useMultipleInstances,
         randomizeInstances: broadcastConfig.randomizeInstances,
+        sendWindowStart: sendingConfig.windowEnabled ? sendingConfig.windowStart : null,
+        sendWindowEnd: sendingConfig.windowEnabled ? sendingConfig.windowEnd : null,
+        sendWeekdays: sendingConfig.windowEnabled ? sendingConfig.weekdays : null,
+        dailyLimitPerInstance: parseInt(sendingConfig.dailyLimit) > 0 ? parseInt(sendingConfig.dailyLimit) : null,
+        warmupEnabled: sendingConfig.warmupEnabled,
         totalMessages: validContacts * (message.type === "text" && useMultipleMessages ? validMessages.length : 1),
         scheduledDateTime: scheduleConfig.enabled 
           ? `${scheduleConfig.date} ${scheduleConfig.time}:00` // Formato MySQL direto sem conversão
@@ -765,7 +938,14 @@ export default function WhatsAppDisparo() {
                           </div>
                         </td>
                         <td className="p-2 text-sm">
-                          {getContactListName(scheduled.contactListId)}
+                          {scheduled.audienceType === 'segment' ? (
+                            <span className="flex items-center gap-1">
+                              <Users className="w-3 h-3" />
+                              Segmento do CRM
+                            </span>
+                          ) : (
+                            getContactListName(scheduled.contactListId)
+                          )}
                         </td>
                         <td className="p-2">
                           <div className="text-sm max-w-[200px] truncate" title={getInstanceNames(scheduled.instanceIds)}>
@@ -791,6 +971,12 @@ export default function WhatsAppDisparo() {
                         </td>
                         <td className="p-2">
                           {getStatusBadge(scheduled.status)}
+                          {scheduled.status === 'processing' && scheduled.pausedUntil && new Date(scheduled.pausedUntil) > new Date() && (
+                            <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground" title={scheduled.pauseReason || undefined}>
+                              <PauseCircle className="w-3 h-3" />
+                              Pausado até {new Date(scheduled.pausedUntil).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                            </div>
+                          )}
                         </td>
                         <td className="p-2">
                           {(scheduled.status === 'processing' || scheduled.status === 'completed') && (
@@ -907,6 +1093,26 @@ export default function WhatsAppDisparo() {
                                 <Trash2 className="w-4 h-4 text-destructive" />
                               </Button>
                             )}
+                            {scheduled.status !== 'scheduled' && scheduled.status !== 'cancelled' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setRecipientsMessage(scheduled)}
+                                title="Ver destinatários"
+                              >
+                                <Users className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {(scheduled.status === 'completed' || scheduled.status === 'failed') && scheduled.failedMessages > 0 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRetryFailed(scheduled.id)}
+                                title="Reenviar falhas"
+                              >
+                                <RefreshCw className="w-4 h-4 text-orange-600" />
+                              </Button>
+                            )}
                             {scheduled.status === 'failed' && scheduled.errorMessage && (
                               <Button
                                 variant="ghost"
@@ -932,6 +1138,11 @@ export default function WhatsAppDisparo() {
               </div>
             )}
           </CardContent>
+          <BroadcastRecipientsDialog
+            scheduled={recipientsMessage}
+            onClose={() => setRecipientsMessage(null)}
+            onRetryFailed={handleRetryFailed}
+          />
         </Card>
       ) : (
         <div className="max-w-4xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -1063,42 +1274,82 @@ export default function WhatsAppDisparo() {
             </div>
           )}
 
-          {/* Contact List Selection */}
+          {/* Audience Type */}
           <div>
-            <Label htmlFor="contactList">Lista de Contatos</Label>
-            <Select value={selectedContactList} onValueChange={setSelectedContactList}>
-              <SelectTrigger>
-                <SelectValue placeholder="Selecione uma lista de contatos" />
-              </SelectTrigger>
-              <SelectContent>
-                {contactLists.map((list) => (
-                  <SelectItem key={list.id} value={list.id}>
-                    <div className="flex items-center justify-between w-full">
-                      <span>{list.name}</span>
-                      <span className="text-xs text-muted-foreground ml-2">
-                        {list.contacts.filter(c => c.valid).length} contatos
-                      </span>
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            {selectedContactList && (
-              <div className="mt-2 p-2 bg-muted/50 rounded text-sm">
-                <div className="flex items-center gap-4">
-                  <span className="flex items-center gap-1">
-                    <Users className="w-3 h-3" />
-                    Total: {getTotalContactsCount()}
-                  </span>
-                  <span className="flex items-center gap-1">
-                    <Phone className="w-3 h-3" />
-                    Válidos: {getValidContactsCount()}
-                  </span>
-                </div>
+            <Label>Público</Label>
+            <div className="flex items-center space-x-4 mt-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  id="audience-contact-list"
+                  name="audience-type"
+                  checked={audienceType === "contact_list"}
+                  onChange={() => setAudienceType("contact_list")}
+                />
+                <Label htmlFor="audience-contact-list" className="text-sm">Lista de contatos</Label>
               </div>
-            )}
+              <div className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  id="audience-segment"
+                  name="audience-type"
+                  checked={audienceType === "segment"}
+                  onChange={() => setAudienceType("segment")}
+                />
+                <Label htmlFor="audience-segment" className="text-sm">Segmento do CRM</Label>
+              </div>
+            </div>
           </div>
 
+          {audienceType === "segment" && (
+            <SegmentFiltersEditor
+              filters={segmentFilters}
+              onChange={setSegmentFilters}
+              funnelStages={funnelStages}
+              cities={cities}
+              preview={segmentPreview}
+              previewLoading={segmentPreviewLoading}
+            />
+          )}
+
+          {/* Contact List Selection */}
+          {audienceType === "contact_list" && (
+            <div>
+              <Label htmlFor="contactList">Lista de Contatos</Label>
+              <Select value={selectedContactList} onValueChange={setSelectedContactList}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione uma lista de contatos" />
+                </SelectTrigger>
+                <SelectContent>
+                  {contactLists.map((list) => (
+                    <SelectItem key={list.id} value={list.id}>
+                      <div className="flex items-center justify-between w-full">
+                        <span>{list.name}</span>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {list.contacts.filter(c => c.valid).length} contatos
+                        </span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedContactList && (
+                <div className="mt-2 p-2 bg-muted/50 rounded text-sm">
+                  <div className="flex items-center gap-4">
+                    <span className="flex items-center gap-1">
+                      <Users className="w-3 h-3" />
+                      Total: {getTotalContactsCount()}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Phone className="w-3 h-3" />
+                      Válidos: {getValidContactsCount()}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Interval Configuration */}
           <div>
             <Label className="flex items-center gap-2">
@@ -1153,6 +1404,95 @@ export default function WhatsAppDisparo() {
             </div>
           </div>
 
+          {/* Sending Window and Limits */}
+          <div>
+            <Label className="flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4" />
+              Janela de Envio e Limites
+            </Label>
+            <div className="mt-2 space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="window-enabled"
+                  checked={sendingConfig.windowEnabled}
+                  onCheckedChange={(checked) => setSendingConfig(prev => ({ ...prev, windowEnabled: checked === true }))}
+                />
+                <Label htmlFor="window-enabled" className="text-sm font-normal">Enviar apenas em horários e dias definidos</Label>
+              </div>
+              {sendingConfig.windowEnabled && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="windowStart" className="text-xs">Das</Label>
+                      <Input
+                        id="windowStart"
+                        type="time"
+                        value={sendingConfig.windowStart}
+                        onChange={(e) => setSendingConfig(prev => ({ ...prev, windowStart: e.target.value }))}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="windowEnd" className="text-xs">Até</Label>
+                      <Input
+                        id="windowEnd"
+                        type="time"
+                        value={sendingConfig.windowEnd}
+                        onChange={(e) => setSendingConfig(prev => ({ ...prev, windowEnd: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={sendingConfig.weekdays.includes(day) ? "default" : "outline"}
+                        onClick={() => setSendingConfig(prev => ({
+                          ...prev,
+                          weekdays: prev.weekdays.includes(day)
+                            ? prev.weekdays.filter(d => d !== day)
+                            : [...prev.weekdays, day].sort((a, b) => a - b)
+                        }))}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              )}
+              <div>
+                <Label htmlFor="dailyLimit" className="text-xs">Máximo de mensagens por número por dia</Label>
+                <Input
+                  id="dailyLimit"
+                  type="number"
+                  min="1"
+                  placeholder="Sem limite"
+                  value={sendingConfig.dailyLimit}
+                  onChange={(e) => setSendingConfig(prev => ({ ...prev, dailyLimit: e.target.value }))}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="warmup-enabled"
+                  checked={sendingConfig.warmupEnabled}
+                  onCheckedChange={(checked) => setSendingConfig(prev => ({ ...prev, warmupEnabled: checked === true }))}
+                />
+                <Label htmlFor="warmup-enabled" className="text-sm font-normal">Aquecimento de números recém-conectados</Label>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-lg text-xs text-muted-foreground space-y-1">
+                {sendingConfig.warmupEnabled && (
+                  <p>
+                    Limite por número desde a primeira conexão: {BROADCAST_WARMUP_PROFILE.map(step => `até o ${step.untilDay}º dia, ${step.dailyLimit}/dia`).join("; ")}.
+                  </p>
+                )}
+                <p>
+                  Fora da janela ou quando todos os números atingem o limite, o disparo pausa e continua automaticamente no próximo horário permitido. Horários no fuso da empresa (Perfil).
+                </p>
+              </div>
+            </div>
+          </div>
+
           {/* Schedule Configuration */}
           <div>
             <Label className="flex items-center gap-2">
@@ -1308,13 +1648,16 @@ export default function WhatsAppDisparo() {
               </div>
 
               {!useMultipleMessages ? (
-                <Textarea
-                  id="message"
-                  placeholder="Digite sua mensagem aqui..."
-                  value={message.content}
-                  onChange={(e) => setMessage(prev => ({ ...prev, content: e.target.value }))}
-                  rows={4}
-                />
+                <>
+                  <Textarea
+                    id="message"
+                    placeholder="Digite sua mensagem aqui..."
+                    value={message.content}
+                    onChange={(e) => setMessage(prev => ({ ...prev, content: e.target.value }))}
+                    rows={4}
+                  />
+                  {templateHint}
+                </>
               ) : (
                 <div className="space-y-3">
                   {message.messages?.map((msg, index) => (
@@ -1340,6 +1683,8 @@ export default function WhatsAppDisparo() {
                     </div>
                   ))}
                   
+                  {templateHint}
+
                   <Button
                     type="button"
                     variant="outline"
@@ -1408,6 +1753,7 @@ export default function WhatsAppDisparo() {
                     onChange={(e) => setMessage(prev => ({ ...prev, content: e.target.value }))}
                     rows={3}
                   />
+                  {templateHint}
                 </div>
               )}
             </>
@@ -1453,16 +1799,16 @@ export default function WhatsAppDisparo() {
           {showPreview ? (
             <div className="space-y-4">
               {/* Broadcast Configuration Info */}
-              {(selectedContactList && (selectedInstance || broadcastConfig.selectedInstances.length > 0)) && (
+              {(hasAudience && (selectedInstance || broadcastConfig.selectedInstances.length > 0)) && (
                 <div className="space-y-3">
                   {/* Contact List Info */}
                   <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
                     <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
                       <List className="w-4 h-4 text-blue-600" />
-                      Lista Selecionada
+                      {audienceType === "segment" ? "Público Selecionado" : "Lista Selecionada"}
                     </h4>
                     <div className="space-y-1 text-xs">
-                      <p><strong>Nome:</strong> {getSelectedContactList()?.name}</p>
+                      <p><strong>Nome:</strong> {getAudienceName()}</p>
                       <div className="flex items-center gap-4">
                         <span className="flex items-center gap-1">
                           <Users className="w-3 h-3" />
@@ -1550,7 +1896,7 @@ export default function WhatsAppDisparo() {
                 <div className="bg-white rounded-lg p-3 shadow-sm border max-w-sm">
                   {message.type === "text" && (
                     <p className="text-sm whitespace-pre-wrap">
-                      {message.content || "Digite uma mensagem..."}
+                      {message.content ? personalizePreview(message.content) : "Digite uma mensagem..."}
                     </p>
                   )}
                   
@@ -1578,7 +1924,7 @@ export default function WhatsAppDisparo() {
                         </div>
                       </div>
                       {message.content && (
-                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        <p className="text-sm whitespace-pre-wrap">{personalizePreview(message.content)}</p>
                       )}
                     </div>
                   )}
@@ -1595,7 +1941,7 @@ export default function WhatsAppDisparo() {
                         </div>
                       </div>
                       {message.content && (
-                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        <p className="text-sm whitespace-pre-wrap">{personalizePreview(message.content)}</p>
                       )}
                     </div>
                   )}
@@ -1605,18 +1951,18 @@ export default function WhatsAppDisparo() {
               <div className="text-xs text-muted-foreground space-y-1">
                 <p>• Esta é uma visualização de como sua mensagem aparecerá no WhatsApp</p>
                 <p>• A formatação pode variar dependendo do dispositivo do destinatário</p>
-                {selectedContactList && (
+                {hasAudience && (
                   <p>• Será enviada para {getValidContactsCount()} contatos válidos</p>
                 )}
               </div>
             </div>
           ) : (
             <div className="text-center py-8 space-y-4">
-              {selectedContactList ? (
+              {hasAudience ? (
                 <div className="space-y-3">
                   <List className="w-12 h-12 mx-auto text-blue-600" />
                   <div>
-                    <p className="font-medium">{getSelectedContactList()?.name}</p>
+                    <p className="font-medium">{getAudienceName()}</p>
                     <p className="text-sm text-muted-foreground">
                       {getValidContactsCount()} contatos válidos selecionados
                     </p>
@@ -1641,4 +1987,368 @@ export default function WhatsAppDisparo() {
       )}
     </div>
   );
+}
+
+const recipientStatusStyles: Record<RecipientStatus, { label: string; className: string }> = {
+  pending: { label: "Pendente", className: "text-gray-700 bg-gray-100" },
+  sending: { label: "Enviando", className: "text-yellow-700 bg-yellow-100" },
+  sent: { label: "Enviado", className: "text-green-700 bg-green-100" },
+  failed: { label: "Falhou", className: "text-red-700 bg-red-100" },
+  skipped: { label: "Descadastrado", className: "text-slate-700 bg-slate-100" },
+};
+
+// Log de entrega por contato de um disparo
+function BroadcastRecipientsDialog({
+  scheduled,
+  onClose,
+  onRetryFailed,
+}: {
+  scheduled: ScheduledMessage | null;
+  onClose: () => void;
+  onRetryFailed: (id: string) => void;
+}) {
+  const [statusFilter, setStatusFilter] = useState<"all" | RecipientStatus>("all");
+  const scheduledId = scheduled?.id;
+
+  useEffect(() => {
+    setStatusFilter("all");
+  }, [scheduledId]);
+
+  const { data, isLoading } = useQuery<BroadcastRecipientsResponse>({
+    queryKey: ["/api/scheduled-messages", scheduledId, "recipients", statusFilter],
+    queryFn: () => apiGet(`/scheduled-messages/${scheduledId}/recipients?status=${statusFilter}`),
+    enabled: !!scheduledId,
+    refetchInterval: scheduled?.status === 'processing' ? 5000 : false,
+  });
+
+  const recipients = data?.recipients || [];
+  const counts = data?.counts;
+  const delivery = data?.delivery;
+  const percentOf = (value: number) => delivery?.total ? Math.round((value / delivery.total) * 100) : 0;
+  const canRetry = !!scheduled && (scheduled.status === 'completed' || scheduled.status === 'failed') && (counts?.failed || 0) > 0;
+
+  // Confirmação do WhatsApp para o contato; "não entregue" = sem confirmação depois do prazo
+  const renderDelivery = (recipient: BroadcastRecipient) => {
+    let label: { text: string; className: string };
+    switch (recipient.deliveryStatus) {
+      case 'read':
+        label = { text: `Lida ${formatDateTime(recipient.readAt || undefined)}`, className: "text-blue-600" };
+        break;
+      case 'delivered':
+        label = { text: `Entregue ${formatDateTime(recipient.deliveredAt || undefined)}`, className: "text-green-700" };
+        break;
+      case 'failed':
+        label = { text: "Recusada pelo WhatsApp", className: "text-destructive" };
+        break;
+      case 'sent': {
+        const sentAt = recipient.sentAt ? new Date(recipient.sentAt).getTime() : Date.now();
+        label = Date.now() - sentAt > UNDELIVERED_AFTER_MINUTES * 60 * 1000
+          ? { text: "Não entregue", className: "text-destructive font-medium" }
+          : { text: "Aguardando entrega", className: "text-muted-foreground" };
+        break;
+      }
+      default:
+        return null;
+    }
+    return <div className={`text-xs mt-1 ${label.className}`}>{label.text}</div>;
+  };
+
+  const formatDateTime = (value?: string) => {
+    if (!value) return "-";
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? "-" : date.toLocaleString('pt-BR');
+  };
+
+  return (
+    <Dialog open={!!scheduled} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Destinatários do disparo
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-2 text-xs">
+            {(Object.keys(recipientStatusStyles) as RecipientStatus[]).map(status => (
+              <span key={status} className={`px-2 py-1 rounded-full font-medium ${recipientStatusStyles[status].className}`}>
+                {recipientStatusStyles[status].label}: {counts?.[status] || 0}
+              </span>
+            ))}
+            {delivery && delivery.total > 0 && (
+              <>
+                <span className="px-2 py-1 rounded-full font-medium text-green-700 bg-green-50 border border-green-200">
+                  Entregues: {delivery.delivered} ({percentOf(delivery.delivered)}%)
+                </span>
+                <span className="px-2 py-1 rounded-full font-medium text-blue-700 bg-blue-50 border border-blue-200">
+                  Lidas: {delivery.read} ({percentOf(delivery.read)}%)
+                </span>
+                {delivery.undelivered + delivery.failed > 0 && (
+                  <span className="px-2 py-1 rounded-full font-medium text-red-700 bg-red-50 border border-red-200">
+                    Não entregues: {delivery.undelivered + delivery.failed}
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as "all" | RecipientStatus)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {(Object.keys(recipientStatusStyles) as RecipientStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{recipientStatusStyles[status].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canRetry && (
+              <Button variant="outline" size="sm" onClick={() => onRetryFailed(scheduled!.id)}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Reenviar falhas
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="overflow-auto flex-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : recipients.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              Nenhum destinatário registrado para este filtro
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Contato</th>
+                  <th className="text-left p-2 font-medium">Status</th>
+                  <th className="text-left p-2 font-medium">Instância</th>
+                  <th className="text-left p-2 font-medium">Data</th>
+                  <th className="text-left p-2 font-medium">Detalhes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recipients.map(recipient => (
+                  <tr key={recipient.id} className="border-b">
+                    <td className="p-2">
+                      <div>{recipient.name || "-"}</div>
+                      <div className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Phone className="w-3 h-3" />
+                        {recipient.phone}
+                      </div>
+                    </td>
+                    <td className="p-2">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${recipientStatusStyles[recipient.status]?.className || ""}`}>
+                        {recipientStatusStyles[recipient.status]?.label || recipient.status}
+                      </span>
+                      {recipient.attempts > 1 && (
+                        <div className="text-xs text-muted-foreground mt-1">{recipient.attempts} tentativas</div>
+                      )}
+                      {recipient.status === 'sent' && renderDelivery(recipient)}
+                    </td>
+                    <td className="p-2">{recipient.instanceName || "-"}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      {formatDateTime(recipient.status === 'failed' ? recipient.failedAt : recipient.sentAt)}
+                    </td>
+                    <td className="p-2 max-w-[260px]">
+                      {recipient.errorMessage ? (
+                        <span className={`text-xs break-words ${recipient.status === 'skipped' ? "text-muted-foreground" : "text-destructive"}`}>{recipient.errorMessage}</span>
+                      ) : recipient.evolutionMessageId ? (
+                        <span className="text-xs text-muted-foreground break-all">ID: {recipient.evolutionMessageId}</span>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const leadStatusOptions = [
+  { value: "new", label: "Novo" },
+  { value: "contacted", label: "Contatado" },
+  { value: "qualified", label: "Qualificado" },
+  { value: "converted", label: "Convertido" },
+  { value: "lost", label: "Perdido" },
+];
+
+const propertyTypeOptions = [
+  { value: "casa", label: "Casa" },
+  { value: "apartamento", label: "Apartamento" },
+  { value: "sala", label: "Sala" },
+  { value: "terreno", label: "Terreno" },
+  { value: "sobrado", label: "Sobrado" },
+  { value: "chácara", label: "Chácara" },
+];
+
+const transactionTypeOptions = [
+  { value: "venda", label: "Venda" },
+  { value: "aluguel", label: "Aluguel" },
+];
+
+// Montagem do segmento do CRM usado como público do disparo
+function SegmentFiltersEditor({
+  filters,
+  onChange,
+  funnelStages,
+  cities,
+  preview,
+  previewLoading,
+}: {
+  filters: SegmentFilters;
+  onChange: (filters: SegmentFilters) => void;
+  funnelStages: FunnelStage[];
+  cities: City[];
+  preview?: SegmentPreview;
+  previewLoading: boolean;
+}) {
+  const [sourcesText, setSourcesText] = useState((filters.sources || []).join(", "));
+
+  type ListFilterKey = "leadStatuses" | "funnelStageIds" | "interestedCityIds" | "interestedPropertyTypes" | "interestedTransactionTypes";
+
+  const toggleValue = (key: ListFilterKey, value: string) => {
+    const current = filters[key] || [];
+    const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    onChange({ ...filters, [key]: next });
+  };
+
+  const renderOptions = (key: ListFilterKey, options: { value: string; label: string }[]) => (
+    <div className="flex flex-wrap gap-x-4 gap-y-2 mt-1">
+      {options.map(option => (
+        <div key={option.value} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${key}-${option.value}`}
+            checked={(filters[key] || []).includes(option.value)}
+            onCheckedChange={() => toggleValue(key, option.value)}
+          />
+          <Label htmlFor={`${key}-${option.value}`} className="text-sm font-normal">{option.label}</Label>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 p-3 border rounded-lg">
+      <div>
+        <Label className="text-xs">Incluir</Label>
+        <Select value={filters.target} onValueChange={(value) => onChange({ ...filters, target: value as SegmentFilters["target"] })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Leads e clientes</SelectItem>
+            <SelectItem value="leads">Somente leads</SelectItem>
+            <SelectItem value="customers">Somente clientes</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label className="text-xs">Status do lead</Label>
+        {renderOptions("leadStatuses", leadStatusOptions)}
+      </div>
+
+      {funnelStages.length > 0 && (
+        <div>
+          <Label className="text-xs">Etapa do funil</Label>
+          {renderOptions("funnelStageIds", funnelStages.map(stage => ({ value: stage.id, label: stage.name })))}
+        </div>
+      )}
+
+      {cities.length > 0 && (
+        <div>
+          <Label className="text-xs">Cidade de interesse</Label>
+          {renderOptions("interestedCityIds", cities.map(city => ({ value: city.id, label: city.name })))}
+        </div>
+      )}
+
+      <div>
+        <Label className="text-xs">Tipo de imóvel</Label>
+        {renderOptions("interestedPropertyTypes", propertyTypeOptions)}
+      </div>
+
+      <div>
+        <Label className="text-xs">Tipo de transação</Label>
+        {renderOptions("interestedTransactionTypes", transactionTypeOptions)}
+      </div>
+
+      <div>
+        <Label htmlFor="segment-sources" className="text-xs">Origem (separe por vírgula)</Label>
+        <Input
+          id="segment-sources"
+          placeholder="Ex: WhatsApp, Site"
+          value={sourcesText}
+          onChange={(e) => setSourcesText(e.target.value)}
+          onBlur={() => onChange({
+            ...filters,
+            sources: sourcesText.split(",").map(s => s.trim()).filter(Boolean)
+          })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="segment-last-contact-from" className="text-xs">Último contato a partir de</Label>
+          <Input
+            id="segment-last-contact-from"
+            type="date"
+            value={filters.lastContactFrom || ""}
+            onChange={(e) => onChange({ ...filters, lastContactFrom: e.target.value || undefined })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="segment-last-contact-to" className="text-xs">Último contato até</Label>
+          <Input
+            id="segment-last-contact-to"
+            type="date"
+            value={filters.lastContactTo || ""}
+            onChange={(e) => onChange({ ...filters, lastContactTo: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="p-2 bg-muted/50 rounded text-sm">
+        {previewLoading ? (
+          <span className="flex items-center gap-2">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Calculando público...
+          </span>
+        ) : preview ? (
+          <div className="space-y-1">
+            <div className="flex items-center gap-4">
+              <span className="flex items-center gap-1">
+                <Users className="w-3 h-3" />
+                {preview.total} contatos
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {preview.leads} leads · {preview.customers} clientes
+              </span>
+            </div>
+            {preview.sample.length > 0 && (
+              <p className="text-xs text-muted-foreground truncate">
+                Ex: {preview.sample.slice(0, 5).map(contact => contact.name || contact.phone).join(", ")}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              O público é recalculado no momento do envio.
+            </p>
+          </div>
+        ) : (
+          <span className="text-muted-foreground">Não foi possível calcular o público</span>
+        )}
+      </div>
+    </div>
+  );
 }
\ No newline at end of file
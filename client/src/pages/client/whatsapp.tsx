@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,7 +13,7 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { apiGet, apiPost, apiDelete } from "@/lib/api";
 import { WhatsappInstance, AiAgent } from "@/types";
-import { MessageSquare, Plus, Settings, Unlink, QrCode, RefreshCw, Trash2, CheckCircle, XCircle, Clock, Bot } from "lucide-react";
+import { MessageSquare, Plus, Settings, Unlink, QrCode, RefreshCw, Trash2, CheckCircle, XCircle, Clock, Bot, AlertTriangle } from "lucide-react";
 
 export default function WhatsApp() {
   const { toast } = useToast();
@@ -282,6 +284,8 @@ export default function WhatsApp() {
     
     const connectionStatus = statusData?.state || statusData?.instance?.state || instance.status || 'disconnected';
     const instanceName = instance.name; // Sempre usar o nome limpo do banco de dados
+    const delivery = instance.delivery;
+    const percentOf = (value: number) => delivery?.total ? Math.round((value / delivery.total) * 100) : 0;
     
     // Nome sempre vem limpo do banco de dados
     
@@ -308,6 +312,42 @@ export default function WhatsApp() {
           </div>
         </div>
 
+        {/* Saúde da conexão (monitor de instâncias) */}
+        <div className="mb-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span>
+            <span className="font-medium">Disponibilidade (7 dias):</span>{" "}
+            {instance.uptime !== null && instance.uptime !== undefined ? `${instance.uptime}%` : "sem histórico"}
+          </span>
+          <span>
+            <span className="font-medium">Visto por último:</span>{" "}
+            {instance.lastSeenAt ? format(new Date(instance.lastSeenAt), "dd/MM/yyyy HH:mm", { locale: ptBR }) : "nunca"}
+          </span>
+          {instance.status !== 'connected' && instance.statusChangedAt && (
+            <span className="text-red-600">
+              <span className="font-medium">Desconectada desde:</span>{" "}
+              {format(new Date(instance.statusChangedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+            </span>
+          )}
+          {delivery && delivery.total > 0 && (
+            <span>
+              <span className="font-medium">Envios (24h):</span>{" "}
+              {delivery.total} · {percentOf(delivery.delivered)}% entregues · {percentOf(delivery.read)}% lidos
+            </span>
+          )}
+        </div>
+
+        {/* Envios sem confirmação de entrega costumam indicar número banido ou restrito */}
+        {delivery && (delivery.undelivered > 0 || delivery.failed > 0) && (
+          <div className="mb-3 flex items-start gap-2 rounded bg-red-50 p-2 text-xs text-red-700">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span>
+              {delivery.undelivered + delivery.failed} envio(s) nas últimas 24h não foram entregues
+              {delivery.failed > 0 ? ` (${delivery.failed} recusado(s) pelo WhatsApp)` : ""}.
+              Verifique se o número não foi banido ou restrito.
+            </span>
+          </div>
+        )}
+
         {/* Additional status info */}
         {statusData && (
           <div className="mb-3 p-2 bg-muted/50 rounded text-xs space-y-1">
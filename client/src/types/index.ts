@@ -21,6 +21,10 @@ export interface Company {
   cep?: string;
   avatar?: string;
   status: string;
+  aiResumeIdleMinutes?: number;
+  propertyTypeSynonyms?: Record<string, string[]> | null;
+  timezone?: string;
+  autoAssignConversations?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -62,6 +66,9 @@ export interface AiConfiguration {
   modelo: string;
   temperatura: string;
   numeroTokens: number;
+  localBaseUrl?: string | null;
+  localApiKey?: string | null;
+  localModelo?: string | null;
   updatedAt: string;
 }
 
@@ -75,10 +82,24 @@ export interface WhatsappInstance {
   status: string;
   qrCode?: string;
   aiAgentId?: string;
+  lastSeenAt?: string | null;
+  statusChangedAt?: string | null;
+  disconnectAlertedAt?: string | null;
+  uptime?: number | null; // % conectada nos últimos 7 dias
+  delivery?: DeliveryCounts; // Envios das últimas 24h
   createdAt: string;
   updatedAt: string;
 }
 
+// total = envios com confirmação acompanhada; delivered inclui as lidas
+export interface DeliveryCounts {
+  total: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  undelivered: number;
+}
+
 export interface AiAgent {
   id: string;
   companyId: string;
@@ -86,7 +107,8 @@ export interface AiAgent {
   prompt: string;
   temperatura: string;
   numeroTokens: number;
-  modelo: string;
+  provider?: string; // 'openai' | 'local'
+  modelo: string | null;
   trainingFiles?: string[];
   trainingContent?: string;
   agentType?: string; // 'main' | 'secondary'
@@ -98,6 +120,33 @@ export interface AiAgent {
   updatedAt: string;
 }
 
+export interface KnowledgeSource {
+  sourceName: string;
+  sourceUrl: string | null;
+  chunkIndex: number;
+  score: number;
+  excerpt: string;
+}
+
+export interface DetectedSearchTerm {
+  value: string;
+  typed: string;
+  exact: boolean;
+}
+
+export interface SearchTermsMatch {
+  propertyType: DetectedSearchTerm | null;
+  city: DetectedSearchTerm | null;
+  neighborhood: DetectedSearchTerm | null;
+}
+
+export interface PropertySearchDetection {
+  isPropertySearch: boolean;
+  reason: string;
+  message: SearchTermsMatch;
+  history: SearchTermsMatch;
+}
+
 export interface Conversation {
   id: string;
   whatsappInstanceId: string;
@@ -105,21 +154,77 @@ export interface Conversation {
   contactPhone: string;
   lastMessage?: string;
   lastMessageAt?: string;
-  status: string;
+  status: 'open' | 'pending' | 'resolved';
+  assignedUserId?: string | null;
+  assignedBrokerId?: string | null;
+  assignedAt?: string | null;
+  tags?: string[];
+  aiState?: ConversationAiState['aiState'];
+  aiStateReason?: string;
+  aiStateChangedAt?: string;
+  aiPausedBy?: string;
+  lastHumanMessageAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ConversationAiState {
+  conversationId: string | null;
+  aiState: 'active' | 'paused' | 'handed_off';
+  aiStateReason: 'human_reply' | 'manual' | 'client_request' | 'idle_timeout' | null;
+  aiStateChangedAt: string | null;
+  aiPausedBy: string | null;
+  lastHumanMessageAt: string | null;
+  resumeIdleMinutes?: number;
+}
+
+export interface InboxConversation extends Conversation {
+  instanceName: string;
+  lastMessageSender: Message['sender'] | null;
+}
+
+export interface ConversationNote {
+  id: string;
+  conversationId: string;
+  companyId: string;
+  userId: string | null;
+  content: string;
+  createdAt: string;
+}
+
+export interface InboxAssignees {
+  users: Array<{ id: string; name: string }>;
+  brokers: Array<{ id: string; name: string }>;
+}
+
 export interface Message {
   id: string;
   conversationId: string;
   content: string;
-  sender: 'user' | 'ai' | 'agent';
+  sender: 'user' | 'ai' | 'assistant' | 'agent';
+  agentId?: string | null;
+  userId?: string | null;
   messageType: string;
   evolutionMessageId?: string;
+  mediaUrl?: string | null;
+  mediaBase64?: string | null;
+  mediaPath?: string | null;
+  mimeType?: string | null;
+  fileName?: string | null;
+  metadata?: MessageMetadata | null;
+  extractedText?: string | null;
+  caption?: string | null;
+  deliveryStatus?: 'sent' | 'delivered' | 'read' | 'failed' | null; // Só mensagens enviadas
+  deliveredAt?: string | null;
+  readAt?: string | null;
   createdAt: string;
 }
 
+export interface MessageMetadata {
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
+  contacts?: { name: string; phones: string[] }[];
+}
+
 export interface AdminStats {
   activeCompanies: number;
   whatsappInstances: number;
@@ -182,3 +287,97 @@ export interface Customer {
   createdAt: string;
   updatedAt: string;
 }
+
+export type CustomerActivityType =
+  | "created"
+  | "stage_change"
+  | "note"
+  | "appointment"
+  | "conversation"
+  | "broadcast"
+  | "lead_conversion"
+  | "property_alert"
+  | "opt_out";
+
+export interface CustomerActivity {
+  id: string;
+  customerId: string;
+  type: CustomerActivityType;
+  fromStageId?: string | null;
+  toStageId?: string | null;
+  fromStageName?: string | null;
+  toStageName?: string | null;
+  userId?: string | null;
+  userName?: string | null;
+  description?: string | null;
+  metadata?: Record<string, any> | null;
+  createdAt: string;
+}
+
+export interface FunnelStageReport {
+  stageId: string;
+  name: string;
+  color: string;
+  isActive: boolean;
+  entered: number;
+  reached: number;
+  reachedRate: number;
+  avgHoursInStage: number | null;
+  currentCustomers: number;
+  avgHoursCurrent: number | null;
+}
+
+export interface FunnelReport {
+  from: string | null;
+  to: string | null;
+  cohortSize: number;
+  stages: FunnelStageReport[];
+  leads: { created: number; converted: number; conversionRate: number };
+}
+
+export type LeadPreferenceField =
+  | "transactionType" | "propertyType" | "city" | "neighborhoods" | "budgetMin" | "budgetMax"
+  | "bedrooms" | "amenities" | "moveInTimeframe" | "needsFinancing" | "financingNotes";
+
+export interface LeadPreferences {
+  id: string;
+  companyId: string;
+  phone: string;
+  transactionType: "venda" | "locacao" | null;
+  propertyType: string | null;
+  city: string | null;
+  neighborhoods: string[] | null;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  bedrooms: number | null;
+  amenities: string[] | null;
+  moveInTimeframe: string | null;
+  needsFinancing: boolean | null;
+  financingNotes: string | null;
+  manualFields: LeadPreferenceField[] | null;
+  alertsOptOut: boolean;
+  lastExtractedAt: string | null;
+  updatedAt: string;
+}
+
+export interface ContactOptOut {
+  id: string;
+  companyId: string;
+  phone: string;
+  name: string | null;
+  source: "keyword" | "manual";
+  reason: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface CompanyNotification {
+  id: string;
+  companyId: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
@@ -1,13 +1,15 @@
 import { OpenAiService } from "./services/openai";
+import { createLlmProvider } from "./services/llmProvider";
+import { knowledgeBaseService, type KnowledgeSource } from "./services/knowledgeBase";
 import { getStorage } from "./storage";
-import { AiAgent } from "@shared/schema";
+import { AiAgent, AiConfiguration } from "@shared/schema";
 
 export interface AiResponseRequest {
   message: string;
   agentId: string;
   agentPrompt: string;
-  agentTrainingContent?: string;
   temperatura?: number;
+  provider?: string;
   modelo?: string;
   numeroTokens?: number;
   agentType?: 'main' | 'secondary';
@@ -15,17 +17,18 @@ export interface AiResponseRequest {
   companyId?: string;
 }
 
-export class AiResponseService {
-  private openAiService: OpenAiService;
+export interface AiResponseResult {
+  response: string;
+  sources: KnowledgeSource[]; // Trechos da base de conhecimento usados na resposta
+}
 
-  constructor(apiKey: string) {
-    this.openAiService = new OpenAiService(apiKey);
-  }
+export class AiResponseService {
+  constructor(private aiConfig: AiConfiguration) {}
 
   /**
    * Generates an AI response with hierarchical delegation support
    */
-  async generateResponse(request: AiResponseRequest): Promise<string> {
+  async generateResponse(request: AiResponseRequest): Promise<AiResponseResult> {
     try {
       console.log(`🤖 Gerando resposta para agente ID: ${request.agentId} (Tipo: ${request.agentType || 'main'})`);
       
@@ -49,7 +52,7 @@ export class AiResponseService {
   /**
    * Check if the message should be delegated to a secondary agent
    */
-  private async checkForDelegation(request: AiResponseRequest): Promise<{ agent: AiAgent; response: string } | null> {
+  private async checkForDelegation(request: AiResponseRequest): Promise<{ agent: AiAgent; response: AiResponseResult } | null> {
     if (!request.companyId) return null;
 
     const storage = getStorage();
@@ -67,8 +70,8 @@ export class AiResponseService {
           ...request,
           agentId: secondaryAgent.id,
           agentPrompt: secondaryAgent.prompt,
-          agentTrainingContent: secondaryAgent.trainingContent || undefined,
           temperatura: Number(secondaryAgent.temperatura) || 0.7,
+          provider: secondaryAgent.provider || 'openai',
           modelo: secondaryAgent.modelo || "gpt-4o",
           numeroTokens: Number(secondaryAgent.numeroTokens) || 1000,
           agentType: 'secondary'
@@ -99,13 +102,18 @@ export class AiResponseService {
   /**
    * Generate a direct response from the specified agent
    */
-  private async generateDirectResponse(request: AiResponseRequest): Promise<string> {
-    // Build the enhanced prompt combining agent prompt + training content
+  private async generateDirectResponse(request: AiResponseRequest): Promise<AiResponseResult> {
+    // Build the enhanced prompt combining agent prompt + relevant knowledge base chunks
     let enhancedPrompt = request.agentPrompt;
-    
-    if (request.agentTrainingContent && request.agentTrainingContent.trim()) {
-      enhancedPrompt += `\n\n=== CONHECIMENTO BASE ===\n${request.agentTrainingContent}\n=== FIM CONHECIMENTO BASE ===\n\n`;
-      enhancedPrompt += `Use as informações do CONHECIMENTO BASE acima para responder às perguntas do usuário de forma precisa e detalhada.`;
+    let sources: KnowledgeSource[] = [];
+
+    const agent = await getStorage().getAiAgent(request.agentId);
+    if (agent) {
+      const knowledge = await knowledgeBaseService.retrieve(agent, request.message, this.aiConfig);
+      if (knowledge) {
+        enhancedPrompt += knowledgeBaseService.formatForPrompt(knowledge);
+        sources = knowledge.sources;
+      }
     }
 
     // Add delegation context if this is a secondary agent
@@ -119,7 +127,9 @@ export class AiResponseService {
     console.log(`📝 Prompt construído - Tamanho: ${enhancedPrompt.length} caracteres`);
     console.log(`💬 Mensagem do usuário: "${request.message}"`);
     
-    const response = await this.openAiService.generateResponse(
+    // Cada agente pode usar um provedor diferente (OpenAI ou endpoint local)
+    const openAiService = new OpenAiService(createLlmProvider(request.provider, this.aiConfig));
+    const response = await openAiService.generateResponse(
       request.message,
       enhancedPrompt,
       {
@@ -129,8 +139,8 @@ export class AiResponseService {
       }
     );
 
-    console.log(`✅ Resposta gerada com sucesso - Tamanho: ${response.content.length} caracteres`);
-    return response.content;
+    console.log(`✅ Resposta gerada com sucesso - Tamanho: ${response.content.length} caracteres (${sources.length} fontes)`);
+    return { response: response.content, sources };
   }
 
   /**
@@ -139,7 +149,7 @@ export class AiResponseService {
   async testAgent(request: Omit<AiResponseRequest, 'message'>): Promise<{ success: boolean; message: string }> {
     try {
       const testMessage = "Olá! Este é um teste de conexão.";
-      const response = await this.generateResponse({
+      const { response } = await this.generateResponse({
         ...request,
         message: testMessage,
       });
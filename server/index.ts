@@ -5,6 +5,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { scheduledMessageProcessor } from "./services/scheduledMessageProcessor";
+import { appointmentReminderService } from "./services/appointmentReminder";
+import { propertyAlertService } from "./services/propertyAlert";
+import { instanceHealthService } from "./services/instanceHealth";
+import { mediaStorageService } from "./services/mediaStorage";
 
 const app = express();
 app.use(express.json({ limit: '50mb' })); // Aumentar limite para imagens
@@ -131,6 +135,18 @@ app.use('/api/webhook', (req, res, next) => {
   // Iniciar o processador de mensagens agendadas
   scheduledMessageProcessor.start();
 
+  // Iniciar os lembretes de visita (24h e 1h antes)
+  appointmentReminderService.start();
+
+  // Iniciar o envio de alertas de imóveis novos e com preço reduzido
+  propertyAlertService.start();
+
+  // Iniciar o monitor de conexão das instâncias do WhatsApp
+  instanceHealthService.start();
+
+  // Tirar de uploads/ (público) as mídias do WhatsApp gravadas por versões anteriores
+  void mediaStorageService.migrateLegacyMedia();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
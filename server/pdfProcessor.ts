@@ -14,19 +14,21 @@ export async function extractTextFromPDF(pdfUrl: string): Promise<string> {
     }
     
     const buffer = await response.arrayBuffer();
-    const uint8Array = new Uint8Array(buffer);
-    
-    // Extract text using pdf-parse
-    const data = await pdf(uint8Array);
-    
-    console.log(`✅ Texto extraído com sucesso. Caracteres: ${data.text.length}`);
-    return data.text;
+    return await extractTextFromPDFBuffer(new Uint8Array(buffer));
   } catch (error: any) {
     console.error(`❌ Erro ao extrair texto do PDF: ${pdfUrl}`, error);
     throw new Error(`Erro ao processar PDF: ${error.message}`);
   }
 }
 
+export async function extractTextFromPDFBuffer(buffer: Uint8Array): Promise<string> {
+  // Extract text using pdf-parse
+  const data = await pdf(buffer);
+
+  console.log(`✅ Texto extraído com sucesso. Caracteres: ${data.text.length}`);
+  return data.text;
+}
+
 export async function extractTextFromMultiplePDFs(pdfUrls: string[]): Promise<string> {
   try {
     if (!pdfUrls || pdfUrls.length === 0) {
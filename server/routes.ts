@@ -15,38 +15,41 @@ import {
 } from "./auth";
 import { EvolutionApiService } from "./services/evolutionApi";
 import { OpenAiService } from "./services/openai";
+import { createLlmProvider, resolveAgentModel, isOpenAIModel } from "./services/llmProvider";
 import { ObjectStorageService } from "./objectStorage";
 import { extractTextFromMultiplePDFs } from "./pdfProcessor";
 import { AiResponseService } from "./aiResponseService";
+import { knowledgeBaseService } from "./services/knowledgeBase";
 import { whatsappWebhookService } from "./services/whatsappWebhook";
+import { conversationControlService } from "./services/conversationControl";
+import { audienceSegmentService } from "./services/audienceSegment";
+import { customerActivityService } from "./services/customerActivity";
+import { brokerAvailabilityService } from "./services/brokerAvailability";
+import { propertyService } from "./services/propertyService";
+import { propertySearchDetectionService } from "./services/propertySearchDetection";
+import { leadPreferenceService } from "./services/leadPreferences";
+import { propertyAlertService } from "./services/propertyAlert";
+import { contactOptOutService } from "./services/contactOptOut";
+import { inboxEventsService } from "./services/inboxEvents";
+import { teamInboxService } from "./services/teamInbox";
+import { conversationAssignmentService } from "./services/conversationAssignment";
+import { instanceHealthService } from "./services/instanceHealth";
+import { messageReceiptsService } from "./services/messageReceipts";
+import { mediaStorageService } from "./services/mediaStorage";
 import {
   insertUserSchema, insertCompanySchema, insertGlobalConfigSchema,
   insertEvolutionConfigSchema, insertAiConfigSchema, insertWhatsappInstanceSchema,
   insertAiAgentSchema, insertConversationSchema, insertMessageSchema,
   insertContactListSchema, insertContactListItemSchema, insertScheduledMessageSchema,
   insertCustomerSchema, insertLeadSchema, insertPropertySchema,
-  insertPlanSchema, insertBrokerSchema, insertAppointmentSchema
+  insertPlanSchema, insertBrokerSchema, insertAppointmentSchema, audienceSegmentFiltersSchema,
+  funnelStageFormSchema, funnelStageReorderSchema, insertBrokerBlockedPeriodSchema, propertySearchSchema,
+  leadPreferencesUpdateSchema, contactOptOutFormSchema, inboxReplySchema,
+  conversationUpdateSchema, conversationNoteFormSchema, CONVERSATION_STATUSES, INBOX_FILTERS,
+  type InboxFilter, type WhatsappInstanceWithHealth
 } from "@shared/schema";
 import { getEmailService } from "./services/emailService";
 
-// Cache para evitar processamento duplicado de mensagens
-// Armazena IDs de mensagens já processadas com timestamp de expiração
-const processedMessagesCache = new Map<string, number>();
-const CACHE_EXPIRY_MS = 60000; // 60 segundos - tempo suficiente para evitar duplicação
-
-// Função para limpar cache expirado periodicamente
-function cleanExpiredCache() {
-  const now = Date.now();
-  for (const [key, timestamp] of processedMessagesCache.entries()) {
-    if (now - timestamp > CACHE_EXPIRY_MS) {
-      processedMessagesCache.delete(key);
-    }
-  }
-}
-
-// Limpar cache a cada 30 segundos
-setInterval(cleanExpiredCache, 30000);
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize storage connection
   const storage = getStorage();
@@ -55,6 +58,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize global funnel stages if they don't exist
   await storage.initializeGlobalFunnelStages();
 
+  // Retomar a fila persistente de mensagens recebidas (janelas de agregação e retentativas)
+  const { messageAggregatorService } = await import("./services/messageAggregator");
+  await messageAggregatorService.start((aggregatedData) => whatsappWebhookService.handleEvolutionMessage(aggregatedData));
+
   // Configure multer for file uploads
   const storage_config = multer.diskStorage({
     destination: (req, file, cb) => {
@@ -430,14 +437,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const config = await storage.getAiConfiguration();
       if (!config) {
-        return res.json({ modelo: "gpt-4o", numeroTokens: 1000, temperatura: 0.7 });
+        return res.json({ modelo: "gpt-4o", numeroTokens: 1000, temperatura: 0.7, localEnabled: false, localModelo: null });
       }
       
       // Retornar apenas campos seguros (sem a chave da API)
       res.json({
         modelo: config.modelo || "gpt-4o",
         numeroTokens: config.numeroTokens || 1000,
-        temperatura: config.temperatura || 0.7
+        temperatura: config.temperatura || 0.7,
+        localEnabled: !!config.localBaseUrl,
+        localModelo: config.localModelo || null
       });
     } catch (error) {
       console.error("Get public AI config error:", error);
@@ -447,7 +456,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/ai-config/test", authenticate, requireAdmin, async (req, res) => {
     try {
-      const { prompt } = req.body;
+      const { prompt, provider } = req.body;
       const config = await storage.getAiConfiguration();
 
       console.log("AI test config:", config);
@@ -456,16 +465,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Configuração de IA não encontrada" });
       }
 
-      if (!config.apiKey) {
-        return res.status(400).json({ error: "Chave da API OpenAI não configurada" });
+      let openAiService: OpenAiService;
+      try {
+        openAiService = new OpenAiService(createLlmProvider(provider, config));
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : "Provedor de IA não configurado" });
       }
 
-      const openAiService = new OpenAiService(config.apiKey);
       const response = await openAiService.generateResponse(
         prompt || "Olá! Este é um teste de funcionamento.",
         "Você é um assistente útil. Responda de forma breve e educada em português.",
         {
-          model: config.modelo || 'gpt-4o',
+          model: provider === 'local' ? (config.localModelo || 'llama3.1') : (config.modelo || 'gpt-4o'),
           temperature: parseFloat((config.temperatura || 0.7).toString()),
           maxTokens: config.numeroTokens || 1000
         }
@@ -485,11 +496,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const config = await storage.getAiConfiguration();
 
-      if (!config || !config.apiKey) {
-        return res.status(400).json({ error: "Chave da API OpenAI não configurada" });
+      if (!config) {
+        return res.status(404).json({ error: "Configuração de IA não encontrada" });
+      }
+
+      let openAiService: OpenAiService;
+      try {
+        openAiService = new OpenAiService(createLlmProvider(req.query.provider as string | undefined, config));
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : "Provedor de IA não configurado" });
       }
 
-      const openAiService = new OpenAiService(config.apiKey);
       const models = await openAiService.listModels();
 
       res.json({ models });
@@ -838,6 +855,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Horários livres e ocupados dos corretores (from/to em YYYY-MM-DD, inclusivos)
+  app.get("/api/brokers/availability", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(400).json({ error: "Company ID não encontrado" });
+      }
+
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      const fromParam = typeof req.query.from === 'string' && datePattern.test(req.query.from) ? req.query.from : null;
+      const toParam = typeof req.query.to === 'string' && datePattern.test(req.query.to) ? req.query.to : null;
+
+      const today = new Date();
+      const from = fromParam ? new Date(`${fromParam}T00:00:00`) : new Date(today.getFullYear(), today.getMonth(), today.getDate());
+      const to = toParam ? new Date(`${toParam}T00:00:00`) : new Date(from);
+      to.setDate(to.getDate() + (toParam ? 1 : 7));
+
+      if (to <= from || to.getTime() - from.getTime() > 62 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ error: "Período inválido (máximo de 62 dias)" });
+      }
+
+      const brokerId = typeof req.query.brokerId === 'string' && req.query.brokerId !== 'all' ? req.query.brokerId : null;
+      const availability = await brokerAvailabilityService.getAvailability(req.user.companyId, from, to, brokerId);
+      res.json(availability);
+    } catch (error) {
+      console.error("Error fetching broker availability:", error);
+      res.status(500).json({ error: "Erro ao calcular disponibilidade dos corretores" });
+    }
+  });
+
+  // Bloqueios de agenda futuros do corretor
+  app.get("/api/brokers/:id/blocked-periods", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const broker = await storage.getBroker(req.params.id);
+      if (!broker) {
+        return res.status(404).json({ error: "Corretor não encontrado" });
+      }
+
+      if (broker.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Sem permissão para ver este corretor" });
+      }
+
+      const now = new Date();
+      const oneYear = new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000);
+      const periods = await storage.getBrokerBlockedPeriods(broker.companyId, now, oneYear);
+      res.json(periods.filter(period => period.brokerId === broker.id));
+    } catch (error) {
+      console.error("Error fetching broker blocked periods:", error);
+      res.status(500).json({ error: "Erro ao buscar bloqueios de agenda" });
+    }
+  });
+
+  app.post("/api/brokers/:id/blocked-periods", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const broker = await storage.getBroker(req.params.id);
+      if (!broker) {
+        return res.status(404).json({ error: "Corretor não encontrado" });
+      }
+
+      if (broker.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Sem permissão para editar este corretor" });
+      }
+
+      const result = insertBrokerBlockedPeriodSchema.safeParse({
+        ...req.body,
+        brokerId: broker.id,
+        companyId: broker.companyId,
+      });
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      const period = await storage.createBrokerBlockedPeriod(result.data);
+      res.status(201).json(period);
+    } catch (error) {
+      console.error("Error creating broker blocked period:", error);
+      res.status(500).json({ error: "Erro ao bloquear agenda" });
+    }
+  });
+
+  app.delete("/api/brokers/:id/blocked-periods/:periodId", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const period = await storage.getBrokerBlockedPeriod(req.params.periodId);
+      if (!period || period.brokerId !== req.params.id) {
+        return res.status(404).json({ error: "Bloqueio não encontrado" });
+      }
+
+      if (period.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Sem permissão para editar este corretor" });
+      }
+
+      await storage.deleteBrokerBlockedPeriod(period.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting broker blocked period:", error);
+      res.status(500).json({ error: "Erro ao remover bloqueio de agenda" });
+    }
+  });
+
   app.post("/api/brokers", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
       if (!req.user?.companyId) {
@@ -989,7 +1104,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         companyId: req.user.companyId
       });
+
+      if (validatedData.brokerId && validatedData.scheduledDate && (validatedData.status || 'pendente') !== 'cancelado') {
+        const conflict = await brokerAvailabilityService.getConflict(req.user.companyId, validatedData.brokerId, new Date(validatedData.scheduledDate));
+        if (conflict) {
+          return res.status(409).json({ error: conflict });
+        }
+      }
+
       const appointment = await storage.createAppointment(validatedData);
+      await customerActivityService.recordForPhone(appointment.companyId, appointment.clientPhone, {
+        type: 'appointment',
+        userId: req.user.id,
+        description: appointment.propertyInterest ? `Visita agendada: ${appointment.propertyInterest}` : 'Visita agendada',
+        metadata: { appointmentId: appointment.id, scheduledDate: appointment.scheduledDate },
+      });
       res.status(201).json(appointment);
     } catch (error) {
       console.error("Error creating appointment:", error);
@@ -1011,6 +1140,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const validatedData = insertAppointmentSchema.partial().parse(req.body);
+
+      // Só confere a agenda quando a visita muda de horário, de corretor ou volta a ficar ativa
+      const brokerId = validatedData.brokerId !== undefined ? validatedData.brokerId : appointment.brokerId;
+      const scheduledDate = validatedData.scheduledDate !== undefined ? validatedData.scheduledDate : appointment.scheduledDate;
+      const status = validatedData.status || appointment.status;
+      const scheduleChanged = validatedData.brokerId !== undefined || validatedData.scheduledDate !== undefined || validatedData.status !== undefined;
+      if (scheduleChanged && brokerId && scheduledDate && ['pendente', 'confirmado'].includes(status || '')) {
+        const conflict = await brokerAvailabilityService.getConflict(appointment.companyId, brokerId, new Date(scheduledDate), appointment.id);
+        if (conflict) {
+          return res.status(409).json({ error: conflict });
+        }
+      }
+
       const updatedAppointment = await storage.updateAppointment(id, validatedData);
       res.json(updatedAppointment);
     } catch (error) {
@@ -1067,6 +1209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const companyData = insertCompanySchema.partial().parse(req.body);
       const company = await storage.updateCompany(req.user.companyId, companyData);
+      propertySearchDetectionService.invalidate(req.user.companyId);
       res.json(company);
     } catch (error) {
       console.error("Update profile error:", error);
@@ -1087,10 +1230,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const evolutionConfig = await storage.getEvolutionApiConfiguration();
       
       // If we have Evolution API config, update the status of each instance
-      const updatedInstances = [];
+      const updatedInstances: WhatsappInstanceWithHealth[] = [];
+      const deliverySince = new Date(Date.now() - 24 * 60 * 60 * 1000);
       
       for (const instance of instances) {
-        let currentStatus = instance.status;
+        let currentInstance = instance;
         
         // Only check status if we have Evolution config and instance has evolutionInstanceId
         if (evolutionConfig && instance.evolutionInstanceId) {
@@ -1131,12 +1275,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               
               console.log(`🔄 Instance ${instance.name}: Evolution state="${evolutionState}", DB status="${instance.status}", New status="${newStatus}"`);
               
-              // Update status in database if it changed
-              if (newStatus !== instance.status) {
-                console.log(`🔄 Updating ${instance.name} status from "${instance.status}" to "${newStatus}"`);
-                await storage.updateWhatsappInstance(instance.id, { status: newStatus });
-                currentStatus = newStatus;
-              }
+              // Atualiza o status e o histórico de conexão (monitor de saúde)
+              currentInstance = await instanceHealthService.recordStatus(instance, evolutionState, "poll");
             } else {
               console.log(`❌ Failed to check status for ${instance.name}: ${response.status}`);
             }
@@ -1146,8 +1286,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         updatedInstances.push({
-          ...instance,
-          status: currentStatus
+          ...currentInstance,
+          uptime: await instanceHealthService.uptime(currentInstance),
+          delivery: await storage.getInstanceDeliveryCounts(currentInstance.id, deliverySince, messageReceiptsService.undeliveredBefore())
         });
       }
       
@@ -1583,13 +1724,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`🔄 Instance ${instance.name}: Evolution state="${evolutionState}", DB status="${instance.status}", New status="${newStatus}"`);
       
-      // Update status in database if it changed
-      if (newStatus !== instance.status) {
-        console.log(`🔄 Updating ${instance.name} status from "${instance.status}" to "${newStatus}"`);
-        await storage.updateWhatsappInstance(instance.id, { status: newStatus });
-        // Update instance object for response
-        instance.status = newStatus;
-      }
+      // Atualiza o status e o histórico de conexão (monitor de saúde)
+      const updatedInstance = await instanceHealthService.recordStatus(instance, evolutionState, "poll");
+      instance.status = updatedInstance.status;
 
       // Return the status data with additional instance info
       res.json({
@@ -1608,6 +1745,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Histórico de conexão da instância nos últimos 7 dias (monitor de saúde)
+  app.get("/api/whatsapp-instances/:id/status-history", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const instance = await storage.getWhatsappInstance(req.params.id);
+      if (!instance) {
+        return res.status(404).json({ error: "Instância não encontrada" });
+      }
+
+      if (instance.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Sem permissão para ver esta instância" });
+      }
+
+      const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+      const events = await storage.getInstanceStatusHistory(instance.id, since);
+      res.json({
+        events,
+        uptime: await instanceHealthService.uptime(instance),
+        lastSeenAt: instance.lastSeenAt,
+      });
+    } catch (error) {
+      console.error("Get instance status history error:", error);
+      res.status(500).json({ error: "Erro ao buscar histórico de conexão" });
+    }
+  });
+
+  // Avisos da empresa no painel (ex.: instância do WhatsApp desconectada)
+  app.get("/api/notifications", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(400).json({ error: "Company ID não encontrado" });
+      }
+
+      const notifications = await storage.getCompanyNotifications(req.user.companyId, 30);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Get notifications error:", error);
+      res.status(500).json({ error: "Erro ao buscar avisos" });
+    }
+  });
+
+  app.put("/api/notifications/read-all", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(400).json({ error: "Company ID não encontrado" });
+      }
+
+      await storage.markCompanyNotificationsRead(req.user.companyId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Mark notifications read error:", error);
+      res.status(500).json({ error: "Erro ao atualizar avisos" });
+    }
+  });
+
+  app.put("/api/notifications/:id/read", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(400).json({ error: "Company ID não encontrado" });
+      }
+
+      await storage.markCompanyNotificationsRead(req.user.companyId, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Mark notification read error:", error);
+      res.status(500).json({ error: "Erro ao atualizar aviso" });
+    }
+  });
+
   // Configure WhatsApp settings
   app.post("/api/whatsapp-instances/:id/settings", authenticate, requireClient, async (req: AuthRequest, res) => {
     console.log("🚀 INÍCIO DA ROTA SETTINGS - ID:", req.params.id);
@@ -1815,7 +2020,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             "CHATS_SET",
             "CHATS_UPSERT",
             "CHATS_UPDATE",
-            "CHATS_DELETE"
+            "CHATS_DELETE",
+            "CONNECTION_UPDATE"
           ]
         }
       };
@@ -1918,7 +2124,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             "CHATS_SET",
             "CHATS_UPSERT",
             "CHATS_UPDATE",
-            "CHATS_DELETE"
+            "CHATS_DELETE",
+            "CONNECTION_UPDATE"
           ]
         }
       };
@@ -2165,6 +2372,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         companyId: req.user.companyId
       });
+      // Modelo da OpenAI num agente local não é usado: não fica gravado como se fosse
+      if (agentData.provider === 'local' && agentData.modelo && isOpenAIModel(agentData.modelo)) {
+        agentData.modelo = null;
+      }
 
       // Process PDFs if training files are provided
       let trainingContent = '';
@@ -2186,6 +2397,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const agent = await storage.createAiAgent(agentWithContent);
+
+      // Indexar a base de conhecimento em segundo plano (trechos + embeddings)
+      if (Array.isArray(agent.trainingFiles) && agent.trainingFiles.length > 0) {
+        knowledgeBaseService.reindexAgent(agent).catch(error => {
+          console.error(`❌ Erro ao indexar conhecimento do agente ${agent.name}:`, error);
+        });
+      }
+
       res.status(201).json(agent);
     } catch (error) {
       console.error("Create AI agent error:", error);
@@ -2209,6 +2428,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Process PDFs if training files are updated
       let updateData = { ...agentData };
+      // Trocou de provedor sem informar o modelo: o modelo do provedor anterior não vale mais
+      if (agentData.provider && agentData.provider !== existingAgent.provider && agentData.modelo === undefined) {
+        updateData.modelo = null;
+      }
+      // Modelo da OpenAI num agente local não é usado: não fica gravado como se fosse
+      if ((agentData.provider ?? existingAgent.provider) === 'local' && updateData.modelo && isOpenAIModel(updateData.modelo)) {
+        updateData.modelo = null;
+      }
       if (agentData.trainingFiles && Array.isArray(agentData.trainingFiles)) {
         try {
           console.log(`🤖 Atualizando PDFs para o agente ID: ${id}`);
@@ -2222,6 +2449,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const agent = await storage.updateAiAgent(id, updateData);
+
+      // Arquivos de treinamento alterados: reindexar a base de conhecimento
+      if (agentData.trainingFiles && Array.isArray(agentData.trainingFiles) &&
+          JSON.stringify(agentData.trainingFiles) !== JSON.stringify(existingAgent.trainingFiles || [])) {
+        knowledgeBaseService.reindexAgent(agent).catch(error => {
+          console.error(`❌ Erro ao reindexar conhecimento do agente ${agent.name}:`, error);
+        });
+      }
+
       res.json(agent);
     } catch (error) {
       console.error("Update AI agent error:", error);
@@ -2254,7 +2490,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/ai-agents/:id/chat", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
-      const { message } = req.body;
+      const { message, history } = req.body;
 
       if (!message) {
         return res.status(400).json({ error: "Mensagem é obrigatória" });
@@ -2273,28 +2509,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Get AI configuration
       const aiConfig = await storage.getAiConfiguration();
-      if (!aiConfig || !aiConfig.apiKey) {
+      if (!aiConfig) {
         return res.status(404).json({ error: "Configuração de IA não encontrada" });
       }
 
       // Create AI response service
-      const aiResponseService = new AiResponseService(aiConfig.apiKey);
+      const aiResponseService = new AiResponseService(aiConfig);
 
-      // Generate response using agent's prompt and training content with hierarchy support
-      const response = await aiResponseService.generateResponse({
+      // Generate response using agent's prompt and knowledge base with hierarchy support
+      const { response, sources } = await aiResponseService.generateResponse({
         message,
         agentId: agent.id,
         agentPrompt: agent.prompt,
-        agentTrainingContent: agent.trainingContent || undefined,
         temperatura: Number(agent.temperatura) || Number(aiConfig.temperatura) || 0.7,
-        modelo: agent.modelo || aiConfig.modelo || "gpt-4o",
+        provider: agent.provider || 'openai',
+        modelo: resolveAgentModel(agent, aiConfig),
         numeroTokens: Number(agent.numeroTokens) || Number(aiConfig.numeroTokens) || 1000,
         agentType: (agent.agentType as "main" | "secondary") || 'main',
         delegationKeywords: Array.isArray(agent.delegationKeywords) ? agent.delegationKeywords : [],
         companyId: agent.companyId,
       });
 
-      res.json({ response });
+      // Mesma detecção de busca de imóveis usada no WhatsApp, exibida no chat de teste para depuração
+      const searchDetection = agent.companyId
+        ? await propertySearchDetectionService.analyze(
+            agent.companyId,
+            message,
+            Array.isArray(history) ? history.filter((item: unknown) => typeof item === "string") : []
+          )
+        : null;
+
+      res.json({ response, sources, searchDetection });
     } catch (error) {
       console.error("AI agent chat error:", error);
       res.status(500).json({ error: "Erro ao gerar resposta" });
@@ -2319,20 +2564,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Get AI configuration
       const aiConfig = await storage.getAiConfiguration();
-      if (!aiConfig || !aiConfig.apiKey) {
+      if (!aiConfig) {
         return res.status(404).json({ error: "Configuração de IA não encontrada" });
       }
 
       // Create AI response service
-      const aiResponseService = new AiResponseService(aiConfig.apiKey);
+      const aiResponseService = new AiResponseService(aiConfig);
 
       // Test agent
       const testResult = await aiResponseService.testAgent({
         agentId: agent.id,
         agentPrompt: agent.prompt,
-        agentTrainingContent: agent.trainingContent || undefined,
         temperatura: Number(agent.temperatura) || Number(aiConfig.temperatura) || 0.7,
-        modelo: agent.modelo || aiConfig.modelo || "gpt-4o",
+        provider: agent.provider || 'openai',
+        modelo: resolveAgentModel(agent, aiConfig),
         numeroTokens: Number(agent.numeroTokens) || Number(aiConfig.numeroTokens) || 1000,
       });
 
@@ -2499,7 +2744,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 "CHATS_SET",
                 "CHATS_UPSERT",
                 "CHATS_UPDATE",
-                "CHATS_DELETE"
+                "CHATS_DELETE",
+                "CONNECTION_UPDATE"
               ]
             }
           };
@@ -2776,7 +3022,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             "CHATS_SET",
             "CHATS_UPSERT",
             "CHATS_UPDATE",
-            "CHATS_DELETE"
+            "CHATS_DELETE",
+            "CONNECTION_UPDATE"
           ]
         }
       };
@@ -2897,6 +3144,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const eventType = req.body.event;
       console.log(`🎯 [WEBHOOK-${requestId}] Event type detected: ${eventType}`);
 
+      // Sem webhook por eventos, as mudanças de conexão também chegam por aqui
+      const connectionEvents = ['connection.update', 'CONNECTION_UPDATE', 'connection_update'];
+      if (connectionEvents.includes(eventType)) {
+        await instanceHealthService.handleConnectionUpdate(req.body);
+        return res.status(200).json({ success: true, processed: true, type: "connection_update", requestId });
+      }
+
+      const updateEvents = ['messages.update', 'MESSAGES_UPDATE', 'messages_update'];
+      if (updateEvents.includes(eventType)) {
+        const applied = await messageReceiptsService.handleMessagesUpdate(req.body);
+        return res.status(200).json({ success: true, processed: applied > 0, type: "messages_update", requestId });
+      }
+
       // Aceitar múltiplos formatos de evento MESSAGES_UPSERT
       const validEvents = ['messages.upsert', 'MESSAGES_UPSERT', 'messages_upsert', 'MESSAGES.UPSERT'];
       if (!validEvents.includes(eventType)) {
@@ -2915,61 +3175,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`👤 [WEBHOOK-${requestId}] FromMe: ${fromMe}`);
 
       if (fromMe === true) {
-        console.log(`📤 [WEBHOOK-${requestId}] Message sent by us, ignoring to prevent loop`);
-        return res.status(200).json({
+        // Não processa com a IA (evita loop), mas se foi um corretor digitando no celular a IA é pausada
+        console.log(`📤 [WEBHOOK-${requestId}] Message sent by us, checking for human takeover`);
+        res.status(200).json({
           success: true,
           processed: false,
           ignored: true,
           reason: "Message sent by us",
           requestId
         });
+        // Depois de responder: conferir se é eco de um envio pode levar alguns segundos
+        const { whatsappWebhookService } = await import("./services/whatsappWebhook");
+        await whatsappWebhookService.handleOutgoingMessage(req.body);
+        return;
       }
 
-      // VERIFICAR DUPLICAÇÃO: usar ID da mensagem para evitar processamento duplo
-      const messageId = req.body.data?.key?.id;
-      if (messageId) {
-        if (processedMessagesCache.has(messageId)) {
-          console.log(`⏭️ [WEBHOOK-${requestId}] Mensagem já processada (ID: ${messageId}), ignorando duplicata`);
-          return res.status(200).json({
-            success: true,
-            processed: false,
-            ignored: true,
-            reason: "Message already processed (duplicate)",
-            requestId
-          });
-        }
-        // Marcar como processada
-        processedMessagesCache.set(messageId, Date.now());
-        console.log(`🆔 [WEBHOOK-${requestId}] Mensagem registrada no cache: ${messageId}`);
-      }
-
-      console.log(`⏱️ [WEBHOOK-${requestId}] Starting message processing...`);
-      const { whatsappWebhookService } = await import("./services/whatsappWebhook");
+      // Gravar na fila persistente: duplicatas (mesmo evolutionMessageId) são descartadas e o
+      // agregador aguarda 15 segundos para combinar mensagens sequenciais
+      console.log(`⏱️ [WEBHOOK-${requestId}] Enqueuing message...`);
       const { messageAggregatorService } = await import("./services/messageAggregator");
-
-      // Usar o agregador de mensagens para aguardar 15 segundos e combinar mensagens sequenciais
-      const wasAggregated = await messageAggregatorService.addMessage(
-        req.body,
-        async (aggregatedData) => {
-          console.log(`🔄 [WEBHOOK-${requestId}] Processing aggregated message...`);
-          await whatsappWebhookService.handleEvolutionMessage(aggregatedData);
-        }
-      );
+      const result = await messageAggregatorService.enqueue(req.body);
 
       const processingTime = Date.now() - startTime;
-      if (wasAggregated) {
-        console.log(`⏳ [WEBHOOK-${requestId}] Message added to aggregation buffer, waiting for more messages...`);
-        res.status(200).json({ success: true, processed: false, aggregated: true, requestId, processingTime });
-      } else {
-        console.log(`✅ [WEBHOOK-${requestId}] Message processed immediately in ${processingTime}ms`);
-        res.status(200).json({ success: true, processed: true, requestId, processingTime });
+      if (result === "duplicate") {
+        console.log(`⏭️ [WEBHOOK-${requestId}] Mensagem já recebida (ID: ${req.body.data?.key?.id}), ignorando duplicata`);
+        return res.status(200).json({
+          success: true,
+          processed: false,
+          ignored: true,
+          reason: "Message already processed (duplicate)",
+          requestId
+        });
       }
+
+      console.log(`⏳ [WEBHOOK-${requestId}] Message queued in ${processingTime}ms`);
+      res.status(200).json({ success: true, processed: false, queued: true, requestId, processingTime });
     } catch (error) {
       const processingTime = Date.now() - startTime;
       console.error(`❌ [WEBHOOK-${requestId}] CRITICAL ERROR after ${processingTime}ms:`, error);
       console.error(`❌ [WEBHOOK-${requestId}] ERROR STACK:`, error.stack);
       console.error(`❌ [WEBHOOK-${requestId}] ERROR MESSAGE:`, error.message);
-      res.status(200).json({ success: true, processed: false, error: error.message, requestId });
+      // Nada foi gravado na fila: erro 5xx para a Evolution API reenviar
+      res.status(500).json({ success: false, processed: false, error: error.message, requestId });
     }
   });
 
@@ -3005,55 +3252,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       console.log("🔥🔥🔥 [MESSAGES-UPSERT] Full request body:", JSON.stringify(req.body, null, 2));
 
-      // VERIFICAR DUPLICAÇÃO: usar ID da mensagem para evitar processamento duplo
-      const messageIdUpsert = req.body.data?.key?.id;
-      if (messageIdUpsert) {
-        if (processedMessagesCache.has(messageIdUpsert)) {
-          console.log(`⏭️ [MESSAGES-UPSERT] Mensagem já processada (ID: ${messageIdUpsert}), ignorando duplicata`);
-          return res.status(200).json({
-            success: true,
-            processed: false,
-            ignored: true,
-            reason: "Message already processed (duplicate)",
-            type: "messages_upsert"
-          });
-        }
-        // Marcar como processada
-        processedMessagesCache.set(messageIdUpsert, Date.now());
-        console.log(`🆔 [MESSAGES-UPSERT] Mensagem registrada no cache: ${messageIdUpsert}`);
+      // Mensagens enviadas pela própria instância não vão para a IA; podem indicar atendimento humano
+      if ((req.body.data?.key?.fromMe || req.body.data?.fromMe) === true) {
+        res.status(200).json({
+          success: true,
+          processed: false,
+          ignored: true,
+          reason: "Message sent by us",
+          type: "messages_upsert"
+        });
+        // Depois de responder: conferir se é eco de um envio pode levar alguns segundos
+        await whatsappWebhookService.handleOutgoingMessage(req.body);
+        return;
       }
 
-      // Usar o agregador de mensagens para aguardar 15 segundos e combinar mensagens sequenciais
+      // Gravar na fila persistente (descarta duplicatas e agrega mensagens sequenciais)
       const { messageAggregatorService } = await import("./services/messageAggregator");
-      const wasAggregated = await messageAggregatorService.addMessage(
-        req.body,
-        async (aggregatedData) => {
-          console.log(`🔄 [MESSAGES-UPSERT] Processing aggregated message...`);
-          await whatsappWebhookService.handleEvolutionMessage(aggregatedData);
-        }
-      );
+      const result = await messageAggregatorService.enqueue(req.body);
+
+      if (result === "duplicate") {
+        console.log(`⏭️ [MESSAGES-UPSERT] Mensagem já recebida (ID: ${req.body.data?.key?.id}), ignorando duplicata`);
+        return res.status(200).json({
+          success: true,
+          processed: false,
+          ignored: true,
+          reason: "Message already processed (duplicate)",
+          type: "messages_upsert"
+        });
+      }
 
       res.status(200).json({
         success: true,
-        processed: !wasAggregated,
-        aggregated: wasAggregated,
+        processed: false,
+        queued: true,
         type: "messages_upsert",
         timestamp: new Date().toISOString()
       });
     } catch (error) {
       console.error("❌ Error in messages-upsert webhook:", error);
-      res.status(200).json({ success: true, processed: false });
+      res.status(500).json({ success: false, processed: false });
+    }
+  });
+
+  // Fila persistente de mensagens recebidas (monitoramento e dead-letter)
+  app.get("/api/admin/webhook-queue", authenticate, requireAdmin, async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "dead";
+      const limit = parseInt(req.query.limit as string) || 50;
+      const { messageAggregatorService } = await import("./services/messageAggregator");
+
+      const [stats, items] = await Promise.all([
+        messageAggregatorService.getStats(),
+        storage.getWebhookQueueItems(status, limit)
+      ]);
+
+      res.json({ stats, items });
+    } catch (error) {
+      console.error("Get webhook queue error:", error);
+      res.status(500).json({ error: "Erro ao buscar fila de webhooks" });
+    }
+  });
+
+  app.post("/api/admin/webhook-queue/:id/retry", authenticate, requireAdmin, async (req, res) => {
+    try {
+      const { messageAggregatorService } = await import("./services/messageAggregator");
+      const requeued = await messageAggregatorService.retry(req.params.id);
+      if (!requeued) {
+        return res.status(404).json({ error: "Mensagem não encontrada ou não está com falha" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Retry webhook queue item error:", error);
+      res.status(500).json({ error: "Erro ao reprocessar mensagem" });
     }
   });
 
+  // Conexão/desconexão da instância: alimenta o monitor de saúde
+  app.post("/api/webhook/messages/connection-update", async (req, res) => {
+    console.log(`🩺 [CONNECTION-UPDATE] ${req.body?.instance}: ${req.body?.data?.state}`);
+    await instanceHealthService.handleConnectionUpdate(req.body);
+    res.status(200).json({ success: true, processed: true, type: "connection_update" });
+  });
+
   app.post("/api/webhook/messages/chats-update", async (req, res) => {
     console.log("💬 [CHATS-UPDATE] Chat update received (ignoring)");
     res.status(200).json({ success: true, processed: false, type: "chats_update" });
   });
 
+  // Confirmações de entrega e leitura das mensagens enviadas
   app.post("/api/webhook/messages/messages-update", async (req, res) => {
-    console.log("📝 [MESSAGES-UPDATE] Message update received (ignoring)");
-    res.status(200).json({ success: true, processed: false, type: "messages_update" });
+    const applied = await messageReceiptsService.handleMessagesUpdate(req.body);
+    console.log(`📝 [MESSAGES-UPDATE] ${applied} confirmação(ões) aplicada(s)`);
+    res.status(200).json({ success: true, processed: applied > 0, type: "messages_update" });
   });
 
   app.post("/api/webhook/messages/send-message", async (req, res) => {
@@ -3148,69 +3438,355 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/conversations/:id/messages", authenticate, requireClient, async (req, res) => {
+  // Estado da IA na conversa (atendimento humano). Identificada por instância + telefone,
+  // pois a tela de conversas lista os chats direto da Evolution API
+  app.get("/api/conversations/ai-state", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
-      const { id } = req.params;
-      const messages = await storage.getMessagesByConversation(id);
-      res.json(messages);
+      const { instanceId, phone } = req.query;
+      if (!instanceId || !phone) {
+        return res.status(400).json({ error: "Instância e telefone são obrigatórios" });
+      }
+
+      const instance = await storage.getWhatsappInstance(instanceId as string);
+      if (!instance || instance.companyId !== req.user?.companyId) {
+        return res.status(404).json({ error: "Instância não encontrada" });
+      }
+
+      const company = await storage.getCompany(instance.companyId);
+      let conversation = await storage.getConversationByPhone(instance.id, phone as string);
+      if (conversation) {
+        // Aplica a retomada automática por inatividade antes de exibir o estado
+        await conversationControlService.isAiEnabled(conversation, instance.companyId);
+        conversation = await storage.getConversation(conversation.id);
+      }
+
+      res.json({
+        conversationId: conversation?.id || null,
+        aiState: conversation?.aiState || "active",
+        aiStateReason: conversation?.aiStateReason || null,
+        aiStateChangedAt: conversation?.aiStateChangedAt || null,
+        aiPausedBy: conversation?.aiPausedBy || null,
+        lastHumanMessageAt: conversation?.lastHumanMessageAt || null,
+        resumeIdleMinutes: company?.aiResumeIdleMinutes ?? 30,
+      });
     } catch (error) {
-      console.error("Get messages error:", error);
-      res.status(500).json({ error: "Erro ao buscar mensagens" });
+      console.error("Get conversation AI state error:", error);
+      res.status(500).json({ error: "Erro ao buscar estado da IA" });
     }
   });
 
-  app.post("/api/conversations/:id/messages", authenticate, requireClient, async (req, res) => {
+  app.put("/api/conversations/ai-state", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
-      const { id } = req.params;
-      const messageData = insertMessageSchema.parse({
-        ...req.body,
-        conversationId: id
+      const { instanceId, phone, aiState } = req.body;
+      if (!instanceId || !phone) {
+        return res.status(400).json({ error: "Instância e telefone são obrigatórios" });
+      }
+      if (!conversationControlService.isAiState(aiState)) {
+        return res.status(400).json({ error: "Estado da IA inválido" });
+      }
+
+      const instance = await storage.getWhatsappInstance(instanceId);
+      if (!instance || instance.companyId !== req.user?.companyId) {
+        return res.status(404).json({ error: "Instância não encontrada" });
+      }
+
+      const conversation = await conversationControlService.ensureConversation(instance.id, phone);
+      const updated = await conversationControlService.setState(conversation, aiState, "manual", req.user?.id);
+
+      res.json({
+        conversationId: updated.id,
+        aiState: updated.aiState,
+        aiStateReason: updated.aiStateReason,
+        aiStateChangedAt: updated.aiStateChangedAt,
+        aiPausedBy: updated.aiPausedBy,
+        lastHumanMessageAt: updated.lastHumanMessageAt,
       });
+    } catch (error) {
+      console.error("Update conversation AI state error:", error);
+      res.status(500).json({ error: "Erro ao atualizar estado da IA" });
+    }
+  });
 
-      const message = await storage.createMessage(messageData);
-      res.status(201).json(message);
+  // Conversa e instância, somente se pertencerem à empresa do usuário
+  const getCompanyConversation = async (companyId: string | null | undefined, conversationId: string) => {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation || !companyId) return undefined;
+
+    const instance = await storage.getWhatsappInstance(conversation.whatsappInstanceId);
+    return instance && instance.companyId === companyId ? { conversation, instance } : undefined;
+  };
+
+  app.get("/api/conversations/:id/messages", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const found = await getCompanyConversation(req.user?.companyId, req.params.id);
+      if (!found) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+
+      const messages = await storage.getMessagesByConversation(found.conversation.id);
+      res.json(messages.map(message => mediaStorageService.forClient(message)));
     } catch (error) {
-      console.error("Create message error:", error);
-      res.status(500).json({ error: "Erro ao criar mensagem" });
+      console.error("Get messages error:", error);
+      res.status(500).json({ error: "Erro ao buscar mensagens" });
     }
   });
 
-  // Fetch conversations directly from Evolution API
-  app.get("/api/conversations/evolution/:instanceId", authenticate, requireClient, async (req: AuthRequest, res) => {
+  // Mídia das conversas: só com a URL assinada entregue pelas rotas autenticadas da empresa
+  app.get("/api/media/:companyId/:file", async (req, res) => {
     try {
-      const { instanceId } = req.params;
-      console.log(`🔍 [DEBUG] Fetching Evolution chats for instance: ${instanceId}`);
-      
-      // Get instance details to access Evolution API
-      const instance = await storage.getWhatsappInstance(instanceId);
-      if (!instance) {
-        console.log(`❌ [ERROR] Instance not found: ${instanceId}`);
-        return res.status(404).json({ error: "Instância não encontrada" });
+      const key = `${req.params.companyId}/${req.params.file}`;
+      const media = await mediaStorageService.resolveSigned(key, String(req.query.expires || ""), String(req.query.signature || ""));
+      if (!media) {
+        return res.status(404).json({ error: "Arquivo não encontrado" });
       }
 
-      console.log(`✅ [DEBUG] Instance found: ${instance.name}, companyId: ${instance.companyId}`);
+      res.setHeader("Content-Type", media.contentType);
+      res.setHeader("Content-Disposition", "attachment");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.sendFile(media.filePath);
+    } catch (error) {
+      console.error("Get media error:", error);
+      res.status(500).json({ error: "Erro ao buscar arquivo" });
+    }
+  });
 
-      // Check if instance belongs to user's company
-      if (instance.companyId !== req.user?.companyId) {
-        console.log(`❌ [ERROR] Access denied for company ${req.user?.companyId}, instance belongs to ${instance.companyId}`);
-        return res.status(403).json({ error: "Acesso negado" });
+  // Resposta da equipe: sai de verdade pelo WhatsApp da instância da conversa
+  app.post("/api/conversations/:id/messages", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const found = await getCompanyConversation(req.user?.companyId, req.params.id);
+      if (!found) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
       }
 
-      // Get Evolution API configuration
-      const config = await storage.getEvolutionApiConfiguration();
-      if (!config) {
-        console.log(`❌ [ERROR] Evolution API config not found`);
-        return res.status(400).json({ 
-          error: "Configuração da Evolution API não encontrada", 
-          details: "Acesse a área Admin para configurar a Evolution API primeiro" 
-        });
+      const result = inboxReplySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
       }
 
-      console.log(`🔧 [DEBUG] Evolution API Config: ${config.evolutionURL}`);
-      
-      // Use instance token if available, otherwise fallback to global token
-      const tokenToUse = instance.evolutionToken || config.evolutionToken;
-      console.log(`🔐 [DEBUG] Using token: ${tokenToUse ? 'Instance-specific token' : 'Global token'}`);
+      if (found.instance.status !== "connected") {
+        return res.status(400).json({ error: "A instância do WhatsApp desta conversa está desconectada" });
+      }
+
+      const messages = await teamInboxService.sendReply(found.conversation, found.instance, result.data, req.user!.id);
+      res.status(201).json(messages.map(message => mediaStorageService.forClient(message)));
+    } catch (error: any) {
+      console.error("Send inbox reply error:", error);
+      res.status(500).json({ error: error?.message || "Erro ao enviar mensagem" });
+    }
+  });
+
+  // Status, responsável e etiquetas da conversa
+  app.put("/api/conversations/:id", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const companyId = req.user?.companyId;
+      const found = await getCompanyConversation(companyId, req.params.id);
+      if (!found || !companyId) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+
+      const result = conversationUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      const { assignedUserId, assignedBrokerId } = result.data;
+      if (assignedUserId) {
+        const user = await storage.getUser(assignedUserId);
+        if (!user || user.companyId !== companyId) {
+          return res.status(400).json({ error: "Usuário responsável não encontrado" });
+        }
+      }
+      if (assignedBrokerId) {
+        const broker = await storage.getBroker(assignedBrokerId);
+        if (!broker || broker.companyId !== companyId) {
+          return res.status(400).json({ error: "Corretor responsável não encontrado" });
+        }
+      }
+
+      await conversationAssignmentService.update(found.conversation, result.data);
+      await inboxEventsService.notify(found.conversation.id);
+      res.json(await storage.getInboxConversation(found.conversation.id));
+    } catch (error) {
+      console.error("Update conversation error:", error);
+      res.status(500).json({ error: "Erro ao atualizar conversa" });
+    }
+  });
+
+  // Notas internas: ficam só no painel, nunca são enviadas ao cliente
+  app.get("/api/conversations/:id/notes", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const found = await getCompanyConversation(req.user?.companyId, req.params.id);
+      if (!found) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+
+      const notes = await storage.getConversationNotes(found.conversation.id);
+      res.json(notes);
+    } catch (error) {
+      console.error("Get conversation notes error:", error);
+      res.status(500).json({ error: "Erro ao buscar notas" });
+    }
+  });
+
+  app.post("/api/conversations/:id/notes", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const found = await getCompanyConversation(req.user?.companyId, req.params.id);
+      if (!found) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+
+      const result = conversationNoteFormSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      const note = await storage.createConversationNote({
+        conversationId: found.conversation.id,
+        companyId: found.instance.companyId,
+        userId: req.user!.id,
+        content: result.data.content,
+      });
+      inboxEventsService.publish(found.instance.companyId, { type: "note", conversationId: note.conversationId, note });
+      res.status(201).json(note);
+    } catch (error) {
+      console.error("Create conversation note error:", error);
+      res.status(500).json({ error: "Erro ao salvar nota" });
+    }
+  });
+
+  // Caixa de entrada unificada: conversas de todas as instâncias da empresa
+  app.get("/api/inbox/conversations", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const filter = (INBOX_FILTERS as readonly string[]).includes(req.query.filter as string)
+        ? req.query.filter as InboxFilter
+        : "all";
+      const status = (CONVERSATION_STATUSES as readonly string[]).includes(req.query.status as string)
+        ? req.query.status as string
+        : null;
+
+      const [conversations, brokers] = await Promise.all([
+        storage.getConversationsByCompany(req.user.companyId),
+        filter === "mine" ? storage.getBrokersByCompany(req.user.companyId) : Promise.resolve([]),
+      ]);
+      const email = (req.user.email || "").toLowerCase();
+      const ownBrokerIds = brokers.filter(broker => !!email && broker.email?.toLowerCase() === email).map(broker => broker.id);
+
+      res.json(conversations.filter(conversation =>
+        (!status || conversation.status === status) &&
+        conversationAssignmentService.matchesFilter(conversation, filter, req.user!.id, ownBrokerIds)
+      ));
+    } catch (error) {
+      console.error("Get inbox conversations error:", error);
+      res.status(500).json({ error: "Erro ao buscar conversas" });
+    }
+  });
+
+  app.get("/api/inbox/conversations/:id", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const found = await getCompanyConversation(req.user?.companyId, req.params.id);
+      if (!found) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+
+      res.json(await storage.getInboxConversation(found.conversation.id));
+    } catch (error) {
+      console.error("Get inbox conversation error:", error);
+      res.status(500).json({ error: "Erro ao buscar conversa" });
+    }
+  });
+
+  // Quem pode ser responsável por uma conversa: usuários do painel e corretores
+  app.get("/api/inbox/assignees", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const [users, brokers] = await Promise.all([
+        storage.getUsersByCompany(req.user.companyId),
+        storage.getBrokersByCompany(req.user.companyId),
+      ]);
+      res.json({
+        users: users.map(user => ({ id: user.id, name: user.name || user.email })),
+        brokers: brokers.map(broker => ({ id: broker.id, name: broker.name })),
+      });
+    } catch (error) {
+      console.error("Get inbox assignees error:", error);
+      res.status(500).json({ error: "Erro ao buscar responsáveis" });
+    }
+  });
+
+  // Atualizações ao vivo (SSE). O EventSource do navegador não envia cabeçalhos: o painel pede
+  // antes um ticket de uso único (autenticado) e abre o stream com ele, sem expor o JWT na URL
+  app.post("/api/inbox/stream-ticket", authenticate, requireClient, async (req: AuthRequest, res) => {
+    if (!req.user?.companyId) {
+      return res.status(400).json({ error: "Company ID não encontrado" });
+    }
+
+    res.json({ ticket: inboxEventsService.issueTicket(req.user.id, req.user.companyId) });
+  });
+
+  app.get("/api/inbox/stream", async (req, res) => {
+    try {
+      const ticket = typeof req.query.ticket === "string" ? inboxEventsService.redeemTicket(req.query.ticket) : null;
+      if (!ticket) {
+        return res.status(401).json({ error: "Ticket inválido ou expirado" });
+      }
+
+      // O usuário pode ter sido removido ou mudado de empresa desde o login
+      const user = await storage.getUser(ticket.userId);
+      if (!user || user.role !== "client" || user.companyId !== ticket.companyId) {
+        return res.status(403).json({ error: "Acesso negado: requer permissões de cliente" });
+      }
+
+      inboxEventsService.subscribe(ticket.companyId, res);
+    } catch (error) {
+      console.error("Inbox stream error:", error);
+      res.status(500).json({ error: "Erro ao abrir atualizações ao vivo" });
+    }
+  });
+
+  // Fetch conversations directly from Evolution API
+  app.get("/api/conversations/evolution/:instanceId", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const { instanceId } = req.params;
+      console.log(`🔍 [DEBUG] Fetching Evolution chats for instance: ${instanceId}`);
+      
+      // Get instance details to access Evolution API
+      const instance = await storage.getWhatsappInstance(instanceId);
+      if (!instance) {
+        console.log(`❌ [ERROR] Instance not found: ${instanceId}`);
+        return res.status(404).json({ error: "Instância não encontrada" });
+      }
+
+      console.log(`✅ [DEBUG] Instance found: ${instance.name}, companyId: ${instance.companyId}`);
+
+      // Check if instance belongs to user's company
+      if (instance.companyId !== req.user?.companyId) {
+        console.log(`❌ [ERROR] Access denied for company ${req.user?.companyId}, instance belongs to ${instance.companyId}`);
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+
+      // Get Evolution API configuration
+      const config = await storage.getEvolutionApiConfiguration();
+      if (!config) {
+        console.log(`❌ [ERROR] Evolution API config not found`);
+        return res.status(400).json({ 
+          error: "Configuração da Evolution API não encontrada", 
+          details: "Acesse a área Admin para configurar a Evolution API primeiro" 
+        });
+      }
+
+      console.log(`🔧 [DEBUG] Evolution API Config: ${config.evolutionURL}`);
+      
+      // Use instance token if available, otherwise fallback to global token
+      const tokenToUse = instance.evolutionToken || config.evolutionToken;
+      console.log(`🔐 [DEBUG] Using token: ${tokenToUse ? 'Instance-specific token' : 'Global token'}`);
 
       const evolutionApi = new EvolutionApiService({
         baseURL: config.evolutionURL,
@@ -4077,6 +4653,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Lista de bloqueio: números que não recebem disparos nem alertas automáticos
+  app.get("/api/contact-opt-outs", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const optOuts = await storage.getContactOptOuts(req.user.companyId);
+      res.json(optOuts);
+    } catch (error) {
+      console.error("Get contact opt-outs error:", error);
+      res.status(500).json({ error: "Erro ao buscar lista de bloqueio" });
+    }
+  });
+
+  app.post("/api/contact-opt-outs", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const result = contactOptOutFormSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      if (await contactOptOutService.isBlocked(req.user.companyId, result.data.phone)) {
+        return res.status(409).json({ error: "Este número já está na lista de bloqueio" });
+      }
+
+      const optOut = await contactOptOutService.optOut(req.user.companyId, result.data, "manual", req.user.id);
+      res.status(201).json(optOut);
+    } catch (error) {
+      console.error("Create contact opt-out error:", error);
+      res.status(500).json({ error: "Erro ao bloquear número" });
+    }
+  });
+
+  app.delete("/api/contact-opt-outs/:id", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const optOut = await storage.getContactOptOut(req.params.id);
+      if (!optOut) {
+        return res.status(404).json({ error: "Número não encontrado na lista de bloqueio" });
+      }
+
+      if (optOut.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Não autorizado" });
+      }
+
+      await contactOptOutService.remove(optOut, req.user.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete contact opt-out error:", error);
+      res.status(500).json({ error: "Erro ao desbloquear número" });
+    }
+  });
+
   // Contact Lists endpoints
   app.get("/api/contact-lists", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
@@ -4252,6 +4885,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         companyId: req.user.companyId
       });
 
+      // Público: lista de contatos importada ou segmento do CRM (resolvido no envio)
+      if (messageData.audienceType === 'segment') {
+        if (!messageData.segmentFilters) {
+          return res.status(400).json({ error: "Defina os filtros do segmento" });
+        }
+        messageData.contactListId = null;
+      } else {
+        if (!messageData.contactListId) {
+          return res.status(400).json({ error: "Selecione uma lista de contatos" });
+        }
+        messageData.segmentFilters = null;
+      }
+
+      // Janela de envio: início e fim no mesmo dia, no fuso da empresa
+      if (!!messageData.sendWindowStart !== !!messageData.sendWindowEnd) {
+        return res.status(400).json({ error: "Informe o início e o fim da janela de envio" });
+      }
+      if (messageData.sendWindowStart && messageData.sendWindowEnd && messageData.sendWindowStart >= messageData.sendWindowEnd) {
+        return res.status(400).json({ error: "O fim da janela de envio deve ser depois do início" });
+      }
+
       const scheduledMessage = await storage.createScheduledMessage(messageData);
       
       // If scheduled for immediate sending (within 1 minute), mark for processing
@@ -4329,6 +4983,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Prévia do público de um segmento do CRM (quantidade e amostra de contatos)
+  app.post("/api/audience-segments/preview", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const result = audienceSegmentFiltersSchema.safeParse(req.body?.filters || {});
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors });
+      }
+
+      const preview = await audienceSegmentService.preview(req.user.companyId, result.data);
+      res.json(preview);
+    } catch (error) {
+      console.error("Preview audience segment error:", error);
+      res.status(500).json({ error: "Erro ao calcular público do segmento" });
+    }
+  });
+
+  // Log de entrega por contato do disparo
+  app.get("/api/scheduled-messages/:id/recipients", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const { id } = req.params;
+      const scheduledMessage = await storage.getScheduledMessage(id);
+      
+      if (!scheduledMessage) {
+        return res.status(404).json({ error: "Agendamento não encontrado" });
+      }
+
+      // Check company access
+      if (req.user?.role !== 'admin' && scheduledMessage.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+
+      const status = typeof req.query.status === 'string' && req.query.status !== 'all' ? req.query.status : undefined;
+      const [recipients, counts, delivery] = await Promise.all([
+        storage.getBroadcastRecipients(id, status),
+        storage.getBroadcastRecipientCounts(id),
+        storage.getBroadcastDeliveryCounts(id, messageReceiptsService.undeliveredBefore())
+      ]);
+
+      res.json({ recipients, counts, delivery });
+    } catch (error) {
+      console.error("Get broadcast recipients error:", error);
+      res.status(500).json({ error: "Erro ao buscar destinatários do disparo" });
+    }
+  });
+
+  // Devolve os destinatários com falha para a fila; o processador retoma o disparo no próximo ciclo
+  app.post("/api/scheduled-messages/:id/retry-failed", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const { id } = req.params;
+      const scheduledMessage = await storage.getScheduledMessage(id);
+      
+      if (!scheduledMessage) {
+        return res.status(404).json({ error: "Agendamento não encontrado" });
+      }
+
+      // Check company access
+      if (req.user?.role !== 'admin' && scheduledMessage.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+
+      if (scheduledMessage.status !== 'completed' && scheduledMessage.status !== 'failed') {
+        return res.status(400).json({ error: "Só é possível reenviar falhas de disparos concluídos ou com erro" });
+      }
+
+      const retried = await storage.resetFailedBroadcastRecipients(id);
+      const counts = await storage.getBroadcastRecipientCounts(id);
+      if (retried === 0 && counts.pending === 0) {
+        return res.status(400).json({ error: "Nenhum envio com falha para reenviar" });
+      }
+
+      await storage.updateScheduledMessage(id, {
+        status: 'scheduled',
+        failedMessages: counts.failed,
+        errorMessage: null
+      });
+
+      res.json({ success: true, retried: counts.pending });
+    } catch (error) {
+      console.error("Retry failed recipients error:", error);
+      res.status(500).json({ error: "Erro ao reenviar falhas do disparo" });
+    }
+  });
+
   app.put("/api/scheduled-messages/:id/force-process", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
@@ -4373,9 +5114,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Test getting the contact list
-      const contactList = await storage.getContactList(scheduledMessage.contactListId);
-      const contacts = await storage.getContactListItems(scheduledMessage.contactListId);
+      const contactList = scheduledMessage.contactListId ? await storage.getContactList(scheduledMessage.contactListId) : undefined;
+      const contacts = scheduledMessage.contactListId ? await storage.getContactListItems(scheduledMessage.contactListId) : [];
       const validContacts = contacts.filter(c => c.valid);
+      const segment = scheduledMessage.audienceType === 'segment'
+        ? await audienceSegmentService.preview(scheduledMessage.companyId, audienceSegmentService.parseFilters(scheduledMessage.segmentFilters))
+        : null;
       
       // Test getting instances
       const instances = await storage.getWhatsappInstancesByIds(scheduledMessage.instanceIds);
@@ -4396,6 +5140,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             totalContacts: contacts.length,
             validContacts: validContacts.length
           },
+          segment: segment ? { total: segment.total, leads: segment.leads, customers: segment.customers } : null,
           instances: {
             requested: scheduledMessage.instanceIds,
             found: instances.length,
@@ -4506,10 +5251,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Funnel Stages endpoints (Global - fixed for all companies)
+  // Funnel Stages endpoints (etapas da empresa, ou as globais enquanto ela não personalizar o funil)
   app.get("/api/funnel-stages", authenticate, async (req: AuthRequest, res) => {
     try {
-      const funnelStages = await storage.getGlobalFunnelStages();
+      const includeArchived = req.query.includeArchived === 'true';
+      const funnelStages = req.user?.companyId
+        ? await storage.getCompanyFunnelStages(req.user.companyId, includeArchived)
+        : await storage.getGlobalFunnelStages();
       res.json(funnelStages);
     } catch (error) {
       console.error("Get funnel stages error:", error);
@@ -4517,6 +5265,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Qualquer alteração no funil copia antes as etapas globais para a empresa;
+  // ids de etapas globais enviados pelo cliente são traduzidos para as cópias
+  const getCompanyFunnelStage = async (companyId: string, stageId: string) => {
+    const idMap = await storage.ensureCompanyFunnelStages(companyId);
+    const stage = await storage.getFunnelStage(idMap.get(stageId) || stageId);
+    return stage && stage.companyId === companyId ? stage : undefined;
+  };
+
+  app.post("/api/funnel-stages", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const result = funnelStageFormSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      await storage.ensureCompanyFunnelStages(req.user.companyId);
+      const stage = await storage.createFunnelStage({ ...result.data, companyId: req.user.companyId });
+      res.status(201).json(stage);
+    } catch (error) {
+      console.error("Create funnel stage error:", error);
+      res.status(500).json({ error: "Erro ao criar etapa do funil" });
+    }
+  });
+
+  app.put("/api/funnel-stages/reorder", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const result = funnelStageReorderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      const idMap = await storage.ensureCompanyFunnelStages(req.user.companyId);
+      const stageIds = result.data.stageIds.map(id => idMap.get(id) || id);
+      const activeStages = await storage.getCompanyFunnelStages(req.user.companyId);
+      const activeIds = new Set(activeStages.map(stage => stage.id));
+
+      if (stageIds.length !== activeIds.size || stageIds.some(id => !activeIds.has(id))) {
+        return res.status(400).json({ error: "Informe todas as etapas ativas do funil na nova ordem" });
+      }
+
+      const stages = await storage.reorderFunnelStages(req.user.companyId, stageIds);
+      res.json(stages);
+    } catch (error) {
+      console.error("Reorder funnel stages error:", error);
+      res.status(500).json({ error: "Erro ao reordenar etapas do funil" });
+    }
+  });
+
+  app.put("/api/funnel-stages/:id", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const result = funnelStageFormSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      const stage = await getCompanyFunnelStage(req.user.companyId, req.params.id);
+      if (!stage) {
+        return res.status(404).json({ error: "Etapa não encontrada" });
+      }
+
+      const updated = await storage.updateFunnelStage(stage.id, result.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Update funnel stage error:", error);
+      res.status(500).json({ error: "Erro ao atualizar etapa do funil" });
+    }
+  });
+
+  app.post("/api/funnel-stages/:id/archive", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const stage = await getCompanyFunnelStage(req.user.companyId, req.params.id);
+      if (!stage) {
+        return res.status(404).json({ error: "Etapa não encontrada" });
+      }
+      if (!stage.isActive) {
+        return res.status(400).json({ error: "Etapa já está arquivada" });
+      }
+
+      const target = req.body?.targetStageId
+        ? await getCompanyFunnelStage(req.user.companyId, req.body.targetStageId)
+        : undefined;
+      if (!target || !target.isActive || target.id === stage.id) {
+        return res.status(400).json({ error: "Informe uma etapa ativa para onde mover os clientes" });
+      }
+
+      const customersInStage = (await storage.getCustomersByCompany(req.user.companyId))
+        .filter(customer => customer.funnelStageId === stage.id);
+      for (const customer of customersInStage) {
+        await customerActivityService.recordStageChange(customer, target.id, req.user.id, `Etapa "${stage.name}" arquivada`);
+      }
+
+      const movedCustomers = await storage.archiveFunnelStage(stage.id, target.id);
+      console.log(`🗂️ Etapa "${stage.name}" arquivada, ${movedCustomers} clientes movidos para "${target.name}"`);
+      res.json({ success: true, movedCustomers });
+    } catch (error) {
+      console.error("Archive funnel stage error:", error);
+      res.status(500).json({ error: "Erro ao arquivar etapa do funil" });
+    }
+  });
+
+  app.post("/api/funnel-stages/:id/restore", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const stage = await getCompanyFunnelStage(req.user.companyId, req.params.id);
+      if (!stage) {
+        return res.status(404).json({ error: "Etapa não encontrada" });
+      }
+
+      const restored = await storage.restoreFunnelStage(stage.id);
+      res.json(restored);
+    } catch (error) {
+      console.error("Restore funnel stage error:", error);
+      res.status(500).json({ error: "Erro ao restaurar etapa do funil" });
+    }
+  });
+
   // Customer endpoints
   app.get("/api/customers", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
@@ -4544,6 +5427,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const customer = await storage.createCustomer(customerData);
+      await customerActivityService.record(customer, {
+        type: 'created',
+        toStageId: customer.funnelStageId,
+        userId: req.user.id,
+        description: `Cliente cadastrado (origem: ${customer.source || 'manual'})`,
+      });
       res.status(201).json(customer);
     } catch (error) {
       console.error("Create customer error:", error);
@@ -4566,6 +5455,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedCustomer = await storage.updateCustomer(id, req.body);
+
+      if (req.body.funnelStageId) {
+        await customerActivityService.recordStageChange(customer, req.body.funnelStageId, req.user?.id);
+      }
+      if (typeof req.body.notes === 'string' && req.body.notes.trim() && req.body.notes !== (customer.notes || '')) {
+        await customerActivityService.record(customer, {
+          type: 'note',
+          userId: req.user?.id || null,
+          description: req.body.notes.trim(),
+        });
+      }
+
       res.json(updatedCustomer);
     } catch (error) {
       console.error("Update customer error:", error);
@@ -4595,6 +5496,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Linha do tempo do cliente
+  app.get("/api/customers/:id/activities", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+
+      if (!customer) {
+        return res.status(404).json({ error: "Cliente não encontrado" });
+      }
+
+      if (req.user?.role !== 'admin' && customer.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+
+      const timeline = await customerActivityService.getTimeline(customer.id);
+      res.json(timeline);
+    } catch (error) {
+      console.error("Get customer activities error:", error);
+      res.status(500).json({ error: "Erro ao buscar histórico do cliente" });
+    }
+  });
+
+  // Anotação avulsa na linha do tempo
+  app.post("/api/customers/:id/activities", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+
+      if (!customer) {
+        return res.status(404).json({ error: "Cliente não encontrado" });
+      }
+
+      if (req.user?.role !== 'admin' && customer.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+
+      const description = typeof req.body?.description === 'string' ? req.body.description.trim() : '';
+      if (!description) {
+        return res.status(400).json({ error: "Informe o texto da anotação" });
+      }
+
+      const activity = await storage.createCustomerActivity({
+        companyId: customer.companyId,
+        customerId: customer.id,
+        type: 'note',
+        userId: req.user?.id || null,
+        description,
+      });
+      res.status(201).json(activity);
+    } catch (error) {
+      console.error("Create customer activity error:", error);
+      res.status(500).json({ error: "Erro ao registrar anotação" });
+    }
+  });
+
+  // Perfil de preferências do contato (leads e atendimentos identificam o contato pelo telefone)
+  app.get("/api/lead-preferences", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const phone = typeof req.query.phone === 'string' ? req.query.phone.trim() : '';
+      if (!phone) {
+        return res.status(400).json({ error: "Informe o telefone do contato" });
+      }
+
+      const profile = await leadPreferenceService.getProfile(req.user.companyId, phone);
+      res.json(profile || null);
+    } catch (error) {
+      console.error("Get lead preferences error:", error);
+      res.status(500).json({ error: "Erro ao buscar preferências do contato" });
+    }
+  });
+
+  // Campos editados pela equipe deixam de ser atualizados pela IA
+  app.put("/api/lead-preferences", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const result = leadPreferencesUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      const profile = await leadPreferenceService.updateManually(req.user.companyId, result.data);
+      res.json(profile);
+    } catch (error) {
+      console.error("Update lead preferences error:", error);
+      res.status(500).json({ error: "Erro ao salvar preferências do contato" });
+    }
+  });
+
+  // Relatório do funil: tempo em cada etapa e conversão, a partir do histórico dos clientes
+  app.get("/api/reports/funnel", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      const from = typeof req.query.from === 'string' && datePattern.test(req.query.from) ? req.query.from : null;
+      const to = typeof req.query.to === 'string' && datePattern.test(req.query.to) ? req.query.to : null;
+
+      const report = await customerActivityService.getFunnelReport(req.user.companyId, from, to);
+      res.json(report);
+    } catch (error) {
+      console.error("Get funnel report error:", error);
+      res.status(500).json({ error: "Erro ao gerar relatório do funil" });
+    }
+  });
+
   // Leads endpoints
   app.get("/api/leads", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
@@ -4702,6 +5715,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const customer = await storage.createCustomer(customerData);
+      await customerActivityService.record(customer, {
+        type: 'lead_conversion',
+        toStageId: customer.funnelStageId,
+        userId: req.user?.id || null,
+        description: `Lead convertido em cliente (origem: ${lead.source || 'não informada'})`,
+        metadata: { leadId: lead.id },
+      });
 
       // Update lead to mark as converted
       await storage.updateLead(id, {
@@ -4732,6 +5752,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Busca paginada com filtros (listagem do painel): mesmo mecanismo usado pela IA
+  app.get("/api/properties/search", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user?.companyId) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      const result = propertySearchSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: result.error.errors });
+      }
+
+      res.json(await storage.searchProperties(req.user.companyId, result.data));
+    } catch (error) {
+      console.error("Search properties error:", error);
+      res.status(500).json({ error: "Erro ao buscar imóveis" });
+    }
+  });
+
   app.post("/api/properties", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
       // Adiciona companyId antes da validação para que o schema passe
@@ -4751,6 +5790,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("🔍 [PROPERTY CREATE] Final property data:", JSON.stringify(result.data, null, 2));
 
       const property = await storage.createProperty(result.data);
+
+      // Avisa os contatos interessados em segundo plano
+      propertyAlertService.queueMatches(property, 'new_property')
+        .catch(error => console.error("❌ [PROPERTY_ALERT] Erro ao buscar interessados no imóvel novo:", error));
+
       res.status(201).json(property);
     } catch (error) {
       console.error("Create property error:", error);
@@ -4778,6 +5822,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedProperty = await storage.updateProperty(id, result.data);
+
+      // Imóvel cadastrado inativo (ou rascunho) e ativado agora: é novidade para os interessados
+      const previousPrice = property.price ? Number(property.price) : null;
+      const newPrice = updatedProperty.price ? Number(updatedProperty.price) : null;
+      if (property.status !== 'active' && updatedProperty.status === 'active') {
+        propertyAlertService.queueMatches(updatedProperty, 'new_property')
+          .catch(error => console.error("❌ [PROPERTY_ALERT] Erro ao buscar interessados no imóvel ativado:", error));
+      } else if (previousPrice && newPrice && newPrice < previousPrice) {
+        // Redução de preço: avisa os contatos interessados em segundo plano
+        propertyAlertService.queueMatches(updatedProperty, 'price_drop', property.price)
+          .catch(error => console.error("❌ [PROPERTY_ALERT] Erro ao buscar interessados na redução de preço:", error));
+      }
+
       res.json(updatedProperty);
     } catch (error) {
       console.error("Update property error:", error);
@@ -4785,6 +5842,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Contatos avisados (ou ignorados por opt-out/limite) sobre o imóvel
+  app.get("/api/properties/:id/alerts", authenticate, requireClient, async (req: AuthRequest, res) => {
+    try {
+      const property = await storage.getProperty(req.params.id);
+
+      if (!property) {
+        return res.status(404).json({ error: "Imóvel não encontrado" });
+      }
+
+      if (req.user?.role !== 'admin' && property.companyId !== req.user?.companyId) {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+
+      const alerts = await storage.getPropertyAlertsByProperty(property.id);
+      res.json(alerts);
+    } catch (error) {
+      console.error("Get property alerts error:", error);
+      res.status(500).json({ error: "Erro ao buscar alertas do imóvel" });
+    }
+  });
+
   app.delete("/api/properties/:id", authenticate, requireClient, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
@@ -4858,7 +5936,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Search properties tool for ChatGPT
   app.post("/api/tools/busca_imoveis", async (req, res) => {
     try {
-      const { agentId, cidade, tipo_transacao, tipo_imovel } = req.body;
+      const {
+        agentId, cidade, bairro, tipo_transacao, tipo_imovel, preco_minimo, preco_maximo,
+        quartos_minimo, banheiros_minimo, vagas_minimo, area_minima, area_maxima, comodidades, ordenacao, limite, offset
+      } = req.body;
 
       if (!agentId) {
         return res.status(400).json({
@@ -4880,41 +5961,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`🤖 [BUSCA_IMOVEIS] Agent: ${agent.name} (${agentId})`);
       console.log(`🏢 [BUSCA_IMOVEIS] Company: ${companyId}`);
 
-      // Build filters object
-      const filters: any = {};
-
-      if (cidade) {
-        filters.city = cidade;
-      }
-
-      if (tipo_transacao) {
-        // Normalize transaction type (aluguel -> locacao, venda -> venda)
-        if (tipo_transacao.toLowerCase() === 'aluguel') {
-          filters.transactionType = 'locacao';
-        } else if (tipo_transacao.toLowerCase() === 'venda') {
-          filters.transactionType = 'venda';
-        } else {
-          filters.transactionType = tipo_transacao;
-        }
-      }
+      // Build filters object (aluguel -> locacao é normalizado na busca)
+      const parsedFilters = propertySearchSchema.safeParse({
+        city: cidade || undefined,
+        neighborhood: bairro || undefined,
+        transactionType: tipo_transacao ? String(tipo_transacao).toLowerCase() : undefined,
+        propertyType: tipo_imovel || undefined,
+        priceMin: preco_minimo ?? undefined,
+        priceMax: preco_maximo ?? undefined,
+        minBedrooms: quartos_minimo ?? undefined,
+        minBathrooms: banheiros_minimo ?? undefined,
+        minParkingSpaces: vagas_minimo ?? undefined,
+        minPrivateArea: area_minima ?? undefined,
+        maxPrivateArea: area_maxima ?? undefined,
+        amenities: Array.isArray(comodidades) && comodidades.length > 0
+          ? await propertyService.resolveAmenityIds(companyId, comodidades)
+          : undefined,
+        sortBy: ordenacao || undefined,
+        limit: limite ?? undefined,
+        offset: offset ?? undefined,
+      });
 
-      if (tipo_imovel) {
-        filters.propertyType = tipo_imovel;
+      if (!parsedFilters.success) {
+        return res.status(400).json({ error: "Dados inválidos", details: parsedFilters.error.errors });
       }
 
+      const filters = parsedFilters.data;
       console.log(`🔍 [BUSCA_IMOVEIS] Searching properties with filters:`, { companyId, filters });
 
-      const properties = await storage.searchProperties(companyId, filters);
+      // Sem limite informado a API devolve todos os resultados, ordenados por aderência
+      const { properties, total, relaxed, relaxations } = await propertyService.searchWithAlternatives(companyId, {
+        ...filters,
+        limit: filters.limit ?? 500,
+      });
 
-      console.log(`✅ [BUSCA_IMOVEIS] Found ${properties.length} properties`);
+      console.log(`✅ [BUSCA_IMOVEIS] Found ${total} properties (returning ${properties.length})${relaxed ? ' after relaxing criteria' : ''}`);
 
       // Return properties with full details
       res.json({
-        total: properties.length,
+        total,
+        alternativas: relaxed,
+        criterios_flexibilizados: relaxations,
         imoveis: properties.map(p => ({
           id: p.id,
           codigo: p.code,
           nome: p.name,
+          nota_aderencia: p.matchScore,
+          diferencas: p.matchNotes,
           endereco: {
             rua: p.street,
             numero: p.number,
@@ -5054,6 +6147,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const city = await storage.createCity(cityData);
+      propertySearchDetectionService.invalidate(req.user.companyId);
       res.json(city);
     } catch (error) {
       console.error("Error creating city:", error);
@@ -5075,6 +6169,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updated = await storage.updateCity(id, req.body);
+      propertySearchDetectionService.invalidate(city.companyId);
       res.json(updated);
     } catch (error) {
       console.error("Error updating city:", error);
@@ -5096,6 +6191,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.deleteCity(id);
+      propertySearchDetectionService.invalidate(city.companyId);
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting city:", error);
@@ -1,9 +1,20 @@
-import OpenAI from "openai";
-import fs from 'fs';
-import path from 'path';
 import { getStorage } from "../storage";
+import { createLlmProvider, resolveAgentModel, buildImageMessage, type LlmProvider } from "./llmProvider";
+import { knowledgeBaseService } from "./knowledgeBase";
 import { propertyService } from "./propertyService";
 import { EvolutionApiService } from "./evolutionApi";
+import { conversationControlService, HANDOFF_REPLY } from "./conversationControl";
+import { customerActivityService } from "./customerActivity";
+import { brokerAvailabilityService } from "./brokerAvailability";
+import { brokerRotationService } from "./brokerRotation";
+import { appointmentService } from "./appointmentService";
+import { propertySearchDetectionService } from "./propertySearchDetection";
+import { leadPreferenceService } from "./leadPreferences";
+import { inboxEventsService } from "./inboxEvents";
+import { conversationAssignmentService } from "./conversationAssignment";
+import { inboundMediaService } from "./inboundMedia";
+import { messageReceiptsService } from "./messageReceipts";
+import type { MessageMetadata, PropertySearchFilters } from "@shared/schema";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 
@@ -16,9 +27,13 @@ export interface MessageContext {
     content: string;
   }>;
   mediaUrl?: string;
-  mediaBase64?: string;
+  mediaBase64?: string; // Só em memória, para visão e transcrição
+  mediaPath?: string;
   caption?: string;
   mimeType?: string;
+  fileName?: string;
+  metadata?: MessageMetadata;
+  extractedText?: string; // Texto do PDF enviado pelo cliente
   messageType?: string;
   pushName?: string; // Nome do contato no WhatsApp
 }
@@ -29,6 +44,7 @@ export interface PropertyData {
   endereco: string;
   description: string;
   images: string[];
+  matchScore?: number; // Aderência aos critérios da busca (0 a 100)
 }
 
 export interface AgentResponse {
@@ -87,6 +103,39 @@ export class AIService {
         return commandResult;
       }
 
+      // ============================================
+      // ATENDIMENTO HUMANO
+      // ============================================
+      const existingConversation = await storage.getConversationByPhone(instance.id, context.phone);
+      if (existingConversation && !(await conversationControlService.isAiEnabled(existingConversation, instance.companyId))) {
+        console.log(`🙋 [AI-${aiProcessId}] IA pausada nesta conversa (${existingConversation.aiState}) - registrando mensagem sem responder`);
+        await this.saveConversation(instance.name, context.phone, context.message, '', '', {
+          messageType: context.messageType,
+          mediaUrl: context.mediaUrl,
+          mediaPath: context.mediaPath,
+          mimeType: context.mimeType,
+          fileName: context.fileName,
+          metadata: context.metadata,
+          extractedText: context.extractedText,
+          caption: context.caption,
+          pushName: context.pushName
+        });
+        return null;
+      }
+
+      if (conversationControlService.isHandoffRequest(context.message)) {
+        console.log(`🙋 [AI-${aiProcessId}] Cliente pediu atendimento humano, transferindo conversa`);
+        const conversation = existingConversation || await conversationControlService.ensureConversation(instance.id, context.phone, context.pushName);
+        await conversationControlService.setState(conversation, 'handed_off', 'client_request');
+
+        // Quem chamou envia e grava o aviso como mensagem da IA (com o key.id, para o eco não pausar nada)
+        const mainAgents = instance.aiAgentId ? [] : await storage.getMainAgentsByCompany(instance.companyId);
+        return {
+          response: HANDOFF_REPLY,
+          activeAgentId: instance.aiAgentId || mainAgents[0]?.id || undefined
+        };
+      }
+
       if (!instance.aiAgentId) {
         console.error(`❌ [AI-${aiProcessId}] No agent linked to instance ${instance.name}. AgentId: ${instance.aiAgentId}`);
         return null;
@@ -131,11 +180,7 @@ export class AIService {
         return null;
       }
       
-      if (!aiConfig.apiKey) {
-        console.log(`❌ AI Config exists but apiKey is missing:`, aiConfig);
-        return null;
-      }
-      
+      // A chave da OpenAI só é obrigatória para agentes que usam o provedor "openai"
       console.log(`✅ AI Config found with apiKey: ${aiConfig.apiKey ? 'YES (length: ' + aiConfig.apiKey.length + ')' : 'NO'}`);
       console.log(`🔧 AI Config details:`, {
         temperatura: aiConfig.temperatura,
@@ -143,6 +188,8 @@ export class AIService {
         numeroTokens: aiConfig.numeroTokens,
         numeroTokensType: typeof aiConfig.numeroTokens,
         modelo: aiConfig.modelo,
+        agentProvider: activeAgent.provider || 'openai',
+        localBaseUrl: aiConfig.localBaseUrl || 'NONE',
         apiKeyPrefix: aiConfig.apiKey ? aiConfig.apiKey.substring(0, 10) + '...' : 'NONE'
       });
       console.log(`✅ Agent found: ${mainAgent.name}, ID: ${mainAgent.id}`);
@@ -176,9 +223,8 @@ export class AIService {
       
       console.log(`📚 [DEBUG] Context com histórico preparado - Total mensagens: ${conversationHistory.length}`);
       
-      // Gerar resposta usando OpenAI
-      console.log(`🤖 Gerando resposta com agente ativo: ${activeAgent.name} (Tipo: ${activeAgent.agentType || 'main'})`);
-      console.log(`🔑 Testando inicialização OpenAI com chave: ${aiConfig.apiKey ? aiConfig.apiKey.substring(0, 8) + '...' : 'MISSING'}`);
+      // Gerar resposta usando o provedor de LLM do agente
+      console.log(`🤖 Gerando resposta com agente ativo: ${activeAgent.name} (Tipo: ${activeAgent.agentType || 'main'}, Provedor: ${activeAgent.provider || 'openai'})`);
 
       const responseData = await this.generateResponse(activeAgent, contextWithHistory, aiConfig);
 
@@ -296,7 +342,7 @@ export class AIService {
           console.log(`📝 [HISTORY] Mapeando mensagem - sender: "${msg.sender}", content: "${msg.content.substring(0, 50)}..."`);
           return {
             role: msg.sender === 'user' ? 'user' as const : 'assistant' as const,
-            content: msg.content
+            content: msg.sender === 'user' ? inboundMediaService.withDocumentText(msg.content, msg.extractedText) : msg.content
           };
         });
 
@@ -398,17 +444,17 @@ export class AIService {
   private async generateResponse(agent: any, context: MessageContext, aiConfig: any): Promise<{text: string, propertyImages?: string[], properties?: PropertyData[], hasMoreProperties?: boolean}> {
     try {
       console.log(`🤖 [GENERATE] Starting generateResponse for agent: ${agent.name}`);
-      console.log(`🔑 [GENERATE] API Key exists: ${!!aiConfig.apiKey}, length: ${aiConfig.apiKey?.length || 0}`);
-      
-      // Verificar se temos a chave OpenAI na configuração do administrador
-      if (!aiConfig.apiKey) {
+
+      // Criar o provedor de LLM escolhido pelo agente (OpenAI ou endpoint local)
+      let llm: LlmProvider;
+      try {
+        llm = createLlmProvider(agent.provider, aiConfig);
+      } catch (providerError) {
+        console.error(`❌ [GENERATE] Provedor de LLM não configurado:`, providerError);
         return { text: "Desculpe, o serviço de IA não está configurado. Entre em contato com o administrador." };
       }
-
-      // Criar instância do OpenAI com a chave da configuração
-      console.log(`🔧 [GENERATE] Creating OpenAI instance...`);
-      const openai = new OpenAI({ apiKey: aiConfig.apiKey });
-      console.log(`✅ [GENERATE] OpenAI instance created successfully`);
+      const model = resolveAgentModel(agent, aiConfig);
+      console.log(`✅ [GENERATE] LLM provider created: ${llm.name}, model: ${model}`);
 
       // Construir o prompt do sistema baseado no agente (usando lógica do AiResponseService)
       let systemPrompt = agent.prompt || `Você é ${agent.name}, um assistente de IA especializado.`;
@@ -426,35 +472,20 @@ export class AIService {
       systemPrompt += `IMPORTANTE: Use esta data como referência para calcular datas FUTURAS de agendamentos!\n`;
       systemPrompt += `=== FIM DATA ATUAL ===\n\n`;
 
-      // 📅 GERAR 3 DATAS ÚTEIS FUTURAS PARA EXEMPLO DE AGENDAMENTO
-      const gerarProximasDatasUteis = (quantidade: number): string[] => {
-        const datas: string[] = [];
-        const diasSemanaAbrev = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
-        const horarios = ['9h', '14h', '16h'];
-        let dataAtual = new Date(hoje);
-
-        while (datas.length < quantidade) {
-          dataAtual.setDate(dataAtual.getDate() + 1); // Avançar um dia
-          const diaSemana = dataAtual.getDay();
-
-          // Apenas dias úteis (1=segunda a 5=sexta)
-          if (diaSemana >= 1 && diaSemana <= 5) {
-            const diaFormatado = dataAtual.getDate().toString().padStart(2, '0');
-            const mesFormatado = (dataAtual.getMonth() + 1).toString().padStart(2, '0');
-            const anoFormatado = dataAtual.getFullYear();
-            const horario = horarios[datas.length % horarios.length];
-
-            datas.push(`${diasSemanaAbrev[diaSemana]} dia ${diaFormatado}/${mesFormatado}/${anoFormatado} às ${horario}`);
-          }
-        }
-        return datas;
-      };
-
-      const datasExemplo = gerarProximasDatasUteis(3);
-      const datasExemploFormatadas = `${datasExemplo[0]}, ${datasExemplo[1]}, ou ${datasExemplo[2]}`;
+      // 📅 HORÁRIOS REALMENTE LIVRES NA AGENDA DOS CORRETORES
+      let datasDisponiveis: string[] = [];
+      try {
+        const slots = await brokerAvailabilityService.suggestSlots(agent.companyId, 3);
+        datasDisponiveis = slots.map(slot => brokerAvailabilityService.formatSlot(slot.start));
+      } catch (availabilityError) {
+        console.error(`❌ [DATA] Erro ao calcular horários livres:`, availabilityError);
+      }
+      const datasExemploFormatadas = datasDisponiveis.length > 1
+        ? `${datasDisponiveis.slice(0, -1).join(', ')}, ou ${datasDisponiveis[datasDisponiveis.length - 1]}`
+        : datasDisponiveis[0] || '';
 
       console.log(`📅 [DATA] Data atual injetada no prompt: ${dataFormatada}`);
-      console.log(`📅 [DATA] Datas de exemplo para agendamento: ${datasExemploFormatadas}`);
+      console.log(`📅 [DATA] Horários livres para agendamento: ${datasExemploFormatadas || 'nenhum'}`);
 
       // 👤 ADICIONAR INFORMAÇÃO SOBRE O NOME DO USUÁRIO
       const isFirstMessage = !context.conversationHistory || context.conversationHistory.length === 0;
@@ -482,10 +513,10 @@ export class AIService {
         }
       }
 
-      // Adicionar conhecimento base se disponível
-      if (agent.trainingContent && agent.trainingContent.trim()) {
-        systemPrompt += `\n\n=== CONHECIMENTO BASE ===\n${agent.trainingContent}\n=== FIM CONHECIMENTO BASE ===\n\n`;
-        systemPrompt += `Use as informações do CONHECIMENTO BASE acima para responder às perguntas do usuário de forma precisa e detalhada.`;
+      // Adicionar apenas os trechos relevantes da base de conhecimento (RAG)
+      const knowledge = await knowledgeBaseService.retrieve(agent, context.message, aiConfig);
+      if (knowledge) {
+        systemPrompt += knowledgeBaseService.formatForPrompt(knowledge);
       }
 
       // 🏠 BUSCAR IMÓVEIS SE O USUÁRIO PERGUNTAR SOBRE PROPRIEDADES
@@ -501,37 +532,18 @@ export class AIService {
         }
       }
 
+      // Perfil do cliente (preferências extraídas das conversas anteriores ou editadas pela equipe)
+      const leadProfile = instance?.companyId
+        ? await leadPreferenceService.getProfile(instance.companyId, context.phone).catch(error => {
+            console.error(`⚠️ [PREFERENCES] Erro ao carregar perfil do cliente:`, error);
+            return undefined;
+          })
+        : undefined;
+
       // Detectar se é uma busca de imóveis para forçar o function calling
       // IMPORTANTE: Verificar tanto a mensagem atual quanto o HISTÓRICO
       // Exemplo: Se usuário disse "apartamento" antes e agora diz "joaçaba", ainda é busca de imóveis!
 
-      // Lista de cidades conhecidas (expandida)
-      const cidadesConhecidas = [
-        'joaçaba', 'joacaba', 'joaçabas', 'campinas', 'são paulo', 'sao paulo', 'curitiba',
-        'florianópolis', 'florianopolis', 'joinville', 'blumenau', 'chapecó', 'chapeco', 'lages',
-        'criciúma', 'criciuma', 'itajaí', 'itajai', 'jaraguá', 'jaragua', 'balneário', 'balneario',
-        'herval', "herval d'oeste", 'herval do oeste', 'catanduvas', 'ibicaré', 'ibicare',
-        'treze tílias', 'treze tilias', 'água doce', 'agua doce', 'lacerdópolis', 'lacerdopolis',
-        'ouro', 'capinzal', 'erval velho', 'vargem bonita', 'tangará', 'tangara',
-        'piratuba', 'ipira', 'peritiba', 'presidente castelo branco', 'jaborá', 'jabora',
-        'concórdia', 'concordia', 'videira', 'fraiburgo', 'caçador', 'cacador'
-      ];
-
-      // Lista de tipos de imóvel (expandida)
-      const tiposImovelKeywords = [
-        'apartamento', 'apartamentos', 'ap', 'apto', 'aptos',
-        'casa', 'casas',
-        'sobrado', 'sobrados',
-        'sala', 'salas', 'sala comercial', 'salas comerciais',
-        'terreno', 'terrenos', 'lote', 'lotes',
-        'chácara', 'chacara', 'chácaras', 'chacaras', 'sitio', 'sítio',
-        'imovel', 'imóvel', 'imoveis', 'imóveis',
-        'kitnet', 'kitnets', 'kitinete', 'kitinetes',
-        'cobertura', 'coberturas',
-        'galpão', 'galpao', 'galpões', 'galpoes',
-        'barracão', 'barracao', 'barracões', 'barracoes'
-      ];
-
       const messageLower = context.message.toLowerCase();
 
       // 🚫 VERIFICAR SE É INTENÇÃO DE AGENDAMENTO - SE FOR, NÃO FORÇAR BUSCA DE IMÓVEIS
@@ -548,85 +560,22 @@ export class AIService {
       console.log(`🔍 [PROPERTY_SEARCH] Histórico length: ${context.conversationHistory?.length || 0}`);
       console.log(`🔍 [PROPERTY_SEARCH] instance?.companyId: ${instance?.companyId}`);
 
-      // SEMPRE montar o texto completo: APENAS mensagens do USUÁRIO + mensagem atual
-      // Isso evita detectar palavras que o próprio agente escreveu nas perguntas
-      const historicoTextoUsuario = [
-        ...(context.conversationHistory || [])
-          .filter(m => m.role === 'user')
-          .map(m => m.content.toLowerCase()),
-        messageLower
-      ].join(' ');
-
-      console.log(`🔍 [PROPERTY_SEARCH] historicoTextoUsuario (user msgs + atual): "${historicoTextoUsuario.substring(0, 300)}..."`);
-
       // 🚫 SE FOR INTENÇÃO DE AGENDAMENTO, NÃO FORÇAR BUSCA DE IMÓVEIS
       let isPropertySearch = false;
 
       if (ehIntencaoAgendamento) {
         console.log(`📅 [AGENDAMENTO] ⛔ Mensagem é sobre AGENDAMENTO - NÃO forçar busca de imóveis`);
-        isPropertySearch = false;
-      } else {
-        // Verificar se mensagem atual tem keyword de busca
-        isPropertySearch = !!(instance?.companyId && propertyService.isPropertySearchIntent(context.message));
-        console.log(`🔍 [PROPERTY_SEARCH] isPropertySearchIntent(mensagem atual): ${propertyService.isPropertySearchIntent(context.message)}`);
-        console.log(`🔍 [PROPERTY_SEARCH] isPropertySearch inicial: ${isPropertySearch}`);
-
-        // NOVA LÓGICA: Verificar se nas mensagens DO USUÁRIO há cidade E tipo
-        // Isso funciona MESMO quando o histórico está vazio
-        if (!isPropertySearch && instance?.companyId) {
-          // Verificar se as mensagens do usuário mencionam tipo de imóvel
-          const textoTemTipo = tiposImovelKeywords.some(tipo => historicoTextoUsuario.includes(tipo));
-          // Verificar se as mensagens do usuário mencionam cidade
-          const textoTemCidade = cidadesConhecidas.some(cidade => historicoTextoUsuario.includes(cidade));
-
-          console.log(`🔍 [PROPERTY_SEARCH] textoTemTipo (user msgs): ${textoTemTipo}`);
-          console.log(`🔍 [PROPERTY_SEARCH] textoTemCidade (user msgs): ${textoTemCidade}`);
-
-          // Se o USUÁRIO mencionou AMBOS tipo e cidade = é busca!
-          if (textoTemTipo && textoTemCidade) {
-            isPropertySearch = true;
-            console.log(`🏠 [AI] ✅ DETECTADA BUSCA COMPLETA: Tipo + Cidade nas mensagens do usuário - FORÇANDO FUNCTION CALLING`);
-          }
-        }
-      }
-
-      // LÓGICA ADICIONAL: Se não detectou ainda, verificar mensagem atual vs histórico separadamente
-      // IMPORTANTE: Só considerar mensagens do USUÁRIO, não do agente!
-      // 🚫 NÃO executar se for intenção de agendamento
-      if (!ehIntencaoAgendamento && !isPropertySearch && instance?.companyId && context.conversationHistory && context.conversationHistory.length > 0) {
-        // Filtrar apenas mensagens do usuário (role === 'user')
-        const historicoUsuario = context.conversationHistory
-          .filter(m => m.role === 'user')
-          .map(m => m.content.toLowerCase())
-          .join(' ');
-
-        // Verificar se a mensagem atual é uma cidade
-        const mensagemEhCidade = cidadesConhecidas.some(cidade => messageLower.includes(cidade));
-        // Verificar se o histórico DO USUÁRIO menciona tipo de imóvel
-        const historicoMencionaTipo = tiposImovelKeywords.some(tipo => historicoUsuario.includes(tipo));
-
-        console.log(`🔍 [PROPERTY_SEARCH] historicoUsuario (só mensagens do user): "${historicoUsuario.substring(0, 200)}..."`);
-        console.log(`🔍 [PROPERTY_SEARCH] mensagemEhCidade: ${mensagemEhCidade}`);
-        console.log(`🔍 [PROPERTY_SEARCH] historicoMencionaTipo (user only): ${historicoMencionaTipo}`);
-
-        // Se a mensagem atual é uma cidade E o histórico DO USUÁRIO menciona tipo de imóvel = é busca!
-        if (mensagemEhCidade && historicoMencionaTipo) {
-          isPropertySearch = true;
-          console.log(`🏠 [AI] ✅ Detectada busca: CIDADE atual + TIPO no histórico do usuário - FORÇANDO FUNCTION CALLING`);
-        }
-
-        // Verificar também o contrário: mensagem atual tem tipo E histórico DO USUÁRIO tem cidade
-        const mensagemTemTipo = tiposImovelKeywords.some(tipo => messageLower.includes(tipo));
-        const historicoMencionaCidade = cidadesConhecidas.some(cidade => historicoUsuario.includes(cidade));
-        console.log(`🔍 [PROPERTY_SEARCH] mensagemTemTipo: ${mensagemTemTipo}`);
-        console.log(`🔍 [PROPERTY_SEARCH] historicoMencionaCidade (user only): ${historicoMencionaCidade}`);
-
-        if (mensagemTemTipo && historicoMencionaCidade) {
-          isPropertySearch = true;
-          console.log(`🏠 [AI] ✅ Detectada busca: TIPO atual + CIDADE no histórico do usuário - FORÇANDO FUNCTION CALLING`);
-        }
-      } else if (!isPropertySearch) {
-        console.log(`🔍 [PROPERTY_SEARCH] ⚠️ Verificação de histórico separado não executada. Condições: isPropertySearch=${isPropertySearch}, companyId=${!!instance?.companyId}, historyLength=${context.conversationHistory?.length || 0}`);
+      } else if (instance?.companyId) {
+        // Tipo de imóvel, cidade e bairro reconhecidos pelo vocabulário da empresa (cidades cadastradas,
+        // cidades/bairros dos imóveis e sinônimos por tipo), só nas mensagens DO USUÁRIO
+        const deteccao = await propertySearchDetectionService.analyze(
+          instance.companyId,
+          context.message,
+          (context.conversationHistory || []).filter(m => m.role === 'user').map(m => m.content)
+        );
+        isPropertySearch = deteccao.isPropertySearch;
+        console.log(`🔍 [PROPERTY_SEARCH] Detecção: ${deteccao.reason}`);
+        console.log(`🔍 [PROPERTY_SEARCH] Termos na mensagem: ${JSON.stringify(deteccao.message)} | no histórico: ${JSON.stringify(deteccao.history)}`);
       }
 
       // 🔄 NOVA LÓGICA: Detectar pedido de "ver mais" imóveis
@@ -636,18 +585,15 @@ export class AIService {
         const pedidoMaisKeywords = ['mais', 'quero ver mais', 'mostre mais', 'tem mais', 'próximos', 'proximos', 'outros', 'outras opções', 'outras opcoes'];
         const ehPedidoMais = pedidoMaisKeywords.some(kw => messageLower.includes(kw));
 
-        // Verificar se no histórico já houve busca de imóveis (indicado por presença de "Encontrei" ou códigos de imóveis)
-        const historicoMencionaBusca = context.conversationHistory?.some(m =>
-          m.content.toLowerCase().includes('encontrei') ||
-          m.content.toLowerCase().includes('imóveis') ||
-          m.content.toLowerCase().includes('imoveis') ||
-          /[A-Z]\d{3,4}/.test(m.content) // Padrão de código de imóvel como A1001
-        );
+        // Houve busca de imóveis nesta conversa? (sessão de busca com resultados ainda não enviados)
+        const conversaAtual = ehPedidoMais ? await storage.getConversationByPhone(instance.id, context.phone) : undefined;
+        const sessaoBusca = conversaAtual ? await storage.getPropertySearchSession(conversaAtual.id) : undefined;
+        const temBuscaAnterior = Boolean(sessaoBusca);
 
         console.log(`🔄 [VER_MAIS] ehPedidoMais: ${ehPedidoMais}`);
-        console.log(`🔄 [VER_MAIS] historicoMencionaBusca: ${historicoMencionaBusca}`);
+        console.log(`🔄 [VER_MAIS] temBuscaAnterior: ${temBuscaAnterior}${sessaoBusca ? ` (${sessaoBusca.cursor}/${(sessaoBusca.resultIds as string[]).length} enviados)` : ''}`);
 
-        if (ehPedidoMais && historicoMencionaBusca) {
+        if (ehPedidoMais && temBuscaAnterior) {
           isPropertySearch = true;
           console.log(`🔄 [AI] ✅ Detectado pedido de VER MAIS imóveis - FORÇANDO FUNCTION CALLING`);
         }
@@ -714,7 +660,7 @@ EXEMPLOS ERRADOS:
 🔄 QUANDO O USUÁRIO PEDIR MAIS IMÓVEIS:
 Quando o usuário digitar "mais", "quero ver mais", "mostre mais", "próximos", "outros":
 - Chame a função busca_imoveis NOVAMENTE com os MESMOS parâmetros anteriores
-- O sistema automaticamente calcula o offset e mostra os próximos 3 imóveis
+- O sistema continua de onde a busca anterior parou e mostra os próximos 3 imóveis
 - Responda: "Mais opções para você! Veja:" (mensagem curta)
 - O sistema continuará mostrando de 3 em 3 até acabar
 
@@ -735,7 +681,7 @@ Responda sempre em português brasileiro de forma natural e helpful.
 FLUXO OBRIGATÓRIO (SIGA CADA PASSO - NÃO PULE NENHUM):
 1. Quando o usuário quiser agendar → PERGUNTE: "Qual é o código do imóvel que você gostou?"
 2. Quando o usuário informar o CÓDIGO do imóvel → PERGUNTE: "Qual é o seu telefone com DDD para contato?"
-3. Quando o usuário informar o telefone → OFEREÇA 3 OPÇÕES DE HORÁRIO (datas futuras)
+3. Quando o usuário informar o telefone → OFEREÇA OS HORÁRIOS LIVRES listados abaixo
 4. SOMENTE quando tiver TODOS os dados (código + telefone + data) → CHAME agendar_visita
 
 📝 SOBRE O NOME DO CLIENTE:
@@ -746,23 +692,34 @@ FLUXO OBRIGATÓRIO (SIGA CADA PASSO - NÃO PULE NENHUM):
 🚫 PROIBIÇÕES ABSOLUTAS:
 - NUNCA chame agendar_visita sem ter o código, telefone e data escolhida
 - NUNCA use o número do WhatsApp como telefone - PERGUNTE ao usuário o telefone de contato
-- NUNCA pule a etapa de oferecer horários - SEMPRE ofereça 3 opções
+- NUNCA pule a etapa de oferecer horários
 - NUNCA invente dados - só use o que o usuário INFORMOU EXPLICITAMENTE
 
 OFERTA DE HORÁRIOS (OBRIGATÓRIO):
-- SEMPRE ofereça EXATAMENTE 3 opções de horários
-- Use dias úteis (segunda a sexta) nos PRÓXIMOS 7 DIAS A PARTIR DE HOJE (${dataFormatada})
-- NUNCA ofereça a data de hoje (${dataFormatada}) - sempre datas FUTURAS
-- USE EXATAMENTE estas datas de exemplo: ${datasExemploFormatadas}
+${datasExemploFormatadas
+  ? `- Estes são os horários LIVRES na agenda dos corretores: ${datasExemploFormatadas}
+- Ofereça SOMENTE esses horários - NUNCA invente outros
+- Se o cliente pedir outro dia/horário, chame agendar_visita com a data pedida: o sistema confere a agenda e informa alternativas se estiver ocupado`
+  : `- No momento NÃO há horários livres na agenda dos corretores nos próximos dias
+- NÃO ofereça horários: diga que um corretor entrará em contato para combinar a visita`}
 - AGUARDE o usuário escolher antes de chamar agendar_visita
 
 EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
 - Usuário: "quero agendar" ou "IMV107"
 - Agente: "Ótima escolha! Para agendar uma visita do imóvel [CÓDIGO], qual é o seu telefone com DDD para contato?"
 - Usuário: "47 99999-9999"
-- Agente: "Perfeito! Tenho disponível: ${datasExemploFormatadas}. Qual horário você prefere?"
+- Agente: "Perfeito! Tenho disponível: ${datasExemploFormatadas || '[horários livres]'}. Qual horário você prefere?"
 - Usuário: "Segunda às 14h"
-- Agente: [AGORA SIM chama agendar_visita usando o nome do pushName + telefone + código + data]\n\n`;
+- Agente: [AGORA SIM chama agendar_visita usando o nome do pushName + telefone + código + data]
+
+🔁 REMARCAR OU CANCELAR VISITAS:
+- Se o cliente perguntar sobre a visita dele → chame consultar_agendamentos
+- Se o cliente quiser REMARCAR → pergunte o novo dia/horário (ofereça os horários livres acima) e chame remarcar_visita com a nova data
+- Se o cliente quiser CANCELAR → chame cancelar_visita (pergunte o motivo só se ele quiser dizer)
+- Se a função disser que há mais de uma visita, pergunte qual (imóvel ou data) e chame de novo informando imovel ou data_atual
+- Se não encontrar a visita, pergunte o telefone informado no agendamento e chame de novo com telefone_cliente
+- NUNCA diga que remarcou ou cancelou sem chamar a função\n\n`;
+      systemPrompt += leadPreferenceService.formatForPrompt(leadProfile);
       systemPrompt += `IMPORTANTE: SEMPRE siga o prompt e personalidade definidos no início desta mensagem. Não mude seu comportamento ou tom.`;
 
       // PRÉ-PROCESSAR: Detectar cidade e tipo no histórico para evitar loops
@@ -772,30 +729,15 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
       const cumprimentos = ['oi', 'olá', 'ola', 'bom dia', 'boa tarde', 'boa noite', 'hey', 'hello', 'opa'];
       const ehCumprimento = cumprimentos.some(c => mensagemAtual === c || mensagemAtual.startsWith(c + ' '));
 
-      if (context.conversationHistory && context.conversationHistory.length > 0 && !ehCumprimento) {
+      if (context.conversationHistory && context.conversationHistory.length > 0 && !ehCumprimento && instance?.companyId) {
         const conversationText = context.conversationHistory
-          .map(m => m.content.toLowerCase())
-          .join(' ');
-
-        // Detectar cidade
-        const cidades = ['joaçaba', 'joacaba', 'campinas', 'são paulo', 'sao paulo', 'curitiba', 'florianópolis', 'florianopolis'];
-        let cidadeDetectada = null;
-        for (const c of cidades) {
-          if (conversationText.includes(c)) {
-            cidadeDetectada = c.charAt(0).toUpperCase() + c.slice(1);
-            break;
-          }
-        }
+          .map(m => m.content)
+          .join(' \n ');
 
-        // Detectar tipo de imóvel
-        const tiposImovel = ['apartamento', 'ap', 'apto', 'casa', 'sobrado', 'sala', 'terreno', 'chácara', 'chacara'];
-        let tipoDetectado = null;
-        for (const tipo of tiposImovel) {
-          if (conversationText.includes(tipo)) {
-            tipoDetectado = tipo === 'ap' || tipo === 'apto' ? 'apartamento' : tipo;
-            break;
-          }
-        }
+        // Detectar cidade e tipo de imóvel com o vocabulário da empresa
+        const termosHistorico = await propertySearchDetectionService.detect(instance.companyId, conversationText);
+        const cidadeDetectada = termosHistorico.city?.value || null;
+        const tipoDetectado = termosHistorico.propertyType?.value || null;
 
         // Se detectou cidade E tipo, adicionar ao contexto
         if (cidadeDetectada && tipoDetectado) {
@@ -846,28 +788,14 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
           const audioBuffer = Buffer.from(context.mediaBase64, 'base64');
           console.log(`🎤 Audio buffer size: ${audioBuffer.length} bytes`);
           
-          // Salvar temporariamente em arquivo para OpenAI Whisper
-          const tmpDir = '/tmp';
-          const tmpFile = path.join(tmpDir, `audio_${Date.now()}.ogg`);
-          
-          fs.writeFileSync(tmpFile, audioBuffer);
-          console.log(`🎤 Arquivo temporário criado: ${tmpFile}`);
-          
-          // Transcrever usando OpenAI Whisper
-          const transcription = await openai.audio.transcriptions.create({
-            file: fs.createReadStream(tmpFile),
-            model: "whisper-1",
-          });
+          // Transcrever usando o provedor do agente (Whisper na OpenAI)
+          const transcription = await llm.transcribe(audioBuffer, `audio_${Date.now()}.ogg`);
           
           console.log(`🎤 ✅ TRANSCRIÇÃO CONCLUÍDA!`);
-          console.log(`🎤 Texto transcrito: "${transcription.text}"`);
-          
-          // Limpar arquivo temporário
-          fs.unlinkSync(tmpFile);
-          console.log(`🎤 Arquivo temporário removido`);
+          console.log(`🎤 Texto transcrito: "${transcription}"`);
           
           // Usar o texto transcrito como mensagem
-          context.message = transcription.text || "Não foi possível transcrever o áudio";
+          context.message = transcription || "Não foi possível transcrever o áudio";
           
         } catch (error) {
           console.error("❌ Erro na transcrição de áudio:", error);
@@ -882,24 +810,14 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
         // Usar o mimeType correto detectado pela detecção de magic bytes
         const mimeType = context.mimeType || 'image/jpeg';
         
-        const userMessage: any = {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: context.caption ? `${context.message}\n\nDescrição da imagem: ${context.caption}` : context.message
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:${mimeType};base64,${context.mediaBase64}`
-              }
-            }
-          ]
-        };
+        const userMessage = buildImageMessage(
+          context.caption ? `${context.message}\n\nDescrição da imagem: ${context.caption}` : context.message,
+          mimeType,
+          context.mediaBase64
+        );
         messages.push(userMessage);
       } else {
-        messages.push({ role: "user", content: context.message });
+        messages.push({ role: "user", content: inboundMediaService.withDocumentText(context.message, context.extractedText) });
       }
 
       // Gerar resposta usando OpenAI
@@ -940,6 +858,40 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
                   type: "number",
                   description: "Valor máximo do imóvel em reais (R$). Extraia da mensagem ou histórico quando o usuário mencionar faixa de preço. Exemplo: se o usuário diz 'até 500 mil', preco_maximo=500000. Se diz 'entre 200 e 400 mil', preco_minimo=200000 e preco_maximo=400000."
                 },
+                bairro: {
+                  type: "string",
+                  description: "Bairro desejado, se o usuário mencionar."
+                },
+                quartos_minimo: {
+                  type: "number",
+                  description: "Número MÍNIMO de quartos/dormitórios. Ex: 'pelo menos 2 quartos' ou '2 quartos' = 2."
+                },
+                banheiros_minimo: {
+                  type: "number",
+                  description: "Número MÍNIMO de banheiros, se o usuário mencionar."
+                },
+                vagas_minimo: {
+                  type: "number",
+                  description: "Número MÍNIMO de vagas de garagem, se o usuário mencionar."
+                },
+                area_minima: {
+                  type: "number",
+                  description: "Área privativa mínima em m², se o usuário mencionar."
+                },
+                area_maxima: {
+                  type: "number",
+                  description: "Área privativa máxima em m², se o usuário mencionar."
+                },
+                comodidades: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Comodidades exigidas pelo usuário. Ex: ['piscina', 'churrasqueira', 'academia']."
+                },
+                ordenacao: {
+                  type: "string",
+                  enum: ["recent", "price_asc", "price_desc", "area_desc"],
+                  description: "Ordem dos resultados: 'price_asc' se o usuário quer os mais baratos, 'price_desc' os mais caros, 'area_desc' os maiores. Padrão: mais recentes."
+                },
                 limite: {
                   type: "number",
                   description: "Número máximo de imóveis a retornar. Padrão: 3. O sistema mostra de 3 em 3 automaticamente."
@@ -981,6 +933,81 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
               required: ["nome_cliente", "telefone_cliente", "imovel_interesse", "data_visita"]
             }
           }
+        },
+        {
+          type: "function" as const,
+          function: {
+            name: "consultar_agendamentos",
+            description: "Lista as próximas visitas agendadas do cliente (imóvel, data, corretor e status). Use quando o cliente perguntar sobre a visita dele ou antes de remarcar/cancelar se não souber qual é a visita.",
+            parameters: {
+              type: "object",
+              properties: {
+                telefone_cliente: {
+                  type: "string",
+                  description: "Telefone com DDD informado pelo cliente no agendamento, se for diferente do WhatsApp da conversa."
+                }
+              },
+              required: []
+            }
+          }
+        },
+        {
+          type: "function" as const,
+          function: {
+            name: "remarcar_visita",
+            description: "Remarca uma visita já agendada do cliente para uma nova data/hora. O sistema confere a agenda dos corretores e devolve horários livres se a nova data estiver ocupada. Só chame quando o cliente tiver escolhido a nova data.",
+            parameters: {
+              type: "object",
+              properties: {
+                nova_data: {
+                  type: "string",
+                  description: "Nova data e hora escolhida pelo cliente. Formato OBRIGATÓRIO com DIA/MÊS/ANO: 'Segunda dia 06/01/2026 às 9h' ou 'Sexta dia 02/01/2026 às 16h30'. Apenas datas FUTURAS."
+                },
+                imovel: {
+                  type: "string",
+                  description: "Código do imóvel da visita a remarcar, quando o cliente tiver mais de uma visita."
+                },
+                data_atual: {
+                  type: "string",
+                  description: "Data atual da visita a remarcar (ex: 'dia 06/01/2026'), quando o cliente tiver mais de uma visita."
+                },
+                telefone_cliente: {
+                  type: "string",
+                  description: "Telefone com DDD informado no agendamento, se for diferente do WhatsApp da conversa."
+                }
+              },
+              required: ["nova_data"]
+            }
+          }
+        },
+        {
+          type: "function" as const,
+          function: {
+            name: "cancelar_visita",
+            description: "Cancela uma visita agendada do cliente e avisa o corretor. Só chame quando o cliente pedir claramente para cancelar.",
+            parameters: {
+              type: "object",
+              properties: {
+                motivo: {
+                  type: "string",
+                  description: "Motivo do cancelamento, se o cliente informar."
+                },
+                imovel: {
+                  type: "string",
+                  description: "Código do imóvel da visita a cancelar, quando o cliente tiver mais de uma visita."
+                },
+                data_atual: {
+                  type: "string",
+                  description: "Data da visita a cancelar (ex: 'dia 06/01/2026'), quando o cliente tiver mais de uma visita."
+                },
+                telefone_cliente: {
+                  type: "string",
+                  description: "Telefone com DDD informado no agendamento, se for diferente do WhatsApp da conversa."
+                }
+              },
+              required: []
+            }
+          }
         }
       ];
 
@@ -994,19 +1021,19 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
       console.log(`🔧 [OPENAI] tool_choice: ${JSON.stringify(toolChoice)}`);
       console.log(`🔧 [OPENAI] isPropertySearch: ${isPropertySearch}`);
 
-      const response = await openai.chat.completions.create({
-        model: aiConfig.modelo || "gpt-4o",
+      const response = await llm.chat({
+        model,
         messages: messages,
-        max_tokens: Number(aiConfig.numeroTokens) || 1000,
+        maxTokens: Number(aiConfig.numeroTokens) || 1000,
         temperature: Number(aiConfig.temperatura) || 0.7,
         tools: tools,
-        tool_choice: toolChoice
+        toolChoice: toolChoice
       });
 
-      console.log(`✅ [OPENAI] OpenAI call successful`);
+      console.log(`✅ [OPENAI] ${llm.name} call successful`);
       console.log(`🔍 [OPENAI_DEBUG] Response object:`, JSON.stringify(response, null, 2));
 
-      const responseMessage = response.choices[0].message;
+      const responseMessage = response.message;
       console.log(`🔍 [OPENAI_DEBUG] Response message:`, JSON.stringify(responseMessage, null, 2));
       console.log(`🔍 [OPENAI_DEBUG] Has tool_calls: ${!!responseMessage.tool_calls}`);
       console.log(`🔍 [OPENAI_DEBUG] Tool_calls length: ${responseMessage.tool_calls?.length || 0}`);
@@ -1063,7 +1090,20 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             let preco_minimo = functionArgs.preco_minimo;
             let preco_maximo = functionArgs.preco_maximo;
             let limite = functionArgs.limite || 3; // Padrão: 3 resultados
-            let offset = 0; // Quantos resultados pular
+
+            // O que o modelo não informou vem do perfil do cliente (guardado à parte: a sessão de busca
+            // é identificada só pelo que o cliente pediu)
+            const camposDoPerfil = new Set<keyof PropertySearchFilters>();
+            if (leadProfile) {
+              if (!cidade && leadProfile.city) { cidade = leadProfile.city; camposDoPerfil.add('city'); }
+              if (!tipo_imovel && leadProfile.propertyType) { tipo_imovel = leadProfile.propertyType; camposDoPerfil.add('propertyType'); }
+              if (!tipo_transacao && leadProfile.transactionType) { tipo_transacao = leadProfile.transactionType; camposDoPerfil.add('transactionType'); }
+              if (preco_minimo == null && leadProfile.budgetMin != null) { preco_minimo = leadProfile.budgetMin; camposDoPerfil.add('priceMin'); }
+              if (preco_maximo == null && leadProfile.budgetMax != null) { preco_maximo = leadProfile.budgetMax; camposDoPerfil.add('priceMax'); }
+              console.log(`🎯 [FUNCTION_CALL] Perfil do cliente aplicado - Cidade: ${cidade || '-'}, Tipo: ${tipo_imovel || '-'}, Transação: ${tipo_transacao || '-'}, Preço: ${preco_minimo ?? '-'} a ${preco_maximo ?? '-'}`);
+            }
+            const bairrosPerfil = Array.isArray(leadProfile?.neighborhoods) ? leadProfile.neighborhoods as string[] : [];
+            const comodidadesPerfil = Array.isArray(leadProfile?.amenities) ? leadProfile.amenities as string[] : [];
 
             // LOG DETALHADO DO HISTÓRICO PARA DEBUG
             console.log(`📚 [FUNCTION_CALL] ========== DEBUG HISTÓRICO ==========`);
@@ -1094,13 +1134,6 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
 
             if (pedindoMais) {
               console.log(`🔄 [FUNCTION_CALL] Usuário pediu MAIS resultados!`);
-              // Contar quantas vezes a função foi chamada nesta conversa
-              const functionCallsCount = context.conversationHistory?.filter(m =>
-                m.role === 'assistant' && m.content.includes('Encontrei')
-              ).length || 0;
-
-              offset = functionCallsCount * 3; // Pular os já mostrados
-              console.log(`📊 [FUNCTION_CALL] Offset calculado: ${offset} (chamadas anteriores: ${functionCallsCount})`);
             }
 
             // SEMPRE tentar extrair parâmetros do histórico + mensagem atual (fallback robusto)
@@ -1110,32 +1143,8 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             console.log(`🔍 [FUNCTION_CALL] tipo_transacao do OpenAI: ${tipo_transacao || 'NÃO FORNECIDO'}`);
             console.log(`🔍 [FUNCTION_CALL] conversationText (histórico + atual): "${conversationText.substring(0, 200)}..."`);
 
-            // Mapas de variações - ORDENADOS POR TAMANHO (maior primeiro para evitar match parcial)
-            // Exemplo: "apartamento" deve ser buscado antes de "ap" para não encontrar "ap" dentro de "apartamento"
-            const tiposImovelOrdenados: Array<[string, string]> = [
-              ['apartamento', 'apartamento'],
-              ['chácara', 'chácara'],
-              ['chacara', 'chácara'],
-              ['sobrado', 'sobrado'],
-              ['terreno', 'terreno'],
-              ['apto', 'apartamento'],
-              ['casa', 'casa'],
-              ['sala', 'sala'],
-              ['ap', 'apartamento'],  // "ap" por último pois é substring de "apartamento"
-            ];
-
-            // Mapa para lookup rápido (usado na normalização)
-            const tiposImovel: Record<string, string> = {
-              'apartamento': 'apartamento',
-              'ap': 'apartamento',
-              'apto': 'apartamento',
-              'casa': 'casa',
-              'sobrado': 'sobrado',
-              'sala': 'sala',
-              'terreno': 'terreno',
-              'chácara': 'chácara',
-              'chacara': 'chácara'
-            };
+            // Cidade e tipo de imóvel reconhecidos no histórico pelo vocabulário da empresa
+            const termosConversa = await propertySearchDetectionService.detect(instanceForSearch.companyId, conversationText);
 
             const tiposTransacao: Record<string, string> = {
               'alugar': 'aluguel',
@@ -1150,24 +1159,9 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             // Buscar cidade no histórico se não fornecida
             if (!cidade) {
               console.log(`🔍 [FUNCTION_CALL] Cidade NÃO foi fornecida pelo OpenAI, tentando extrair...`);
-              // Lista expandida de cidades (mesma usada na detecção de busca)
-              const cidades = [
-                'joaçaba', 'joacaba', 'campinas', 'são paulo', 'sao paulo', 'curitiba',
-                'florianópolis', 'florianopolis', 'joinville', 'blumenau', 'chapecó', 'chapeco', 'lages',
-                'criciúma', 'criciuma', 'itajaí', 'itajai', 'jaraguá', 'jaragua', 'balneário', 'balneario',
-                'herval', "herval d'oeste", 'herval do oeste', 'catanduvas', 'ibicaré', 'ibicare',
-                'treze tílias', 'treze tilias', 'água doce', 'agua doce', 'lacerdópolis', 'lacerdopolis',
-                'ouro', 'capinzal', 'erval velho', 'vargem bonita', 'tangará', 'tangara',
-                'piratuba', 'ipira', 'peritiba', 'presidente castelo branco', 'jaborá', 'jabora',
-                'concórdia', 'concordia', 'videira', 'fraiburgo', 'caçador', 'cacador'
-              ];
-              for (const c of cidades) {
-                if (conversationText.includes(c)) {
-                  // Capitalizar corretamente (primeira letra maiúscula de cada palavra)
-                  cidade = c.split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
-                  console.log(`✅ [FUNCTION_CALL] Cidade extraída do histórico: ${cidade}`);
-                  break;
-                }
+              if (termosConversa.city) {
+                cidade = termosConversa.city.value;
+                console.log(`✅ [FUNCTION_CALL] Cidade extraída do histórico: ${cidade} (encontrou: "${termosConversa.city.typed}")`);
               }
             } else {
               console.log(`✅ [FUNCTION_CALL] Cidade fornecida pelo OpenAI: ${cidade}`);
@@ -1179,16 +1173,9 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
               console.log(`🔍 [FUNCTION_CALL] Tentando extrair tipo_imovel do histórico...`);
               console.log(`🔍 [FUNCTION_CALL] Histórico disponível: ${context.conversationHistory?.length || 0} mensagens`);
 
-              // Usar array ordenado (palavras maiores primeiro) com regex word boundary
-              for (const [variacao, tipo] of tiposImovelOrdenados) {
-                // Usar regex com word boundary para match exato da palavra
-                // \b não funciona bem com acentos, então usar alternativa
-                const regex = new RegExp(`(^|\\s|[^a-záàâãéèêíìîóòôõúùûç])${variacao}($|\\s|[^a-záàâãéèêíìîóòôõúùûç])`, 'i');
-                if (regex.test(conversationText)) {
-                  tipo_imovel = tipo;
-                  console.log(`✅ [FUNCTION_CALL] Tipo de imóvel extraído do histórico: ${tipo_imovel} (encontrou: "${variacao}")`);
-                  break;
-                }
+              if (termosConversa.propertyType) {
+                tipo_imovel = termosConversa.propertyType.value;
+                console.log(`✅ [FUNCTION_CALL] Tipo de imóvel extraído do histórico: ${tipo_imovel} (encontrou: "${termosConversa.propertyType.typed}")`);
               }
 
               if (!tipo_imovel) {
@@ -1216,26 +1203,14 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
 
             // NORMALIZAR tipo_imovel SEMPRE (não apenas quando não fornecido)
             if (tipo_imovel) {
-              const tiposImovelMap: Record<string, string> = {
-                'apartamento': 'apartamento',
-                'ap': 'apartamento',
-                'apto': 'apartamento',
-                'casa': 'casa',
-                'sobrado': 'sobrado',
-                'sala': 'sala',
-                'terreno': 'terreno',
-                'chácara': 'chácara',
-                'chacara': 'chácara'
-              };
-
-              const tipoNormalizado = tiposImovelMap[tipo_imovel.toLowerCase()];
+              const tipoNormalizado = await propertySearchDetectionService.resolvePropertyType(instanceForSearch.companyId, tipo_imovel);
               if (tipoNormalizado) {
                 console.log(`🔄 [FUNCTION_CALL] Normalizando tipo_imovel: "${tipo_imovel}" → "${tipoNormalizado}"`);
                 tipo_imovel = tipoNormalizado;
               }
             }
 
-            console.log(`🔎 [FUNCTION_CALL] Parâmetros finais - Cidade: ${cidade || 'não especificada'}, Tipo: ${tipo_imovel || 'não especificado'}, Transação: ${tipo_transacao || 'não especificada'}, Limite: ${limite}, Offset: ${offset}`);
+            console.log(`🔎 [FUNCTION_CALL] Parâmetros finais - Cidade: ${cidade || 'não especificada'}, Tipo: ${tipo_imovel || 'não especificado'}, Transação: ${tipo_transacao || 'não especificada'}, Limite: ${limite}`);
 
             // LOGS DETALHADOS DOS FILTROS
             console.log('🔍 [FUNCTION_CALL] ========== FILTROS ENVIADOS PARA searchProperties ==========');
@@ -1244,12 +1219,30 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             console.log(`🔍 [FUNCTION_CALL] cidade ANTES de enviar: "${cidade}" (type: ${typeof cidade})`);
             console.log(`🔍 [FUNCTION_CALL] tipo_transacao ANTES de enviar: "${tipo_transacao}" (type: ${typeof tipo_transacao})`);
 
-            const searchFilters = {
+            const comodidades: string[] = Array.isArray(functionArgs.comodidades) && functionArgs.comodidades.length > 0
+              ? functionArgs.comodidades
+              : comodidadesPerfil;
+            if (comodidades === comodidadesPerfil) camposDoPerfil.add('amenities');
+            if (!functionArgs.bairro) camposDoPerfil.add('neighborhood');
+            if (functionArgs.quartos_minimo == null) camposDoPerfil.add('minBedrooms');
+            const searchFilters: PropertySearchFilters = {
               city: cidade,
+              // Com vários bairros no perfil a busca fica na cidade toda
+              neighborhood: functionArgs.bairro || (bairrosPerfil.length === 1 ? bairrosPerfil[0] : undefined),
               transactionType: tipo_transacao === 'aluguel' ? 'locacao' : tipo_transacao,
               propertyType: tipo_imovel,
               priceMin: preco_minimo,
-              priceMax: preco_maximo
+              priceMax: preco_maximo,
+              minBedrooms: functionArgs.quartos_minimo ?? leadProfile?.bedrooms ?? undefined,
+              minBathrooms: functionArgs.banheiros_minimo,
+              minParkingSpaces: functionArgs.vagas_minimo,
+              minPrivateArea: functionArgs.area_minima,
+              maxPrivateArea: functionArgs.area_maxima,
+              amenities: comodidades.length > 0
+                ? await propertyService.resolveAmenityIds(instanceForSearch.companyId, comodidades)
+                : undefined,
+              sortBy: functionArgs.ordenacao,
+              limit: limite,
             };
 
             console.log(`🔍 [FUNCTION_CALL] preco_minimo: ${preco_minimo || 'NÃO FORNECIDO'}`);
@@ -1258,17 +1251,21 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             console.log(`🔍 [FUNCTION_CALL] Objeto searchFilters completo:`, JSON.stringify(searchFilters, null, 2));
             console.log('🔍 [FUNCTION_CALL] ================================================================');
 
-            // Buscar imóveis usando o companyId da instância
-            let properties = await storage.searchProperties(instanceForSearch.companyId, searchFilters);
-
-            const totalEncontrados = properties.length;
-
-            console.log(`📊 [FUNCTION_CALL] ANTES DO SLICE - Total encontrados: ${totalEncontrados}, Offset: ${offset}, Limite: ${limite}`);
-
-            // Aplicar offset e limite (paginação de 3 em 3)
-            properties = properties.slice(offset, offset + limite);
-
-            console.log(`🏠 [FUNCTION_CALL] DEPOIS DO SLICE - Retornando ${properties.length} imóveis (de ${offset} até ${offset + limite})`);
+            // Sessão de busca da conversa: "mais" com os mesmos critérios continua de onde parou,
+            // qualquer outra busca começa uma nova sessão (com alternativas quando nada atende exatamente)
+            const conversation = await conversationControlService.ensureConversation(instanceForSearch.id, context.phone, context.pushName);
+            const session = pedindoMais ? await storage.getPropertySearchSession(conversation.id) : undefined;
+            const filtrosPedidos = Object.fromEntries(
+              Object.entries(searchFilters).filter(([campo]) => !camposDoPerfil.has(campo as keyof PropertySearchFilters))
+            ) as PropertySearchFilters;
+            const searchResult = session && propertyService.isSameSearch(session, filtrosPedidos)
+              ? await propertyService.continueSearchSession(session, limite)
+              : await propertyService.startSearchSession(conversation.id, instanceForSearch.companyId, searchFilters, filtrosPedidos);
+            const properties = searchResult.properties;
+            const totalEncontrados = searchResult.total;
+            const offset = searchResult.offset;
+
+            console.log(`🏠 [FUNCTION_CALL] ${searchResult.continued ? 'Continuando sessão de busca' : 'Nova sessão de busca'} - total: ${totalEncontrados}, retornando ${properties.length} imóveis (a partir de ${offset}), restam ${searchResult.remaining}`);
             console.log(`📋 [FUNCTION_CALL] Códigos dos imóveis que serão retornados: ${properties.map(p => p.code).join(', ')}`);
 
             // Log detalhado das imagens
@@ -1326,17 +1323,18 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
                 name: p.name || 'Imóvel sem nome',
                 endereco: `${p.street}, ${p.number} - ${p.neighborhood || ''}, ${p.city || ''} - ${p.state || ''}`,
                 description: `Código: ${p.code || 'N/A'}\n${p.name}\n📍 ${p.street}, ${p.number} - ${p.neighborhood || ''}, ${p.city || ''} - ${p.state || ''}\n🛏️ ${p.bedrooms} quartos | 🚿 ${p.bathrooms} banheiros | 🚗 ${p.parkingSpaces} vagas\n📐 ${p.privateArea}m²\n💰 ${tipoTransacao}: ${valorFormatado}${comodidadesTexto}\n${p.description ? '\n' + p.description : ''}`,
-                images: (p.images || []).slice(0, 5) // Limitar a 5 imagens por imóvel
+                images: (p.images || []).slice(0, 5), // Limitar a 5 imagens por imóvel
+                matchScore: p.matchScore
               };
             });
 
             // Formatar resultado SIMPLIFICADO para o modelo
             // NÃO enviar detalhes dos imóveis, apenas estatísticas
             // Isso evita que o modelo liste os imóveis no texto da resposta
-            const totalRestante = totalEncontrados - (offset + properties.length);
+            const totalRestante = searchResult.remaining;
 
             // Se o usuário pediu mais mas não há mais imóveis
-            if (properties.length === 0 && offset > 0) {
+            if (properties.length === 0 && searchResult.continued) {
               console.log(`🔄 [FUNCTION_CALL] Não há mais imóveis para mostrar (offset: ${offset})`);
               return {
                 text: `Esses são todos os imóveis disponíveis! 🏠\n\nQual deles você mais gostou? Me diga o código (ex: A1001) que eu agendo uma visita sem compromisso para você conhecer de perto! 📅`
@@ -1344,15 +1342,17 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             }
 
             // Se não encontrou nenhum imóvel
-            if (properties.length === 0 && offset === 0) {
+            if (properties.length === 0 && !searchResult.continued) {
               console.log(`❌ [FUNCTION_CALL] Nenhum imóvel encontrado com os filtros aplicados`);
               return {
                 text: `Não encontrei imóveis com essas características no momento. 😔\n\nPosso ajudar você a buscar de outra forma? Tente mudar a cidade, o tipo de imóvel ou o tipo de transação.`
               };
             }
 
-            const mensagemInicial = offset === 0
-              ? `Encontrei ${totalEncontrados} imóveis. Mostrando os primeiros ${properties.length}.`
+            const mensagemInicial = !searchResult.continued
+              ? searchResult.relaxed
+                ? `Nenhum imóvel atende exatamente ao pedido. Encontrei ${totalEncontrados} alternativas próximas (${searchResult.relaxations.join('; ')}). Mostrando as ${properties.length} mais aderentes.`
+                : `Encontrei ${totalEncontrados} imóveis. Mostrando os primeiros ${properties.length}.`
               : `Mostrando mais ${properties.length} imóveis.`;
 
             // Incluir códigos dos imóveis mostrados para referência
@@ -1371,6 +1371,9 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
               tem_mais_resultados: totalRestante > 0,
               total_restante: totalRestante,
               codigos_mostrados: codigosImoveis,
+              alternativas: searchResult.relaxed,
+              criterios_flexibilizados: searchResult.relaxations,
+              aderencia: properties.map(p => ({ codigo: p.code, nota: p.matchScore, diferencas: p.matchNotes })),
               mensagem: `${mensagemInicial}${totalRestante > 0 ? ` Ainda há mais ${totalRestante} imóveis disponíveis. O usuário pode pedir "mais" para ver os próximos.` : ' Esses são todos os imóveis disponíveis.'} O sistema enviará cada imóvel automaticamente com suas fotos.`,
               instrucao_agente: instrucaoAgente
             };
@@ -1387,7 +1390,9 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             // Adicionar instrução para resposta CURTA (a pergunta de agendamento será enviada automaticamente após os imóveis)
             messages.push({
               role: "system" as const,
-              content: `INSTRUÇÃO: Os imóveis com códigos [${codigosImoveis}] estão sendo enviados ao usuário com fotos. Sua resposta deve ser MUITO CURTA, apenas uma breve introdução (1-2 frases). NÃO inclua pergunta sobre agendamento - ela será enviada automaticamente após os imóveis. Exemplo: "Encontrei ótimas opções para você! Veja:"`
+              content: searchResult.relaxed && !searchResult.continued
+                ? `INSTRUÇÃO: Nenhum imóvel atende exatamente ao que o usuário pediu. Os imóveis com códigos [${codigosImoveis}] são as alternativas mais próximas (${searchResult.relaxations.join('; ')}) e estão sendo enviados com fotos. Em 1-2 frases, diga com naturalidade que não há exatamente o que ele pediu e o que mudou nas opções, sem listar os imóveis. NÃO inclua pergunta sobre agendamento. Exemplo: "Não tenho no momento exatamente nessa faixa, mas separei opções bem parecidas, um pouco acima do valor. Veja:"`
+                : `INSTRUÇÃO: Os imóveis com códigos [${codigosImoveis}] estão sendo enviados ao usuário com fotos. Sua resposta deve ser MUITO CURTA, apenas uma breve introdução (1-2 frases). NÃO inclua pergunta sobre agendamento - ela será enviada automaticamente após os imóveis. Exemplo: "Encontrei ótimas opções para você! Veja:"`
             });
 
             console.log(`📚 [FUNCTION_CALL] Fazendo chamada final COM histórico completo (${messages.length} mensagens)`);
@@ -1397,13 +1402,13 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             // Mantendo TODO o histórico para que o agente não perca memória
             // max_tokens baixo para forçar resposta curta (apenas introdução)
             // IMPORTANTE: Passar as tools para que o modelo possa chamar agendar_visita se necessário
-            const finalResponse = await openai.chat.completions.create({
-              model: "gpt-4o",
+            const finalResponse = await llm.chat({
+              model,
               messages: messages, // Inclui: system + histórico + mensagem atual + tool_call + tool_result + instrução
-              max_tokens: 100, // Baixo para resposta curta (só introdução)
+              maxTokens: searchResult.relaxed ? 150 : 100, // Baixo para resposta curta (só introdução)
               temperature: 0.5,
               tools: tools, // Manter tools disponíveis para possível agendamento
-              tool_choice: "auto" // Deixar o modelo decidir se precisa chamar alguma tool
+              toolChoice: "auto" // Deixar o modelo decidir se precisa chamar alguma tool
             });
 
             console.log(`✅ [FUNCTION_CALL] Resposta final gerada COM memória preservada`);
@@ -1411,7 +1416,7 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             console.log(`📦 [FUNCTION_CALL] Há mais imóveis disponíveis: ${totalRestante > 0}`);
 
             return {
-              text: finalResponse.choices[0].message.content || "Encontrei os imóveis mas não consegui formatá-los.",
+              text: finalResponse.message.content || "Encontrei os imóveis mas não consegui formatá-los.",
               propertyImages: allPropertyImages.length > 0 ? allPropertyImages : undefined, // deprecated
               properties: structuredProperties.length > 0 ? structuredProperties : undefined,
               hasMoreProperties: totalRestante > 0
@@ -1489,42 +1494,14 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             let brokerName: string | null = null;
 
             if (brokers.length > 0) {
-              // ========== SISTEMA DE RODÍZIO DE CORRETORES ==========
-              // 1. Primeiro agendamento do dia: aleatório
-              // 2. Próximos agendamentos: próximo corretor na lista (circular)
-
               console.log(`🔄 [RODÍZIO] Iniciando seleção de corretor em rodízio...`);
               console.log(`🔄 [RODÍZIO] Total de corretores disponíveis: ${brokers.length}`);
 
-              // Ordenar corretores por ID para garantir ordem consistente
-              const sortedBrokers = [...brokers].sort((a, b) => a.id.localeCompare(b.id));
-
               // Buscar último agendamento do dia que tem corretor
               const lastAppointment = await storage.getLastAppointmentOfDayWithBroker(instanceForAppointment.companyId);
-
-              if (!lastAppointment || !lastAppointment.brokerId) {
-                // Primeiro agendamento do dia - selecionar aleatoriamente
-                const randomIndex = Math.floor(Math.random() * sortedBrokers.length);
-                brokerId = sortedBrokers[randomIndex].id;
-                brokerName = sortedBrokers[randomIndex].name;
-                console.log(`🎲 [RODÍZIO] Primeiro agendamento do dia - corretor aleatório: ${brokerName}`);
-              } else {
-                // Já houve agendamento hoje - pegar próximo corretor na lista (circular)
-                const lastBrokerIndex = sortedBrokers.findIndex(b => b.id === lastAppointment.brokerId);
-
-                if (lastBrokerIndex === -1) {
-                  // Corretor do último agendamento não existe mais, começar do início
-                  brokerId = sortedBrokers[0].id;
-                  brokerName = sortedBrokers[0].name;
-                  console.log(`⚠️ [RODÍZIO] Corretor anterior não encontrado - reiniciando: ${brokerName}`);
-                } else {
-                  // Próximo corretor (circular - volta ao início se chegar no fim)
-                  const nextIndex = (lastBrokerIndex + 1) % sortedBrokers.length;
-                  brokerId = sortedBrokers[nextIndex].id;
-                  brokerName = sortedBrokers[nextIndex].name;
-                  console.log(`🔄 [RODÍZIO] Próximo corretor na lista (${lastBrokerIndex + 1} → ${nextIndex + 1}): ${brokerName}`);
-                }
-              }
+              const rotationBroker = brokerRotationService.next(brokers, lastAppointment?.brokerId);
+              brokerId = rotationBroker?.id || null;
+              brokerName = rotationBroker?.name || null;
 
               console.log(`👤 [AGENDAR_VISITA] Corretor atribuído por rodízio: ${brokerName} (ID: ${brokerId})`);
             } else {
@@ -1550,28 +1527,39 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
               : observacoes;
 
             // Parsear a data da visita para salvar no scheduledDate
-            // Formato esperado: "Segunda-feira dia 05/01/2026 às 9h" ou "Sexta dia 02/01/2026 às 16h"
+            // Formato esperado: "Segunda-feira dia 05/01/2026 às 9h" ou "Sexta dia 02/01/2026 às 16h30"
             let scheduledDateParsed: Date | null = null;
             if (dataVisita && dataVisita !== 'Data a confirmar') {
-              try {
-                // Extrair dia/mês/ano e hora do texto
-                const regexData = /(\d{1,2})\/(\d{1,2})\/(\d{4})/;
-                const regexHora = /(\d{1,2})h/;
-
-                const matchData = dataVisita.match(regexData);
-                const matchHora = dataVisita.match(regexHora);
+              scheduledDateParsed = appointmentService.parseVisitDate(dataVisita);
+              if (scheduledDateParsed) {
+                console.log(`📅 [AGENDAR_VISITA] Data parseada: ${scheduledDateParsed.toISOString()}`);
+              }
+            }
 
-                if (matchData) {
-                  const dia = parseInt(matchData[1]);
-                  const mes = parseInt(matchData[2]) - 1; // Mês em JS é 0-indexed
-                  const ano = parseInt(matchData[3]);
-                  const hora = matchHora ? parseInt(matchHora[1]) : 9; // Default 9h
+            // ========== CONFERÊNCIA DA AGENDA ==========
+            // O corretor do rodízio tem preferência; se estiver ocupado, vai para o próximo livre
+            if (scheduledDateParsed) {
+              const preferredOrder = brokerRotationService.preferredOrder(brokers, brokerId);
+
+              const freeBrokerId = scheduledDateParsed.getTime() > Date.now()
+                ? await brokerAvailabilityService.findAvailableBroker(instanceForAppointment.companyId, scheduledDateParsed, preferredOrder)
+                : undefined;
+
+              if (freeBrokerId === undefined) {
+                console.log(`⛔ [AGENDAR_VISITA] Horário ${dataVisita} indisponível na agenda dos corretores`);
+                const alternativas = await brokerAvailabilityService.suggestSlots(instanceForAppointment.companyId, 3);
+                const opcoes = alternativas.map(slot => brokerAvailabilityService.formatSlot(slot.start));
+                return {
+                  text: opcoes.length > 0
+                    ? `Esse horário não está disponível na agenda dos nossos corretores. 😕 Tenho livre: ${opcoes.join(', ')}. Qual desses fica melhor para você?`
+                    : `Esse horário não está disponível e não encontrei horários livres nos próximos dias. Um dos nossos corretores vai entrar em contato para combinar a visita com você. 😊`
+                };
+              }
 
-                  scheduledDateParsed = new Date(ano, mes, dia, hora, 0, 0);
-                  console.log(`📅 [AGENDAR_VISITA] Data parseada: ${scheduledDateParsed.toISOString()}`);
-                }
-              } catch (parseError) {
-                console.log(`⚠️ [AGENDAR_VISITA] Erro ao parsear data: ${parseError}`);
+              if (freeBrokerId && freeBrokerId !== brokerId) {
+                brokerId = freeBrokerId;
+                brokerName = brokers.find(b => b.id === freeBrokerId)?.name || null;
+                console.log(`🔄 [AGENDAR_VISITA] Corretor do rodízio ocupado no horário - atribuído a ${brokerName}`);
               }
             }
 
@@ -1590,6 +1578,11 @@ EXEMPLO DE FLUXO CORRETO (SIGA ESTE MODELO):
             });
 
             console.log(`✅ [AGENDAR_VISITA] Agendamento criado com sucesso! ID: ${newAppointment.id}`);
+            await customerActivityService.recordForPhone(newAppointment.companyId, newAppointment.clientPhone, {
+              type: 'appointment',
+              description: `Visita agendada pela IA${imovelInteresse ? `: ${imovelInteresse}` : ''}`,
+              metadata: { appointmentId: newAppointment.id, scheduledDate: newAppointment.scheduledDate, conversationId },
+            });
 
             // ========== NOTIFICAÇÃO AO CORRETOR VIA WHATSAPP ==========
             console.log(`📲 [NOTIFICAÇÃO] Verificando se deve enviar notificação...`);
@@ -1732,23 +1725,69 @@ ${whatsappLink}`;
               content: JSON.stringify(appointmentResult)
             });
 
-            const finalResponse = await openai.chat.completions.create({
-              model: "gpt-4o",
+            const finalResponse = await llm.chat({
+              model,
               messages: messages,
-              max_tokens: 200,
+              maxTokens: 200,
               temperature: 0.5,
             });
 
             console.log(`✅ [AGENDAR_VISITA] Resposta final gerada`);
 
             return {
-              text: finalResponse.choices[0].message.content || appointmentResult.mensagem
+              text: finalResponse.message.content || appointmentResult.mensagem
             };
 
           } catch (error) {
             console.error(`❌ [AGENDAR_VISITA] Erro ao criar agendamento:`, error);
             return { text: "Desculpe, ocorreu um erro ao criar o agendamento. Por favor, tente novamente ou entre em contato diretamente conosco." };
           }
+        } else if (functionName === "consultar_agendamentos" || functionName === "remarcar_visita" || functionName === "cancelar_visita") {
+          // ========== FUNÇÕES: CONSULTAR / REMARCAR / CANCELAR VISITA ==========
+          try {
+            console.log(`📅 [${functionName.toUpperCase()}] Argumentos recebidos:`, JSON.stringify(functionArgs, null, 2));
+
+            let instanceForTool = await storage.getWhatsappInstanceByEvolutionId(context.instanceId);
+            if (!instanceForTool && (context as any).databaseInstanceId) {
+              instanceForTool = await storage.getWhatsappInstance((context as any).databaseInstanceId);
+            }
+
+            if (!instanceForTool?.companyId) {
+              throw new Error('Instância ou companyId não encontrado');
+            }
+
+            const conversations = await storage.getConversationsByInstance(instanceForTool.id);
+            const conversation = conversations.find(c => c.contactPhone === context.phone);
+
+            const toolResult = await appointmentService.runAgentTool(functionName, functionArgs, {
+              companyId: instanceForTool.companyId,
+              phone: context.phone,
+              conversationId: conversation?.id || null,
+            });
+            console.log(`📅 [${functionName.toUpperCase()}] Resultado:`, JSON.stringify(toolResult));
+
+            messages.push(responseMessage);
+            messages.push({
+              role: "tool" as const,
+              tool_call_id: toolCall.id,
+              content: JSON.stringify(toolResult)
+            });
+
+            const finalResponse = await llm.chat({
+              model,
+              messages: messages,
+              maxTokens: 300,
+              temperature: 0.5,
+            });
+
+            return {
+              text: finalResponse.message.content || toolResult.mensagem
+            };
+
+          } catch (error) {
+            console.error(`❌ [${functionName.toUpperCase()}] Erro:`, error);
+            return { text: "Desculpe, ocorreu um erro ao consultar seu agendamento. Por favor, tente novamente ou entre em contato diretamente conosco." };
+          }
         }
       }
 
@@ -1776,10 +1815,14 @@ ${whatsappLink}`;
   async saveConversation(evolutionInstanceIdOrName: string, phone: string, userMessage: string, aiResponse: string, agentId: string, messageData?: {
     messageType?: string;
     mediaUrl?: string;
-    mediaBase64?: string;
+    mediaPath?: string;
+    mimeType?: string;
+    fileName?: string;
+    metadata?: MessageMetadata;
+    extractedText?: string;
     caption?: string;
     pushName?: string; // Nome do contato no WhatsApp
-  }) {
+  }, responseMessageId?: string | null) { // key.id da resposta enviada, para as confirmações de entrega
     try {
       const storage = getStorage();
 
@@ -1880,23 +1923,46 @@ ${whatsappLink}`;
         messageType: messageData?.messageType || 'text'
       };
 
-      // Adicionar dados de imagem se presente
+      // Adicionar a referência da mídia e o conteúdo estruturado, se presentes
       if (messageData) {
         if (messageData.mediaUrl) userMessageData.mediaUrl = messageData.mediaUrl;
-        if (messageData.mediaBase64) userMessageData.mediaBase64 = messageData.mediaBase64;
+        if (messageData.mediaPath) userMessageData.mediaPath = messageData.mediaPath;
+        if (messageData.mimeType) userMessageData.mimeType = messageData.mimeType;
+        if (messageData.fileName) userMessageData.fileName = messageData.fileName;
+        if (messageData.metadata) userMessageData.metadata = messageData.metadata;
+        if (messageData.extractedText) userMessageData.extractedText = messageData.extractedText;
         if (messageData.caption) userMessageData.caption = messageData.caption;
       }
 
-      await storage.createMessage(userMessageData);
+      const savedUserMessage = await storage.createMessage(userMessageData);
 
-      // Salvar resposta do AI
-      await storage.createMessage({
-        conversationId: conversation.id,
-        content: aiResponse,
-        sender: 'assistant',
-        agentId: agentId, // Rastrear qual agente respondeu
-        messageType: 'text'
+      // Salvar resposta do AI (vazia quando a IA está pausada na conversa)
+      const savedAiMessage = aiResponse
+        ? await storage.createMessage({
+          conversationId: conversation.id,
+          content: aiResponse,
+          sender: 'assistant',
+          agentId: agentId, // Rastrear qual agente respondeu
+          messageType: 'text',
+          evolutionMessageId: responseMessageId || null,
+          deliveryStatus: responseMessageId ? 'sent' : null
+        })
+        : null;
+
+      // Ordena a caixa de entrada e mostra a prévia da última mensagem
+      await storage.updateConversation(conversation.id, {
+        lastMessage: aiResponse || userMessage,
+        lastMessageAt: new Date(),
       });
+      const conversationInstance = await storage.getWhatsappInstance(dbInstanceId);
+      if (conversationInstance?.companyId) {
+        await conversationAssignmentService.handleInbound(conversation, conversationInstance.companyId);
+      }
+      await inboxEventsService.notify(conversation.id, savedUserMessage);
+      if (savedAiMessage) {
+        await inboxEventsService.notify(conversation.id, savedAiMessage);
+        await messageReceiptsService.flushPending(savedAiMessage.evolutionMessageId);
+      }
 
       // 🏠 ATUALIZAR LEAD COM CIDADE E TIPO DE IMÓVEL (se detectados na conversa)
       try {
@@ -1920,6 +1986,12 @@ ${whatsappLink}`;
             userMessage,
             conversationHistory
           );
+
+          // Perfil de preferências extraído pela IA (em segundo plano: não atrasa a resposta)
+          if (aiResponse) {
+            leadPreferenceService.extractFromConversation(instance.companyId, phone, conversationHistory, agentId)
+              .catch(error => console.error(`⚠️ [PREFERENCES] Erro ao extrair preferências do cliente:`, error));
+          }
         }
       } catch (leadUpdateError) {
         console.error(`⚠️ [SAVE] Erro ao atualizar lead (não crítico):`, leadUpdateError);
@@ -2001,11 +2073,15 @@ ${whatsappLink}`;
             lastContact: new Date().toISOString().slice(0, 19).replace('T', ' ')
           });
           console.log(`📝 [LEAD+CUSTOMER] Customer conversationId atualizado`);
+          await customerActivityService.record(existingCustomer, {
+            type: 'conversation',
+            description: 'Nova conversa iniciada pelo WhatsApp',
+            metadata: { conversationId },
+          });
         }
       } else {
-        // Buscar primeiro estágio do funil global
-        const funnelStages = await storage.getGlobalFunnelStages();
-        const firstStage = funnelStages.find(stage => stage.order === 1) || funnelStages[0];
+        // Buscar primeiro estágio do funil da empresa (ou do funil global, se ela não personalizou)
+        const firstStage = await storage.getFirstFunnelStage(instance.companyId);
 
         if (firstStage) {
           // Criar customer na tabela customers
@@ -2025,8 +2101,14 @@ ${whatsappLink}`;
             conversationId: conversationId
           });
           console.log(`🎉 [LEAD+CUSTOMER] CUSTOMER CRIADO! ID: ${newCustomer.id}, Nome: ${newCustomer.name}`);
+          await customerActivityService.record(newCustomer, {
+            type: 'created',
+            toStageId: firstStage.id,
+            description: 'Cliente criado pela primeira mensagem no WhatsApp',
+            metadata: { conversationId },
+          });
         } else {
-          console.log(`⚠️ [LEAD+CUSTOMER] Nenhum estágio do funil encontrado (global)`);
+          console.log(`⚠️ [LEAD+CUSTOMER] Nenhum estágio do funil encontrado para a empresa ${instance.companyId}`);
         }
       }
 
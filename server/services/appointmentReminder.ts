@@ -0,0 +1,184 @@
+import { getStorage } from "../storage";
+import { EvolutionApiService } from "./evolutionApi";
+import { brokerAvailabilityService } from "./brokerAvailability";
+import { customerActivityService } from "./customerActivity";
+import { appointmentService } from "./appointmentService";
+import { phoneNumberService } from "./phoneNumber";
+import type { Appointment } from "@shared/schema";
+
+type ReminderKind = "24h" | "1h";
+type ReminderReply = "confirm" | "cancel";
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_REPLY_LENGTH = 60; // Respostas longas são conversa normal e seguem para a IA
+
+/**
+ * Lembretes de visita por WhatsApp (24 horas e 1 hora antes) para o cliente e o corretor,
+ * enviados pela instância que atendeu a conversa. O cliente responde "confirmo" ou "não posso"
+ * e o status do agendamento é atualizado.
+ */
+export class AppointmentReminderService {
+  private interval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  start() {
+    console.log("⏰ [REMINDER] Processador de lembretes de visita iniciado");
+    this.interval = setInterval(() => this.processReminders(), CHECK_INTERVAL_MS);
+    this.processReminders();
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Interpreta a resposta do cliente a um lembrete. Retorna o texto a enviar ao cliente,
+   * ou null quando a mensagem não é uma resposta ao lembrete (segue o fluxo normal da IA).
+   */
+  async handleReply(companyId: string, phone: string, message: string): Promise<string | null> {
+    const reply = this.parseReply(message);
+    if (!reply) return null;
+
+    const storage = getStorage();
+    const appointment = await storage.getUpcomingRemindedAppointmentByPhone(companyId, phoneNumberService.variants(phone));
+    if (!appointment || !appointment.scheduledDate) return null;
+
+    const when = brokerAvailabilityService.formatSlot(new Date(appointment.scheduledDate));
+    const broker = appointment.brokerId ? await storage.getBroker(appointment.brokerId) : undefined;
+
+    if (reply === "confirm") {
+      if (appointment.status !== "confirmado") {
+        await storage.updateAppointment(appointment.id, { status: "confirmado" });
+      }
+      console.log(`✅ [REMINDER] Cliente ${phone} confirmou a visita ${appointment.id}`);
+      await this.recordActivity(appointment, "Cliente confirmou presença pelo lembrete");
+      await appointmentService.notifyBroker(appointment, broker, `✅ *VISITA CONFIRMADA*\n\n👤 *Cliente:* ${appointment.clientName}\n📅 *Data:* ${when}\n\nO cliente confirmou presença pelo lembrete.`);
+      return `Obrigado, ${appointment.clientName}! Sua visita está confirmada para ${when}. ${broker ? `O corretor ${broker.name} estará aguardando você.` : "Nossa equipe estará aguardando você."} Até lá! 😊`;
+    }
+
+    await storage.updateAppointment(appointment.id, { status: "cancelado" });
+    console.log(`🚫 [REMINDER] Cliente ${phone} cancelou a visita ${appointment.id}`);
+    await this.recordActivity(appointment, "Cliente cancelou a visita pelo lembrete");
+    await appointmentService.notifyBroker(appointment, broker, `🚫 *VISITA CANCELADA PELO CLIENTE*\n\n👤 *Cliente:* ${appointment.clientName}\n📱 *Telefone:* ${appointment.clientPhone}\n📅 *Data:* ${when}\n\nO cliente avisou pelo lembrete que não poderá comparecer.`);
+    return `Tudo bem, ${appointment.clientName}! Cancelei sua visita de ${when}. Quando quiser remarcar, é só me chamar por aqui. 😉`;
+  }
+
+  private async processReminders() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const storage = getStorage();
+      const evolutionConfig = await storage.getEvolutionApiConfiguration();
+      if (!evolutionConfig?.evolutionURL || !evolutionConfig?.evolutionToken) {
+        return;
+      }
+
+      const evolutionApi = new EvolutionApiService({
+        baseURL: evolutionConfig.evolutionURL,
+        token: evolutionConfig.evolutionToken
+      });
+
+      for (const kind of ["24h", "1h"] as ReminderKind[]) {
+        const appointments = await storage.getAppointmentsDueForReminder(kind);
+        if (appointments.length > 0) {
+          console.log(`⏰ [REMINDER] ${appointments.length} lembrete(s) de ${kind} para enviar`);
+        }
+
+        for (const appointment of appointments) {
+          await this.sendReminder(evolutionApi, appointment, kind);
+        }
+      }
+    } catch (error) {
+      console.error("❌ [REMINDER] Erro ao processar lembretes de visita:", error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async sendReminder(evolutionApi: EvolutionApiService, appointment: Appointment, kind: ReminderKind) {
+    const storage = getStorage();
+
+    // Marcado antes do envio: uma falha na Evolution API não pode gerar lembretes repetidos a cada minuto
+    await storage.updateAppointment(appointment.id, kind === "24h" ? { reminder24hSentAt: new Date() } : { reminder1hSentAt: new Date() });
+
+    const instance = await appointmentService.getSendingInstance(appointment);
+    if (!instance) {
+      console.log(`⚠️ [REMINDER] Nenhuma instância disponível para o lembrete da visita ${appointment.id}`);
+      return;
+    }
+
+    const broker = appointment.brokerId ? await storage.getBroker(appointment.brokerId) : undefined;
+    const when = brokerAvailabilityService.formatSlot(new Date(appointment.scheduledDate!));
+    const property = appointment.propertyInterest ? ` ao imóvel *${appointment.propertyInterest}*` : "";
+    // O lembrete de véspera sempre pede confirmação de presença; o de 1 hora só se ainda estiver pendente
+    const askConfirmation = kind === "24h" || appointment.status !== "confirmado";
+
+    const clientMessage = kind === "24h"
+      ? `Olá, ${appointment.clientName}! 👋\n\nPassando para lembrar da sua visita${property} ${when}.${broker ? `\n\n🤝 Corretor: ${broker.name}` : ""}`
+      : `Olá, ${appointment.clientName}! Sua visita${property} é daqui a pouco: ${when}. ⏰${broker ? `\n\n🤝 O corretor ${broker.name} estará aguardando você.` : ""}`;
+    const confirmationPrompt = askConfirmation
+      ? `\n\nResponda *CONFIRMO* para confirmar sua presença ou *NÃO POSSO* se não puder comparecer.`
+      : "";
+
+    try {
+      await evolutionApi.sendMessage(instance.name, phoneNumberService.toWhatsappNumber(appointment.clientPhone), clientMessage + confirmationPrompt);
+      console.log(`✅ [REMINDER] Lembrete de ${kind} enviado ao cliente ${appointment.clientPhone} via ${instance.name}`);
+    } catch (error) {
+      console.error(`❌ [REMINDER] Erro ao enviar lembrete de ${kind} ao cliente ${appointment.clientPhone}:`, error);
+    }
+
+    if (broker?.whatsapp) {
+      const brokerMessage = `⏰ *LEMBRETE DE VISITA (${kind === "24h" ? "próximas 24 horas" : "em 1 hora"})*
+
+👤 *Cliente:* ${appointment.clientName}
+📱 *Telefone:* ${appointment.clientPhone}
+🏢 *Imóvel:* ${appointment.propertyInterest || "-"}
+📅 *Data:* ${when}
+📋 *Status:* ${appointment.status === "confirmado" ? "Confirmada" : "Aguardando confirmação do cliente"}`;
+
+      try {
+        await evolutionApi.sendMessage(instance.name, broker.whatsapp.replace(/\D/g, ""), brokerMessage);
+        console.log(`✅ [REMINDER] Lembrete de ${kind} enviado ao corretor ${broker.name}`);
+      } catch (error) {
+        console.error(`❌ [REMINDER] Erro ao enviar lembrete de ${kind} ao corretor ${broker.name}:`, error);
+      }
+    }
+  }
+
+  private async recordActivity(appointment: Appointment, description: string) {
+    await customerActivityService.recordForPhone(appointment.companyId, appointment.clientPhone, {
+      type: "appointment",
+      description,
+      metadata: { appointmentId: appointment.id, scheduledDate: appointment.scheduledDate },
+    });
+  }
+
+  private parseReply(message: string): ReminderReply | null {
+    const text = (message || "")
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9\s]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    if (!text || text.length > MAX_REPLY_LENGTH) return null;
+    // "Não posso, dá para remarcar?" não é cancelamento: quem trata o novo horário é a IA
+    if (/\b(remarcar|remarca|reagendar|reagenda|outro (dia|horario)|outra (data|hora)|mudar (o )?(dia|horario|data))\b/.test(text)) {
+      return null;
+    }
+    if (/\bnao (posso|vou|poderei|consigo|conseguirei|irei)\b/.test(text) || /\b(cancelar|cancela|desmarcar)\b/.test(text)) {
+      return "cancel";
+    }
+    if (/\b(confirmo|confirmado|confirmada|confirmar)\b/.test(text) && !/\bnao\b/.test(text)) {
+      return "confirm";
+    }
+    return null;
+  }
+}
+
+export const appointmentReminderService = new AppointmentReminderService();
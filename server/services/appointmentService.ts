@@ -0,0 +1,260 @@
+import { getStorage } from "../storage";
+import { EvolutionApiService } from "./evolutionApi";
+import { brokerAvailabilityService } from "./brokerAvailability";
+import { customerActivityService } from "./customerActivity";
+import { phoneNumberService } from "./phoneNumber";
+import type { Appointment, Broker, WhatsappInstance } from "@shared/schema";
+
+export interface AppointmentContact {
+  companyId: string;
+  phone: string; // Número do WhatsApp da conversa
+  conversationId?: string | null;
+}
+
+// Dados para a IA localizar a visita quando o contato tem mais de uma
+export interface AppointmentSelector {
+  telefone_cliente?: string;
+  imovel?: string;
+  data_atual?: string;
+}
+
+type AgentToolResult = Record<string, unknown> & { sucesso: boolean; mensagem: string };
+
+/**
+ * Consulta, remarcação e cancelamento de visitas pelo agente de IA. Remarcações respeitam
+ * a agenda dos corretores e o corretor envolvido é avisado pelo WhatsApp.
+ */
+export class AppointmentService {
+  async runAgentTool(name: string, args: Record<string, any>, contact: AppointmentContact): Promise<AgentToolResult> {
+    const appointments = await this.findUpcomingForContact(contact, args.telefone_cliente);
+
+    if (name === "consultar_agendamentos") {
+      return {
+        sucesso: true,
+        agendamentos: await Promise.all(appointments.map(appointment => this.describe(appointment))),
+        mensagem: appointments.length > 0
+          ? `O cliente tem ${appointments.length} visita(s) agendada(s).`
+          : "O cliente não tem visitas agendadas.",
+      };
+    }
+
+    const appointment = this.select(appointments, args);
+    if (!appointment) {
+      return {
+        sucesso: false,
+        agendamentos: await Promise.all(appointments.map(appointment => this.describe(appointment))),
+        mensagem: appointments.length === 0
+          ? "Não encontrei visitas agendadas para este contato. Pergunte o telefone informado no agendamento."
+          : "O cliente tem mais de uma visita agendada. Pergunte qual delas (imóvel ou data) antes de continuar.",
+      };
+    }
+
+    if (name === "cancelar_visita") {
+      await this.cancel(appointment, args.motivo || null);
+      return {
+        sucesso: true,
+        mensagem: `Visita ao imóvel ${appointment.propertyInterest || "-"} ${this.formatDate(appointment)} cancelada. O corretor foi avisado.`,
+      };
+    }
+
+    const newDate = this.parseVisitDate(args.nova_data || "");
+    if (!newDate) {
+      return { sucesso: false, mensagem: "Não entendi a nova data. Peça ao cliente o dia e o horário desejados." };
+    }
+
+    const result = await this.reschedule(appointment, newDate);
+    if (!result.success) {
+      return {
+        sucesso: false,
+        horarios_livres: result.alternatives,
+        mensagem: result.alternatives.length > 0
+          ? `Esse horário não está disponível. Ofereça estes horários livres: ${result.alternatives.join(", ")}.`
+          : "Esse horário não está disponível e não há horários livres nos próximos dias. Diga que um corretor entrará em contato.",
+      };
+    }
+
+    return {
+      sucesso: true,
+      nova_data: brokerAvailabilityService.formatSlot(newDate),
+      corretor: result.brokerName || "A definir",
+      mensagem: `Visita remarcada para ${brokerAvailabilityService.formatSlot(newDate)}${result.brokerName ? ` com o corretor ${result.brokerName}` : ""}.`,
+    };
+  }
+
+  async findUpcomingForContact(contact: AppointmentContact, informedPhone?: string | null): Promise<Appointment[]> {
+    const phones = [...phoneNumberService.variants(contact.phone), ...(informedPhone ? phoneNumberService.variants(informedPhone) : [])];
+    return getStorage().getUpcomingAppointmentsByContact(contact.companyId, Array.from(new Set(phones)), contact.conversationId);
+  }
+
+  /**
+   * Remarca a visita se algum corretor estiver livre no novo horário (o atual tem preferência).
+   * Quando outro corretor assume, os dois são avisados.
+   */
+  async reschedule(appointment: Appointment, newDate: Date): Promise<
+    { success: true; appointment: Appointment; brokerName: string | null } | { success: false; alternatives: string[] }
+  > {
+    const storage = getStorage();
+    const brokers = await storage.getBrokersByCompany(appointment.companyId);
+    const preferredOrder = [
+      ...(appointment.brokerId ? [appointment.brokerId] : []),
+      ...brokers.map(broker => broker.id).filter(id => id !== appointment.brokerId),
+    ];
+
+    const freeBrokerId = newDate.getTime() > Date.now()
+      ? await brokerAvailabilityService.findAvailableBroker(appointment.companyId, newDate, preferredOrder, appointment.id)
+      : undefined;
+
+    if (freeBrokerId === undefined) {
+      const slots = await brokerAvailabilityService.suggestSlots(appointment.companyId, 3);
+      return { success: false, alternatives: slots.map(slot => brokerAvailabilityService.formatSlot(slot.start)) };
+    }
+
+    const previousDate = this.formatDate(appointment);
+    const newDateLabel = brokerAvailabilityService.formatSlot(newDate);
+    const brokerId = freeBrokerId ?? appointment.brokerId;
+
+    const updated = await storage.updateAppointment(appointment.id, {
+      scheduledDate: newDate,
+      brokerId,
+      status: "confirmado",
+      notes: this.notesWithDate(appointment.notes, newDateLabel),
+    });
+    console.log(`🔁 [APPOINTMENT] Visita ${appointment.id} remarcada de ${previousDate} para ${newDateLabel}`);
+
+    const previousBroker = appointment.brokerId ? await storage.getBroker(appointment.brokerId) : undefined;
+    const newBroker = brokerId && brokerId !== appointment.brokerId ? await storage.getBroker(brokerId) : previousBroker;
+
+    await this.notifyBroker(updated, previousBroker, newBroker !== previousBroker
+      ? `🔁 *VISITA TRANSFERIDA*\n\n👤 *Cliente:* ${appointment.clientName}\n🏢 *Imóvel:* ${appointment.propertyInterest || "-"}\n📅 *Data anterior:* ${previousDate}\n\nO cliente remarcou para ${newDateLabel} e a visita passou para ${newBroker?.name || "outro corretor"}.`
+      : `🔁 *VISITA REMARCADA*\n\n👤 *Cliente:* ${appointment.clientName}\n📱 *Telefone:* ${appointment.clientPhone}\n🏢 *Imóvel:* ${appointment.propertyInterest || "-"}\n\n📅 *De:* ${previousDate}\n📅 *Para:* ${newDateLabel}`);
+    if (newBroker && newBroker !== previousBroker) {
+      await this.notifyBroker(updated, newBroker, `🏠 *NOVA VISITA (REMARCADA)*\n\n👤 *Cliente:* ${appointment.clientName}\n📱 *Telefone:* ${appointment.clientPhone}\n🏢 *Imóvel:* ${appointment.propertyInterest || "-"}\n\n📅 *Data da visita:* ${newDateLabel}`);
+    }
+
+    await customerActivityService.recordForPhone(appointment.companyId, appointment.clientPhone, {
+      type: "appointment",
+      description: `Visita remarcada de ${previousDate} para ${newDateLabel}`,
+      metadata: { appointmentId: appointment.id, scheduledDate: newDate, previousScheduledDate: appointment.scheduledDate },
+    });
+
+    return { success: true, appointment: updated, brokerName: newBroker?.name || null };
+  }
+
+  async cancel(appointment: Appointment, reason?: string | null): Promise<Appointment> {
+    const storage = getStorage();
+    const updated = await storage.updateAppointment(appointment.id, {
+      status: "cancelado",
+      notes: reason ? `${appointment.notes ? `${appointment.notes} | ` : ""}Cancelada pelo cliente: ${reason}` : appointment.notes,
+    });
+    console.log(`🚫 [APPOINTMENT] Visita ${appointment.id} cancelada pelo cliente`);
+
+    const broker = appointment.brokerId ? await storage.getBroker(appointment.brokerId) : undefined;
+    await this.notifyBroker(updated, broker, `🚫 *VISITA CANCELADA PELO CLIENTE*\n\n👤 *Cliente:* ${appointment.clientName}\n📱 *Telefone:* ${appointment.clientPhone}\n🏢 *Imóvel:* ${appointment.propertyInterest || "-"}\n📅 *Data:* ${this.formatDate(appointment)}${reason ? `\n📝 *Motivo:* ${reason}` : ""}`);
+
+    await customerActivityService.recordForPhone(appointment.companyId, appointment.clientPhone, {
+      type: "appointment",
+      description: `Visita de ${this.formatDate(appointment)} cancelada pelo cliente${reason ? `: ${reason}` : ""}`,
+      metadata: { appointmentId: appointment.id, scheduledDate: appointment.scheduledDate },
+    });
+
+    return updated;
+  }
+
+  // Instância que atendeu a conversa do agendamento; sem conversa, a primeira conectada da empresa
+  async getSendingInstance(appointment: Appointment): Promise<WhatsappInstance | undefined> {
+    const storage = getStorage();
+
+    if (appointment.conversationId) {
+      const conversation = await storage.getConversation(appointment.conversationId);
+      if (conversation) {
+        const instance = await storage.getWhatsappInstance(conversation.whatsappInstanceId);
+        if (instance) return instance;
+      }
+    }
+
+    const instances = await storage.getWhatsappInstancesByCompany(appointment.companyId);
+    return instances.find(instance => instance.status === "connected");
+  }
+
+  // Aviso ao corretor pelo WhatsApp; falhas são apenas logadas
+  async notifyBroker(appointment: Appointment, broker: Broker | undefined, message: string): Promise<void> {
+    if (!broker?.whatsapp) return;
+
+    try {
+      const storage = getStorage();
+      const evolutionConfig = await storage.getEvolutionApiConfiguration();
+      const instance = await this.getSendingInstance(appointment);
+      if (!evolutionConfig?.evolutionURL || !evolutionConfig?.evolutionToken || !instance) {
+        console.log(`⚠️ [APPOINTMENT] Evolution API ou instância indisponível - corretor ${broker.name} não avisado`);
+        return;
+      }
+
+      const evolutionApi = new EvolutionApiService({
+        baseURL: evolutionConfig.evolutionURL,
+        token: evolutionConfig.evolutionToken
+      });
+      await evolutionApi.sendMessage(instance.name, broker.whatsapp.replace(/\D/g, ""), message);
+      console.log(`📲 [APPOINTMENT] Corretor ${broker.name} avisado sobre a visita ${appointment.id}`);
+    } catch (error) {
+      console.error(`❌ [APPOINTMENT] Erro ao avisar o corretor ${broker.name}:`, error);
+    }
+  }
+
+  // "Segunda dia 06/01/2026 às 14h30" → Date (hora padrão 9h quando não informada)
+  parseVisitDate(text: string): Date | null {
+    const matchData = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (!matchData) return null;
+
+    // A hora vem depois da data ("às 14h"); procurar só no restante evita confundir com o dia
+    const matchHora = text.substring((matchData.index || 0) + matchData[0].length).match(/(\d{1,2})(?:h|:)(\d{2})?/);
+    const hora = matchHora ? parseInt(matchHora[1]) : 9;
+    const minuto = matchHora?.[2] ? parseInt(matchHora[2]) : 0;
+
+    const date = new Date(parseInt(matchData[3]), parseInt(matchData[2]) - 1, parseInt(matchData[1]), hora, minuto, 0);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Com uma visita só, é ela; com várias, filtra pelo código do imóvel e/ou pela data atual informados
+  private select(appointments: Appointment[], selector: AppointmentSelector): Appointment | undefined {
+    if (appointments.length <= 1) return appointments[0];
+
+    let candidates = appointments;
+    const code = (selector.imovel || "").trim().toLowerCase();
+    if (code) {
+      candidates = candidates.filter(appointment => (appointment.propertyInterest || "").toLowerCase().includes(code));
+    }
+
+    const currentDate = selector.data_atual ? this.parseVisitDate(selector.data_atual) : null;
+    if (currentDate) {
+      candidates = candidates.filter(appointment =>
+        appointment.scheduledDate && new Date(appointment.scheduledDate).toDateString() === currentDate.toDateString()
+      );
+    }
+
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private async describe(appointment: Appointment) {
+    const broker = appointment.brokerId ? await getStorage().getBroker(appointment.brokerId) : undefined;
+    return {
+      imovel: appointment.propertyInterest || "-",
+      data: this.formatDate(appointment),
+      corretor: broker?.name || "A definir",
+      status: appointment.status,
+    };
+  }
+
+  private formatDate(appointment: Appointment): string {
+    return appointment.scheduledDate
+      ? brokerAvailabilityService.formatSlot(new Date(appointment.scheduledDate))
+      : "data a confirmar";
+  }
+
+  // As observações guardam a data combinada ("Visita agendada para: ..."), exibida no /visitas
+  private notesWithDate(notes: string | null, dateLabel: string): string {
+    const extra = (notes || "").replace(/^Visita (agendada|remarcada) para: [^|]*(\| )?/, "").trim();
+    return `Visita remarcada para: ${dateLabel}${extra ? ` | ${extra}` : ""}`;
+  }
+}
+
+export const appointmentService = new AppointmentService();
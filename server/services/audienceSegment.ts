@@ -0,0 +1,67 @@
+import { getStorage, type SegmentContactRow } from "../storage";
+import { phoneNumberService } from "./phoneNumber";
+import { audienceSegmentFiltersSchema, type AudienceSegmentFilters } from "@shared/schema";
+
+export interface AudienceSegmentPreview {
+  total: number;
+  leads: number;
+  customers: number;
+  sample: SegmentContactRow[];
+}
+
+const PREVIEW_SAMPLE_SIZE = 10;
+
+/**
+ * Públicos de disparo definidos sobre leads e clientes do CRM.
+ * O segmento é resolvido no momento do envio, então sempre reflete o CRM atual.
+ */
+export class AudienceSegmentService {
+  parseFilters(input: unknown): AudienceSegmentFilters {
+    return audienceSegmentFiltersSchema.parse(input || {});
+  }
+
+  async resolve(companyId: string, filters: AudienceSegmentFilters): Promise<SegmentContactRow[]> {
+    const storage = getStorage();
+    const target = filters.target || "all";
+
+    const leads = target === "customers" ? [] : await storage.getSegmentLeadContacts(companyId, filters);
+    const customers = target === "leads" ? [] : await storage.getSegmentCustomerContacts(companyId, filters);
+
+    // O mesmo telefone pode estar no lead e no cliente convertido: envia uma vez só
+    const contacts = new Map<string, SegmentContactRow>();
+    for (const contact of [...leads, ...customers]) {
+      const key = this.phoneKey(contact.phone);
+      if (!key) continue;
+
+      const existing = contacts.get(key);
+      if (existing) {
+        existing.leadId = existing.leadId || contact.leadId;
+        existing.customerId = existing.customerId || contact.customerId;
+      } else {
+        contacts.set(key, { ...contact });
+      }
+    }
+
+    const resolved = Array.from(contacts.values());
+    console.log(`🎯 [SEGMENT] Empresa ${companyId}: ${leads.length} leads + ${customers.length} clientes -> ${resolved.length} contatos únicos`);
+    return resolved;
+  }
+
+  async preview(companyId: string, filters: AudienceSegmentFilters): Promise<AudienceSegmentPreview> {
+    const contacts = await this.resolve(companyId, filters);
+    return {
+      total: contacts.length,
+      leads: contacts.filter(c => c.leadId).length,
+      customers: contacts.filter(c => c.customerId).length,
+      sample: contacts.slice(0, PREVIEW_SAMPLE_SIZE),
+    };
+  }
+
+  // Telefone sem formatação e sem DDI, para deduplicar; null se não parecer um celular/fixo válido
+  private phoneKey(phone: string): string | null {
+    const key = phoneNumberService.key(phone);
+    return key.length >= 10 ? key : null;
+  }
+}
+
+export const audienceSegmentService = new AudienceSegmentService();
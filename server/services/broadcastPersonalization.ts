@@ -0,0 +1,69 @@
+import { getStorage } from "../storage";
+import { phoneNumberService } from "./phoneNumber";
+import { firstName, hasTemplateSyntax, renderTemplate, type TemplateVariables } from "@shared/messageTemplate";
+
+interface PersonalizationRecipient {
+  name?: string | null;
+  phone: string;
+}
+
+/**
+ * Resolve as variáveis de personalização de cada destinatário de um disparo a partir
+ * do próprio contato e do registro no CRM (cliente ou lead com o mesmo telefone).
+ * Cidades e corretores ficam em cache durante a campanha.
+ */
+export class BroadcastPersonalizer {
+  private cityNames = new Map<string, string | null>();
+  private brokerNames = new Map<string, string | null>();
+
+  constructor(private companyId: string) {}
+
+  async variablesFor(recipient: PersonalizationRecipient): Promise<TemplateVariables> {
+    const storage = getStorage();
+    const phones = phoneNumberService.variants(recipient.phone);
+
+    let customer;
+    let lead;
+    for (const phone of phones) {
+      customer = customer || await storage.getCustomerByPhone(phone, this.companyId);
+      lead = lead || await storage.getLeadByPhone(phone, this.companyId);
+      if (customer && lead) break;
+    }
+
+    const name = (recipient.name || customer?.name || lead?.name || "").trim();
+    const cityId = customer?.interestedCityId || lead?.interestedCityId || null;
+    const appointment = await storage.getLatestAppointmentWithBrokerByPhone(this.companyId, phones);
+
+    return {
+      nome: name,
+      primeiro_nome: firstName(name),
+      cidade_interesse: cityId ? await this.getCityName(cityId) : null,
+      corretor: appointment?.brokerId ? await this.getBrokerName(appointment.brokerId) : null,
+    };
+  }
+
+  // Só consulta o CRM quando alguma mensagem usa {{variáveis}}; spintax não precisa
+  needsVariables(templates: Array<string | null | undefined>): boolean {
+    return templates.some(template => /\{\{/.test(template || ""));
+  }
+
+  render(template: string, variables: TemplateVariables): string {
+    return hasTemplateSyntax(template) ? renderTemplate(template, variables) : template;
+  }
+
+  private async getCityName(cityId: string): Promise<string | null> {
+    if (!this.cityNames.has(cityId)) {
+      const city = await getStorage().getCity(cityId);
+      this.cityNames.set(cityId, city?.name || null);
+    }
+    return this.cityNames.get(cityId) || null;
+  }
+
+  private async getBrokerName(brokerId: string): Promise<string | null> {
+    if (!this.brokerNames.has(brokerId)) {
+      const broker = await getStorage().getBroker(brokerId);
+      this.brokerNames.set(brokerId, broker?.name || null);
+    }
+    return this.brokerNames.get(brokerId) || null;
+  }
+}
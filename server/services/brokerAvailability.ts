@@ -0,0 +1,270 @@
+import { getStorage } from "../storage";
+import { DEFAULT_BROKER_WORKING_HOURS, type Appointment, type Broker, type BrokerBlockedPeriod, type BrokerWorkingHours } from "@shared/schema";
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface AvailabilitySlot extends TimeRange {
+  brokerIds: string[]; // Corretores livres no horário (vazio quando a empresa não tem corretores)
+}
+
+export interface BrokerAvailability {
+  brokerId: string | null;
+  brokerName: string | null;
+  visitDurationMinutes: number;
+  freeSlots: TimeRange[];
+  busy: Array<TimeRange & { type: "appointment" | "blocked"; label: string | null }>;
+}
+
+// Agenda usada no cálculo: um corretor, ou a agenda única da empresa quando não há corretores
+interface Agenda {
+  brokerId: string | null;
+  brokerName: string | null;
+  workingHours: BrokerWorkingHours;
+  durationMinutes: number;
+}
+
+interface AvailabilityContext {
+  agendas: Agenda[];
+  appointments: Appointment[];
+  blockedPeriods: BrokerBlockedPeriod[];
+}
+
+const DEFAULT_VISIT_DURATION_MINUTES = 60;
+const MIN_NOTICE_MINUTES = 120; // Antecedência mínima para a IA oferecer um horário
+const SUGGESTION_WINDOW_DAYS = 14;
+const MINUTE_MS = 60 * 1000;
+
+const WEEKDAY_NAMES = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
+
+/**
+ * Horários livres dos corretores: expediente semanal menos visitas pendentes/confirmadas
+ * e bloqueios de agenda. Todas as datas são no fuso horário do servidor, o mesmo usado
+ * para gravar scheduled_date.
+ */
+export class BrokerAvailabilityService {
+  async getAvailability(companyId: string, from: Date, to: Date, brokerId?: string | null): Promise<BrokerAvailability[]> {
+    const context = await this.loadContext(companyId, from, to);
+    const earliest = new Date(Math.max(from.getTime(), Date.now()));
+
+    return context.agendas
+      .filter(agenda => !brokerId || agenda.brokerId === brokerId)
+      .map(agenda => {
+        const busy = this.busyRanges(agenda, context);
+        return {
+          brokerId: agenda.brokerId,
+          brokerName: agenda.brokerName,
+          visitDurationMinutes: agenda.durationMinutes,
+          freeSlots: this.freeSlots(agenda, busy, earliest, to),
+          busy: busy.filter(range => range.end > from && range.start < to),
+        };
+      });
+  }
+
+  // Horários livres de qualquer corretor, agrupados por início
+  async getFreeSlots(companyId: string, from: Date, to: Date): Promise<AvailabilitySlot[]> {
+    const availability = await this.getAvailability(companyId, from, to);
+    const slots = new Map<number, AvailabilitySlot>();
+
+    for (const agenda of availability) {
+      for (const slot of agenda.freeSlots) {
+        const key = slot.start.getTime();
+        const existing = slots.get(key);
+        if (existing) {
+          if (agenda.brokerId) existing.brokerIds.push(agenda.brokerId);
+          if (slot.end < existing.end) existing.end = slot.end;
+        } else {
+          slots.set(key, { ...slot, brokerIds: agenda.brokerId ? [agenda.brokerId] : [] });
+        }
+      }
+    }
+
+    return Array.from(slots.values()).sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Horários para a IA oferecer ao cliente: respeita a antecedência mínima e espalha as opções
+   * por dias diferentes, alternando manhã e tarde.
+   */
+  async suggestSlots(companyId: string, count: number = 3): Promise<AvailabilitySlot[]> {
+    const from = new Date(Date.now() + MIN_NOTICE_MINUTES * MINUTE_MS);
+    const to = new Date(from.getTime() + SUGGESTION_WINDOW_DAYS * 24 * 60 * MINUTE_MS);
+    const slots = await this.getFreeSlots(companyId, from, to);
+
+    const byDay = new Map<string, AvailabilitySlot[]>();
+    for (const slot of slots) {
+      const day = slot.start.toDateString();
+      byDay.set(day, [...(byDay.get(day) || []), slot]);
+    }
+
+    const chosen: AvailabilitySlot[] = [];
+    let preferMorning = true;
+    byDay.forEach(daySlots => {
+      if (chosen.length >= count) return;
+      const preferred = daySlots.find(slot => (slot.start.getHours() < 12) === preferMorning) || daySlots[0];
+      chosen.push(preferred);
+      preferMorning = !preferMorning;
+    });
+
+    // Poucos dias com horário livre: completa com os próximos horários disponíveis
+    for (const slot of slots) {
+      if (chosen.length >= count) break;
+      if (!chosen.includes(slot)) chosen.push(slot);
+    }
+
+    return chosen.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Primeiro corretor livre no horário, seguindo a ordem de preferência (rodízio).
+   * Retorna undefined quando ninguém pode atender; null quando a empresa não tem corretores
+   * e o horário está livre na agenda única. Ao remarcar, a própria visita é ignorada.
+   */
+  async findAvailableBroker(companyId: string, start: Date, preferredOrder: string[] = [], ignoreAppointmentId?: string): Promise<string | null | undefined> {
+    const context = await this.loadContext(companyId, start, new Date(start.getTime() + 24 * 60 * MINUTE_MS));
+    const rank = (agenda: Agenda) => {
+      const index = agenda.brokerId ? preferredOrder.indexOf(agenda.brokerId) : -1;
+      return index === -1 ? preferredOrder.length : index;
+    };
+
+    const agendas = [...context.agendas].sort((a, b) => rank(a) - rank(b));
+    for (const agenda of agendas) {
+      if (this.isFree(agenda, context, start, ignoreAppointmentId)) {
+        return agenda.brokerId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Motivo pelo qual o corretor não pode receber uma visita no horário (sobreposição com outra
+   * visita ou bloqueio de agenda), ou null se não há conflito. Usado nos agendamentos manuais,
+   * que podem ficar fora do expediente.
+   */
+  async getConflict(companyId: string, brokerId: string, start: Date, ignoreAppointmentId?: string): Promise<string | null> {
+    const context = await this.loadContext(companyId, start, new Date(start.getTime() + 24 * 60 * MINUTE_MS));
+    const agenda = context.agendas.find(a => a.brokerId === brokerId);
+    if (!agenda) return null;
+
+    const visit = { start, end: new Date(start.getTime() + agenda.durationMinutes * MINUTE_MS) };
+    const conflict = this.busyRanges(agenda, context, ignoreAppointmentId).find(range => this.overlaps(range, visit));
+    if (!conflict) return null;
+
+    return conflict.type === "blocked"
+      ? `${agenda.brokerName} está com a agenda bloqueada neste horário${conflict.label ? ` (${conflict.label})` : ""}`
+      : `${agenda.brokerName} já tem uma visita às ${this.formatTime(conflict.start)}${conflict.label ? ` com ${conflict.label}` : ""}`;
+  }
+
+  // "Segunda dia 06/01/2026 às 14h" ou "às 14h30": formato que o agendar_visita sabe interpretar
+  formatSlot(date: Date): string {
+    const day = date.getDate().toString().padStart(2, "0");
+    const month = (date.getMonth() + 1).toString().padStart(2, "0");
+    return `${WEEKDAY_NAMES[date.getDay()]} dia ${day}/${month}/${date.getFullYear()} às ${this.formatTime(date)}`;
+  }
+
+  private formatTime(date: Date): string {
+    const minutes = date.getMinutes();
+    return `${date.getHours()}h${minutes ? minutes.toString().padStart(2, "0") : ""}`;
+  }
+
+  private async loadContext(companyId: string, from: Date, to: Date): Promise<AvailabilityContext> {
+    const storage = getStorage();
+    const brokers = await storage.getBrokersByCompany(companyId);
+    const agendas = brokers.length > 0
+      ? brokers.map(broker => this.agendaFor(broker))
+      : [{ brokerId: null, brokerName: null, workingHours: DEFAULT_BROKER_WORKING_HOURS, durationMinutes: DEFAULT_VISIT_DURATION_MINUTES }];
+
+    // Visitas que começaram antes do intervalo ainda podem ocupar o início dele
+    const longestVisit = Math.max(...agendas.map(agenda => agenda.durationMinutes));
+    const [appointments, blockedPeriods] = await Promise.all([
+      storage.getActiveAppointmentsInRange(companyId, new Date(from.getTime() - longestVisit * MINUTE_MS), to),
+      storage.getBrokerBlockedPeriods(companyId, from, to),
+    ]);
+
+    return { agendas, appointments, blockedPeriods };
+  }
+
+  private agendaFor(broker: Broker): Agenda {
+    const workingHours = broker.workingHours as BrokerWorkingHours | null;
+    return {
+      brokerId: broker.id,
+      brokerName: broker.name,
+      workingHours: workingHours && Object.keys(workingHours).length > 0 ? workingHours : DEFAULT_BROKER_WORKING_HOURS,
+      durationMinutes: broker.visitDurationMinutes || DEFAULT_VISIT_DURATION_MINUTES,
+    };
+  }
+
+  private busyRanges(agenda: Agenda, context: AvailabilityContext, ignoreAppointmentId?: string): BrokerAvailability["busy"] {
+    const visits = context.appointments
+      // Sem corretores, todas as visitas da empresa ocupam a agenda única
+      .filter(appointment => appointment.id !== ignoreAppointmentId && (agenda.brokerId === null || appointment.brokerId === agenda.brokerId))
+      .map(appointment => {
+        const start = new Date(appointment.scheduledDate!);
+        return {
+          start,
+          end: new Date(start.getTime() + agenda.durationMinutes * MINUTE_MS),
+          type: "appointment" as const,
+          label: appointment.clientName,
+        };
+      });
+
+    const blocked = context.blockedPeriods
+      .filter(period => period.brokerId === agenda.brokerId)
+      .map(period => ({
+        start: new Date(period.startsAt),
+        end: new Date(period.endsAt),
+        type: "blocked" as const,
+        label: period.reason,
+      }));
+
+    return [...visits, ...blocked].sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  private workingRanges(agenda: Agenda, day: Date): TimeRange[] {
+    const intervals = agenda.workingHours[String(day.getDay()) as keyof BrokerWorkingHours] || [];
+    return intervals.map(interval => ({
+      start: this.atTime(day, interval.start),
+      end: this.atTime(day, interval.end),
+    }));
+  }
+
+  private freeSlots(agenda: Agenda, busy: TimeRange[], from: Date, to: Date): TimeRange[] {
+    const slots: TimeRange[] = [];
+    const durationMs = agenda.durationMinutes * MINUTE_MS;
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+    while (day < to) {
+      for (const range of this.workingRanges(agenda, day)) {
+        for (let start = range.start.getTime(); start + durationMs <= range.end.getTime(); start += durationMs) {
+          const slot = { start: new Date(start), end: new Date(start + durationMs) };
+          if (slot.start < from || slot.end > to) continue;
+          if (busy.some(busyRange => this.overlaps(busyRange, slot))) continue;
+          slots.push(slot);
+        }
+      }
+      day.setDate(day.getDate() + 1);
+    }
+
+    return slots;
+  }
+
+  // Livre = dentro do expediente e sem sobreposição com visitas ou bloqueios
+  private isFree(agenda: Agenda, context: AvailabilityContext, start: Date, ignoreAppointmentId?: string): boolean {
+    const visit = { start, end: new Date(start.getTime() + agenda.durationMinutes * MINUTE_MS) };
+    const withinHours = this.workingRanges(agenda, start).some(range => visit.start >= range.start && visit.end <= range.end);
+    return withinHours && !this.busyRanges(agenda, context, ignoreAppointmentId).some(range => this.overlaps(range, visit));
+  }
+
+  private overlaps(a: TimeRange, b: TimeRange): boolean {
+    return a.start < b.end && b.start < a.end;
+  }
+
+  private atTime(day: Date, time: string): Date {
+    const [hours, minutes] = time.split(":").map(Number);
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes, 0, 0);
+  }
+}
+
+export const brokerAvailabilityService = new BrokerAvailabilityService();
@@ -0,0 +1,45 @@
+import type { Broker } from "@shared/schema";
+
+/**
+ * Rodízio de corretores, usado nos agendamentos de visita e na distribuição de conversas:
+ * 1. Primeira atribuição do dia: corretor aleatório
+ * 2. Próximas: o corretor seguinte ao da última atribuição (circular)
+ */
+export class BrokerRotationService {
+  // Ordem fixa por ID para o rodízio não depender da ordem de cadastro ou do nome
+  order(brokers: Broker[]): Broker[] {
+    return [...brokers].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  next(brokers: Broker[], lastBrokerId?: string | null): Broker | null {
+    const sortedBrokers = this.order(brokers);
+    if (sortedBrokers.length === 0) return null;
+
+    if (!lastBrokerId) {
+      const randomIndex = Math.floor(Math.random() * sortedBrokers.length);
+      console.log(`🎲 [RODÍZIO] Primeira atribuição do dia - corretor aleatório: ${sortedBrokers[randomIndex].name}`);
+      return sortedBrokers[randomIndex];
+    }
+
+    const lastBrokerIndex = sortedBrokers.findIndex(b => b.id === lastBrokerId);
+    if (lastBrokerIndex === -1) {
+      // Corretor da última atribuição não existe mais, começar do início
+      console.log(`⚠️ [RODÍZIO] Corretor anterior não encontrado - reiniciando: ${sortedBrokers[0].name}`);
+      return sortedBrokers[0];
+    }
+
+    // Próximo corretor (circular - volta ao início se chegar no fim)
+    const nextIndex = (lastBrokerIndex + 1) % sortedBrokers.length;
+    console.log(`🔄 [RODÍZIO] Próximo corretor na lista (${lastBrokerIndex + 1} → ${nextIndex + 1}): ${sortedBrokers[nextIndex].name}`);
+    return sortedBrokers[nextIndex];
+  }
+
+  // IDs na ordem do rodízio a partir do corretor escolhido (preferência quando ele está ocupado)
+  preferredOrder(brokers: Broker[], startBrokerId?: string | null): string[] {
+    const sortedBrokers = this.order(brokers);
+    const rotationStart = Math.max(0, sortedBrokers.findIndex(b => b.id === startBrokerId));
+    return [...sortedBrokers.slice(rotationStart), ...sortedBrokers.slice(0, rotationStart)].map(b => b.id);
+  }
+}
+
+export const brokerRotationService = new BrokerRotationService();
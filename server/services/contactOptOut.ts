@@ -0,0 +1,106 @@
+import { getStorage } from "../storage";
+import { phoneNumberService } from "./phoneNumber";
+import { customerActivityService } from "./customerActivity";
+import type { ContactOptOut, ContactOptOutForm } from "@shared/schema";
+
+const MAX_KEYWORD_LENGTH = 50; // Mensagens longas que citam "parar" ou "sair" são conversa normal
+
+// A mensagem inteira precisa ser o pedido ("sair", "parar", "não quero mais receber mensagens")
+const OPT_OUT_PATTERNS = [
+  /^(quero )?(sair|parar|pare|stop|descadastrar|descadastre|cancelar inscricao)( da lista| dessa lista| desta lista)?( por favor)?$/,
+  /^(eu )?nao quero (mais( receber)?|receber( mais)?)( mensagem| mensagens| essas mensagens| propaganda| propagandas)?( de voces)?( por favor)?$/,
+  /^(me )?(tira|tire|remove|remova) (da lista|dessa lista|meu numero|meu contato)( por favor)?$/,
+];
+const OPT_IN_PATTERN = /^(voltar|volta|quero voltar)$/;
+
+/**
+ * Lista de bloqueio de envios por empresa. O contato entra pela palavra-chave no WhatsApp
+ * ("sair", "parar", "não quero mais") ou pelo painel. Números bloqueados ficam fora de disparos
+ * e alertas de imóveis: todo envio automático (não solicitado pelo contato) precisa checar isBlocked.
+ * As respostas da IA continuam normais quando o próprio contato puxa a conversa.
+ */
+export class ContactOptOutService {
+  /**
+   * Interpreta a mensagem recebida. Retorna a confirmação a enviar ao contato, ou null quando
+   * a mensagem não é um pedido de descadastro (segue o fluxo normal da IA).
+   */
+  async handleInbound(companyId: string, phone: string, message: string, name?: string | null): Promise<string | null> {
+    const text = this.normalize(message);
+    if (!text || text.length > MAX_KEYWORD_LENGTH) return null;
+
+    if (OPT_OUT_PATTERNS.some(pattern => pattern.test(text))) {
+      const existing = await this.getOptOut(companyId, phone);
+      if (!existing) {
+        await this.optOut(companyId, { phone, name: name || undefined, reason: message.trim() }, "keyword");
+      }
+      return "Pronto! Você não receberá mais nossas mensagens automáticas. Se mudar de ideia, é só responder *VOLTAR*.";
+    }
+
+    // Só desfaz o descadastro feito pelo próprio contato; bloqueios da equipe ficam como estão
+    if (OPT_IN_PATTERN.test(text)) {
+      const existing = await this.getOptOut(companyId, phone);
+      if (!existing || existing.source !== "keyword") return null;
+
+      await this.remove(existing);
+      return "Que bom ter você de volta! Você voltará a receber nossas novidades. 😊";
+    }
+
+    return null;
+  }
+
+  async optOut(companyId: string, form: ContactOptOutForm, source: "keyword" | "manual", userId?: string | null): Promise<ContactOptOut> {
+    const optOut = await getStorage().createContactOptOut({
+      companyId,
+      phone: phoneNumberService.toWhatsappNumber(form.phone),
+      name: form.name || null,
+      source,
+      reason: form.reason || null,
+      createdBy: userId || null,
+    });
+
+    console.log(`🚫 [OPT-OUT] ${optOut.phone} bloqueado (${source}) na empresa ${companyId}`);
+    await customerActivityService.recordForPhone(companyId, optOut.phone, {
+      type: "opt_out",
+      description: source === "keyword" ? "Contato pediu para não receber mais mensagens" : "Contato bloqueado pela equipe",
+      userId: userId || null,
+    });
+    return optOut;
+  }
+
+  async remove(optOut: ContactOptOut, userId?: string | null): Promise<void> {
+    await getStorage().deleteContactOptOut(optOut.id);
+
+    console.log(`✅ [OPT-OUT] ${optOut.phone} desbloqueado na empresa ${optOut.companyId}`);
+    await customerActivityService.recordForPhone(optOut.companyId, optOut.phone, {
+      type: "opt_out",
+      description: optOut.source === "keyword" && !userId ? "Contato voltou a aceitar mensagens" : "Contato removido da lista de bloqueio",
+      userId: userId || null,
+    });
+  }
+
+  async getOptOut(companyId: string, phone: string): Promise<ContactOptOut | undefined> {
+    return getStorage().getContactOptOutByPhone(companyId, phoneNumberService.variants(phone));
+  }
+
+  async isBlocked(companyId: string, phone: string): Promise<boolean> {
+    return !!(await this.getOptOut(companyId, phone));
+  }
+
+  // Para filtrar listas grandes sem uma consulta por contato: compare com phoneNumberService.key()
+  async getBlockedKeys(companyId: string): Promise<Set<string>> {
+    const optOuts = await getStorage().getContactOptOuts(companyId);
+    return new Set(optOuts.map(optOut => phoneNumberService.key(optOut.phone)));
+  }
+
+  private normalize(text: string): string {
+    return (text || "")
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9\s]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
+
+export const contactOptOutService = new ContactOptOutService();
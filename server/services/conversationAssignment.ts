@@ -0,0 +1,95 @@
+import { getStorage } from "../storage";
+import { brokerRotationService } from "./brokerRotation";
+import type { Conversation, ConversationUpdate, InboxConversation, InboxFilter } from "@shared/schema";
+
+/**
+ * Responsável, status (aberta / pendente / resolvida) e etiquetas das conversas da caixa de entrada.
+ * Com a distribuição automática ligada, conversas sem responsável vão para os corretores em rodízio.
+ */
+export class ConversationAssignmentService {
+  async update(conversation: Conversation, changes: ConversationUpdate): Promise<Conversation> {
+    const updates: Partial<Conversation> = {};
+
+    if (changes.status) {
+      updates.status = changes.status;
+    }
+    if (changes.tags) {
+      updates.tags = this.normalizeTags(changes.tags);
+    }
+    if (changes.assignedUserId !== undefined || changes.assignedBrokerId !== undefined) {
+      updates.assignedUserId = changes.assignedUserId || null;
+      updates.assignedBrokerId = changes.assignedBrokerId || null;
+      updates.assignedAt = updates.assignedUserId || updates.assignedBrokerId ? new Date() : null;
+    }
+
+    return getStorage().updateConversation(conversation.id, updates);
+  }
+
+  /**
+   * Nova mensagem do cliente: reabre a conversa resolvida e, se a empresa usa distribuição
+   * automática, atribui um corretor às conversas sem responsável. Nunca lança erro.
+   */
+  async handleInbound(conversation: Conversation, companyId: string): Promise<void> {
+    try {
+      const storage = getStorage();
+      if (conversation.status === "resolved") {
+        await storage.updateConversation(conversation.id, { status: "open" });
+        console.log(`📂 [INBOX] Conversa ${conversation.id} reaberta por nova mensagem do cliente`);
+      }
+
+      if (conversation.assignedUserId || conversation.assignedBrokerId) return;
+
+      const company = await storage.getCompany(companyId);
+      if (company?.autoAssignConversations) {
+        await this.autoAssign(conversation, companyId);
+      }
+    } catch (error) {
+      console.error(`❌ [INBOX] Erro ao atualizar responsável da conversa ${conversation.id}:`, error);
+    }
+  }
+
+  async autoAssign(conversation: Conversation, companyId: string): Promise<Conversation | undefined> {
+    const storage = getStorage();
+    const brokers = await storage.getBrokersByCompany(companyId);
+    const lastAssigned = await storage.getLastConversationAssignedToBrokerToday(companyId);
+    const broker = brokerRotationService.next(brokers, lastAssigned?.assignedBrokerId);
+    if (!broker) return undefined;
+
+    console.log(`👤 [INBOX] Conversa ${conversation.id} (${conversation.contactPhone}) atribuída por rodízio a ${broker.name}`);
+    return storage.updateConversation(conversation.id, {
+      assignedBrokerId: broker.id,
+      assignedUserId: null,
+      assignedAt: new Date(),
+    });
+  }
+
+  // "Minhas": atribuídas ao usuário ou ao corretor cadastrado com o mesmo e-mail dele
+  matchesFilter(conversation: InboxConversation, filter: InboxFilter, userId: string, ownBrokerIds: string[]): boolean {
+    switch (filter) {
+      case "mine":
+        return conversation.assignedUserId === userId ||
+          (!!conversation.assignedBrokerId && ownBrokerIds.includes(conversation.assignedBrokerId));
+      case "unassigned":
+        return !conversation.assignedUserId && !conversation.assignedBrokerId;
+      case "waiting":
+        return conversation.status !== "resolved" && conversation.lastMessageSender === "user";
+      default:
+        return true;
+    }
+  }
+
+  // Sem repetições (ignorando maiúsculas/minúsculas), mantendo a grafia da primeira ocorrência
+  private normalizeTags(tags: string[]): string[] {
+    const seen = new Set<string>();
+    return tags
+      .map(tag => tag.trim())
+      .filter(tag => {
+        const key = tag.toLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+}
+
+export const conversationAssignmentService = new ConversationAssignmentService();
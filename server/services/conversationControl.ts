@@ -0,0 +1,137 @@
+import { getStorage } from "../storage";
+import { inboxEventsService } from "./inboxEvents";
+import { messageReceiptsService } from "./messageReceipts";
+import type { Conversation } from "@shared/schema";
+
+// Estado da IA em cada conversa:
+// - active: a IA responde normalmente
+// - paused: um corretor assumiu (respondeu pelo celular ou pausou pelo painel)
+// - handed_off: o próprio cliente pediu para falar com um corretor
+export const AI_STATES = ["active", "paused", "handed_off"] as const;
+export type AiState = typeof AI_STATES[number];
+export type AiStateReason = "human_reply" | "manual" | "client_request" | "idle_timeout";
+
+const DEFAULT_RESUME_IDLE_MINUTES = 30;
+
+// Pedidos explícitos de atendimento humano (comparados sem acentos e em minúsculas)
+const HANDOFF_PATTERNS = [
+  /\bfalar com (um |uma |o |a |algum |alguma )?(corretor|corretora|atendente|humano|pessoa)\b/,
+  /\b(quero|prefiro|preciso de|chama|chame|pode chamar) (um |uma |o |a )?(corretor|corretora|atendente|humano)\b/,
+  /\batendimento humano\b/,
+  /\bpessoa de verdade\b/,
+];
+
+export const HANDOFF_REPLY = "Certo! Vou chamar um dos nossos corretores para continuar o seu atendimento. Em instantes alguém fala com você por aqui. 😊";
+
+/**
+ * Controle de atendimento humano: decide quando a IA deve ficar em silêncio em uma conversa
+ * e quando pode voltar a responder.
+ */
+export class ConversationControlService {
+  isAiState(value: unknown): value is AiState {
+    return typeof value === "string" && (AI_STATES as readonly string[]).includes(value);
+  }
+
+  isHandoffRequest(message: string): boolean {
+    const normalized = (message || "")
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "");
+    return HANDOFF_PATTERNS.some(pattern => pattern.test(normalized));
+  }
+
+  /**
+   * Busca a conversa do contato na instância, criando se ainda não existir.
+   */
+  async ensureConversation(instanceId: string, phone: string, contactName?: string | null): Promise<Conversation> {
+    const storage = getStorage();
+    const existing = await storage.getConversationByPhone(instanceId, phone);
+    if (existing) return existing;
+
+    return storage.createConversation({
+      whatsappInstanceId: instanceId,
+      contactPhone: phone,
+      contactName: contactName || null,
+    });
+  }
+
+  async setState(conversation: Conversation, state: AiState, reason: AiStateReason, userId?: string | null): Promise<Conversation> {
+    const storage = getStorage();
+    const updated = await storage.updateConversation(conversation.id, {
+      aiState: state,
+      aiStateReason: reason,
+      aiStateChangedAt: new Date(),
+      aiPausedBy: state === "active" ? null : (userId || null),
+    });
+    console.log(`🙋 [TAKEOVER] Conversa ${conversation.id} (${conversation.contactPhone}): IA ${conversation.aiState} -> ${state} (${reason})`);
+    return updated;
+  }
+
+  /**
+   * Corretor respondeu direto pelo WhatsApp: registra a mensagem no histórico e pausa a IA.
+   */
+  async registerHumanReply(instanceId: string, phone: string, content: string, evolutionMessageId?: string): Promise<Conversation> {
+    const storage = getStorage();
+    const conversation = await this.ensureConversation(instanceId, phone);
+    const now = new Date();
+
+    const message = await storage.createMessage({
+      conversationId: conversation.id,
+      content,
+      sender: "agent",
+      messageType: "text",
+      evolutionMessageId: evolutionMessageId || null,
+      deliveryStatus: evolutionMessageId ? "sent" : null,
+    });
+
+    const updated = await this.markHumanActivity(conversation, content, now);
+    await inboxEventsService.notify(conversation.id, message);
+    await messageReceiptsService.flushPending(message.evolutionMessageId);
+    return updated;
+  }
+
+  /**
+   * Registra a atividade de um corretor na conversa (pelo celular ou pela caixa de entrada) e pausa a IA.
+   */
+  async markHumanActivity(conversation: Conversation, lastMessage: string, at = new Date(), userId?: string | null): Promise<Conversation> {
+    const updated = await getStorage().updateConversation(conversation.id, {
+      lastMessage,
+      lastMessageAt: at,
+      lastHumanMessageAt: at,
+    });
+
+    // Se o cliente já havia pedido um corretor, mantém o estado de transferência
+    if (updated.aiState === "active") {
+      return this.setState(updated, "paused", "human_reply", userId);
+    }
+    return updated;
+  }
+
+  /**
+   * Indica se a IA pode responder na conversa. Conversas pausadas voltam para a IA
+   * sozinhas depois do tempo de inatividade configurado pela empresa (0 = só manualmente).
+   */
+  async isAiEnabled(conversation: Conversation, companyId: string): Promise<boolean> {
+    if (!conversation.aiState || conversation.aiState === "active") return true;
+
+    const storage = getStorage();
+    const company = await storage.getCompany(companyId);
+    const idleMinutes = company?.aiResumeIdleMinutes ?? DEFAULT_RESUME_IDLE_MINUTES;
+    if (idleMinutes <= 0) return false;
+
+    const lastActivity = Math.max(
+      conversation.aiStateChangedAt ? new Date(conversation.aiStateChangedAt).getTime() : 0,
+      conversation.lastHumanMessageAt ? new Date(conversation.lastHumanMessageAt).getTime() : 0
+    );
+
+    if (Date.now() - lastActivity >= idleMinutes * 60 * 1000) {
+      console.log(`🙋 [TAKEOVER] Conversa ${conversation.id} sem atividade humana há mais de ${idleMinutes} min, retomando IA`);
+      await this.setState(conversation, "active", "idle_timeout");
+      return true;
+    }
+
+    return false;
+  }
+}
+
+export const conversationControlService = new ConversationControlService();
@@ -0,0 +1,213 @@
+import { getStorage } from "../storage";
+import type { Customer, CustomerActivity, InsertCustomerActivity } from "@shared/schema";
+
+export const CUSTOMER_ACTIVITY_TYPES = [
+  "created", "stage_change", "note", "appointment", "conversation", "broadcast", "lead_conversion", "property_alert", "opt_out",
+] as const;
+export type CustomerActivityType = typeof CUSTOMER_ACTIVITY_TYPES[number];
+
+export interface CustomerTimelineEntry extends CustomerActivity {
+  fromStageName: string | null;
+  toStageName: string | null;
+  userName: string | null;
+}
+
+export interface FunnelStageReport {
+  stageId: string;
+  name: string;
+  color: string;
+  isActive: boolean;
+  entered: number; // Entradas na etapa dentro do período
+  reached: number; // Clientes da coorte que passaram pela etapa
+  reachedRate: number; // reached / tamanho da coorte (%)
+  avgHoursInStage: number | null; // Média das permanências já encerradas
+  currentCustomers: number; // Clientes que estão na etapa agora
+  avgHoursCurrent: number | null; // Há quanto tempo, em média, os atuais estão parados nela
+}
+
+export interface FunnelReport {
+  from: string | null;
+  to: string | null;
+  cohortSize: number; // Clientes que entraram no funil no período
+  stages: FunnelStageReport[];
+  leads: { created: number; converted: number; conversionRate: number };
+}
+
+type NewActivity = Omit<InsertCustomerActivity, "companyId" | "customerId" | "type"> & { type: CustomerActivityType };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Linha do tempo dos clientes do CRM. O registro nunca interrompe a operação que o originou:
+ * falhas são apenas logadas.
+ */
+export class CustomerActivityService {
+  async record(customer: Pick<Customer, "id" | "companyId">, activity: NewActivity): Promise<void> {
+    try {
+      await getStorage().createCustomerActivity({
+        ...activity,
+        companyId: customer.companyId,
+        customerId: customer.id,
+      });
+    } catch (error) {
+      console.error(`❌ [ACTIVITY] Erro ao registrar ${activity.type} do cliente ${customer.id}:`, error);
+    }
+  }
+
+  async recordStageChange(customer: Customer, toStageId: string, userId?: string | null, description?: string): Promise<void> {
+    if (!toStageId || customer.funnelStageId === toStageId) return;
+    await this.record(customer, {
+      type: "stage_change",
+      fromStageId: customer.funnelStageId || null,
+      toStageId,
+      userId: userId || null,
+      description: description || null,
+    });
+  }
+
+  /**
+   * Registra a atividade no cliente com o telefone informado (agendamentos e disparos só conhecem o telefone).
+   */
+  async recordForPhone(companyId: string, phone: string, activity: NewActivity): Promise<void> {
+    try {
+      const customer = await this.findCustomerByPhone(companyId, phone);
+      if (customer) {
+        await this.record(customer, activity);
+      }
+    } catch (error) {
+      console.error(`❌ [ACTIVITY] Erro ao registrar ${activity.type} para o telefone ${phone}:`, error);
+    }
+  }
+
+  async getTimeline(customerId: string): Promise<CustomerTimelineEntry[]> {
+    const storage = getStorage();
+    const activities = await storage.getCustomerActivities(customerId);
+
+    const stageNames = new Map<string, string | null>();
+    const userNames = new Map<string, string | null>();
+    const stageName = async (id: string | null) => {
+      if (!id) return null;
+      if (!stageNames.has(id)) stageNames.set(id, (await storage.getFunnelStage(id))?.name || null);
+      return stageNames.get(id) || null;
+    };
+    const userName = async (id: string | null) => {
+      if (!id) return null;
+      if (!userNames.has(id)) userNames.set(id, (await storage.getUser(id))?.name || null);
+      return userNames.get(id) || null;
+    };
+
+    const timeline: CustomerTimelineEntry[] = [];
+    for (const activity of activities) {
+      timeline.push({
+        ...activity,
+        fromStageName: await stageName(activity.fromStageId),
+        toStageName: await stageName(activity.toStageId),
+        userName: await userName(activity.userId),
+      });
+    }
+    return timeline;
+  }
+
+  /**
+   * Tempo em cada etapa e conversão do funil calculados a partir do histórico de etapas.
+   * O período (YYYY-MM-DD, inclusivo) filtra as entradas nas etapas e a coorte de clientes.
+   */
+  async getFunnelReport(companyId: string, from?: string | null, to?: string | null): Promise<FunnelReport> {
+    const storage = getStorage();
+    const [stages, events, leads] = await Promise.all([
+      storage.getCompanyFunnelStages(companyId, true),
+      storage.getCompanyStageActivities(companyId),
+      storage.getLeadsByCompany(companyId),
+    ]);
+
+    const fromTime = from ? new Date(`${from}T00:00:00`).getTime() : -Infinity;
+    const toTime = to ? new Date(`${to}T23:59:59.999`).getTime() : Infinity;
+    const inPeriod = (date: Date | string | null) => {
+      const time = date ? new Date(date).getTime() : NaN;
+      return time >= fromTime && time <= toTime;
+    };
+
+    const stats = new Map<string, { entered: number; reached: Set<string>; durations: number[]; current: number[] }>();
+    const statsFor = (stageId: string) => {
+      if (!stats.has(stageId)) stats.set(stageId, { entered: 0, reached: new Set(), durations: [], current: [] });
+      return stats.get(stageId)!;
+    };
+
+    // Eventos chegam agrupados por cliente e em ordem cronológica
+    const byCustomer = new Map<string, CustomerActivity[]>();
+    for (const event of events) {
+      const list = byCustomer.get(event.customerId) || [];
+      list.push(event);
+      byCustomer.set(event.customerId, list);
+    }
+
+    const now = Date.now();
+    let cohortSize = 0;
+    byCustomer.forEach((history, customerId) => {
+      const inCohort = inPeriod(history[0].createdAt);
+      if (inCohort) cohortSize++;
+
+      history.forEach((event, index) => {
+        const stage = statsFor(event.toStageId!);
+        const start = new Date(event.createdAt!).getTime();
+        const next = history[index + 1];
+
+        if (inCohort) stage.reached.add(customerId);
+        if (!next) stage.current.push(now - start);
+        if (!inPeriod(event.createdAt)) return;
+
+        stage.entered++;
+        if (next) stage.durations.push(new Date(next.createdAt!).getTime() - start);
+      });
+    });
+
+    const average = (values: number[]) =>
+      values.length ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length / HOUR_MS) * 10) / 10 : null;
+    const percent = (part: number, total: number) => (total ? Math.round((part / total) * 1000) / 10 : 0);
+
+    const leadsCreated = leads.filter(lead => inPeriod(lead.createdAt));
+    const leadsConverted = leadsCreated.filter(lead => lead.convertedToCustomer).length;
+
+    return {
+      from: from || null,
+      to: to || null,
+      cohortSize,
+      stages: stages.map(stage => {
+        const stageStats = statsFor(stage.id);
+        return {
+          stageId: stage.id,
+          name: stage.name,
+          color: stage.color,
+          isActive: Boolean(stage.isActive),
+          entered: stageStats.entered,
+          reached: stageStats.reached.size,
+          reachedRate: percent(stageStats.reached.size, cohortSize),
+          avgHoursInStage: average(stageStats.durations),
+          currentCustomers: stageStats.current.length,
+          avgHoursCurrent: average(stageStats.current),
+        };
+      }),
+      leads: {
+        created: leadsCreated.length,
+        converted: leadsConverted,
+        conversionRate: percent(leadsConverted, leadsCreated.length),
+      },
+    };
+  }
+
+  // O CRM nem sempre guarda o telefone no mesmo formato que o WhatsApp
+  private async findCustomerByPhone(companyId: string, phone: string): Promise<Customer | undefined> {
+    const storage = getStorage();
+    const digits = (phone || "").replace(/\D/g, "");
+    const local = digits.startsWith("55") && digits.length > 11 ? digits.substring(2) : digits;
+    const variants = Array.from(new Set([phone, digits, local, `55${local}`].filter(Boolean)));
+
+    for (const variant of variants) {
+      const customer = await storage.getCustomerByPhone(variant, companyId);
+      if (customer) return customer;
+    }
+    return undefined;
+  }
+}
+
+export const customerActivityService = new CustomerActivityService();
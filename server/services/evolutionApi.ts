@@ -1,3 +1,5 @@
+import { getStorage } from "../storage";
+
 interface EvolutionApiConfig {
   baseURL: string;
   token: string;
@@ -25,6 +27,47 @@ interface QRCodeResponse {
   };
 }
 
+// Mensagens enviadas pelo sistema voltam no webhook com fromMe=true, assim como as que o
+// corretor digita no celular. Os IDs enviados ficam gravados no banco para diferenciar o eco
+// do sistema de uma resposta humana (inclusive depois de reiniciar): só o ID decide, porque o
+// corretor pode responder logo depois da IA.
+const OUTBOUND_ID_TTL_MS = 24 * 60 * 60 * 1000;
+const OUTBOUND_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const ECHO_RECHECK_DELAYS_MS = [2000, 5000, 10000]; // O eco pode chegar antes da resposta do envio
+let outboundPrunedAt = 0;
+
+async function recordOutboundMessage(messageId: string) {
+  const storage = getStorage();
+  try {
+    await storage.recordOutboundMessage(messageId);
+
+    const now = Date.now();
+    if (now - outboundPrunedAt > OUTBOUND_PRUNE_INTERVAL_MS) {
+      outboundPrunedAt = now;
+      await storage.deleteOutboundMessagesBefore(new Date(now - OUTBOUND_ID_TTL_MS));
+    }
+  } catch (error) {
+    console.error(`❌ Erro ao registrar mensagem enviada ${messageId}:`, error);
+  }
+}
+
+/**
+ * Indica se uma mensagem fromMe recebida no webhook foi enviada pelo próprio sistema.
+ * Chamado depois de responder ao webhook: se o ID ainda não foi gravado (o envio não terminou),
+ * confere de novo algumas vezes antes de tratar a mensagem como resposta do corretor.
+ */
+export async function isOutboundEcho(messageId: string | undefined): Promise<boolean> {
+  if (!messageId) return false;
+
+  const storage = getStorage();
+  if (await storage.isOutboundMessage(messageId)) return true;
+  for (const delay of ECHO_RECHECK_DELAYS_MS) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+    if (await storage.isOutboundMessage(messageId)) return true;
+  }
+  return false;
+}
+
 export class EvolutionApiService {
   private config: EvolutionApiConfig;
 
@@ -34,10 +77,11 @@ export class EvolutionApiService {
 
   private async makeRequest(endpoint: string, method: string = 'GET', data?: any): Promise<any> {
     const url = `${this.config.baseURL}${endpoint}`;
+    const isOutbound = method === 'POST' && endpoint.startsWith('/message/send');
     
     console.log(`🔗 Evolution API Request: ${method} ${url}`);
     console.log(`🔑 API Key: ${this.config.token?.substring(0, 10)}...`);
-    
+
     const response = await fetch(url, {
       method,
       headers: {
@@ -57,6 +101,10 @@ export class EvolutionApiService {
 
     const result = await response.json();
     console.log(`✅ Evolution API Success:`, JSON.stringify(result, null, 2));
+
+    if (isOutbound && result?.key?.id) {
+      await recordOutboundMessage(result.key.id);
+    }
     return result;
   }
 
@@ -307,6 +355,16 @@ export class EvolutionApiService {
     });
   }
 
+  // Mídia recebida sem base64 no webhook: a Evolution baixa e descriptografa o arquivo pelo id da mensagem
+  async getBase64FromMediaMessage(instanceName: string, messageId: string): Promise<{ base64: string; mimetype?: string } | null> {
+    console.log(`📥 [Evolution API] Baixando mídia da mensagem ${messageId} na instância ${instanceName}`);
+    const result = await this.makeRequest(`/chat/getBase64FromMediaMessage/${instanceName}`, 'POST', {
+      message: { key: { id: messageId } },
+      convertToMp4: false
+    });
+    return result?.base64 ? { base64: result.base64, mimetype: result.mimetype } : null;
+  }
+
   // Get instance info which might include chat data
   async getInstanceInfo(instanceName: string): Promise<any> {
     console.log(`🔍 [Evolution API] Calling getInstanceInfo for instance: ${instanceName}`);
@@ -0,0 +1,222 @@
+import { getStorage } from "../storage";
+import { EvolutionApiService } from "./evolutionApi";
+import { mediaStorageService } from "./mediaStorage";
+import { extractTextFromPDFBuffer } from "../pdfProcessor";
+import type { MessageMetadata, SharedContact, WhatsappInstance } from "@shared/schema";
+import type { EvolutionWebhookData } from "./whatsappWebhook";
+
+export type InboundMessageType = "text" | "image" | "audio" | "video" | "document" | "sticker" | "location" | "contact";
+
+// Campos de data.message que trazem algo além de texto
+export const MEDIA_MESSAGE_FIELDS = [
+  "imageMessage",
+  "audioMessage",
+  "videoMessage",
+  "documentMessage",
+  "documentWithCaptionMessage",
+  "stickerMessage",
+  "locationMessage",
+  "liveLocationMessage",
+  "contactMessage",
+  "contactsArrayMessage",
+];
+
+export const SUPPORTED_MESSAGE_TYPES = ["conversation", "extendedTextMessage", "text", ...MEDIA_MESSAGE_FIELDS];
+
+const DEFAULT_MIME: Partial<Record<InboundMessageType, string>> = {
+  image: "image/jpeg",
+  audio: "audio/ogg",
+  video: "video/mp4",
+  document: "application/octet-stream",
+  sticker: "image/webp",
+};
+
+const MAX_EXTRACTED_TEXT = 50000; // Guardado no banco
+const MAX_AGENT_DOCUMENT_TEXT = 15000; // Enviado ao agente junto com a mensagem
+
+export interface InboundContent {
+  messageType: InboundMessageType;
+  text: string; // Conteúdo gravado na conversa e enviado ao agente
+  caption?: string;
+  mediaUrl?: string;
+  mimeType?: string;
+  fileName?: string;
+  mediaBase64?: string; // Só em memória (visão e transcrição); nunca gravado no banco
+  mediaPath?: string;
+  metadata?: MessageMetadata;
+  extractedText?: string;
+}
+
+/**
+ * Conteúdo das mensagens recebidas pela Evolution API: texto, mídia (imagem, áudio, vídeo,
+ * documento, figurinha), localização e contatos compartilhados. A mídia vai para o disco
+ * (mediaStorageService) e PDFs têm o texto extraído para o agente conseguir lê-los.
+ */
+export class InboundMediaService {
+  parse(evolutionData: EvolutionWebhookData): InboundContent | null {
+    const message = evolutionData.data?.message as any;
+    if (!message) return null;
+
+    if (message.imageMessage) {
+      const media = message.imageMessage;
+      return this.media(evolutionData, "image", media, media.caption || "Imagem enviada");
+    }
+
+    if (message.audioMessage) {
+      return this.media(evolutionData, "audio", message.audioMessage, "Áudio enviado");
+    }
+
+    if (message.videoMessage) {
+      const media = message.videoMessage;
+      return this.media(evolutionData, "video", media, media.caption || "🎬 Vídeo enviado");
+    }
+
+    const document = message.documentMessage || message.documentWithCaptionMessage?.message?.documentMessage;
+    if (document) {
+      const fileName = document.fileName || document.title || "documento";
+      return this.media(evolutionData, "document", document, document.caption || `📄 Documento: ${fileName}`);
+    }
+
+    if (message.stickerMessage) {
+      return this.media(evolutionData, "sticker", message.stickerMessage, "Figurinha enviada");
+    }
+
+    const location = message.locationMessage || message.liveLocationMessage;
+    if (location && location.degreesLatitude !== undefined && location.degreesLongitude !== undefined) {
+      const latitude = Number(location.degreesLatitude);
+      const longitude = Number(location.degreesLongitude);
+      const name = location.name || location.caption || undefined;
+      const address = location.address || undefined;
+      const label = [name, address].filter(Boolean).join(" - ");
+
+      return {
+        messageType: "location",
+        text: `📍 Localização${label ? `: ${label}` : ""} (${latitude}, ${longitude})\nhttps://maps.google.com/?q=${latitude},${longitude}`,
+        metadata: { location: { latitude, longitude, name, address } },
+      };
+    }
+
+    const sharedContacts: any[] = message.contactsArrayMessage?.contacts || (message.contactMessage ? [message.contactMessage] : []);
+    if (sharedContacts.length > 0) {
+      const contacts = sharedContacts.map(contact => this.parseVcard(contact.vcard, contact.displayName));
+      const summary = contacts
+        .map(contact => contact.phones.length > 0 ? `${contact.name} (${contact.phones.join(", ")})` : contact.name)
+        .join("; ");
+
+      return {
+        messageType: "contact",
+        text: `👤 Contato compartilhado: ${summary}`,
+        metadata: { contacts },
+      };
+    }
+
+    const text = message.conversation || message.extendedTextMessage?.text;
+    return text?.trim() ? { messageType: "text", text } : null;
+  }
+
+  /**
+   * Grava a mídia no disco e devolve o conteúdo com a referência (mediaPath). Se o webhook não
+   * trouxe o base64, baixa pela Evolution. Falhas são registradas e a mensagem segue sem arquivo.
+   */
+  async store(instance: WhatsappInstance, evolutionData: EvolutionWebhookData, content: InboundContent): Promise<InboundContent> {
+    if (!DEFAULT_MIME[content.messageType] || !instance.companyId) return content;
+
+    try {
+      let mediaBase64 = content.mediaBase64;
+      let mimeType = content.mimeType || DEFAULT_MIME[content.messageType]!;
+
+      const messageId = evolutionData.data?.key?.id;
+      if (!mediaBase64 && messageId) {
+        const evolutionConfig = await getStorage().getEvolutionApiConfiguration();
+        if (evolutionConfig?.evolutionURL && evolutionConfig?.evolutionToken) {
+          const evolutionApi = new EvolutionApiService({
+            baseURL: evolutionConfig.evolutionURL,
+            token: evolutionConfig.evolutionToken
+          });
+          const downloaded = await evolutionApi.getBase64FromMediaMessage(instance.evolutionInstanceId || instance.name, messageId);
+          mediaBase64 = downloaded?.base64;
+          mimeType = downloaded?.mimetype || mimeType;
+        }
+      }
+
+      if (!mediaBase64) {
+        console.log(`⚠️ [MEDIA] ${content.messageType} sem conteúdo disponível para salvar`);
+        return content;
+      }
+
+      const stored = await mediaStorageService.save(instance.companyId, mediaBase64, mimeType, content.fileName);
+      const extractedText = stored.mimeType === "application/pdf"
+        ? await this.extractPdfText(mediaBase64, stored.fileName)
+        : undefined;
+
+      return {
+        ...content,
+        mediaBase64,
+        mediaPath: stored.mediaPath,
+        mimeType: stored.mimeType,
+        fileName: stored.fileName,
+        extractedText,
+      };
+    } catch (error) {
+      console.error(`❌ [MEDIA] Erro ao salvar ${content.messageType} recebido:`, error);
+      return content;
+    }
+  }
+
+  // Mensagem do cliente acompanhada do texto do PDF que ele enviou, para o agente ler
+  withDocumentText(text: string, extractedText?: string | null): string {
+    if (!extractedText) return text;
+    const documentText = extractedText.length > MAX_AGENT_DOCUMENT_TEXT
+      ? `${extractedText.substring(0, MAX_AGENT_DOCUMENT_TEXT)}\n[...documento truncado]`
+      : extractedText;
+    return `${text}\n\n=== CONTEÚDO DO DOCUMENTO ENVIADO PELO CLIENTE ===\n${documentText}\n=== FIM DO DOCUMENTO ===`;
+  }
+
+  private media(evolutionData: EvolutionWebhookData, messageType: InboundMessageType, media: any, text: string): InboundContent {
+    return {
+      messageType,
+      text,
+      caption: media.caption || undefined,
+      mediaUrl: media.url || undefined,
+      mimeType: media.mimetype || undefined,
+      fileName: media.fileName || undefined,
+      mediaBase64: this.findBase64(evolutionData, media),
+    };
+  }
+
+  // Com webhook_base64 ativo a Evolution manda o arquivo junto; o local varia entre versões
+  private findBase64(evolutionData: EvolutionWebhookData, media: any): string | undefined {
+    const data = evolutionData.data as any;
+    return data.message?.base64 || data.base64 || media?.base64 || undefined;
+  }
+
+  private async extractPdfText(base64: string, fileName: string): Promise<string | undefined> {
+    try {
+      const text = (await extractTextFromPDFBuffer(new Uint8Array(Buffer.from(base64, "base64")))).trim();
+      console.log(`📄 [MEDIA] Texto extraído do PDF ${fileName}: ${text.length} caracteres`);
+      return text ? text.substring(0, MAX_EXTRACTED_TEXT) : undefined;
+    } catch (error) {
+      console.error(`❌ [MEDIA] Erro ao extrair texto do PDF ${fileName}:`, error);
+      return undefined;
+    }
+  }
+
+  // vCard do WhatsApp: "FN:Nome" e linhas "TEL;waid=5511999999999:+55 11 99999-9999"
+  private parseVcard(vcard: string | undefined, displayName?: string): SharedContact {
+    const lines = (vcard || "").split(/\r?\n/);
+    const fullName = lines
+      .find(line => /^FN[:;]/i.test(line))
+      ?.split(":").slice(1).join(":").trim();
+    const phones = lines
+      .filter(line => /^(item\d+\.)?TEL/i.test(line))
+      .map(line => line.match(/waid=(\d+)/i)?.[1] || line.split(":").slice(1).join(":").replace(/\D/g, ""))
+      .filter(phone => phone.length > 0);
+
+    return {
+      name: displayName || fullName || "Contato",
+      phones: Array.from(new Set(phones)),
+    };
+  }
+}
+
+export const inboundMediaService = new InboundMediaService();
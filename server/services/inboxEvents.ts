@@ -0,0 +1,114 @@
+import type { Response } from "express";
+import { randomBytes } from "crypto";
+import { getStorage } from "../storage";
+import { mediaStorageService } from "./mediaStorage";
+import type { ConversationNote, InboxConversation, Message } from "@shared/schema";
+
+export type InboxEvent =
+  | { type: "conversation"; conversation: InboxConversation }
+  | { type: "message"; conversationId: string; message: Message }
+  | { type: "note"; conversationId: string; note: ConversationNote };
+
+const HEARTBEAT_MS = 25 * 1000; // Mantém a conexão aberta atrás de proxies que cortam conexões ociosas
+const TICKET_TTL_MS = 30 * 1000; // O painel abre o stream logo depois de pedir o ticket
+
+/**
+ * Atualizações ao vivo da caixa de entrada via Server-Sent Events. Cada aba aberta do painel
+ * assina o canal da própria empresa; toda mensagem gravada numa conversa é publicada para ela.
+ */
+export class InboxEventsService {
+  private subscribers = new Map<string, Set<Response>>(); // companyId -> conexões abertas
+  private tickets = new Map<string, { userId: string; companyId: string; expiresAt: number }>();
+
+  // Ticket de uso único para abrir o stream (o EventSource não envia o cabeçalho Authorization)
+  issueTicket(userId: string, companyId: string): string {
+    const now = Date.now();
+    this.tickets.forEach((ticket, key) => {
+      if (ticket.expiresAt < now) this.tickets.delete(key);
+    });
+
+    const ticket = randomBytes(32).toString("hex");
+    this.tickets.set(ticket, { userId, companyId, expiresAt: now + TICKET_TTL_MS });
+    return ticket;
+  }
+
+  redeemTicket(ticket: string): { userId: string; companyId: string } | null {
+    const found = this.tickets.get(ticket);
+    if (!found) return null;
+
+    this.tickets.delete(ticket);
+    return found.expiresAt >= Date.now() ? { userId: found.userId, companyId: found.companyId } : null;
+  }
+
+  subscribe(companyId: string, res: Response): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 5000\n\n");
+
+    const subscribers = this.subscribers.get(companyId) || new Set<Response>();
+    subscribers.add(res);
+    this.subscribers.set(companyId, subscribers);
+
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      subscribers.delete(res);
+      if (subscribers.size === 0) this.subscribers.delete(companyId);
+    });
+  }
+
+  publish(companyId: string, event: InboxEvent): void {
+    const subscribers = this.subscribers.get(companyId);
+    if (!subscribers) return;
+
+    if (event.type === "message") {
+      event = { ...event, message: mediaStorageService.forClient(event.message) };
+    }
+    const payload = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    subscribers.forEach(res => res.write(payload));
+  }
+
+  /**
+   * Publica a conversa atualizada (e a mensagem nova, se houver). Nunca lança erro:
+   * falhar a atualização ao vivo não pode interromper o atendimento.
+   */
+  async notify(conversationId: string, message?: Message): Promise<void> {
+    try {
+      const storage = getStorage();
+      const conversation = await storage.getInboxConversation(conversationId);
+      if (!conversation) return;
+
+      const instance = await storage.getWhatsappInstance(conversation.whatsappInstanceId);
+      if (!instance?.companyId || !this.subscribers.has(instance.companyId)) return;
+
+      if (message) {
+        this.publish(instance.companyId, { type: "message", conversationId, message });
+      }
+      this.publish(instance.companyId, { type: "conversation", conversation });
+    } catch (error) {
+      console.error("❌ [INBOX] Erro ao publicar atualização da conversa:", error);
+    }
+  }
+
+  // Confirmação de entrega/leitura: só a mensagem muda, a lista de conversas continua igual
+  async notifyMessageUpdate(message: Message): Promise<void> {
+    try {
+      const storage = getStorage();
+      const conversation = await storage.getConversation(message.conversationId);
+      if (!conversation) return;
+
+      const instance = await storage.getWhatsappInstance(conversation.whatsappInstanceId);
+      if (!instance?.companyId) return;
+
+      this.publish(instance.companyId, { type: "message", conversationId: message.conversationId, message });
+    } catch (error) {
+      console.error("❌ [INBOX] Erro ao publicar atualização da mensagem:", error);
+    }
+  }
+}
+
+export const inboxEventsService = new InboxEventsService();
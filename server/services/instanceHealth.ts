@@ -0,0 +1,297 @@
+import { getStorage } from "../storage";
+import { EvolutionApiService } from "./evolutionApi";
+import { getEmailService } from "./emailService";
+import { sendingWindowService } from "./sendingWindow";
+import type { WhatsappInstance } from "@shared/schema";
+
+type StatusSource = "poll" | "webhook" | "reconnect";
+
+const CHECK_INTERVAL_MS = 2 * 60 * 1000;
+const ALERT_AFTER_MS = 10 * 60 * 1000; // Quedas mais curtas costumam se resolver sozinhas
+const MAX_RECONNECT_ATTEMPTS = 5; // Uma por verificação; zera quando a instância volta
+const UPTIME_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const CONNECTED_STATES = ['open', 'connected', 'CONNECTED', 'online'];
+const POLL_TIMEOUT_MS = 15 * 1000;
+const LOGGED_OUT_REASON = 401; // DisconnectReason.loggedOut do Baileys: sessão encerrada no celular
+
+/**
+ * Monitor de saúde das instâncias do WhatsApp: consulta o estado na Evolution API a cada
+ * 2 minutos e recebe o webhook CONNECTION_UPDATE, grava o histórico de conexão, tenta
+ * reconectar as instâncias que caíram e avisa a empresa (e-mail e painel) quando a queda persiste.
+ * Só caem nessa regra instâncias que estavam pareadas: as que nunca leram o QR Code ou tiveram
+ * a sessão encerrada de propósito (last_seen_at nulo) ficam desconectadas sem alerta.
+ */
+export class InstanceHealthService {
+  private interval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  start() {
+    console.log("🩺 [HEALTH] Monitor de conexão das instâncias iniciado");
+    this.interval = setInterval(() => this.checkInstances(), CHECK_INTERVAL_MS);
+    this.checkInstances();
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // Instâncias antigas guardam um UUID em evolutionInstanceId; na Evolution elas são conhecidas pelo nome
+  evolutionName(instance: WhatsappInstance): string {
+    const identifier = instance.evolutionInstanceId || instance.name;
+    return identifier.includes('-') ? instance.name : identifier;
+  }
+
+  isConnectedState(state?: string | null): boolean {
+    return !!state && CONNECTED_STATES.includes(state);
+  }
+
+  /**
+   * Registra o estado informado pela Evolution API. Só as mudanças de status vão para o histórico;
+   * toda verificação com a instância conectada atualiza o "visto por último".
+   */
+  async recordStatus(instance: WhatsappInstance, state: string | null | undefined, source: StatusSource, reason?: string): Promise<WhatsappInstance> {
+    const storage = getStorage();
+    const status = this.isConnectedState(state) ? 'connected' : 'disconnected';
+    const now = new Date();
+    const changed = status !== instance.status || !instance.statusChangedAt;
+
+    const updates: Partial<WhatsappInstance> = {};
+    if (status === 'connected') {
+      updates.lastSeenAt = now;
+    }
+    if (changed) {
+      updates.status = status;
+      updates.statusChangedAt = now;
+      if (status === 'connected') {
+        updates.reconnectAttempts = 0;
+        updates.disconnectAlertedAt = null;
+      }
+
+      await storage.createInstanceStatusEvent({
+        instanceId: instance.id,
+        companyId: instance.companyId,
+        status,
+        state: state || null,
+        source,
+        reason: reason ? reason.substring(0, 255) : null,
+      });
+      console.log(`🩺 [HEALTH] ${instance.name}: ${instance.status} → ${status} (estado "${state}", via ${source})`);
+    }
+
+    const updated = await storage.updateWhatsappInstance(instance.id, updates);
+
+    if (changed && status === 'connected' && instance.disconnectAlertedAt) {
+      await this.notifyReconnected(updated);
+    }
+    return updated;
+  }
+
+  // Webhook CONNECTION_UPDATE: { instance, data: { instance, state, statusReason } }
+  async handleConnectionUpdate(payload: any): Promise<void> {
+    try {
+      const data = payload?.data || {};
+      const identifier = payload?.instance || data.instance || data.instanceName;
+      const state = data.state || data.connection;
+      if (!identifier || !state) {
+        console.log("⚠️ [HEALTH] CONNECTION_UPDATE sem instância ou estado, ignorando");
+        return;
+      }
+
+      const storage = getStorage();
+      const instance = await storage.getWhatsappInstanceByEvolutionId(identifier) ||
+        (await storage.getAllWhatsappInstances()).find(i => i.name === identifier || i.evolutionInstanceId === identifier);
+      if (!instance) {
+        console.log(`⚠️ [HEALTH] CONNECTION_UPDATE de instância desconhecida: ${identifier}`);
+        return;
+      }
+
+      const reason = data.statusReason ? `Código ${data.statusReason} informado pela Evolution API` : undefined;
+      const updated = await this.recordStatus(instance, state, "webhook", reason);
+
+      // Logout no celular: a sessão não volta sozinha, então a instância deixa de ser monitorada até parear de novo
+      if (Number(data.statusReason) === LOGGED_OUT_REASON && updated.status !== 'connected' && updated.lastSeenAt) {
+        await storage.updateWhatsappInstance(updated.id, { lastSeenAt: null });
+        console.log(`🩺 [HEALTH] ${instance.name}: sessão encerrada no celular, sem reconexão automática`);
+      }
+    } catch (error) {
+      console.error("❌ [HEALTH] Erro ao processar CONNECTION_UPDATE:", error);
+    }
+  }
+
+  /**
+   * Percentual do tempo conectada nos últimos 7 dias, considerando só o período já monitorado.
+   * Null enquanto não há histórico.
+   */
+  async uptime(instance: WhatsappInstance, now = new Date()): Promise<number | null> {
+    const since = new Date(now.getTime() - UPTIME_WINDOW_MS);
+    const events = await getStorage().getInstanceStatusHistory(instance.id, since);
+    if (events.length === 0) return null;
+
+    let connectedMs = 0;
+    let observedMs = 0;
+    events.forEach((event, index) => {
+      const start = Math.max(new Date(event.createdAt!).getTime(), since.getTime());
+      const end = index + 1 < events.length ? new Date(events[index + 1].createdAt!).getTime() : now.getTime();
+      if (end <= start) return;
+
+      observedMs += end - start;
+      if (event.status === 'connected') connectedMs += end - start;
+    });
+
+    return observedMs > 0 ? Math.round((connectedMs / observedMs) * 1000) / 10 : null;
+  }
+
+  private async checkInstances() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const storage = getStorage();
+      const evolutionConfig = await storage.getEvolutionApiConfiguration();
+      if (!evolutionConfig?.evolutionURL || !evolutionConfig?.evolutionToken) {
+        return;
+      }
+
+      const evolutionApi = new EvolutionApiService({
+        baseURL: evolutionConfig.evolutionURL,
+        token: evolutionConfig.evolutionToken
+      });
+
+      const instances = await storage.getAllWhatsappInstances();
+      for (const instance of instances) {
+        if (!instance.evolutionInstanceId || !instance.companyId) continue;
+
+        try {
+          await this.checkInstance(evolutionApi, instance);
+        } catch (error) {
+          console.error(`❌ [HEALTH] Erro ao verificar a instância ${instance.name}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("❌ [HEALTH] Erro no monitor de conexão:", error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async checkInstance(evolutionApi: EvolutionApiService, instance: WhatsappInstance) {
+    let state: string | undefined;
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      const response: any = await Promise.race([
+        evolutionApi.getInstanceStatus(this.evolutionName(instance)),
+        new Promise((_, reject) => {
+          timeout = setTimeout(() => reject(new Error("Tempo esgotado")), POLL_TIMEOUT_MS);
+        }),
+      ]);
+      state = response?.instance?.state || response?.state || response?.status;
+    } catch (error) {
+      // Evolution fora do ar não diz nada sobre o WhatsApp: não grava queda nem dispara alerta
+      console.error(`⚠️ [HEALTH] Falha ao consultar o estado de ${instance.name} na Evolution API:`, error);
+      return;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    let current = await this.recordStatus(instance, state, "poll");
+    if (current.status === 'connected' || !current.lastSeenAt) return;
+
+    current = await this.tryReconnect(evolutionApi, current);
+    await this.alertIfDown(current);
+  }
+
+  private async tryReconnect(evolutionApi: EvolutionApiService, instance: WhatsappInstance): Promise<WhatsappInstance> {
+    const attempts = (instance.reconnectAttempts || 0) + 1;
+    if (attempts > MAX_RECONNECT_ATTEMPTS) return instance;
+
+    console.log(`🔌 [HEALTH] Tentando reconectar ${instance.name} (${attempts}/${MAX_RECONNECT_ATTEMPTS})`);
+    const updated = await getStorage().updateWhatsappInstance(instance.id, { reconnectAttempts: attempts });
+
+    try {
+      const response: any = await evolutionApi.connectInstance(this.evolutionName(instance));
+      const state = response?.instance?.state || response?.state;
+      if (this.isConnectedState(state)) {
+        return this.recordStatus(updated, state, "reconnect", `Reconectada automaticamente na tentativa ${attempts}`);
+      }
+      // Sessão encerrada no celular: a Evolution devolve um QR Code e só a leitura dele reconecta
+      console.log(`⚠️ [HEALTH] ${instance.name} ainda desconectada após a tentativa ${attempts}`);
+    } catch (error) {
+      console.error(`❌ [HEALTH] Erro ao reconectar ${instance.name}:`, error);
+    }
+    return updated;
+  }
+
+  private async alertIfDown(instance: WhatsappInstance) {
+    if (instance.status === 'connected' || instance.disconnectAlertedAt || !instance.statusChangedAt) return;
+
+    const downSince = new Date(instance.statusChangedAt);
+    if (Date.now() - downSince.getTime() < ALERT_AFTER_MS) return;
+
+    const storage = getStorage();
+    await storage.updateWhatsappInstance(instance.id, { disconnectAlertedAt: new Date() });
+
+    const company = await storage.getCompany(instance.companyId);
+    const title = `WhatsApp desconectado: ${instance.name}`;
+    const message = `A instância ${instance.name}${instance.phone ? ` (${instance.phone})` : ""} está desconectada desde ` +
+      `${sendingWindowService.formatDateTime(downSince, company?.timezone)} e não está respondendo os clientes. ` +
+      `A reconexão automática não funcionou: gere um novo QR Code na página do WhatsApp e leia com o celular.`;
+
+    console.log(`🚨 [HEALTH] ${title} - avisando a empresa ${instance.companyId}`);
+    await storage.createCompanyNotification({
+      companyId: instance.companyId,
+      type: "instance_disconnected",
+      title,
+      message,
+      link: "/client/whatsapp",
+    });
+    await this.sendAlertEmail(instance.companyId, title, message);
+  }
+
+  private async notifyReconnected(instance: WhatsappInstance) {
+    try {
+      await getStorage().createCompanyNotification({
+        companyId: instance.companyId,
+        type: "instance_reconnected",
+        title: `WhatsApp reconectado: ${instance.name}`,
+        message: `A instância ${instance.name} voltou a ficar conectada e já está respondendo os clientes.`,
+        link: "/client/whatsapp",
+      });
+    } catch (error) {
+      console.error(`❌ [HEALTH] Erro ao avisar a reconexão de ${instance.name}:`, error);
+    }
+  }
+
+  // E-mail da empresa, do responsável e dos usuários do painel
+  private async sendAlertEmail(companyId: string, title: string, message: string) {
+    const storage = getStorage();
+    const company = await storage.getCompany(companyId);
+    const users = await storage.getUsersByCompany(companyId);
+    const recipients = Array.from(new Set(
+      [company?.email, company?.responsibleEmail, ...users.map(user => user.email)]
+        .filter((email): email is string => !!email)
+        .map(email => email.trim().toLowerCase())
+    ));
+    if (recipients.length === 0) {
+      console.log(`⚠️ [HEALTH] Empresa ${companyId} sem e-mail cadastrado para o alerta`);
+      return;
+    }
+
+    const html = `<h2>${this.escapeHtml(title)}</h2><p>${this.escapeHtml(message)}</p><p>${this.escapeHtml(company?.name || "")}</p>`;
+    await getEmailService().sendCustomEmail(recipients.join(", "), title, html);
+  }
+
+  // Nome da instância e da empresa são digitados pelo cliente
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+}
+
+export const instanceHealthService = new InstanceHealthService();
@@ -0,0 +1,279 @@
+import { getStorage } from "../storage";
+import { extractTextFromMultiplePDFs } from "../pdfProcessor";
+import { createLlmProvider, type LlmProvider } from "./llmProvider";
+import type { AiAgent, AiConfiguration, InsertKnowledgeChunk, KnowledgeChunk } from "@shared/schema";
+
+export interface KnowledgeSource {
+  sourceName: string;
+  sourceUrl: string | null;
+  chunkIndex: number;
+  score: number;
+  excerpt: string;
+}
+
+export interface RetrievedKnowledge {
+  chunks: Array<KnowledgeChunk & { score: number }>;
+  sources: KnowledgeSource[];
+}
+
+const CHUNK_SIZE = 1200; // caracteres por trecho
+const CHUNK_OVERLAP = 200; // sobreposição entre trechos consecutivos
+const EMBEDDING_BATCH_SIZE = 64;
+const DEFAULT_TOP_K = 4;
+const MIN_VECTOR_SCORE = 0.2;
+
+/**
+ * Base de conhecimento dos agentes (RAG).
+ * Quebra os PDFs de treinamento em trechos, gera embeddings com o provedor do agente
+ * e devolve apenas os trechos mais relevantes para cada mensagem.
+ */
+export class KnowledgeBaseService {
+  // Evita indexar o mesmo agente duas vezes em paralelo
+  private indexing = new Map<string, Promise<number>>();
+
+  async reindexAgent(agent: AiAgent, aiConfig?: AiConfiguration): Promise<number> {
+    const running = this.indexing.get(agent.id);
+    if (running) return running;
+
+    const job = this.buildIndex(agent, aiConfig).finally(async () => {
+      this.indexing.delete(agent.id);
+      // Registra a tentativa mesmo sem trechos (PDF sem texto) ou com erro: o atendimento não tenta de novo a cada mensagem
+      await getStorage().updateAiAgent(agent.id, { knowledgeIndexedAt: new Date() })
+        .catch(error => console.error(`⚠️ [KNOWLEDGE] Erro ao registrar a indexação do agente ${agent.name}:`, error));
+    });
+    this.indexing.set(agent.id, job);
+    return job;
+  }
+
+  async retrieve(agent: AiAgent, query: string, aiConfig: AiConfiguration, topK: number = DEFAULT_TOP_K): Promise<RetrievedKnowledge | null> {
+    try {
+      const storage = getStorage();
+      const trainingFiles = this.getTrainingFiles(agent);
+      const chunks = await storage.getKnowledgeChunksByAgent(agent.id);
+
+      if (chunks.length === 0 && trainingFiles.length === 0) {
+        return null;
+      }
+
+      const provider = createLlmProvider(agent.provider, aiConfig);
+
+      // Agentes antigos (nunca indexados) ou que trocaram de provedor são reindexados em segundo plano;
+      // a mensagem atual segue com o que já existe (por palavras-chave, se os embeddings são de outro modelo)
+      const modelChanged = chunks.some(c => c.embeddingModel && c.embeddingModel !== provider.embeddingModel);
+      if ((chunks.length === 0 && !agent.knowledgeIndexedAt) || modelChanged) {
+        console.log(`📚 [KNOWLEDGE] Índice ausente ou desatualizado para agente ${agent.name}, reindexando em segundo plano...`);
+        this.reindexAgent(agent, aiConfig).catch(error => {
+          console.error(`❌ [KNOWLEDGE] Erro ao reindexar agente ${agent.name}:`, error);
+        });
+      }
+      if (chunks.length === 0) return null;
+
+      const scored = await this.scoreChunks(chunks, query, provider, !modelChanged);
+      const top = scored
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+
+      if (top.length === 0) {
+        console.log(`📚 [KNOWLEDGE] Nenhum trecho relevante para: "${query.substring(0, 60)}"`);
+        return null;
+      }
+
+      console.log(`📚 [KNOWLEDGE] ${top.length} trechos selecionados (scores: ${top.map(c => c.score.toFixed(2)).join(', ')})`);
+
+      return {
+        chunks: top,
+        sources: top.map(chunk => ({
+          sourceName: chunk.sourceName || `Documento ${chunk.documentIndex + 1}`,
+          sourceUrl: chunk.sourceUrl,
+          chunkIndex: chunk.chunkIndex,
+          score: Number(chunk.score.toFixed(3)),
+          excerpt: chunk.content.substring(0, 200)
+        }))
+      };
+    } catch (error) {
+      console.error(`❌ [KNOWLEDGE] Erro ao buscar conhecimento do agente ${agent.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Texto a ser anexado ao prompt de sistema com os trechos numerados para citação.
+   */
+  formatForPrompt(knowledge: RetrievedKnowledge): string {
+    let block = `\n\n=== CONHECIMENTO BASE (trechos relevantes) ===\n`;
+    knowledge.chunks.forEach((chunk, index) => {
+      const source = knowledge.sources[index];
+      block += `\n[${index + 1}] Fonte: ${source.sourceName} (trecho ${chunk.chunkIndex + 1})\n${chunk.content}\n`;
+    });
+    block += `\n=== FIM CONHECIMENTO BASE ===\n\n`;
+    block += `Use os trechos do CONHECIMENTO BASE acima para responder às perguntas do usuário de forma precisa. Se a informação não estiver nos trechos, não invente.`;
+    return block;
+  }
+
+  private async buildIndex(agent: AiAgent, aiConfig?: AiConfiguration): Promise<number> {
+    const storage = getStorage();
+    const trainingFiles = this.getTrainingFiles(agent);
+
+    if (trainingFiles.length === 0) {
+      await storage.deleteKnowledgeChunksByAgent(agent.id);
+      console.log(`📚 [KNOWLEDGE] Agente ${agent.name} sem arquivos de treinamento - índice limpo`);
+      return 0;
+    }
+
+    const config = aiConfig || await storage.getAiConfiguration();
+    if (!config) throw new Error('Configuração de IA não encontrada');
+
+    // Reaproveita o texto já extraído no cadastro; só baixa os PDFs de novo se não houver
+    const hasExtractedContent = agent.trainingContent && agent.trainingContent.trim() && !agent.trainingContent.startsWith('Erro ao processar PDFs');
+    const fullText = hasExtractedContent ? agent.trainingContent! : await extractTextFromMultiplePDFs(trainingFiles);
+
+    const chunks: InsertKnowledgeChunk[] = [];
+    this.splitDocuments(fullText).forEach(doc => {
+      this.chunkText(doc.text).forEach((content, chunkIndex) => {
+        const sourceUrl = trainingFiles[doc.index] || null;
+        chunks.push({
+          agentId: agent.id,
+          companyId: agent.companyId,
+          sourceUrl,
+          sourceName: this.getSourceName(sourceUrl, doc.index),
+          documentIndex: doc.index,
+          chunkIndex,
+          content,
+        });
+      });
+    });
+
+    console.log(`📚 [KNOWLEDGE] Agente ${agent.name}: ${chunks.length} trechos gerados de ${trainingFiles.length} arquivo(s)`);
+
+    // Sem embeddings (ex: servidor local sem modelo de embedding) o índice ainda funciona por palavras-chave
+    try {
+      const provider = createLlmProvider(agent.provider, config);
+      for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const embeddings = await provider.embed(batch.map(c => c.content));
+        batch.forEach((chunk, j) => {
+          chunk.embedding = embeddings[j];
+          chunk.embeddingModel = provider.embeddingModel;
+        });
+      }
+    } catch (error) {
+      console.error(`⚠️ [KNOWLEDGE] Falha ao gerar embeddings, usando busca por palavras-chave:`, error);
+      chunks.forEach(chunk => {
+        chunk.embedding = [];
+        chunk.embeddingModel = null;
+      });
+    }
+
+    await storage.replaceKnowledgeChunks(agent.id, chunks);
+    console.log(`✅ [KNOWLEDGE] Índice do agente ${agent.name} atualizado`);
+    return chunks.length;
+  }
+
+  private async scoreChunks(chunks: KnowledgeChunk[], query: string, provider: LlmProvider, useEmbeddings: boolean): Promise<Array<KnowledgeChunk & { score: number }>> {
+    const hasEmbeddings = useEmbeddings && chunks.every(c => Array.isArray(c.embedding) && (c.embedding as number[]).length > 0);
+
+    if (hasEmbeddings) {
+      try {
+        const [queryEmbedding] = await provider.embed([query]);
+        return chunks
+          .map(chunk => ({ ...chunk, score: this.cosineSimilarity(queryEmbedding, chunk.embedding as number[]) }))
+          .filter(chunk => chunk.score >= MIN_VECTOR_SCORE);
+      } catch (error) {
+        console.error(`⚠️ [KNOWLEDGE] Falha ao gerar embedding da pergunta, usando palavras-chave:`, error);
+      }
+    }
+
+    const queryTerms = this.tokenize(query);
+    return chunks
+      .map(chunk => {
+        const chunkTerms = new Set(this.tokenize(chunk.content));
+        const hits = queryTerms.filter(term => chunkTerms.has(term)).length;
+        return { ...chunk, score: queryTerms.length > 0 ? hits / queryTerms.length : 0 };
+      })
+      .filter(chunk => chunk.score > 0);
+  }
+
+  private splitDocuments(text: string): Array<{ index: number; text: string }> {
+    // Formato gerado por extractTextFromMultiplePDFs: === DOCUMENTO n === ... === FIM DOCUMENTO n ===
+    const documents: Array<{ index: number; text: string }> = [];
+    const pattern = /=== DOCUMENTO (\d+) ===\n([\s\S]*?)\n=== FIM DOCUMENTO \1 ===/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      documents.push({ index: parseInt(match[1]) - 1, text: match[2] });
+    }
+    return documents.length > 0 ? documents : [{ index: 0, text }];
+  }
+
+  private chunkText(text: string): string[] {
+    const paragraphs = text
+      .split(/\n\s*\n/)
+      .map(p => p.replace(/\s+/g, ' ').trim())
+      .filter(p => p.length > 0);
+
+    const chunks: string[] = [];
+    let current = '';
+    let hasNewContent = false;
+
+    const pushCurrent = () => {
+      if (hasNewContent && current.trim()) chunks.push(current.trim());
+      current = current.length > CHUNK_OVERLAP ? current.slice(-CHUNK_OVERLAP) : '';
+      hasNewContent = false;
+    };
+
+    for (const paragraph of paragraphs) {
+      if (paragraph.length > CHUNK_SIZE) {
+        // Parágrafo gigante: quebra em janelas fixas com sobreposição
+        pushCurrent();
+        for (let start = 0; start < paragraph.length; start += CHUNK_SIZE - CHUNK_OVERLAP) {
+          chunks.push(paragraph.slice(start, start + CHUNK_SIZE));
+        }
+        current = '';
+        continue;
+      }
+      if (current.length + paragraph.length + 1 > CHUNK_SIZE) {
+        pushCurrent();
+      }
+      current += (current ? '\n' : '') + paragraph;
+      hasNewContent = true;
+    }
+    pushCurrent();
+
+    return chunks;
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(term => term.length > 2);
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+  }
+
+  private getTrainingFiles(agent: AiAgent): string[] {
+    return Array.isArray(agent.trainingFiles) ? (agent.trainingFiles as string[]) : [];
+  }
+
+  private getSourceName(url: string | null, index: number): string {
+    if (!url) return `Documento ${index + 1}`;
+    try {
+      const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+      return fileName || `Documento ${index + 1}`;
+    } catch {
+      return `Documento ${index + 1}`;
+    }
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
@@ -0,0 +1,205 @@
+import type { ChatCompletionTool } from "openai/resources/chat/completions";
+import { getStorage } from "../storage";
+import { createLlmProvider, resolveAgentModel } from "./llmProvider";
+import { phoneNumberService } from "./phoneNumber";
+import {
+  LEAD_PREFERENCE_FIELDS,
+  type InsertLeadPreferences,
+  type LeadPreferenceField,
+  type LeadPreferences,
+  type LeadPreferencesUpdate,
+} from "@shared/schema";
+
+type ConversationTurn = { role: "user" | "assistant"; content: string };
+type PreferenceValues = Partial<Pick<InsertLeadPreferences, LeadPreferenceField>>;
+
+const EXTRACTION_MESSAGES = 20;
+const EXTRACTION_TOOL_NAME = "registrar_preferencias";
+
+const EXTRACTION_TOOL: ChatCompletionTool = {
+  type: "function",
+  function: {
+    name: EXTRACTION_TOOL_NAME,
+    description: "Registra o que o cliente informou sobre o imóvel que procura. Omita os campos que o cliente não informou.",
+    parameters: {
+      type: "object",
+      properties: {
+        tipo_transacao: { type: "string", enum: ["venda", "locacao"], description: "venda = quer comprar; locacao = quer alugar" },
+        tipo_imovel: { type: "string", description: "Ex: casa, apartamento, sala, terreno, sobrado, chácara" },
+        cidade: { type: "string" },
+        bairros: { type: "array", items: { type: "string" }, description: "Bairros de interesse" },
+        orcamento_minimo: { type: "number", description: "Valor mínimo em reais (ex: 300 mil = 300000)" },
+        orcamento_maximo: { type: "number", description: "Valor máximo em reais (ex: 1,2 milhão = 1200000)" },
+        quartos_minimo: { type: "integer" },
+        comodidades: { type: "array", items: { type: "string" }, description: "Itens indispensáveis (ex: piscina, garagem, elevador)" },
+        prazo_mudanca: { type: "string", description: "Quando pretende se mudar (ex: imediato, até 3 meses, início do ano)" },
+        precisa_financiamento: { type: "boolean" },
+        observacoes_financiamento: { type: "string", description: "FGTS, valor de entrada, carta de crédito, permuta..." },
+      },
+    },
+  },
+};
+
+// Nomes dos campos na tool de extração
+const TOOL_FIELDS: Record<LeadPreferenceField, string> = {
+  transactionType: "tipo_transacao",
+  propertyType: "tipo_imovel",
+  city: "cidade",
+  neighborhoods: "bairros",
+  budgetMin: "orcamento_minimo",
+  budgetMax: "orcamento_maximo",
+  bedrooms: "quartos_minimo",
+  amenities: "comodidades",
+  moveInTimeframe: "prazo_mudanca",
+  needsFinancing: "precisa_financiamento",
+  financingNotes: "observacoes_financiamento",
+};
+
+/**
+ * Perfil de busca de cada contato (transação, orçamento, quartos, bairros, comodidades, prazo
+ * e financiamento). A IA atualiza o perfil após cada troca de mensagens; campos editados pela
+ * equipe no painel ficam marcados como manuais e não são mais sobrescritos pela extração.
+ */
+export class LeadPreferenceService {
+  async getProfile(companyId: string, phone: string): Promise<LeadPreferences | undefined> {
+    return getStorage().getLeadPreferencesByPhone(companyId, phoneNumberService.variants(phone));
+  }
+
+  async updateManually(companyId: string, update: LeadPreferencesUpdate): Promise<LeadPreferences> {
+    const { phone, ...values } = update;
+    const current = await this.getProfile(companyId, phone);
+    const edited = LEAD_PREFERENCE_FIELDS.filter(field => values[field] !== undefined);
+    const manualFields = Array.from(new Set([...this.manualFields(current), ...edited]));
+
+    return getStorage().saveLeadPreferences({
+      ...this.valuesOf(current),
+      ...values,
+      companyId,
+      phone: current?.phone || phoneNumberService.toWhatsappNumber(phone),
+      manualFields,
+      alertsOptOut: values.alertsOptOut ?? current?.alertsOptOut ?? false,
+      lastExtractedAt: current?.lastExtractedAt ?? null,
+    });
+  }
+
+  /**
+   * Extrai as preferências das últimas mensagens com uma chamada forçada à tool de registro.
+   * Só grava o que o cliente informou: o que ele não mencionou e os campos manuais continuam como estavam.
+   */
+  async extractFromConversation(companyId: string, phone: string, history: ConversationTurn[], agentId: string): Promise<LeadPreferences | undefined> {
+    const recent = history.slice(-EXTRACTION_MESSAGES);
+    if (!agentId || !recent.some(turn => turn.role === "user")) return undefined;
+
+    const storage = getStorage();
+    const [agent, aiConfig, current] = await Promise.all([
+      storage.getAiAgent(agentId),
+      storage.getAiConfiguration(),
+      this.getProfile(companyId, phone),
+    ]);
+    if (!agent || !aiConfig) return undefined;
+
+    const llm = createLlmProvider(agent.provider, aiConfig);
+    const transcript = recent.map(turn => `${turn.role === "user" ? "Cliente" : "Atendente"}: ${turn.content}`).join("\n");
+    const response = await llm.chat({
+      model: resolveAgentModel(agent, aiConfig),
+      messages: [
+        {
+          role: "system",
+          content: `Você analisa conversas de uma imobiliária e registra o que o CLIENTE procura. Considere apenas o que o cliente disse ou confirmou, nunca sugestões do atendente. Se o cliente mudou de ideia, registre a informação mais recente.\n\nPerfil já registrado:\n${this.describe(current) || "(vazio)"}`,
+        },
+        { role: "user", content: transcript },
+      ],
+      tools: [EXTRACTION_TOOL],
+      toolChoice: { type: "function", function: { name: EXTRACTION_TOOL_NAME } },
+      temperature: 0,
+      maxTokens: 300,
+    });
+
+    const toolCall = response.message.tool_calls?.[0];
+    if (!toolCall || toolCall.type !== "function") return undefined;
+
+    const extracted = this.parseExtraction(JSON.parse(toolCall.function.arguments || "{}"));
+    const locked = this.manualFields(current);
+    const changes = Object.fromEntries(
+      Object.entries(extracted).filter(([field, value]) =>
+        !locked.includes(field as LeadPreferenceField) &&
+        JSON.stringify(value) !== JSON.stringify(current?.[field as LeadPreferenceField] ?? null)
+      )
+    ) as PreferenceValues;
+
+    if (Object.keys(changes).length > 0) {
+      console.log(`🎯 [PREFERENCES] Perfil de ${phone} atualizado:`, changes);
+    }
+
+    await storage.mergeExtractedLeadPreferences(companyId, current?.phone || phone, changes);
+    return this.getProfile(companyId, phone);
+  }
+
+  // Bloco do prompt do agente com o que o cliente já informou
+  formatForPrompt(profile: LeadPreferences | undefined): string {
+    const description = this.describe(profile);
+    if (!description) return "";
+    return `\n\n=== PERFIL DO CLIENTE (já informado, NÃO pergunte de novo) ===\n${description}\n=== FIM PERFIL DO CLIENTE ===\n\nUse o perfil acima como critério da busca_imoveis. Esses dados contam como informados: pergunte apenas o que falta ou se o cliente quiser mudar algo.\n\n`;
+  }
+
+  private describe(profile: LeadPreferences | undefined): string {
+    if (!profile) return "";
+    const money = (value: number) => value.toLocaleString("pt-BR", { style: "currency", currency: "BRL", maximumFractionDigits: 0 });
+    const list = (value: unknown) => Array.isArray(value) && value.length > 0 ? value.join(", ") : null;
+
+    const lines = [
+      profile.transactionType && `- Transação: ${profile.transactionType === "locacao" ? "locação" : "compra"}`,
+      profile.propertyType && `- Tipo de imóvel: ${profile.propertyType}`,
+      profile.city && `- Cidade: ${profile.city}`,
+      list(profile.neighborhoods) && `- Bairros: ${list(profile.neighborhoods)}`,
+      profile.budgetMin != null && `- Orçamento mínimo: ${money(profile.budgetMin)}`,
+      profile.budgetMax != null && `- Orçamento máximo: ${money(profile.budgetMax)}`,
+      profile.bedrooms != null && `- Quartos (mínimo): ${profile.bedrooms}`,
+      list(profile.amenities) && `- Comodidades indispensáveis: ${list(profile.amenities)}`,
+      profile.moveInTimeframe && `- Prazo para mudança: ${profile.moveInTimeframe}`,
+      profile.needsFinancing != null && `- Financiamento: ${profile.needsFinancing ? "precisa" : "não precisa"}`,
+      profile.financingNotes && `- Observações de financiamento: ${profile.financingNotes}`,
+    ];
+    return lines.filter(Boolean).join("\n");
+  }
+
+  // Converte e valida os argumentos da tool; valores fora do formato são ignorados
+  private parseExtraction(args: Record<string, unknown>): PreferenceValues {
+    const text = (value: unknown) => typeof value === "string" && value.trim() ? value.trim() : undefined;
+    const count = (value: unknown) => {
+      const number = Number(value);
+      return value !== null && value !== "" && Number.isFinite(number) && number >= 0 ? Math.round(number) : undefined;
+    };
+    const list = (value: unknown) => {
+      const items = Array.isArray(value) ? value.map(text).filter((item): item is string => !!item) : [];
+      return items.length > 0 ? items : undefined;
+    };
+    const transaction = text(args[TOOL_FIELDS.transactionType]);
+
+    const values: PreferenceValues = {
+      transactionType: transaction === "venda" || transaction === "locacao" ? transaction : undefined,
+      propertyType: text(args[TOOL_FIELDS.propertyType])?.toLowerCase(),
+      city: text(args[TOOL_FIELDS.city]),
+      neighborhoods: list(args[TOOL_FIELDS.neighborhoods]),
+      budgetMin: count(args[TOOL_FIELDS.budgetMin]),
+      budgetMax: count(args[TOOL_FIELDS.budgetMax]),
+      bedrooms: count(args[TOOL_FIELDS.bedrooms]),
+      amenities: list(args[TOOL_FIELDS.amenities]),
+      moveInTimeframe: text(args[TOOL_FIELDS.moveInTimeframe]),
+      needsFinancing: typeof args[TOOL_FIELDS.needsFinancing] === "boolean" ? args[TOOL_FIELDS.needsFinancing] as boolean : undefined,
+      financingNotes: text(args[TOOL_FIELDS.financingNotes]),
+    };
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as PreferenceValues;
+  }
+
+  private valuesOf(profile: LeadPreferences | undefined): PreferenceValues {
+    if (!profile) return {};
+    return Object.fromEntries(LEAD_PREFERENCE_FIELDS.map(field => [field, profile[field]])) as PreferenceValues;
+  }
+
+  private manualFields(profile: LeadPreferences | undefined): LeadPreferenceField[] {
+    return Array.isArray(profile?.manualFields) ? profile.manualFields as LeadPreferenceField[] : [];
+  }
+}
+
+export const leadPreferenceService = new LeadPreferenceService();
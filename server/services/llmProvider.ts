@@ -0,0 +1,183 @@
+import OpenAI, { toFile } from "openai";
+import type {
+  ChatCompletionMessage,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from "openai/resources/chat/completions";
+import { OPENAI_MODEL_PATTERN, type AiConfiguration } from "@shared/schema";
+
+// Provedores suportados pelos agentes. "local" é qualquer servidor compatível com a API
+// da OpenAI (Ollama, vLLM, LM Studio...) configurado pelo administrador.
+export const LLM_PROVIDERS = ["openai", "local"] as const;
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+export interface LlmChatRequest {
+  model: string;
+  messages: ChatCompletionMessageParam[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ChatCompletionTool[];
+  toolChoice?: ChatCompletionToolChoiceOption;
+}
+
+export interface LlmChatResponse {
+  message: ChatCompletionMessage;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface LlmModelInfo {
+  id: string;
+  created: number;
+  owned_by: string;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+  transcribe(audio: Buffer, fileName?: string): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>;
+  readonly embeddingModel: string;
+  listModels(): Promise<LlmModelInfo[]>;
+}
+
+interface OpenAICompatibleOptions {
+  apiKey: string;
+  baseURL?: string;
+  transcriptionModel?: string;
+  embeddingModel?: string;
+}
+
+/**
+ * Implementação baseada no SDK da OpenAI. Serve tanto para a API oficial quanto para
+ * endpoints locais que expõem as mesmas rotas (/chat/completions, /audio/transcriptions, /models).
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  private client: OpenAI;
+  private transcriptionModel: string;
+  public readonly embeddingModel: string;
+
+  constructor(public readonly name: LlmProviderName, options: OpenAICompatibleOptions) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.transcriptionModel = options.transcriptionModel || "whisper-1";
+    this.embeddingModel = options.embeddingModel || "text-embedding-3-small";
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.tools && request.tools.length > 0 ? {
+        tools: request.tools,
+        tool_choice: request.toolChoice || "auto"
+      } : {})
+    });
+
+    return {
+      message: response.choices[0].message,
+      usage: response.usage ? {
+        prompt_tokens: response.usage.prompt_tokens,
+        completion_tokens: response.usage.completion_tokens,
+        total_tokens: response.usage.total_tokens,
+      } : undefined
+    };
+  }
+
+  async transcribe(audio: Buffer, fileName: string = "audio.ogg"): Promise<string> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: await toFile(audio, fileName),
+      model: this.transcriptionModel,
+    });
+    return transcription.text;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: texts,
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  async listModels(): Promise<LlmModelInfo[]> {
+    const response = await this.client.models.list();
+    return response.data
+      // Na OpenAI mostramos apenas modelos GPT; servidores locais listam tudo que estiver carregado
+      .filter(model => this.name !== "openai" || model.id.startsWith("gpt-"))
+      .sort((a, b) => (b.created || 0) - (a.created || 0))
+      .map(model => ({
+        id: model.id,
+        created: model.created || 0,
+        owned_by: model.owned_by || this.name
+      }));
+  }
+}
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === "string" && (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Cria o provedor de LLM a partir da configuração global de IA.
+ * Lança erro se o provedor escolhido não estiver configurado.
+ */
+export function createLlmProvider(providerName: string | null | undefined, aiConfig: AiConfiguration): LlmProvider {
+  const name: LlmProviderName = isLlmProviderName(providerName) ? providerName : "openai";
+
+  if (name === "local") {
+    const baseURL = aiConfig.localBaseUrl || process.env.LOCAL_LLM_BASE_URL;
+    if (!baseURL) {
+      throw new Error("Endpoint de LLM local não configurado");
+    }
+    return new OpenAICompatibleProvider("local", {
+      baseURL,
+      // Servidores locais normalmente ignoram a chave, mas o SDK exige uma
+      apiKey: aiConfig.localApiKey || process.env.LOCAL_LLM_API_KEY || "local",
+      transcriptionModel: process.env.LOCAL_LLM_TRANSCRIPTION_MODEL,
+      embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL || "nomic-embed-text",
+    });
+  }
+
+  if (!aiConfig.apiKey) {
+    throw new Error("Chave da API OpenAI não configurada");
+  }
+  return new OpenAICompatibleProvider("openai", { apiKey: aiConfig.apiKey });
+}
+
+// Agentes criados antes do provedor local têm "gpt-4o" gravado (padrão da coluna)
+export function isOpenAIModel(modelo: string): boolean {
+  return new RegExp(OPENAI_MODEL_PATTERN, "i").test(modelo);
+}
+
+/**
+ * Modelo a usar para um agente: o modelo do próprio agente ou o padrão do provedor.
+ * No provedor local, um modelo da OpenAI gravado no agente é ignorado.
+ */
+export function resolveAgentModel(agent: { provider?: string | null; modelo?: string | null }, aiConfig: AiConfiguration): string {
+  if (agent.provider === "local") {
+    return agent.modelo && !isOpenAIModel(agent.modelo) ? agent.modelo : aiConfig.localModelo || "llama3.1";
+  }
+  return agent.modelo || aiConfig.modelo || "gpt-4o";
+}
+
+/**
+ * Monta uma mensagem de usuário com imagem (visão) no formato aceito pelos provedores.
+ */
+export function buildImageMessage(text: string, mimeType: string, base64: string): ChatCompletionMessageParam {
+  return {
+    role: "user",
+    content: [
+      { type: "text", text },
+      { type: "image_url", image_url: { url: `data:${mimeType};base64,${base64}` } }
+    ]
+  };
+}
@@ -0,0 +1,137 @@
+import fs from "fs";
+import path from "path";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { Message } from "@shared/schema";
+
+// Fora de /uploads: o diretório não é servido estaticamente, só pela rota /api/media com URL assinada
+const MEDIA_ROOT = path.join(process.cwd(), "storage", "whatsapp-media");
+const LEGACY_MEDIA_ROOT = path.join(process.cwd(), "uploads", "whatsapp");
+const LEGACY_PATH_PREFIX = "/uploads/whatsapp/";
+const MEDIA_ROUTE = "/api/media";
+const SIGNED_URL_TTL_MS = 60 * 60 * 1000;
+
+// A extensão vem sempre do tipo do arquivo, nunca do nome escolhido por quem enviou
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "audio/ogg": ".ogg",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "video/mp4": ".mp4",
+  "video/3gpp": ".3gp",
+  "application/pdf": ".pdf",
+};
+const CONTENT_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mimeType, extension]) => [extension, mimeType])
+);
+const STORAGE_KEY_PATTERN = /^[\w-]+\/[\w-]+\.[a-z0-9]+$/;
+
+export interface StoredMedia {
+  mediaPath: string;
+  mimeType: string;
+  fileName: string;
+  size: number;
+}
+
+export interface MediaFile {
+  filePath: string;
+  contentType: string;
+}
+
+/**
+ * Arquivos de mídia das conversas do WhatsApp, gravados em storage/whatsapp-media/<empresa>.
+ * O banco guarda só a chave do arquivo (media_path), nunca o base64; o painel recebe uma URL
+ * assinada e de curta duração, emitida pelas rotas autenticadas da empresa.
+ */
+export class MediaStorageService {
+  async save(companyId: string, base64: string, mimeType: string, fileName?: string | null): Promise<StoredMedia> {
+    const buffer = Buffer.from(base64.replace(/^data:[^;]+;base64,/, ""), "base64");
+    const baseMimeType = mimeType.split(";")[0].trim().toLowerCase();
+    const extension = EXTENSIONS[baseMimeType] || ".bin";
+
+    const companyDir = path.join(MEDIA_ROOT, companyId);
+    await fs.promises.mkdir(companyDir, { recursive: true });
+
+    const storedName = `${randomUUID()}${extension}`;
+    await fs.promises.writeFile(path.join(companyDir, storedName), buffer);
+
+    console.log(`💾 [MEDIA] ${baseMimeType} salvo em ${companyId}/${storedName} (${Math.round(buffer.length / 1024)} KB)`);
+    return {
+      mediaPath: `${companyId}/${storedName}`,
+      mimeType: baseMimeType,
+      fileName: fileName || storedName,
+      size: buffer.length,
+    };
+  }
+
+  // Mensagem como vai para o painel: media_path vira a URL assinada do arquivo
+  forClient(message: Message): Message {
+    if (!message.mediaPath) return message;
+    const key = this.storageKey(message.mediaPath);
+    if (!key) return { ...message, mediaPath: null };
+
+    const expires = Date.now() + SIGNED_URL_TTL_MS;
+    return { ...message, mediaPath: `${MEDIA_ROUTE}/${key}?expires=${expires}&signature=${this.sign(key, expires)}` };
+  }
+
+  /**
+   * Arquivo de uma URL assinada, ou null se a assinatura não confere, expirou ou o arquivo não existe.
+   */
+  async resolveSigned(key: string, expires: string, signature: string): Promise<MediaFile | null> {
+    const expiresAt = Number(expires);
+    if (!STORAGE_KEY_PATTERN.test(key) || !expiresAt || expiresAt < Date.now()) return null;
+
+    const expected = Buffer.from(this.sign(key, expiresAt));
+    const received = Buffer.from(String(signature || ""));
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+    const filePath = path.join(MEDIA_ROOT, key);
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      return null;
+    }
+    return { filePath, contentType: CONTENT_TYPES[path.extname(key)] || "application/octet-stream" };
+  }
+
+  /**
+   * Move os arquivos gravados em uploads/whatsapp (servido publicamente) por versões anteriores.
+   * As mensagens antigas continuam funcionando: "/uploads/whatsapp/<empresa>/<arquivo>" vira a mesma chave.
+   */
+  async migrateLegacyMedia(): Promise<void> {
+    try {
+      const companies = await fs.promises.readdir(LEGACY_MEDIA_ROOT).catch(() => [] as string[]);
+      let moved = 0;
+      for (const companyId of companies) {
+        const legacyDir = path.join(LEGACY_MEDIA_ROOT, companyId);
+        const files = await fs.promises.readdir(legacyDir).catch(() => [] as string[]);
+        if (files.length === 0) continue;
+
+        await fs.promises.mkdir(path.join(MEDIA_ROOT, companyId), { recursive: true });
+        for (const file of files) {
+          await fs.promises.rename(path.join(legacyDir, file), path.join(MEDIA_ROOT, companyId, file));
+          moved++;
+        }
+        await fs.promises.rmdir(legacyDir).catch(() => undefined);
+      }
+      if (moved > 0) {
+        console.log(`💾 [MEDIA] ${moved} arquivo(s) movido(s) de uploads/whatsapp para o armazenamento privado`);
+      }
+    } catch (error) {
+      console.error("❌ [MEDIA] Erro ao mover mídias antigas de uploads/whatsapp:", error);
+    }
+  }
+
+  private storageKey(mediaPath: string): string | null {
+    const key = mediaPath.startsWith(LEGACY_PATH_PREFIX) ? mediaPath.substring(LEGACY_PATH_PREFIX.length) : mediaPath;
+    return STORAGE_KEY_PATTERN.test(key) ? key : null;
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac("sha256", process.env.JWT_SECRET!).update(`${key}:${expires}`).digest("hex");
+  }
+}
+
+export const mediaStorageService = new MediaStorageService();
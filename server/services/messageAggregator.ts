@@ -4,30 +4,67 @@
  * Quando um usuário envia múltiplas mensagens em sequência (ex: "bom dia", "tudo bem", "quero alugar"),
  * o sistema aguarda 15 segundos após a última mensagem antes de processar.
  * Isso permite que todas as mensagens sejam agrupadas e respondidas de uma só vez.
+ *
+ * As mensagens ficam gravadas na tabela webhook_queue antes de qualquer processamento:
+ * - reenvios da Evolution API são descartados pelo evolutionMessageId
+ * - falhas são reprocessadas com backoff e, após várias tentativas, vão para dead-letter
+ * - após um reinício, as janelas de agregação são reconstruídas a partir das linhas pendentes
  */
 
+import { getStorage } from "../storage";
 import { EvolutionWebhookData } from "./whatsappWebhook";
+import { MEDIA_MESSAGE_FIELDS } from "./inboundMedia";
+import type { WebhookQueueItem } from "@shared/schema";
 
 // Tempo de espera em milissegundos (15 segundos)
 const AGGREGATION_DELAY_MS = 15000;
 
-interface PendingMessage {
-  evolutionData: EvolutionWebhookData;
-  messageText: string;
-  timestamp: number;
-  messageId: string;
-}
+// Retentativas: 30s, 60s, 120s, 240s... até MAX_ATTEMPTS
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_SECONDS = 30;
 
-interface MessageBuffer {
-  messages: PendingMessage[];
-  timer: NodeJS.Timeout | null;
-  instanceId: string;
-  phone: string;
-}
+// Varredura periódica da fila (retentativas vencidas e linhas presas em processamento)
+const SWEEP_INTERVAL_MS = 30000;
+const STALE_PROCESSING_MINUTES = 10;
+const DONE_RETENTION_DAYS = 7;
+
+export type EnqueueResult = "queued" | "duplicate";
+
+type ProcessCallback = (aggregatedData: EvolutionWebhookData) => Promise<void>;
 
 class MessageAggregatorService {
-  // Buffer de mensagens por usuário (chave: instanceId:phone)
-  private messageBuffers: Map<string, MessageBuffer> = new Map();
+  // Timers das janelas de agregação (chave: instanceId:phone ou id da mensagem de mídia)
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  // Chaves sendo processadas agora - evita responder a mesma conversa em paralelo
+  private running: Set<string> = new Set();
+  private processCallback: ProcessCallback | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private lastPurgeAt = 0;
+
+  /**
+   * Registra o processador e retoma a fila persistida (chamado uma vez na inicialização)
+   */
+  async start(processCallback: ProcessCallback): Promise<void> {
+    this.processCallback = processCallback;
+
+    try {
+      const storage = getStorage();
+      // No boot nada pode estar realmente em processamento: o que ficou assim foi interrompido
+      const released = await storage.releaseStaleWebhookEvents(0, MAX_ATTEMPTS);
+      if (released > 0) {
+        console.log(`♻️ [AGGREGATOR] ${released} mensagens interrompidas no último reinício voltaram para a fila`);
+      }
+      await this.scheduleRecoverable();
+    } catch (error) {
+      console.error(`❌ [AGGREGATOR] Erro ao recuperar fila de mensagens:`, error);
+    }
+
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => {
+        this.sweep().catch(error => console.error(`❌ [AGGREGATOR] Erro na varredura da fila:`, error));
+      }, SWEEP_INTERVAL_MS);
+    }
+  }
 
   /**
    * Gera uma chave única para identificar um usuário em uma instância
@@ -85,53 +122,44 @@ class MessageAggregatorService {
   }
 
   /**
-   * Verifica se a mensagem é de mídia (imagem ou áudio)
+   * Verifica se a mensagem é de mídia, localização ou contato
    * Mensagens de mídia são processadas imediatamente sem agregação
    */
   private isMediaMessage(evolutionData: EvolutionWebhookData): boolean {
     const message = evolutionData.data?.message;
     if (!message) return false;
 
-    return !!(message.imageMessage || (message as any).audioMessage);
+    return MEDIA_MESSAGE_FIELDS.some(field => !!(message as any)[field]);
   }
 
   /**
-   * Adiciona uma mensagem ao buffer e gerencia o timer de agregação
-   * Retorna true se a mensagem foi adicionada ao buffer (aguardar processamento)
-   * Retorna false se a mensagem deve ser processada imediatamente (mídia)
+   * Grava a mensagem na fila e agenda o processamento.
+   * Mensagens de texto aguardam a janela de agregação; mídia e mensagens sem
+   * telefone/instância/texto são processadas imediatamente (em segundo plano).
    */
-  async addMessage(
-    evolutionData: EvolutionWebhookData,
-    processCallback: (aggregatedData: EvolutionWebhookData) => Promise<void>
-  ): Promise<boolean> {
+  async enqueue(evolutionData: EvolutionWebhookData): Promise<EnqueueResult> {
     const phone = this.extractPhone(evolutionData);
     const instanceId = this.extractInstanceId(evolutionData);
-    const messageId = evolutionData.data?.key?.id || Math.random().toString(36).substr(2, 9);
-
-    if (!phone || !instanceId) {
-      console.log(`⚠️ [AGGREGATOR] Não foi possível extrair phone ou instanceId, processando imediatamente`);
-      await processCallback(evolutionData);
-      return false;
-    }
-
-    // Mensagens de mídia são processadas imediatamente
-    if (this.isMediaMessage(evolutionData)) {
-      console.log(`📸 [AGGREGATOR] Mensagem de mídia detectada, processando imediatamente`);
-      await processCallback(evolutionData);
-      return false;
-    }
-
+    const evolutionMessageId = evolutionData.data?.key?.id || null;
     const messageText = this.extractMessageText(evolutionData);
 
-    // Se não tem texto, processa imediatamente (pode ser status, etc)
-    if (!messageText.trim()) {
-      console.log(`⚠️ [AGGREGATOR] Mensagem sem texto, processando imediatamente`);
-      await processCallback(evolutionData);
-      return false;
-    }
+    const aggregate = !!phone && !!instanceId && !this.isMediaMessage(evolutionData) && !!messageText.trim();
+    const bufferKey = phone && instanceId
+      ? this.getBufferKey(instanceId, phone)
+      : `unknown:${evolutionMessageId || Date.now()}`;
+
+    const storage = getStorage();
+    const item = await storage.enqueueWebhookEvent({
+      evolutionMessageId,
+      bufferKey,
+      aggregate,
+      payload: JSON.stringify(evolutionData),
+    });
 
-    const bufferKey = this.getBufferKey(instanceId, phone);
-    const now = Date.now();
+    if (!item) {
+      console.log(`⏭️ [AGGREGATOR] Mensagem ${evolutionMessageId} já está na fila, ignorando duplicata`);
+      return "duplicate";
+    }
 
     console.log(`📥 [AGGREGATOR] Nova mensagem recebida:`);
     console.log(`   - Usuário: ${phone}`);
@@ -139,82 +167,86 @@ class MessageAggregatorService {
     console.log(`   - Texto: "${messageText}"`);
     console.log(`   - Buffer key: ${bufferKey}`);
 
-    // Verificar se já existe um buffer para este usuário
-    let buffer = this.messageBuffers.get(bufferKey);
+    if (!aggregate) {
+      console.log(`📸 [AGGREGATOR] Mensagem sem agregação (mídia ou sem texto), processando imediatamente`);
+      this.schedule(item.id, 0, () => this.processEvent(item.id));
+      return "queued";
+    }
 
-    if (buffer) {
-      // Cancelar o timer existente
-      if (buffer.timer) {
-        clearTimeout(buffer.timer);
-        console.log(`⏱️ [AGGREGATOR] Timer anterior cancelado para ${bufferKey}`);
-      }
+    // Cada nova mensagem reinicia a janela da conversa
+    this.schedule(bufferKey, AGGREGATION_DELAY_MS, () => this.processBuffer(bufferKey));
+    console.log(`⏱️ [AGGREGATOR] Timer iniciado - processamento em ${AGGREGATION_DELAY_MS / 1000} segundos`);
 
-      // Adicionar mensagem ao buffer existente
-      buffer.messages.push({
-        evolutionData,
-        messageText,
-        timestamp: now,
-        messageId
-      });
+    return "queued";
+  }
 
-      console.log(`📦 [AGGREGATOR] Mensagem adicionada ao buffer existente (${buffer.messages.length} mensagens)`);
-    } else {
-      // Criar novo buffer
-      buffer = {
-        messages: [{
-          evolutionData,
-          messageText,
-          timestamp: now,
-          messageId
-        }],
-        timer: null,
-        instanceId,
-        phone
-      };
-      this.messageBuffers.set(bufferKey, buffer);
-
-      console.log(`📦 [AGGREGATOR] Novo buffer criado para ${bufferKey}`);
+  private schedule(key: string, delayMs: number, task: () => Promise<void>): void {
+    const existing = this.timers.get(key);
+    if (existing) {
+      clearTimeout(existing);
+      console.log(`⏱️ [AGGREGATOR] Timer anterior cancelado para ${key}`);
     }
 
-    // Criar novo timer
-    buffer.timer = setTimeout(async () => {
-      await this.processBuffer(bufferKey, processCallback);
-    }, AGGREGATION_DELAY_MS);
-
-    console.log(`⏱️ [AGGREGATOR] Timer iniciado - processamento em ${AGGREGATION_DELAY_MS / 1000} segundos`);
-
-    return true;
+    this.timers.set(key, setTimeout(() => {
+      this.timers.delete(key);
+      task().catch(error => console.error(`❌ [AGGREGATOR] Erro inesperado ao processar ${key}:`, error));
+    }, Math.max(0, delayMs)));
   }
 
   /**
-   * Processa todas as mensagens acumuladas no buffer
+   * Processa todas as mensagens acumuladas para a conversa
    */
-  private async processBuffer(
-    bufferKey: string,
-    processCallback: (aggregatedData: EvolutionWebhookData) => Promise<void>
-  ): Promise<void> {
-    const buffer = this.messageBuffers.get(bufferKey);
-
-    if (!buffer || buffer.messages.length === 0) {
-      console.log(`⚠️ [AGGREGATOR] Buffer vazio ou não encontrado para ${bufferKey}`);
-      this.messageBuffers.delete(bufferKey);
+  private async processBuffer(bufferKey: string): Promise<void> {
+    if (this.running.has(bufferKey)) {
+      // Conversa ainda respondendo a um lote anterior: tenta de novo depois
+      this.schedule(bufferKey, AGGREGATION_DELAY_MS, () => this.processBuffer(bufferKey));
       return;
     }
 
-    console.log(`🔄 [AGGREGATOR] Processando buffer ${bufferKey}`);
-    console.log(`   - Total de mensagens: ${buffer.messages.length}`);
+    this.running.add(bufferKey);
+    try {
+      const items = await getStorage().claimWebhookBuffer(bufferKey);
+      if (items.length === 0) {
+        console.log(`⚠️ [AGGREGATOR] Nenhuma mensagem pendente para ${bufferKey}`);
+        return;
+      }
+
+      console.log(`🔄 [AGGREGATOR] Processando buffer ${bufferKey}`);
+      console.log(`   - Total de mensagens: ${items.length}`);
+
+      await this.runBatch(items, this.combineMessages(items));
+    } finally {
+      this.running.delete(bufferKey);
+    }
+  }
+
+  /**
+   * Processa uma mensagem isolada (mídia ou sem dados para agregação)
+   */
+  private async processEvent(id: string): Promise<void> {
+    const items = await getStorage().claimWebhookEvent(id);
+    if (items.length === 0) return;
+
+    await this.runBatch(items, JSON.parse(items[0].payload));
+  }
+
+  /**
+   * Junta os textos das mensagens do lote, usando o último payload como base
+   */
+  private combineMessages(items: WebhookQueueItem[]): EvolutionWebhookData {
+    const payloads: EvolutionWebhookData[] = items.map(item => JSON.parse(item.payload));
 
     // Combinar todas as mensagens em uma única
-    const combinedText = buffer.messages
-      .map(m => m.messageText)
+    const combinedText = payloads
+      .map(data => this.extractMessageText(data))
+      .filter(text => text.trim())
       .join("\n");
 
     console.log(`📝 [AGGREGATOR] Texto combinado:`);
     console.log(`   "${combinedText}"`);
 
     // Usar o último evolutionData como base (tem os dados mais recentes)
-    const lastMessage = buffer.messages[buffer.messages.length - 1];
-    const aggregatedData: EvolutionWebhookData = JSON.parse(JSON.stringify(lastMessage.evolutionData));
+    const aggregatedData = payloads[payloads.length - 1];
 
     // Substituir o texto da mensagem pelo texto combinado
     if (aggregatedData.data?.message) {
@@ -228,45 +260,112 @@ class MessageAggregatorService {
       }
     }
 
-    // Limpar o buffer
-    this.messageBuffers.delete(bufferKey);
+    return aggregatedData;
+  }
 
-    console.log(`✅ [AGGREGATOR] Buffer processado e removido para ${bufferKey}`);
+  private async runBatch(items: WebhookQueueItem[], data: EvolutionWebhookData): Promise<void> {
+    const storage = getStorage();
+    const batchId = items[0].batchId!;
+
+    if (!this.processCallback) {
+      await storage.failWebhookBatch(batchId, 'Processador da fila não inicializado', MAX_ATTEMPTS, RETRY_BASE_SECONDS);
+      return;
+    }
 
-    // Chamar o callback de processamento
     try {
-      await processCallback(aggregatedData);
-      console.log(`✅ [AGGREGATOR] Processamento concluído com sucesso`);
+      await this.processCallback(data);
+      await storage.completeWebhookBatch(batchId);
+      console.log(`✅ [AGGREGATOR] Processamento concluído com sucesso (lote ${batchId})`);
     } catch (error) {
-      console.error(`❌ [AGGREGATOR] Erro no processamento:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      await storage.failWebhookBatch(batchId, message, MAX_ATTEMPTS, RETRY_BASE_SECONDS);
+
+      const attempts = Math.max(...items.map(item => item.attempts));
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`💀 [AGGREGATOR] Lote ${batchId} enviado para dead-letter após ${attempts} tentativas:`, message);
+      } else {
+        console.error(`❌ [AGGREGATOR] Erro no processamento (tentativa ${attempts}/${MAX_ATTEMPTS}), nova tentativa agendada:`, message);
+      }
     }
   }
 
   /**
-   * Retorna estatísticas do agregador
+   * Agenda tudo que está pendente ou aguardando retentativa no banco.
+   * Janelas de texto terminam 15s após a última mensagem recebida da conversa.
    */
-  getStats(): { activeBuffers: number; totalPendingMessages: number } {
-    let totalPendingMessages = 0;
-    this.messageBuffers.forEach(buffer => {
-      totalPendingMessages += buffer.messages.length;
+  private async scheduleRecoverable(): Promise<void> {
+    const items = await getStorage().getRecoverableWebhookEvents();
+    const now = Date.now();
+    const dueByKey = new Map<string, { dueAt: number; task: () => Promise<void> }>();
+
+    for (const item of items) {
+      const key = item.aggregate ? item.bufferKey : item.id;
+      const dueAt = item.status === 'failed' && item.nextAttemptAt
+        ? new Date(item.nextAttemptAt).getTime()
+        : new Date(item.receivedAt || now).getTime() + (item.aggregate ? AGGREGATION_DELAY_MS : 0);
+
+      const current = dueByKey.get(key);
+      dueByKey.set(key, {
+        dueAt: current ? Math.max(current.dueAt, dueAt) : dueAt,
+        task: item.aggregate ? () => this.processBuffer(item.bufferKey) : () => this.processEvent(item.id),
+      });
+    }
+
+    dueByKey.forEach(({ dueAt, task }, key) => {
+      // Janela ainda aberta em memória: o timer atual já cobre essa conversa
+      if (this.timers.has(key) || this.running.has(key)) return;
+      this.schedule(key, dueAt - now, task);
     });
 
+    if (dueByKey.size > 0) {
+      console.log(`♻️ [AGGREGATOR] ${dueByKey.size} conversas/mensagens reagendadas a partir da fila`);
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    const storage = getStorage();
+    await storage.releaseStaleWebhookEvents(STALE_PROCESSING_MINUTES, MAX_ATTEMPTS);
+    await this.scheduleRecoverable();
+
+    // Limpeza diária das mensagens já processadas
+    if (Date.now() - this.lastPurgeAt > 24 * 60 * 60 * 1000) {
+      this.lastPurgeAt = Date.now();
+      const purged = await storage.purgeWebhookEvents(DONE_RETENTION_DAYS);
+      if (purged > 0) console.log(`🧹 [AGGREGATOR] ${purged} mensagens processadas removidas da fila`);
+    }
+  }
+
+  /**
+   * Retorna estatísticas do agregador
+   */
+  async getStats(): Promise<{ activeBuffers: number; running: number; queue: Record<string, number> }> {
     return {
-      activeBuffers: this.messageBuffers.size,
-      totalPendingMessages
+      activeBuffers: this.timers.size,
+      running: this.running.size,
+      queue: await getStorage().getWebhookQueueStats(),
     };
   }
 
   /**
-   * Limpa todos os buffers (útil para shutdown)
+   * Devolve uma mensagem em dead-letter (ou com falha) para a fila
+   */
+  async retry(id: string): Promise<boolean> {
+    const requeued = await getStorage().requeueWebhookEvent(id);
+    if (requeued) await this.scheduleRecoverable();
+    return requeued;
+  }
+
+  /**
+   * Cancela os timers em memória (útil para shutdown). As mensagens continuam na fila
+   * e são retomadas na próxima inicialização.
    */
   clearAllBuffers(): void {
-    this.messageBuffers.forEach(buffer => {
-      if (buffer.timer) {
-        clearTimeout(buffer.timer);
-      }
-    });
-    this.messageBuffers.clear();
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
     console.log(`🧹 [AGGREGATOR] Todos os buffers foram limpos`);
   }
 }
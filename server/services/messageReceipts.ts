@@ -0,0 +1,127 @@
+import { getStorage } from "../storage";
+import { inboxEventsService } from "./inboxEvents";
+import { MESSAGE_DELIVERY_STATUSES, UNDELIVERED_AFTER_MINUTES, type MessageDeliveryStatus } from "@shared/schema";
+
+export interface DeliveryReceipt {
+  evolutionMessageId: string;
+  status: MessageDeliveryStatus;
+}
+
+// Status do Baileys: a Evolution v2 manda o nome, a v1 o número (índice nesta lista)
+const EVOLUTION_STATUSES = ["ERROR", "PENDING", "SERVER_ACK", "DELIVERY_ACK", "READ", "PLAYED"];
+const STATUS_MAP: Record<string, MessageDeliveryStatus> = {
+  ERROR: "failed",
+  SERVER_ACK: "sent",
+  DELIVERY_ACK: "delivered",
+  READ: "read",
+  PLAYED: "read", // Áudio ouvido
+};
+
+// A confirmação pode chegar antes de a mensagem ser gravada (a IA grava depois de enviar tudo)
+const PENDING_RECEIPT_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Confirmações de entrega do WhatsApp (webhook MESSAGES_UPDATE): atualizam as mensagens enviadas
+ * nas conversas (IA e equipe) e os destinatários dos disparos, localizados pelo key.id da Evolution.
+ */
+export class MessageReceiptsService {
+  private pendingReceipts = new Map<string, { status: MessageDeliveryStatus; receivedAt: number }>();
+
+  async handleMessagesUpdate(payload: any): Promise<number> {
+    const receipts = this.parse(payload);
+    let applied = 0;
+
+    for (const receipt of receipts) {
+      try {
+        if (await this.apply(receipt)) {
+          applied++;
+        } else {
+          this.keepPending(receipt);
+        }
+      } catch (error) {
+        console.error(`❌ [RECEIPTS] Erro ao aplicar confirmação da mensagem ${receipt.evolutionMessageId}:`, error);
+      }
+    }
+    return applied;
+  }
+
+  // v2: data = { keyId, fromMe, status: "DELIVERY_ACK" }; v1: data = [{ key: { id, fromMe }, update: { status: 3 } }]
+  parse(payload: any): DeliveryReceipt[] {
+    const items: any[] = Array.isArray(payload?.data) ? payload.data : payload?.data ? [payload.data] : [];
+
+    return items.flatMap(item => {
+      // Confirmações das mensagens recebidas (o cliente leu o que ele mesmo mandou) não interessam
+      const fromMe = item.key?.fromMe ?? item.fromMe;
+      if (fromMe === false) return [];
+
+      const evolutionMessageId = item.keyId || item.key?.id;
+      const rawStatus = item.update?.status ?? item.status;
+      const statusName = typeof rawStatus === "number" ? EVOLUTION_STATUSES[rawStatus] : String(rawStatus || "").toUpperCase();
+      const status = STATUS_MAP[statusName];
+
+      return evolutionMessageId && status ? [{ evolutionMessageId, status }] : [];
+    });
+  }
+
+  /**
+   * Aplica uma confirmação guardada antes de a mensagem existir. Chamado logo depois de gravar
+   * uma mensagem enviada (ou o destinatário de um disparo) com o key.id da Evolution.
+   */
+  async flushPending(evolutionMessageId?: string | null): Promise<void> {
+    if (!evolutionMessageId) return;
+    const pending = this.pendingReceipts.get(evolutionMessageId);
+    if (!pending) return;
+
+    this.pendingReceipts.delete(evolutionMessageId);
+    try {
+      await this.apply({ evolutionMessageId, status: pending.status });
+    } catch (error) {
+      console.error(`❌ [RECEIPTS] Erro ao aplicar confirmação pendente da mensagem ${evolutionMessageId}:`, error);
+    }
+  }
+
+  // Status sem confirmação de entrega depois do prazo são sinalizados como "não entregue"
+  undeliveredBefore(now = new Date()): Date {
+    return new Date(now.getTime() - UNDELIVERED_AFTER_MINUTES * 60 * 1000);
+  }
+
+  // As confirmações podem chegar fora de ordem: "entregue" depois de "lida" não volta o status
+  isProgress(current: string | null | undefined, next: MessageDeliveryStatus): boolean {
+    const currentIndex = MESSAGE_DELIVERY_STATUSES.indexOf(current as MessageDeliveryStatus);
+    return MESSAGE_DELIVERY_STATUSES.indexOf(next) > currentIndex;
+  }
+
+  // Retorna false quando nenhuma mensagem ou destinatário tem esse key.id (ainda)
+  private async apply(receipt: DeliveryReceipt): Promise<boolean> {
+    const storage = getStorage();
+    const message = await storage.getMessageByEvolutionId(receipt.evolutionMessageId);
+    const recipient = await storage.getBroadcastRecipientByEvolutionId(receipt.evolutionMessageId);
+
+    if (message && this.isProgress(message.deliveryStatus, receipt.status)) {
+      const updated = await storage.updateMessageDeliveryStatus(message.id, receipt.status);
+      await inboxEventsService.notifyMessageUpdate(updated);
+    }
+    if (recipient && this.isProgress(recipient.deliveryStatus, receipt.status)) {
+      await storage.updateBroadcastRecipientDeliveryStatus(recipient.id, receipt.status);
+    }
+
+    if (message || recipient) {
+      console.log(`✔️ [RECEIPTS] ${receipt.evolutionMessageId}: ${receipt.status}`);
+    }
+    return !!(message || recipient);
+  }
+
+  private keepPending(receipt: DeliveryReceipt) {
+    const now = Date.now();
+    this.pendingReceipts.forEach((pending, id) => {
+      if (now - pending.receivedAt > PENDING_RECEIPT_TTL_MS) this.pendingReceipts.delete(id);
+    });
+
+    const current = this.pendingReceipts.get(receipt.evolutionMessageId);
+    if (!current || this.isProgress(current.status, receipt.status)) {
+      this.pendingReceipts.set(receipt.evolutionMessageId, { status: receipt.status, receivedAt: now });
+    }
+  }
+}
+
+export const messageReceiptsService = new MessageReceiptsService();
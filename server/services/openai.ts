@@ -1,4 +1,4 @@
-import OpenAI from "openai";
+import type { LlmProvider, LlmModelInfo } from "./llmProvider";
 
 interface AiResponse {
   content: string;
@@ -10,11 +10,7 @@ interface AiResponse {
 }
 
 export class OpenAiService {
-  private openai: OpenAI;
-
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({ apiKey });
-  }
+  constructor(private provider: LlmProvider) {}
 
   async generateResponse(
     prompt: string,
@@ -26,26 +22,22 @@ export class OpenAiService {
     } = {}
   ): Promise<AiResponse> {
     try {
-      const response = await this.openai.chat.completions.create({
+      const response = await this.provider.chat({
         model: options.model || "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
         messages: [
           { role: "system", content: systemMessage },
           { role: "user", content: prompt }
         ],
         temperature: options.temperature || 0.7,
-        max_tokens: options.maxTokens || 1000,
+        maxTokens: options.maxTokens || 1000,
       });
 
       return {
-        content: response.choices[0].message.content || "",
-        usage: response.usage ? {
-          prompt_tokens: response.usage.prompt_tokens,
-          completion_tokens: response.usage.completion_tokens,
-          total_tokens: response.usage.total_tokens,
-        } : undefined
+        content: response.message.content || "",
+        usage: response.usage
       };
     } catch (error) {
-      throw new Error(`OpenAI API Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`${this.errorPrefix()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -67,21 +59,15 @@ export class OpenAiService {
     return response.content;
   }
 
-  async listModels(): Promise<Array<{ id: string; created: number; owned_by: string }>> {
+  async listModels(): Promise<LlmModelInfo[]> {
     try {
-      const response = await this.openai.models.list();
-      // Filter for GPT models only
-      const models = response.data
-        .filter(model => model.id.startsWith('gpt-'))
-        .sort((a, b) => b.created - a.created)
-        .map(model => ({
-          id: model.id,
-          created: model.created,
-          owned_by: model.owned_by
-        }));
-      return models;
+      return await this.provider.listModels();
     } catch (error) {
-      throw new Error(`OpenAI API Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`${this.errorPrefix()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  private errorPrefix(): string {
+    return this.provider.name === 'local' ? 'Local LLM API Error' : 'OpenAI API Error';
+  }
 }
@@ -0,0 +1,26 @@
+/**
+ * Formatos de telefone usados no sistema. As conversas do WhatsApp gravam o número com o DDI
+ * (5511999999999); o CRM, as listas importadas e o painel nem sempre.
+ */
+export class PhoneNumberService {
+  // Números brasileiros sem o código do país recebem o 55 (formato esperado pela Evolution API)
+  toWhatsappNumber(phone: string): string {
+    const digits = (phone || "").replace(/\D/g, "");
+    return digits.length === 10 || digits.length === 11 ? `55${digits}` : digits;
+  }
+
+  // Telefone sem o DDI 55, para comparar em memória números gravados em formatos diferentes
+  key(phone: string): string {
+    const digits = (phone || "").replace(/\D/g, "");
+    return digits.startsWith("55") && digits.length > 11 ? digits.substring(2) : digits;
+  }
+
+  // Formatos em que o mesmo número pode estar gravado, para buscar no banco com IN (...)
+  variants(phone: string): string[] {
+    const digits = (phone || "").replace(/\D/g, "");
+    const local = this.key(digits);
+    return Array.from(new Set([phone, digits, local, `55${local}`].filter(Boolean)));
+  }
+}
+
+export const phoneNumberService = new PhoneNumberService();
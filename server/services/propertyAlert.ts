@@ -0,0 +1,363 @@
+import { getStorage } from "../storage";
+import { EvolutionApiService } from "./evolutionApi";
+import { customerActivityService } from "./customerActivity";
+import { phoneNumberService } from "./phoneNumber";
+import { contactOptOutService } from "./contactOptOut";
+import type { City, Property, PropertyAlert, WhatsappInstance } from "@shared/schema";
+
+export type PropertyAlertReason = "new_property" | "price_drop";
+
+// Interesses de um contato reunidos do cliente, do lead e do perfil de preferências
+interface AlertContact {
+  name: string;
+  phone: string;
+  leadId: string | null;
+  customerId: string | null;
+  city: string | null;
+  propertyType: string | null;
+  transactionType: string | null; // 'venda' | 'locacao'
+  budgetMin: number | null;
+  budgetMax: number | null;
+  optedOut: boolean;
+}
+
+// Interesses vindos do cadastro de clientes e leads
+type ContactInterestField = "leadId" | "customerId" | "city" | "propertyType" | "transactionType";
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const SEND_BATCH_SIZE = 20;
+const SEND_DELAY_MS = 3000; // Pausa entre envios para não parecer disparo em massa
+const HOUR_MS = 60 * 60 * 1000;
+const CAP_WINDOW_DAYS = 7;
+const MAX_ALERTS_PER_WINDOW = 2; // Alertas por contato dentro da janela
+const MIN_HOURS_BETWEEN_ALERTS = 24;
+const MIN_MATCHED_CRITERIA = 2; // Contatos com um único interesse informado (só a cidade, por exemplo) não recebem alertas
+
+/**
+ * Alertas de imóvel novo ou com preço reduzido para os contatos interessados. Ao cadastrar
+ * ou baixar o preço de um imóvel, os interesses de clientes e leads (cidade, tipo, transação
+ * e orçamento) são comparados com ele e cada contato compatível recebe um alerta na fila.
+ * Opt-outs e limites de frequência são respeitados, e todo match fica registrado para os corretores.
+ */
+export class PropertyAlertService {
+  private interval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  start() {
+    console.log("🔔 [PROPERTY_ALERT] Processador de alertas de imóveis iniciado");
+    this.interval = setInterval(() => this.processAlerts(), CHECK_INTERVAL_MS);
+    this.processAlerts();
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Enfileira um alerta para cada contato cujos interesses o imóvel atende. Contatos que
+   * pediram para não receber alertas ou que já atingiram o limite são registrados como ignorados.
+   */
+  async queueMatches(property: Property, reason: PropertyAlertReason, previousPrice?: string | null): Promise<number> {
+    if (property.status !== "active") return 0;
+
+    const storage = getStorage();
+    const [contacts, propertyAlerts, recentAlerts, blockedKeys] = await Promise.all([
+      this.loadContacts(property.companyId),
+      storage.getPropertyAlertsByProperty(property.id),
+      storage.getPropertyAlertsSince(property.companyId, new Date(Date.now() - CAP_WINDOW_DAYS * 24 * HOUR_MS)),
+      contactOptOutService.getBlockedKeys(property.companyId),
+    ]);
+
+    let queued = 0;
+    let skipped = 0;
+    for (const contact of contacts) {
+      const matchedCriteria = this.match(property, contact);
+      if (!matchedCriteria) continue;
+
+      // Cada contato recebe um aviso de novidade por imóvel; reduções só quando o preço fica abaixo do último avisado
+      const key = phoneNumberService.key(contact.phone);
+      const previous = propertyAlerts.filter(alert => this.counts(alert) && phoneNumberService.key(alert.phone) === key);
+      const alreadyAlerted = reason === "new_property"
+        ? previous.length > 0
+        : previous.some(alert => alert.price != null && Number(alert.price) <= Number(property.price));
+      if (alreadyAlerted) continue;
+
+      const statusReason = blockedKeys.has(phoneNumberService.key(contact.phone))
+        ? "Contato descadastrado (opt-out)"
+        : contact.optedOut
+        ? "Contato optou por não receber alertas de imóveis"
+        : this.capReason(recentAlerts.filter(alert => this.counts(alert) && phoneNumberService.key(alert.phone) === key));
+
+      const alert = await storage.createPropertyAlert({
+        companyId: property.companyId,
+        propertyId: property.id,
+        reason,
+        price: property.price ?? null,
+        previousPrice: reason === "price_drop" ? previousPrice ?? null : null,
+        name: contact.name,
+        phone: contact.phone,
+        leadId: contact.leadId,
+        customerId: contact.customerId,
+        matchedCriteria,
+        status: statusReason ? "skipped" : "pending",
+        statusReason,
+      });
+
+      if (statusReason) {
+        skipped++;
+      } else {
+        queued++;
+        recentAlerts.unshift(alert);
+      }
+    }
+
+    console.log(`🔔 [PROPERTY_ALERT] Imóvel ${property.code} (${reason}): ${queued} alerta(s) na fila, ${skipped} ignorado(s)`);
+    return queued;
+  }
+
+  private async processAlerts() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const storage = getStorage();
+      const evolutionConfig = await storage.getEvolutionApiConfiguration();
+      if (!evolutionConfig?.evolutionURL || !evolutionConfig?.evolutionToken) {
+        return;
+      }
+
+      const alerts = await storage.getPendingPropertyAlerts(SEND_BATCH_SIZE);
+      if (alerts.length === 0) return;
+      console.log(`🔔 [PROPERTY_ALERT] ${alerts.length} alerta(s) para enviar`);
+
+      const evolutionApi = new EvolutionApiService({
+        baseURL: evolutionConfig.evolutionURL,
+        token: evolutionConfig.evolutionToken
+      });
+      const baseUrl = evolutionConfig.urlGlobalSistema?.trim().replace(/\/$/, "") || null;
+
+      for (let index = 0; index < alerts.length; index++) {
+        await this.sendAlert(evolutionApi, alerts[index], baseUrl);
+        if (index < alerts.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, SEND_DELAY_MS));
+        }
+      }
+    } catch (error) {
+      console.error("❌ [PROPERTY_ALERT] Erro ao processar alertas de imóveis:", error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async sendAlert(evolutionApi: EvolutionApiService, alert: PropertyAlert, baseUrl: string | null) {
+    const storage = getStorage();
+
+    const property = await storage.getProperty(alert.propertyId);
+    if (!property || property.status !== "active") {
+      await storage.updatePropertyAlert(alert.id, { status: "skipped", statusReason: "Imóvel excluído ou desativado antes do envio" });
+      return;
+    }
+
+    // O contato pode ter pedido para sair depois que o alerta entrou na fila
+    const preferences = await storage.getLeadPreferencesByPhone(alert.companyId, phoneNumberService.variants(alert.phone));
+    if (preferences?.alertsOptOut) {
+      await storage.updatePropertyAlert(alert.id, { status: "skipped", statusReason: "Contato optou por não receber alertas de imóveis" });
+      return;
+    }
+    if (await contactOptOutService.isBlocked(alert.companyId, alert.phone)) {
+      await storage.updatePropertyAlert(alert.id, { status: "skipped", statusReason: "Contato descadastrado (opt-out)" });
+      return;
+    }
+
+    const instance = await this.getSendingInstance(alert.companyId, alert.phone);
+    if (!instance) {
+      await storage.updatePropertyAlert(alert.id, { status: "failed", statusReason: "Nenhuma instância do WhatsApp conectada" });
+      return;
+    }
+
+    // Marcado antes do envio: se o processo cair no meio, o alerta não é reenviado sozinho
+    await storage.updatePropertyAlert(alert.id, { status: "sending", instanceId: instance.id });
+
+    try {
+      const message = this.buildMessage(alert, property);
+      const number = phoneNumberService.toWhatsappNumber(alert.phone);
+      const cover = Array.isArray(property.images) && property.images.length > 0 ? property.images[0] as string : null;
+
+      const result = cover && baseUrl
+        ? await evolutionApi.sendMediaUrl(instance.name, number, `${baseUrl}${cover.startsWith("/") ? "" : "/"}${cover}`, message)
+        : await evolutionApi.sendMessage(instance.name, number, message);
+
+      await storage.updatePropertyAlert(alert.id, { status: "sent", evolutionMessageId: result?.key?.id || null, sentAt: new Date() });
+      await customerActivityService.recordForPhone(alert.companyId, alert.phone, {
+        type: "property_alert",
+        description: `Recebeu alerta de ${alert.reason === "price_drop" ? "redução de preço" : "imóvel novo"}: ${property.code} - ${property.name}`,
+        metadata: { propertyId: property.id, propertyAlertId: alert.id },
+      });
+      console.log(`✅ [PROPERTY_ALERT] Alerta do imóvel ${property.code} enviado para ${alert.phone} via ${instance.name}`);
+    } catch (error: any) {
+      console.error(`❌ [PROPERTY_ALERT] Erro ao enviar alerta para ${alert.phone}:`, error);
+      await storage.updatePropertyAlert(alert.id, { status: "failed", statusReason: error?.message || "Erro desconhecido ao enviar alerta" });
+    }
+  }
+
+  private buildMessage(alert: PropertyAlert, property: Property): string {
+    const firstName = alert.name.trim().split(/\s+/)[0] || "";
+    const location = [property.neighborhood, property.city].filter(Boolean).join(", ");
+    const details = [
+      `🏠 *${property.name}*`,
+      location && `📍 ${location}`,
+      property.price && `💰 ${this.formatPrice(property.price)}${property.transactionType === "locacao" ? "/mês" : ""}`,
+      property.bedrooms ? `🛏️ ${property.bedrooms} quarto(s)` : null,
+      `🔑 Código: *${property.code}*`,
+    ].filter(Boolean).join("\n");
+
+    const intro = alert.reason === "price_drop" && alert.previousPrice
+      ? `Boa notícia, ${firstName}! 📉 Um imóvel que combina com o que você procura baixou de preço: de ~${this.formatPrice(alert.previousPrice)}~ por *${this.formatPrice(property.price!)}*.`
+      : `Olá, ${firstName}! 👋 Acabou de entrar um imóvel que combina com o que você procura:`;
+
+    return `${intro}\n\n${details}\n\nQuer mais detalhes ou agendar uma visita? É só responder esta mensagem.`;
+  }
+
+  // Instância da última conversa com o contato; sem conversa, a primeira instância conectada da empresa
+  private async getSendingInstance(companyId: string, phone: string): Promise<WhatsappInstance | undefined> {
+    const storage = getStorage();
+    const instances = (await storage.getWhatsappInstancesByCompany(companyId)).filter(instance => instance.status === "connected");
+
+    for (const instance of instances) {
+      for (const variant of phoneNumberService.variants(phone)) {
+        if (await storage.getConversationByPhone(instance.id, variant)) return instance;
+      }
+    }
+    return instances[0];
+  }
+
+  private async loadContacts(companyId: string): Promise<AlertContact[]> {
+    const storage = getStorage();
+    const [customers, leads, preferences, cities] = await Promise.all([
+      storage.getCustomersByCompany(companyId),
+      storage.getLeadsByCompany(companyId),
+      storage.getLeadPreferencesByCompany(companyId),
+      storage.getCitiesByCompany(companyId),
+    ]);
+
+    const contacts = new Map<string, AlertContact>();
+    // Cliente e lead do mesmo telefone viram um contato só; o primeiro valor informado vale
+    const add = (phone: string, name: string, data: Partial<Pick<AlertContact, ContactInterestField>>) => {
+      const key = phoneNumberService.key(phone);
+      if (!key) return;
+      const contact = contacts.get(key) || {
+        name, phone, leadId: null, customerId: null, city: null, propertyType: null,
+        transactionType: null, budgetMin: null, budgetMax: null, optedOut: false,
+      };
+      for (const field of Object.keys(data) as ContactInterestField[]) {
+        const value = data[field];
+        if (value != null && contact[field] == null) contact[field] = value;
+      }
+      contacts.set(key, contact);
+    };
+
+    for (const customer of customers) {
+      add(customer.phone, customer.name, {
+        customerId: customer.id,
+        city: this.cityName(customer.interestedCityId, cities),
+        propertyType: customer.interestedPropertyType,
+        transactionType: this.normalizeTransaction(customer.interestedTransactionType),
+      });
+    }
+    for (const lead of leads) {
+      add(lead.phone, lead.name, {
+        leadId: lead.id,
+        city: this.cityName(lead.interestedCityId, cities),
+        propertyType: lead.interestedPropertyType,
+        transactionType: this.normalizeTransaction(lead.interestedTransactionType),
+      });
+    }
+
+    // O perfil de preferências é a fonte mais completa e prevalece sobre os campos do CRM
+    for (const profile of preferences) {
+      const contact = contacts.get(phoneNumberService.key(profile.phone));
+      if (!contact) continue;
+      contact.city = profile.city || contact.city;
+      contact.propertyType = profile.propertyType || contact.propertyType;
+      contact.transactionType = profile.transactionType || contact.transactionType;
+      contact.budgetMin = profile.budgetMin ?? null;
+      contact.budgetMax = profile.budgetMax ?? null;
+      contact.optedOut = Boolean(profile.alertsOptOut);
+    }
+
+    return Array.from(contacts.values());
+  }
+
+  // Critérios atendidos, ou null se algum interesse informado não bate com o imóvel
+  private match(property: Property, contact: AlertContact): string[] | null {
+    const criteria: string[] = [];
+
+    if (contact.city) {
+      if (this.normalize(contact.city) !== this.normalize(property.city)) return null;
+      criteria.push(`Cidade: ${property.city}`);
+    }
+    if (contact.propertyType) {
+      if (this.normalize(contact.propertyType) !== this.normalize(property.propertyType)) return null;
+      criteria.push(`Tipo: ${property.propertyType}`);
+    }
+    if (contact.transactionType) {
+      if (contact.transactionType !== property.transactionType) return null;
+      criteria.push(`Transação: ${property.transactionType === "locacao" ? "locação" : "venda"}`);
+    }
+    if (contact.budgetMin != null || contact.budgetMax != null) {
+      const price = property.price ? Number(property.price) : NaN;
+      if (!Number.isFinite(price)) return null;
+      if (contact.budgetMin != null && price < contact.budgetMin) return null;
+      if (contact.budgetMax != null && price > contact.budgetMax) return null;
+      criteria.push(`Orçamento: ${[contact.budgetMin, contact.budgetMax].map(v => v != null ? this.formatPrice(v) : "-").join(" a ")}`);
+    }
+
+    return criteria.length >= MIN_MATCHED_CRITERIA ? criteria : null;
+  }
+
+  private capReason(contactAlerts: PropertyAlert[]): string | null {
+    if (contactAlerts.length >= MAX_ALERTS_PER_WINDOW) {
+      return `Limite de ${MAX_ALERTS_PER_WINDOW} alertas em ${CAP_WINDOW_DAYS} dias atingido`;
+    }
+    const last = contactAlerts[0]?.createdAt;
+    if (last && Date.now() - new Date(last).getTime() < MIN_HOURS_BETWEEN_ALERTS * HOUR_MS) {
+      return `Contato recebeu um alerta há menos de ${MIN_HOURS_BETWEEN_ALERTS} horas`;
+    }
+    return null;
+  }
+
+  // Alertas que contam para deduplicação e limites (ignorados e falhas não contam)
+  private counts(alert: PropertyAlert): boolean {
+    return alert.status === "pending" || alert.status === "sending" || alert.status === "sent";
+  }
+
+  // interestedCityId guarda o nome da cidade (IA) ou o id do cadastro (painel)
+  private cityName(value: string | null, cities: City[]): string | null {
+    if (!value) return null;
+    return cities.find(city => city.id === value)?.name || value;
+  }
+
+  private normalizeTransaction(value: string | null | undefined): string | null {
+    const text = this.normalize(value);
+    if (/^(vend|compr)/.test(text)) return "venda";
+    if (/^(loca|alug)/.test(text)) return "locacao";
+    return null;
+  }
+
+  private formatPrice(value: string | number): string {
+    return Number(value).toLocaleString("pt-BR", { style: "currency", currency: "BRL", maximumFractionDigits: 0 });
+  }
+
+  private normalize(text: string | null | undefined): string {
+    return (text || "")
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .trim();
+  }
+}
+
+export const propertyAlertService = new PropertyAlertService();
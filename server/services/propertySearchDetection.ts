@@ -0,0 +1,188 @@
+import { getStorage } from "../storage";
+import { propertyService } from "./propertyService";
+import { DEFAULT_PROPERTY_TYPE_SYNONYMS, type PropertyTypeSynonyms } from "@shared/schema";
+
+export interface DetectedTerm {
+  value: string; // Valor cadastrado (cidade, bairro ou tipo de imóvel)
+  typed: string; // Como o cliente escreveu
+  exact: boolean; // false quando reconhecido com erro de digitação
+}
+
+export interface SearchTermsMatch {
+  propertyType: DetectedTerm | null;
+  city: DetectedTerm | null;
+  neighborhood: DetectedTerm | null;
+}
+
+export interface PropertySearchDetection {
+  isPropertySearch: boolean;
+  reason: string;
+  message: SearchTermsMatch; // Termos na mensagem atual
+  history: SearchTermsMatch; // Termos nas mensagens anteriores do cliente
+}
+
+interface VocabularyEntry {
+  term: string; // Normalizado, podendo ter mais de uma palavra
+  value: string;
+}
+
+interface Vocabulary {
+  propertyTypes: VocabularyEntry[];
+  cities: VocabularyEntry[];
+  neighborhoods: VocabularyEntry[];
+}
+
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Detecta na conversa o tipo de imóvel, a cidade e o bairro procurados usando o vocabulário
+ * de cada empresa: cidades cadastradas, cidades/bairros dos imóveis e sinônimos configurados
+ * por tipo de imóvel. A comparação ignora acentos e tolera erros de digitação.
+ */
+export class PropertySearchDetectionService {
+  private cache = new Map<string, { expiresAt: number; vocabulary: Vocabulary }>();
+
+  /**
+   * Decide se a conversa é uma busca de imóveis: palavra-chave de busca na mensagem atual,
+   * ou tipo de imóvel e localização mencionados pelo cliente (na mensagem atual ou antes).
+   */
+  async analyze(companyId: string, message: string, previousUserMessages: string[] = []): Promise<PropertySearchDetection> {
+    const current = await this.detect(companyId, message);
+    const history = previousUserMessages.length > 0
+      ? await this.detect(companyId, previousUserMessages.join(" \n "))
+      : { propertyType: null, city: null, neighborhood: null };
+
+    const propertyType = current.propertyType || history.propertyType;
+    const location = current.city || current.neighborhood || history.city || history.neighborhood;
+
+    let reason = "Nenhum tipo de imóvel e localização mencionados juntos";
+    let isPropertySearch = false;
+    if (propertyService.isPropertySearchIntent(message)) {
+      isPropertySearch = true;
+      reason = "Palavra-chave de busca na mensagem atual";
+    } else if (propertyType && location) {
+      isPropertySearch = true;
+      reason = `Tipo "${propertyType.value}" e localização "${location.value}" mencionados pelo cliente`;
+    } else if (propertyType) {
+      reason = `Tipo "${propertyType.value}" mencionado, falta a localização`;
+    } else if (location) {
+      reason = `Localização "${location.value}" mencionada, falta o tipo de imóvel`;
+    }
+
+    return { isPropertySearch, reason, message: current, history };
+  }
+
+  async detect(companyId: string, text: string): Promise<SearchTermsMatch> {
+    const vocabulary = await this.getVocabulary(companyId);
+    const words = this.normalize(text).split(" ").filter(Boolean);
+
+    return {
+      propertyType: this.findTerm(words, vocabulary.propertyTypes),
+      city: this.findTerm(words, vocabulary.cities),
+      neighborhood: this.findTerm(words, vocabulary.neighborhoods),
+    };
+  }
+
+  // Converte o que o cliente ou o modelo escreveu ("apto", "Apartamentos") no tipo cadastrado
+  async resolvePropertyType(companyId: string, text: string): Promise<string | null> {
+    return (await this.detect(companyId, text)).propertyType?.value || null;
+  }
+
+  // Descarta o vocabulário em cache (após alterar cidades ou sinônimos)
+  invalidate(companyId: string) {
+    this.cache.delete(companyId);
+  }
+
+  private async getVocabulary(companyId: string): Promise<Vocabulary> {
+    const cached = this.cache.get(companyId);
+    if (cached && cached.expiresAt > Date.now()) return cached.vocabulary;
+
+    const storage = getStorage();
+    const [company, cities, locations] = await Promise.all([
+      storage.getCompany(companyId),
+      storage.getCitiesByCompany(companyId),
+      storage.getPropertyLocations(companyId),
+    ]);
+
+    const synonyms = (company?.propertyTypeSynonyms as PropertyTypeSynonyms | null) || DEFAULT_PROPERTY_TYPE_SYNONYMS;
+    const entries = (values: string[]) => values.map(value => ({ term: this.normalize(value), value })).filter(entry => entry.term);
+
+    const vocabulary: Vocabulary = {
+      propertyTypes: Object.entries(synonyms).flatMap(([type, words]) => entries([type, ...words]).map(entry => ({ ...entry, value: type }))),
+      cities: this.unique(entries([...cities.map(city => city.name), ...locations.cities])),
+      neighborhoods: this.unique(entries(locations.neighborhoods)),
+    };
+
+    this.cache.set(companyId, { expiresAt: Date.now() + VOCABULARY_TTL_MS, vocabulary });
+    return vocabulary;
+  }
+
+  /**
+   * Procura os termos do vocabulário nas palavras do texto. Termos com mais palavras são
+   * testados primeiro ("sala comercial" antes de "sala") e o match exato vence o aproximado.
+   */
+  private findTerm(words: string[], entries: VocabularyEntry[]): DetectedTerm | null {
+    const sorted = [...entries].sort((a, b) => b.term.length - a.term.length);
+    let fuzzy: DetectedTerm | null = null;
+
+    for (const entry of sorted) {
+      const size = entry.term.split(" ").length;
+      for (let i = 0; i + size <= words.length; i++) {
+        const typed = words.slice(i, i + size).join(" ");
+        if (typed === entry.term || this.singular(typed) === entry.term) {
+          return { value: entry.value, typed, exact: true };
+        }
+        if (!fuzzy && this.isTypo(typed, entry.term)) {
+          fuzzy = { value: entry.value, typed, exact: false };
+        }
+      }
+    }
+
+    return fuzzy;
+  }
+
+  // Tolerância proporcional ao tamanho: palavras curtas ("ap", "casa") só casam exatamente
+  private isTypo(typed: string, term: string): boolean {
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 5 ? 1 : 0;
+    if (maxDistance === 0 || Math.abs(typed.length - term.length) > maxDistance) return false;
+    return this.distance(typed, term) <= maxDistance || this.distance(this.singular(typed), term) <= maxDistance;
+  }
+
+  // Distância de Levenshtein
+  private distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  private singular(word: string): string {
+    return word.length > 3 && word.endsWith("s") ? word.slice(0, -1) : word;
+  }
+
+  private unique(entries: VocabularyEntry[]): VocabularyEntry[] {
+    const seen = new Set<string>();
+    return entries.filter(entry => !seen.has(entry.term) && seen.add(entry.term));
+  }
+
+  private normalize(text: string): string {
+    return (text || "")
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9\s]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
+
+export const propertySearchDetectionService = new PropertySearchDetectionService();
@@ -1,132 +1,297 @@
 import { getStorage } from "../storage";
+import type { Property, PropertySearchFilters, PropertySearchSession } from "@shared/schema";
 
-export interface PropertySearchCriteria {
-  companyId: string;
-  transactionType?: 'venda' | 'locacao';
-  propertyType?: string;
-  bedrooms?: number;
-  minBedrooms?: number;
-  maxBedrooms?: number;
-  bathrooms?: number;
-  minBathrooms?: number;
-  maxBathrooms?: number;
-  parkingSpaces?: number;
-  minParkingSpaces?: number;
-  city?: string;
-  neighborhood?: string;
-  minPrivateArea?: number;
-  maxPrivateArea?: number;
+export interface PropertyMatch extends Property {
+  matchScore: number; // 0 a 100: quanto o imóvel atende aos critérios originais
+  matchNotes: string[]; // Diferenças em relação ao pedido ("12% acima do orçamento", "em Herval d'Oeste")
 }
 
+export interface PropertyMatchResult {
+  properties: PropertyMatch[];
+  total: number;
+  relaxed: boolean; // true quando nada atendia aos critérios exatos e estas são as alternativas mais próximas
+  relaxations: string[]; // O que foi flexibilizado, em linguagem natural, para o agente explicar ao cliente
+}
+
+export interface PropertySearchPage extends PropertyMatchResult {
+  offset: number; // Posição do primeiro imóvel da página na lista da sessão
+  remaining: number; // Resultados da sessão ainda não enviados
+  continued: boolean; // true quando é a continuação ("ver mais") da busca anterior
+}
+
+interface RelaxationStep {
+  filters: PropertySearchFilters;
+  relaxations: string[];
+  cities?: string[]; // Outras cidades da empresa a tentar no lugar da cidade pedida
+}
+
+const PRICE_RELAX_PERCENT = 20;
+const MAX_CANDIDATES = 500;
+
 export class PropertyService {
   /**
-   * Busca imóveis disponíveis da empresa baseado na mensagem do usuário
-   * Usa IA para entender a intenção do usuário e buscar imóveis apropriados
+   * Busca imóveis disponíveis da empresa baseado na mensagem do usuário,
+   * usando os critérios extraídos da mensagem no mecanismo de busca do storage
    */
   async searchPropertiesFromMessage(message: string, companyId: string): Promise<any[]> {
     console.log(`🏠 [PROPERTY] Buscando imóveis para empresa: ${companyId}`);
     console.log(`🏠 [PROPERTY] Mensagem: ${message}`);
 
-    const storage = getStorage();
+    const criteria = this.extractSearchCriteria(message);
+    console.log(`🏠 [PROPERTY] Critérios extraídos:`, criteria);
 
-    // Buscar todos os imóveis ativos da empresa
-    const allProperties = await storage.getPropertiesByCompany(companyId);
-    console.log(`🏠 [PROPERTY] Total de imóveis encontrados: ${allProperties.length}`);
+    // Limitar a 5 resultados para não sobrecarregar
+    const { properties, total } = await getStorage().searchProperties(companyId, { ...criteria, limit: 5 });
+    console.log(`🏠 [PROPERTY] Retornando ${properties.length} de ${total} imóveis`);
 
-    // Filtrar apenas imóveis ativos
-    const activeProperties = allProperties.filter(p => p.status === 'active');
-    console.log(`🏠 [PROPERTY] Imóveis ativos: ${activeProperties.length}`);
+    return properties;
+  }
 
-    if (activeProperties.length === 0) {
-      console.log(`🏠 [PROPERTY] Nenhum imóvel ativo encontrado`);
-      return [];
+  /**
+   * Converte nomes de comodidades ("piscina", "churrasqueira") nos IDs cadastrados pela empresa.
+   * A comparação ignora acentos e aceita nomes parciais; nomes sem correspondência são ignorados.
+   */
+  async resolveAmenityIds(companyId: string, names: string[]): Promise<string[]> {
+    const wanted = names.map(name => this.normalize(name)).filter(Boolean);
+    if (wanted.length === 0) return [];
+
+    const amenities = await getStorage().getAmenitiesByCompany(companyId);
+    const ids = new Set<string>();
+    for (const name of wanted) {
+      const match = amenities.find(amenity => this.normalize(amenity.name) === name)
+        || amenities.find(amenity => this.normalize(amenity.name).includes(name) || name.includes(this.normalize(amenity.name)));
+      if (match) ids.add(match.id);
     }
+    return Array.from(ids);
+  }
 
-    // Analisar a mensagem para extrair critérios de busca
-    const criteria = this.extractSearchCriteria(message);
-    console.log(`🏠 [PROPERTY] Critérios extraídos:`, criteria);
+  /**
+   * Busca com flexibilização: quando nada atende aos critérios, amplia a faixa de preço,
+   * depois dispensa o bairro e por fim tenta as outras cidades cadastradas pela empresa.
+   * Os resultados são ordenados pela nota de aderência aos critérios originais, exceto
+   * quando uma ordenação explícita é pedida.
+   */
+  async searchWithAlternatives(companyId: string, filters: PropertySearchFilters): Promise<PropertyMatchResult> {
+    const { limit = 5, offset = 0, ...criteria } = filters;
 
-    // Filtrar imóveis baseado nos critérios
-    let filteredProperties = activeProperties;
+    for (const step of await this.relaxationSteps(companyId, criteria)) {
+      const candidates = await this.fetchCandidates(companyId, step);
+      if (candidates.length === 0) continue;
 
-    // Filtrar por tipo de imóvel
-    if (criteria.propertyType) {
-      filteredProperties = filteredProperties.filter(p => p.propertyType === criteria.propertyType);
-      console.log(`🏠 [PROPERTY] Após filtro tipo imóvel (${criteria.propertyType}): ${filteredProperties.length}`);
-    }
+      const ranked = candidates.map(property => this.scoreProperty(property, criteria));
+      if (!criteria.sortBy) {
+        // sort é estável: empates mantêm a ordem do banco (mais recentes primeiro)
+        ranked.sort((a, b) => b.matchScore - a.matchScore);
+      }
 
-    // Filtrar por tipo de transação (venda/locação)
-    if (criteria.transactionType) {
-      filteredProperties = filteredProperties.filter(p => p.transactionType === criteria.transactionType);
-      console.log(`🏠 [PROPERTY] Após filtro tipo transação (${criteria.transactionType}): ${filteredProperties.length}`);
-    }
+      const relaxations = [...step.relaxations];
+      if (step.cities) {
+        const foundCities = Array.from(new Set(candidates.map(property => property.city).filter(Boolean)));
+        relaxations.push(`imóveis em cidades próximas: ${foundCities.join(", ")}`);
+      }
+      if (relaxations.length > 0) {
+        console.log(`🔀 [PROPERTY] Nenhum resultado exato; alternativas com ${relaxations.join("; ")}`);
+      }
 
-    // Filtrar por quartos
-    if (criteria.minBedrooms !== undefined) {
-      filteredProperties = filteredProperties.filter(p => (p.bedrooms || 0) >= criteria.minBedrooms!);
-    }
-    if (criteria.maxBedrooms !== undefined) {
-      filteredProperties = filteredProperties.filter(p => (p.bedrooms || 0) <= criteria.maxBedrooms!);
-    }
-    if (criteria.bedrooms !== undefined) {
-      filteredProperties = filteredProperties.filter(p => p.bedrooms === criteria.bedrooms);
+      return {
+        properties: ranked.slice(offset, offset + limit),
+        total: ranked.length,
+        relaxed: relaxations.length > 0,
+        relaxations,
+      };
     }
 
-    // Filtrar por banheiros
-    if (criteria.minBathrooms !== undefined) {
-      filteredProperties = filteredProperties.filter(p => (p.bathrooms || 0) >= criteria.minBathrooms!);
-    }
-    if (criteria.maxBathrooms !== undefined) {
-      filteredProperties = filteredProperties.filter(p => (p.bathrooms || 0) <= criteria.maxBathrooms!);
-    }
+    return { properties: [], total: 0, relaxed: false, relaxations: [] };
+  }
+
+  /**
+   * Nova busca da conversa: guarda os critérios e a lista ordenada de resultados para que o
+   * "ver mais" continue exatamente de onde a página anterior parou. Substitui a sessão anterior.
+   * `requested` são só os filtros pedidos pelo cliente, usados depois pelo isSameSearch.
+   */
+  async startSearchSession(conversationId: string, companyId: string, filters: PropertySearchFilters, requested: PropertySearchFilters = filters): Promise<PropertySearchPage> {
+    const { limit = 5, offset: _offset, ...criteria } = filters;
+    const { limit: _limit, offset: _requestedOffset, ...requestedCriteria } = requested;
+    const result = await this.searchWithAlternatives(companyId, { ...criteria, limit: MAX_CANDIDATES });
+    const page = result.properties.slice(0, limit);
+
+    await getStorage().savePropertySearchSession({
+      conversationId,
+      companyId,
+      criteria,
+      requestedCriteria,
+      resultIds: result.properties.map(property => property.id),
+      cursor: page.length,
+      relaxations: result.relaxations,
+    });
+
+    return { ...result, properties: page, offset: 0, remaining: result.properties.length - page.length, continued: false };
+  }
+
+  // Próxima página da sessão; imóveis desativados desde a busca são pulados
+  async continueSearchSession(session: PropertySearchSession, limit: number = 5): Promise<PropertySearchPage> {
+    const storage = getStorage();
+    const ids = (session.resultIds as string[]) || [];
+    const criteria = (session.criteria as PropertySearchFilters) || {};
+    const relaxations = (session.relaxations as string[] | null) || [];
+    const nextIds = ids.slice(session.cursor, session.cursor + limit);
+
+    const properties = (await storage.getPropertiesByIds(session.companyId, nextIds))
+      .filter(property => property.status === "active");
+    const cursor = session.cursor + nextIds.length;
+    await storage.updatePropertySearchSessionCursor(session.conversationId, cursor);
+
+    return {
+      properties: properties.map(property => this.scoreProperty(property, criteria)),
+      total: ids.length,
+      relaxed: relaxations.length > 0,
+      relaxations,
+      offset: session.cursor,
+      remaining: ids.length - cursor,
+      continued: true,
+    };
+  }
 
-    // Filtrar por vagas de garagem
-    if (criteria.minParkingSpaces !== undefined) {
-      filteredProperties = filteredProperties.filter(p => (p.parkingSpaces || 0) >= criteria.minParkingSpaces!);
+  /**
+   * Os filtros pedidos pelo cliente descrevem a mesma busca da sessão? Filtros ausentes são ignorados,
+   * já que no "ver mais" o agente nem sempre repete todos os parâmetros. A comparação não usa os
+   * padrões do perfil: o perfil pode ter mudado entre uma página e outra.
+   */
+  isSameSearch(session: PropertySearchSession, filters: PropertySearchFilters): boolean {
+    const previous = ((session.requestedCriteria ?? session.criteria) as PropertySearchFilters) || {};
+    const comparable = (value: unknown) =>
+      Array.isArray(value) ? JSON.stringify([...value].sort()) : typeof value === "string" ? this.normalize(value) : JSON.stringify(value);
+
+    return (Object.keys(filters) as Array<keyof PropertySearchFilters>)
+      .filter(key => key !== "limit" && key !== "offset" && filters[key] !== undefined && filters[key] !== null)
+      .every(key => comparable(filters[key]) === comparable(previous[key]));
+  }
+
+  /**
+   * Nota de 0 a 100 do imóvel em relação aos critérios pedidos: preço (30), localização (30),
+   * quartos/banheiros/vagas (20), área (10) e qualidade do anúncio (10).
+   */
+  scoreProperty(property: Property, criteria: PropertySearchFilters): PropertyMatch {
+    const notes: string[] = [];
+    let score = 0;
+
+    // Preço: perde 1 ponto por ponto percentual fora da faixa
+    const price = property.price ? Number(property.price) : null;
+    let priceScore = 30;
+    if (price !== null && criteria.priceMax && price > criteria.priceMax) {
+      const percent = Math.round(((price - criteria.priceMax) / criteria.priceMax) * 100);
+      priceScore = Math.max(0, 30 - percent);
+      notes.push(`${percent}% acima do orçamento`);
+    } else if (price !== null && criteria.priceMin && price < criteria.priceMin) {
+      const percent = Math.round(((criteria.priceMin - price) / criteria.priceMin) * 100);
+      priceScore = Math.max(0, 30 - percent);
+      notes.push(`${percent}% abaixo do valor mínimo`);
+    } else if (price === null && (criteria.priceMin || criteria.priceMax)) {
+      priceScore = 15;
+      notes.push("valor sob consulta");
     }
+    score += priceScore;
+
+    // Localização
+    const sameCity = !criteria.city || this.normalize(property.city || "").includes(this.normalize(criteria.city));
+    const sameNeighborhood = !criteria.neighborhood || this.normalize(property.neighborhood || "").includes(this.normalize(criteria.neighborhood));
+    score += (sameCity ? 15 : 0) + (sameCity && sameNeighborhood ? 15 : 0);
+    if (!sameCity) notes.push(`em ${property.city}`);
+    else if (!sameNeighborhood) notes.push(`no bairro ${property.neighborhood || "não informado"}`);
+
+    // Cômodos: proporção dos requisitos atendidos
+    const roomChecks = [
+      [criteria.bedrooms, property.bedrooms, "eq"],
+      [criteria.minBedrooms, property.bedrooms, "min"],
+      [criteria.maxBedrooms, property.bedrooms, "max"],
+      [criteria.bathrooms, property.bathrooms, "eq"],
+      [criteria.minBathrooms, property.bathrooms, "min"],
+      [criteria.maxBathrooms, property.bathrooms, "max"],
+      [criteria.parkingSpaces, property.parkingSpaces, "eq"],
+      [criteria.minParkingSpaces, property.parkingSpaces, "min"],
+    ].filter(([wanted]) => wanted !== undefined && wanted !== null) as Array<[number, number | null, "eq" | "min" | "max"]>;
+    const roomsMet = roomChecks.filter(([wanted, actual, kind]) => {
+      const value = actual || 0;
+      return kind === "eq" ? value === wanted : kind === "min" ? value >= wanted : value <= wanted;
+    }).length;
+    score += roomChecks.length > 0 ? Math.round((roomsMet / roomChecks.length) * 20) : 20;
+
+    // Área privativa
+    const area = Number(property.privateArea) || 0;
+    const areaOk = (!criteria.minPrivateArea || area >= criteria.minPrivateArea) && (!criteria.maxPrivateArea || area <= criteria.maxPrivateArea);
+    score += areaOk ? 10 : 5;
+    if (!areaOk) notes.push(`${area}m² de área privativa`);
+
+    // Anúncios completos primeiro
+    const images = Array.isArray(property.images) ? property.images : [];
+    score += (images.length > 0 ? 5 : 0) + (property.description ? 5 : 0);
+
+    return { ...property, matchScore: score, matchNotes: notes };
+  }
 
-    // Filtrar por cidade
-    if (criteria.city) {
-      filteredProperties = filteredProperties.filter(p =>
-        p.city?.toLowerCase().includes(criteria.city!.toLowerCase())
-      );
+  // Passos cumulativos: cada etapa mantém as flexibilizações anteriores
+  private async relaxationSteps(companyId: string, criteria: PropertySearchFilters): Promise<RelaxationStep[]> {
+    const steps: RelaxationStep[] = [{ filters: criteria, relaxations: [] }];
+    let current = { ...criteria };
+    const relaxations: string[] = [];
+
+    if (criteria.priceMin || criteria.priceMax) {
+      current = {
+        ...current,
+        priceMin: criteria.priceMin ? Math.floor(criteria.priceMin * (1 - PRICE_RELAX_PERCENT / 100)) : undefined,
+        priceMax: criteria.priceMax ? Math.ceil(criteria.priceMax * (1 + PRICE_RELAX_PERCENT / 100)) : undefined,
+      };
+      relaxations.push(`faixa de preço ampliada em ${PRICE_RELAX_PERCENT}% (${this.describePriceRange(current)})`);
+      steps.push({ filters: current, relaxations: [...relaxations] });
     }
 
-    // Filtrar por bairro
     if (criteria.neighborhood) {
-      filteredProperties = filteredProperties.filter(p =>
-        p.neighborhood?.toLowerCase().includes(criteria.neighborhood!.toLowerCase())
-      );
+      current = { ...current, neighborhood: undefined };
+      relaxations.push(`outros bairros além de ${criteria.neighborhood}`);
+      steps.push({ filters: current, relaxations: [...relaxations] });
     }
 
-    // Filtrar por área privativa
-    if (criteria.minPrivateArea !== undefined) {
-      filteredProperties = filteredProperties.filter(p =>
-        parseFloat(p.privateArea?.toString() || '0') >= criteria.minPrivateArea!
-      );
-    }
-    if (criteria.maxPrivateArea !== undefined) {
-      filteredProperties = filteredProperties.filter(p =>
-        parseFloat(p.privateArea?.toString() || '0') <= criteria.maxPrivateArea!
-      );
+    if (criteria.city) {
+      const requested = this.normalize(criteria.city);
+      const cities = (await getStorage().getCitiesByCompany(companyId))
+        .map(city => city.name)
+        .filter(name => !this.normalize(name).includes(requested) && !requested.includes(this.normalize(name)));
+      if (cities.length > 0) {
+        steps.push({ filters: { ...current, city: undefined }, relaxations: [...relaxations], cities });
+      }
     }
 
-    console.log(`🏠 [PROPERTY] Imóveis após todos os filtros: ${filteredProperties.length}`);
+    return steps;
+  }
 
-    // Limitar a 5 resultados para não sobrecarregar
-    const limitedProperties = filteredProperties.slice(0, 5);
+  private async fetchCandidates(companyId: string, step: RelaxationStep): Promise<Property[]> {
+    const storage = getStorage();
+    const filters = { ...step.filters, limit: MAX_CANDIDATES, offset: 0 };
+    if (!step.cities) {
+      return (await storage.searchProperties(companyId, filters)).properties;
+    }
 
-    console.log(`🏠 [PROPERTY] Retornando ${limitedProperties.length} imóveis`);
+    const properties: Property[] = [];
+    for (const city of step.cities) {
+      const { properties: found } = await storage.searchProperties(companyId, { ...filters, city });
+      properties.push(...found.filter(property => !properties.some(existing => existing.id === property.id)));
+    }
+    return properties;
+  }
 
-    return limitedProperties;
+  private describePriceRange(filters: PropertySearchFilters): string {
+    const format = (value: number) => value.toLocaleString("pt-BR", { style: "currency", currency: "BRL", maximumFractionDigits: 0 });
+    if (filters.priceMin && filters.priceMax) return `de ${format(filters.priceMin)} a ${format(filters.priceMax)}`;
+    if (filters.priceMax) return `até ${format(filters.priceMax)}`;
+    return `a partir de ${format(filters.priceMin!)}`;
   }
 
   /**
    * Extrai critérios de busca da mensagem do usuário usando análise de palavras-chave
    */
-  private extractSearchCriteria(message: string): PropertySearchCriteria {
+  private extractSearchCriteria(message: string): PropertySearchFilters {
     const messageLower = message.toLowerCase();
-    const criteria: any = {};
+    const criteria: PropertySearchFilters = {};
 
     // Detectar tipo de imóvel
     if (messageLower.includes('apartamento') || messageLower.includes('apto') ||
@@ -269,6 +434,10 @@ export class PropertyService {
 
     return propertyKeywords.some(keyword => messageLower.includes(keyword));
   }
+
+  private normalize(text: string): string {
+    return (text || "").toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim();
+  }
 }
 
 export const propertyService = new PropertyService();
@@ -1,34 +1,33 @@
 import { getStorage } from "../storage";
 import { EvolutionApiService } from "./evolutionApi";
+import { audienceSegmentService } from "./audienceSegment";
+import { BroadcastPersonalizer } from "./broadcastPersonalization";
+import { customerActivityService } from "./customerActivity";
+import { contactOptOutService } from "./contactOptOut";
+import { phoneNumberService } from "./phoneNumber";
+import { sendingWindowService } from "./sendingWindow";
+import { messageReceiptsService } from "./messageReceipts";
 import { ScheduledMessage } from "@shared/schema";
 
 class ScheduledMessageProcessor {
   private processingInterval: NodeJS.Timeout | null = null;
-  private timeoutCheckInterval: NodeJS.Timeout | null = null;
   private isProcessing = false;
+  private activeMessages = new Set<string>();
   private evolutionApiService: EvolutionApiService | null = null;
 
   start() {
     console.log("🚀🚀🚀 SCHEDULED MESSAGE PROCESSOR STARTED AT", new Date().toISOString());
     console.log("⏰ Will check for messages every 30 seconds");
-    console.log("🔍 Will check for stuck messages every 5 minutes");
     
-    // Check for pending messages every 30 seconds
+    // Check for pending and interrupted messages every 30 seconds
     this.processingInterval = setInterval(() => {
       console.log("⏰ [Processor] Checking for scheduled messages at", new Date().toISOString());
       this.processScheduledMessages();
     }, 30000); // 30 seconds
 
-    // Check for stuck messages every 5 minutes
-    this.timeoutCheckInterval = setInterval(() => {
-      console.log("🔍 [Processor] Checking for stuck messages at", new Date().toISOString());
-      this.checkStuckMessages();
-    }, 300000); // 5 minutes
-
     // Process immediately on start
     console.log("🏃 [Processor] Running initial check...");
     this.processScheduledMessages();
-    this.checkStuckMessages();
   }
 
   stop() {
@@ -36,37 +35,6 @@ class ScheduledMessageProcessor {
       clearInterval(this.processingInterval);
       this.processingInterval = null;
     }
-    if (this.timeoutCheckInterval) {
-      clearInterval(this.timeoutCheckInterval);
-      this.timeoutCheckInterval = null;
-    }
-  }
-
-  private async checkStuckMessages() {
-    try {
-      const storage = getStorage();
-      
-      // Get all messages that have been processing for more than 30 minutes
-      const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
-      
-      // This is a simplified version - you might need to add a method to storage
-      // to get messages by status and started time
-      const messages = await storage.getScheduledMessagesByStatus('processing');
-      
-      for (const message of messages) {
-        if (message.startedAt && new Date(message.startedAt) < thirtyMinutesAgo) {
-          console.log(`⚠️ Message ${message.id} stuck in processing for over 30 minutes, marking as failed`);
-          
-          await storage.updateScheduledMessage(message.id, {
-            status: 'failed',
-            completedAt: new Date(),
-            errorMessage: 'Processamento travado - timeout após 30 minutos'
-          });
-        }
-      }
-    } catch (error) {
-      console.error("Error checking stuck messages:", error);
-    }
   }
 
   private async processScheduledMessages() {
@@ -82,23 +50,35 @@ class ScheduledMessageProcessor {
       const storage = getStorage();
       await storage.init(); // Ensure storage is initialized
       
+      // Disparos em "processing" que não estão rodando neste processo: envios imediatos ainda não
+      // iniciados ou campanhas interrompidas por um restart. Continuam dos destinatários não enviados.
+      // Campanhas pausadas (fora da janela ou no limite diário) esperam até paused_until.
+      const processingMessages = await storage.getScheduledMessagesByStatus('processing');
+      const interruptedMessages = processingMessages.filter(m =>
+        !this.activeMessages.has(m.id) && !(m.pausedUntil && new Date(m.pausedUntil) > new Date())
+      );
+      if (interruptedMessages.length > 0) {
+        console.log(`🔁 [Processor] Resuming ${interruptedMessages.length} message(s) left in processing`);
+      }
+
       const pendingMessages = await storage.getPendingScheduledMessages();
       console.log(`📊 [Processor] Query returned ${pendingMessages.length} pending messages`);
 
-      if (pendingMessages.length === 0) {
+      const messagesToProcess = [...interruptedMessages, ...pendingMessages];
+      if (messagesToProcess.length === 0) {
         console.log("😴 [Processor] No pending messages found");
         return;
       }
 
-      console.log(`📨 Found ${pendingMessages.length} messages to process:`, 
-        pendingMessages.map(m => ({ 
+      console.log(`📨 Found ${messagesToProcess.length} messages to process:`, 
+        messagesToProcess.map(m => ({ 
           id: m.id, 
           status: m.status, 
           scheduledDateTime: m.scheduledDateTime 
         }))
       );
 
-      for (const message of pendingMessages) {
+      for (const message of messagesToProcess) {
         await this.processSingleMessage(message);
       }
     } catch (error) {
@@ -128,183 +108,299 @@ class ScheduledMessageProcessor {
 
   private async processSingleMessage(message: ScheduledMessage) {
     const storage = getStorage();
+
+    // Evita processar o mesmo disparo duas vezes (ex: force-process durante o ciclo normal)
+    if (this.activeMessages.has(message.id)) {
+      console.log(`⏳ Message ${message.id} is already being processed, skipping`);
+      return;
+    }
+    this.activeMessages.add(message.id);
     
     try {
-      console.log(`📤 Processing message ${message.id}`);
+      const isResume = message.status === 'processing';
+      console.log(`📤 ${isResume ? 'Resuming' : 'Processing'} message ${message.id}`);
       
       // Get Evolution API service
       const evolutionApiService = await this.getEvolutionApiService();
       
-      // Mark as processing
-      await storage.updateScheduledMessage(message.id, {
-        status: 'processing',
-        startedAt: new Date()
-      });
+      // Mark as processing (keeps the original start time when resuming)
+      await storage.updateScheduledMessage(message.id, isResume
+        ? { status: 'processing', pausedUntil: null, pauseReason: null }
+        : { status: 'processing', startedAt: new Date() }
+      );
 
-      // Get contact list
-      const contactList = await storage.getContactList(message.contactListId);
-      if (!contactList) {
-        throw new Error("Lista de contatos não encontrada");
-      }
+      // Os destinatários são gravados na primeira execução; depois disso o disparo continua a partir deles
+      const existingRecipients = await storage.getBroadcastRecipients(message.id);
+      // Números descadastrados (opt-out) nunca entram no disparo
+      const blockedKeys = existingRecipients.length === 0 ? await contactOptOutService.getBlockedKeys(message.companyId) : new Set<string>();
+      const isAllowed = (phone: string) => !blockedKeys.has(phoneNumberService.key(phone));
+
+      if (existingRecipients.length === 0 && message.audienceType === 'segment') {
+        // Segmento do CRM: resolvido agora, com os leads/clientes atuais
+        const filters = audienceSegmentService.parseFilters(message.segmentFilters);
+        const resolved = await audienceSegmentService.resolve(message.companyId, filters);
+        const contacts = resolved.filter(contact => isAllowed(contact.phone));
+        console.log(`🎯 Segment resolved to ${contacts.length} contacts (${resolved.length - contacts.length} opted out)`);
+
+        if (contacts.length === 0) {
+          throw new Error("Nenhum contato encontrado no segmento");
+        }
 
-      // Get contact list items
-      const contacts = await storage.getContactListItems(message.contactListId);
-      console.log(`📋 Found ${contacts.length} total contacts for list ${message.contactListId}`);
-      
-      const validContacts = contacts.filter(c => c.valid);
-      console.log(`✅ ${validContacts.length} valid contacts to process`);
+        await storage.createBroadcastRecipients(contacts.map(contact => ({
+          scheduledMessageId: message.id,
+          companyId: message.companyId,
+          contactListItemId: null,
+          name: contact.name,
+          phone: contact.phone,
+        })));
+        await storage.updateScheduledMessage(message.id, { totalMessages: contacts.length });
+      } else if (existingRecipients.length === 0) {
+        // Get contact list
+        const contactList = message.contactListId ? await storage.getContactList(message.contactListId) : undefined;
+        if (!contactList) {
+          throw new Error("Lista de contatos não encontrada");
+        }
 
-      if (validContacts.length === 0) {
-        throw new Error("Nenhum contato válido na lista");
-      }
+        // Get contact list items
+        const contacts = await storage.getContactListItems(contactList.id);
+        console.log(`📋 Found ${contacts.length} total contacts for list ${message.contactListId}`);
+        
+        const validContacts = contacts.filter(c => c.valid && isAllowed(c.phone));
+        console.log(`✅ ${validContacts.length} valid contacts to process`);
 
-      // Get instances
-      const instances = await storage.getWhatsappInstancesByIds(message.instanceIds);
-      console.log(`📋 Retrieved ${instances.length} instances:`, instances.map(i => ({ 
-        id: i.id, 
-        name: i.name, 
-        status: i.status, 
-        evolutionId: i.evolutionId 
-      })));
-      
-      const connectedInstances = instances.filter(i => i.status === 'connected');
-      console.log(`🟢 ${connectedInstances.length} connected instances:`, connectedInstances.map(i => ({ 
-        id: i.id, 
-        name: i.name, 
-        evolutionId: i.evolutionId 
-      })));
-
-      if (connectedInstances.length === 0) {
-        throw new Error("Nenhuma instância conectada disponível");
+        if (validContacts.length === 0) {
+          throw new Error("Nenhum contato válido na lista");
+        }
+
+        await storage.createBroadcastRecipients(validContacts.map(contact => ({
+          scheduledMessageId: message.id,
+          companyId: message.companyId,
+          contactListItemId: contact.id,
+          name: contact.name,
+          phone: contact.phone,
+        })));
+        await storage.updateScheduledMessage(message.id, { totalMessages: validContacts.length });
+      } else {
+        // Envio em andamento quando o processo caiu: não sabemos se chegou, então não reenviamos sozinhos
+        const interrupted = await storage.failInterruptedBroadcastRecipients(
+          message.id,
+          'Envio interrompido antes da confirmação - verifique antes de reenviar'
+        );
+        if (interrupted > 0) {
+          console.log(`⚠️ ${interrupted} recipient(s) of message ${message.id} were interrupted mid-send, marked as failed`);
+        }
       }
 
-      let sentCount = 0;
-      let failedCount = 0;
-      let currentInstanceIndex = 0;
+      const recipients = await storage.getBroadcastRecipients(message.id, 'pending');
+      console.log(`📋 ${recipients.length} pending recipients for message ${message.id}`);
+
+      if (recipients.length > 0) {
+        // Get instances
+        const instances = await storage.getWhatsappInstancesByIds(message.instanceIds);
+        console.log(`📋 Retrieved ${instances.length} instances:`, instances.map(i => ({ 
+          id: i.id, 
+          name: i.name, 
+          status: i.status, 
+          evolutionId: i.evolutionId 
+        })));
+        
+        const connectedInstances = instances.filter(i => i.status === 'connected');
+        console.log(`🟢 ${connectedInstances.length} connected instances:`, connectedInstances.map(i => ({ 
+          id: i.id, 
+          name: i.name, 
+          evolutionId: i.evolutionId 
+        })));
+
+        if (connectedInstances.length === 0) {
+          throw new Error("Nenhuma instância conectada disponível");
+        }
 
-      console.log(`🚀 Starting to process ${validContacts.length} contacts...`);
-      
-      // Process each contact
-      for (const contact of validContacts) {
-        console.log(`📱 Processing contact ${sentCount + 1}/${validContacts.length}: ${contact.phone}`);
-        try {
-          // Select instance (random or round-robin)
-          let selectedInstance;
-          if (message.useMultipleInstances && message.randomizeInstances) {
-            const randomIndex = Math.floor(Math.random() * connectedInstances.length);
-            selectedInstance = connectedInstances[randomIndex];
-            console.log(`🎲 Selected random instance ${randomIndex}: ${selectedInstance.name} (${selectedInstance.evolutionId})`);
-          } else if (message.useMultipleInstances) {
-            const instanceIndex = currentInstanceIndex % connectedInstances.length;
-            selectedInstance = connectedInstances[instanceIndex];
-            console.log(`🔄 Selected round-robin instance ${instanceIndex}: ${selectedInstance.name} (${selectedInstance.evolutionId})`);
-            currentInstanceIndex++;
-          } else {
-            selectedInstance = connectedInstances[0];
-            console.log(`🎯 Selected single instance: ${selectedInstance.name} (${selectedInstance.evolutionId})`);
+        let currentInstanceIndex = 0;
+
+        // Janela de envio e limites diários usam o fuso da empresa
+        const company = await storage.getCompany(message.companyId);
+        const timezone = sendingWindowService.resolveTimezone(company?.timezone);
+        let countsSince = sendingWindowService.startOfDay(timezone);
+        let sentToday = await storage.getBroadcastSentCountsByInstance(connectedInstances.map(i => i.id), countsSince);
+
+        // Variáveis ({{nome}}...) e spintax são resolvidas por destinatário, inclusive nas legendas
+        const textTemplates: string[] = message.messageType === 'text' && message.useMultipleMessages && message.messages
+          ? (message.messages as string[])
+          : [message.messageContent];
+        const personalizer = new BroadcastPersonalizer(message.companyId);
+        const needsVariables = personalizer.needsVariables(textTemplates);
+
+        console.log(`🚀 Starting to process ${recipients.length} recipients...`);
+        
+        // Process each recipient
+        for (let index = 0; index < recipients.length; index++) {
+          const recipient = recipients[index];
+
+          // Cancelado ou concluído manualmente pelo painel
+          const current = await storage.getScheduledMessage(message.id);
+          if (!current || current.status !== 'processing') {
+            console.log(`🛑 Message ${message.id} is now ${current?.status || 'deleted'}, stopping`);
+            return;
           }
-          
-          if (!selectedInstance || !selectedInstance.evolutionId) {
-            console.error(`❌ Selected instance is invalid:`, selectedInstance);
-            throw new Error(`Instância selecionada é inválida: ${selectedInstance?.name || 'unknown'}`);
+
+          // Fora da janela de envio: pausa e continua quando ela abrir
+          if (!sendingWindowService.isOpen(message, timezone)) {
+            await this.pause(message.id, sendingWindowService.nextOpening(message, timezone), 'Fora da janela de envio');
+            return;
           }
 
-          // Format phone number (remove non-digits and add country code if needed)
-          let phoneNumber = contact.phone.replace(/\D/g, '');
-          if (!phoneNumber.startsWith('55')) {
-            phoneNumber = '55' + phoneNumber;
+          // Virada do dia durante o disparo: os limites diários recomeçam
+          const dayStart = sendingWindowService.startOfDay(timezone);
+          if (dayStart.getTime() !== countsSince.getTime()) {
+            countsSince = dayStart;
+            sentToday = await storage.getBroadcastSentCountsByInstance(connectedInstances.map(i => i.id), countsSince);
           }
 
-          // Send message based on type
-          console.log(`📨 Sending ${message.messageType} message to ${phoneNumber} via instance ${selectedInstance.evolutionId}`);
-          
-          if (message.messageType === 'text') {
-            const messages = message.useMultipleMessages && message.messages 
-              ? message.messages 
-              : [message.messageContent];
+          // Instâncias que ainda não atingiram o limite do dia (campanha ou aquecimento)
+          const availableInstances = connectedInstances.filter(instance => {
+            const limit = sendingWindowService.dailyLimit(message, instance);
+            return limit === null || (sentToday[instance.id] || 0) < limit;
+          });
+          if (availableInstances.length === 0) {
+            const resumeAt = sendingWindowService.nextOpening(message, timezone, sendingWindowService.startOfNextDay(timezone));
+            await this.pause(message.id, resumeAt, 'Limite diário de envios das instâncias atingido');
+            return;
+          }
+
+          console.log(`📱 Processing recipient ${index + 1}/${recipients.length}: ${recipient.phone}`);
+
+          // O contato pode ter pedido para sair depois que os destinatários foram gravados
+          if (await contactOptOutService.isBlocked(message.companyId, recipient.phone)) {
+            console.log(`🚫 ${recipient.phone} opted out, skipping`);
+            await storage.markBroadcastRecipientSkipped(recipient.id, 'Contato descadastrado (opt-out)');
+            await this.syncProgress(message.id);
+            continue;
+          }
+
+          try {
+            // Select instance (random or round-robin)
+            let selectedInstance;
+            if (message.useMultipleInstances && message.randomizeInstances) {
+              const randomIndex = Math.floor(Math.random() * availableInstances.length);
+              selectedInstance = availableInstances[randomIndex];
+              console.log(`🎲 Selected random instance ${randomIndex}: ${selectedInstance.name} (${selectedInstance.evolutionId})`);
+            } else if (message.useMultipleInstances) {
+              const instanceIndex = currentInstanceIndex % availableInstances.length;
+              selectedInstance = availableInstances[instanceIndex];
+              console.log(`🔄 Selected round-robin instance ${instanceIndex}: ${selectedInstance.name} (${selectedInstance.evolutionId})`);
+              currentInstanceIndex++;
+            } else {
+              selectedInstance = availableInstances[0];
+              console.log(`🎯 Selected single instance: ${selectedInstance.name} (${selectedInstance.evolutionId})`);
+            }
+            
+            if (!selectedInstance || !selectedInstance.evolutionId) {
+              console.error(`❌ Selected instance is invalid:`, selectedInstance);
+              throw new Error(`Instância selecionada é inválida: ${selectedInstance?.name || 'unknown'}`);
+            }
+
+            await storage.startBroadcastRecipientAttempt(recipient.id, selectedInstance.id, selectedInstance.name);
 
-            console.log(`📝 Sending ${messages.length} text message(s)`);
+            const variables = needsVariables ? await personalizer.variablesFor(recipient) : {};
+
+            // Format phone number (only digits, with the country code)
+            const phoneNumber = phoneNumberService.toWhatsappNumber(recipient.phone);
+
+            // Send message based on type
+            console.log(`📨 Sending ${message.messageType} message to ${phoneNumber} via instance ${selectedInstance.evolutionId}`);
             
-            for (const textMessage of messages) {
-              console.log(`📤 Sending text: "${textMessage.substring(0, 50)}..."`);
-              await evolutionApiService.sendTextMessage(
+            let result: any = null;
+            if (message.messageType === 'text') {
+              const messages = textTemplates.map(template => personalizer.render(template, variables));
+
+              console.log(`📝 Sending ${messages.length} text message(s)`);
+              
+              for (const textMessage of messages) {
+                console.log(`📤 Sending text: "${textMessage.substring(0, 50)}..."`);
+                const sent = await evolutionApiService.sendTextMessage(
+                  selectedInstance.evolutionId,
+                  phoneNumber,
+                  textMessage
+                );
+                // As confirmações acompanham o primeiro texto, o primeiro que o contato vê
+                result = result || sent;
+                console.log(`✅ Text message sent successfully`);
+                
+                // Wait between messages
+                if (messages.length > 1) {
+                  await this.delay(2000); // 2 seconds between multiple messages to same contact
+                }
+              }
+            } else if (message.messageType === 'image' && message.fileBase64) {
+              result = await evolutionApiService.sendImageMessage(
                 selectedInstance.evolutionId,
                 phoneNumber,
-                textMessage
+                message.fileBase64,
+                personalizer.render(message.messageContent, variables) // caption
+              );
+            } else if (message.messageType === 'audio' && message.fileBase64) {
+              result = await evolutionApiService.sendAudioMessage(
+                selectedInstance.evolutionId,
+                phoneNumber,
+                message.fileBase64
+              );
+            } else if (message.messageType === 'video' && message.fileBase64) {
+              result = await evolutionApiService.sendVideoMessage(
+                selectedInstance.evolutionId,
+                phoneNumber,
+                message.fileBase64,
+                personalizer.render(message.messageContent, variables) // caption
               );
-              console.log(`✅ Text message sent successfully`);
-              
-              // Wait between messages
-              if (messages.length > 1) {
-                await this.delay(2000); // 2 seconds between multiple messages to same contact
-              }
             }
-          } else if (message.messageType === 'image' && message.fileBase64) {
-            await evolutionApiService.sendImageMessage(
-              selectedInstance.evolutionId,
-              phoneNumber,
-              message.fileBase64,
-              message.messageContent // caption
-            );
-          } else if (message.messageType === 'audio' && message.fileBase64) {
-            await evolutionApiService.sendAudioMessage(
-              selectedInstance.evolutionId,
-              phoneNumber,
-              message.fileBase64
-            );
-          } else if (message.messageType === 'video' && message.fileBase64) {
-            await evolutionApiService.sendVideoMessage(
-              selectedInstance.evolutionId,
-              phoneNumber,
-              message.fileBase64,
-              message.messageContent // caption
-            );
-          }
 
-          sentCount++;
-          console.log(`✅ Sent message ${sentCount}/${validContacts.length} to ${contact.phone}`);
+            await storage.markBroadcastRecipientSent(recipient.id, result?.key?.id || null);
+            await messageReceiptsService.flushPending(result?.key?.id);
+            sentToday[selectedInstance.id] = (sentToday[selectedInstance.id] || 0) + 1;
+            await customerActivityService.recordForPhone(message.companyId, recipient.phone, {
+              type: 'broadcast',
+              description: `Recebeu disparo agendado (${message.messageType})`,
+              metadata: { scheduledMessageId: message.id },
+            });
+            console.log(`✅ Sent message ${index + 1}/${recipients.length} to ${recipient.phone}`);
+
+            // Update progress
+            const counts = await this.syncProgress(message.id);
+            console.log(`📊 Updated progress: ${counts.sent} sent, ${counts.failed} failed`);
+
+            // Random delay between contacts (skip delay for last contact)
+            if (index < recipients.length - 1) {
+              const delayMs = this.getRandomDelay(message.intervalMin, message.intervalMax);
+              console.log(`⏱️ Waiting ${delayMs}ms before next message`);
+              await this.delay(delayMs);
+            }
 
-          // Update progress
-          await storage.updateScheduledMessage(message.id, {
-            sentMessages: sentCount,
-            failedMessages: failedCount
-          });
-          console.log(`📊 Updated progress: ${sentCount} sent, ${failedCount} failed`);
+          } catch (error: any) {
+            console.error(`❌ Failed to send to ${recipient.phone}:`, error);
+            console.error(`❌ Error details:`, {
+              message: error.message,
+              stack: error.stack,
+              response: error.response
+            });
 
-          // Random delay between contacts (skip delay for last contact)
-          if (sentCount + failedCount < validContacts.length) {
-            const delayMs = this.getRandomDelay(message.intervalMin, message.intervalMax);
-            console.log(`⏱️ Waiting ${delayMs}ms before next message`);
-            await this.delay(delayMs);
+            await storage.markBroadcastRecipientFailed(recipient.id, error.message || 'Erro desconhecido ao enviar mensagem');
+            
+            // Update failed count immediately
+            await this.syncProgress(message.id);
           }
-
-        } catch (error: any) {
-          console.error(`❌ Failed to send to ${contact.phone}:`, error);
-          console.error(`❌ Error details:`, {
-            message: error.message,
-            stack: error.stack,
-            response: error.response
-          });
-          failedCount++;
-          
-          // Update failed count immediately
-          await storage.updateScheduledMessage(message.id, {
-            sentMessages: sentCount,
-            failedMessages: failedCount
-          });
         }
       }
 
       // Mark as completed
       console.log(`🎯 Marking message ${message.id} as completed...`);
+      const counts = await storage.getBroadcastRecipientCounts(message.id);
       await storage.updateScheduledMessage(message.id, {
         status: 'completed',
         completedAt: new Date(),
-        sentMessages: sentCount,
-        failedMessages: failedCount
+        sentMessages: counts.sent,
+        failedMessages: counts.failed
       });
 
-      console.log(`✅ Message ${message.id} completed: ${sentCount} sent, ${failedCount} failed`);
+      console.log(`✅ Message ${message.id} completed: ${counts.sent} sent, ${counts.failed} failed, ${counts.skipped} opted out`);
 
     } catch (error: any) {
       console.error(`❌ Failed to process message ${message.id}:`, error);
@@ -314,9 +410,26 @@ class ScheduledMessageProcessor {
         completedAt: new Date(),
         errorMessage: error.message || 'Erro desconhecido ao processar mensagem'
       });
+    } finally {
+      this.activeMessages.delete(message.id);
     }
   }
 
+  private async syncProgress(messageId: string): Promise<Record<string, number>> {
+    const storage = getStorage();
+    const counts = await storage.getBroadcastRecipientCounts(messageId);
+    await storage.updateScheduledMessage(messageId, {
+      sentMessages: counts.sent,
+      failedMessages: counts.failed
+    });
+    return counts;
+  }
+
+  private async pause(messageId: string, until: Date, reason: string) {
+    console.log(`⏸️ Message ${messageId} paused until ${until.toISOString()}: ${reason}`);
+    await getStorage().updateScheduledMessage(messageId, { pausedUntil: until, pauseReason: reason });
+  }
+
   private getRandomDelay(minSeconds: number, maxSeconds: number): number {
     const min = minSeconds * 1000;
     const max = maxSeconds * 1000;
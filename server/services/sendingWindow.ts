@@ -0,0 +1,146 @@
+import {
+  BROADCAST_WARMUP_PROFILE,
+  DEFAULT_COMPANY_TIMEZONE,
+  type ScheduledMessage,
+  type WhatsappInstance,
+} from "@shared/schema";
+
+type WindowSettings = Pick<ScheduledMessage, "sendWindowStart" | "sendWindowEnd" | "sendWeekdays">;
+type LimitSettings = Pick<ScheduledMessage, "dailyLimitPerInstance" | "warmupEnabled">;
+
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number; // 0 = domingo
+  minutes: number; // Minutos desde a meia-noite
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Regras de ritmo dos disparos: janela de horários e dias da semana no fuso da empresa,
+ * limite diário de envios por instância e aquecimento de números recém-conectados.
+ */
+export class SendingWindowService {
+  // Fuso inválido ou não configurado cai no padrão, para não travar a campanha
+  resolveTimezone(timezone?: string | null): string {
+    if (!timezone) return DEFAULT_COMPANY_TIMEZONE;
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+      return timezone;
+    } catch {
+      return DEFAULT_COMPANY_TIMEZONE;
+    }
+  }
+
+  // "19/10/2026 às 14h05" no fuso da empresa (o servidor pode rodar em UTC)
+  formatDateTime(date: Date, timezone?: string | null): string {
+    const local = this.localTime(date, this.resolveTimezone(timezone));
+    const pad = (value: number) => value.toString().padStart(2, "0");
+    const hours = Math.floor(local.minutes / 60);
+    return `${pad(local.day)}/${pad(local.month)}/${local.year} às ${hours}h${pad(local.minutes % 60)}`;
+  }
+
+  // Sem horários nem dias configurados, o envio é livre
+  isOpen(settings: WindowSettings, timezone: string, now = new Date()): boolean {
+    const local = this.localTime(now, timezone);
+    if (!this.allowsWeekday(settings, local.weekday)) return false;
+
+    const range = this.range(settings);
+    return !range || (local.minutes >= range.start && local.minutes < range.end);
+  }
+
+  // Próximo momento permitido a partir de `from` (o próprio `from` se a janela estiver aberta)
+  nextOpening(settings: WindowSettings, timezone: string, from = new Date()): Date {
+    if (this.isOpen(settings, timezone, from)) return from;
+
+    const local = this.localTime(from, timezone);
+    const opensAt = this.range(settings)?.start ?? 0;
+    for (let offset = 0; offset <= 7; offset++) {
+      const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+      if (!this.allowsWeekday(settings, day.getUTCDay())) continue;
+
+      const opening = this.zonedDate(day, opensAt, timezone);
+      if (opening > from) return opening;
+    }
+    return new Date(from.getTime() + DAY_MS);
+  }
+
+  startOfDay(timezone: string, now = new Date()): Date {
+    const local = this.localTime(now, timezone);
+    return this.zonedDate(new Date(Date.UTC(local.year, local.month - 1, local.day)), 0, timezone);
+  }
+
+  startOfNextDay(timezone: string, now = new Date()): Date {
+    const local = this.localTime(now, timezone);
+    return this.zonedDate(new Date(Date.UTC(local.year, local.month - 1, local.day + 1)), 0, timezone);
+  }
+
+  // Limite de envios da instância hoje: o menor entre o da campanha e o do aquecimento (null = sem limite)
+  dailyLimit(settings: LimitSettings, instance: Pick<WhatsappInstance, "firstConnectedAt">, now = new Date()): number | null {
+    const limits = [
+      settings.dailyLimitPerInstance ?? null,
+      settings.warmupEnabled === false ? null : this.warmupLimit(instance, now),
+    ].filter((limit): limit is number => limit !== null);
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  // Dia 1 = dia da primeira conexão; depois do último degrau do perfil o aquecimento termina
+  warmupLimit(instance: Pick<WhatsappInstance, "firstConnectedAt">, now = new Date()): number | null {
+    const connectedAt = instance.firstConnectedAt ? new Date(instance.firstConnectedAt).getTime() : now.getTime();
+    const day = Math.floor(Math.max(0, now.getTime() - connectedAt) / DAY_MS) + 1;
+    const step = BROADCAST_WARMUP_PROFILE.find(step => day <= step.untilDay);
+    return step ? step.dailyLimit : null;
+  }
+
+  private range(settings: WindowSettings): { start: number; end: number } | null {
+    if (!settings.sendWindowStart || !settings.sendWindowEnd) return null;
+    return { start: this.toMinutes(settings.sendWindowStart), end: this.toMinutes(settings.sendWindowEnd) };
+  }
+
+  private allowsWeekday(settings: WindowSettings, weekday: number): boolean {
+    const weekdays = Array.isArray(settings.sendWeekdays) ? settings.sendWeekdays as number[] : null;
+    return !weekdays || weekdays.length === 0 || weekdays.includes(weekday);
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+
+  private localTime(date: Date, timezone: string): LocalTime {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+      }).formatToParts(date).map(part => [part.type, part.value])
+    );
+    const year = Number(parts.year);
+    const month = Number(parts.month);
+    const day = Number(parts.day);
+
+    return {
+      year,
+      month,
+      day,
+      weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+  }
+
+  // Converte "dia `day` às `minutes`" no fuso da empresa para o instante correspondente
+  private zonedDate(day: Date, minutes: number, timezone: string): Date {
+    const guess = day.getTime() + minutes * 60 * 1000;
+    const local = this.localTime(new Date(guess), timezone);
+    const offset = Date.UTC(local.year, local.month - 1, local.day) + local.minutes * 60 * 1000 - guess;
+    return new Date(guess - offset);
+  }
+}
+
+export const sendingWindowService = new SendingWindowService();
@@ -0,0 +1,97 @@
+import { getStorage } from "../storage";
+import { EvolutionApiService } from "./evolutionApi";
+import { conversationControlService } from "./conversationControl";
+import { inboxEventsService } from "./inboxEvents";
+import { mediaStorageService } from "./mediaStorage";
+import { messageReceiptsService } from "./messageReceipts";
+import type { Conversation, InboxReply, Message, WhatsappInstance } from "@shared/schema";
+
+const DEFAULT_MIME: Record<"image" | "audio" | "video", string> = {
+  image: "image/jpeg",
+  audio: "audio/mpeg",
+  video: "video/mp4",
+};
+
+const MEDIA_PREVIEW: Record<"image" | "audio" | "video", string> = {
+  image: "📷 Imagem",
+  audio: "🎤 Áudio",
+  video: "🎬 Vídeo",
+};
+
+/**
+ * Respostas da equipe pela caixa de entrada: envia pelo WhatsApp da instância da conversa,
+ * grava no histórico como mensagem do corretor e pausa a IA, como numa resposta pelo celular.
+ */
+export class TeamInboxService {
+  async sendReply(conversation: Conversation, instance: WhatsappInstance, reply: InboxReply, userId: string): Promise<Message[]> {
+    const storage = getStorage();
+    const evolutionConfig = await storage.getEvolutionApiConfiguration();
+    if (!evolutionConfig) {
+      throw new Error("Configuração da Evolution API não encontrada");
+    }
+
+    const evolutionApi = new EvolutionApiService({
+      baseURL: evolutionConfig.evolutionURL,
+      token: evolutionConfig.evolutionToken
+    });
+    const instanceName = instance.evolutionInstanceId || instance.name;
+    const number = conversation.contactPhone;
+    const content = reply.content?.trim() || "";
+    const sent: Message[] = [];
+
+    if (reply.media) {
+      const mimeType = reply.media.base64.match(/^data:([^;]+);base64,/)?.[1] || DEFAULT_MIME[reply.media.mediaType];
+      const mediaBase64 = reply.media.base64.replace(/^data:[^;]+;base64,/, "");
+      // Áudio não tem legenda no WhatsApp: o texto segue em uma mensagem separada
+      const caption = reply.media.mediaType === "audio" ? "" : content;
+
+      const result = await evolutionApi.sendMedia(instanceName, number, {
+        mediaBase64,
+        fileName: reply.media.fileName,
+        mediaType: reply.media.mediaType,
+        caption,
+      });
+      // No histórico fica só a referência do arquivo salvo, não o base64
+      const stored = instance.companyId
+        ? await mediaStorageService.save(instance.companyId, mediaBase64, mimeType, reply.media.fileName)
+        : null;
+      sent.push(await storage.createMessage({
+        conversationId: conversation.id,
+        content: caption || MEDIA_PREVIEW[reply.media.mediaType],
+        sender: "agent",
+        userId,
+        messageType: reply.media.mediaType,
+        evolutionMessageId: result?.key?.id || null,
+        deliveryStatus: result?.key?.id ? "sent" : null,
+        mediaPath: stored?.mediaPath || null,
+        mimeType,
+        fileName: reply.media.fileName,
+        caption: caption || null,
+      }));
+    }
+
+    if (content && (!reply.media || reply.media.mediaType === "audio")) {
+      const result = await evolutionApi.sendMessage(instanceName, number, content);
+      sent.push(await storage.createMessage({
+        conversationId: conversation.id,
+        content,
+        sender: "agent",
+        userId,
+        messageType: "text",
+        evolutionMessageId: result?.key?.id || null,
+        deliveryStatus: result?.key?.id ? "sent" : null,
+      }));
+    }
+
+    await conversationControlService.markHumanActivity(conversation, sent[sent.length - 1].content, new Date(), userId);
+    for (const message of sent) {
+      await inboxEventsService.notify(conversation.id, message);
+      await messageReceiptsService.flushPending(message.evolutionMessageId);
+    }
+
+    console.log(`💬 [INBOX] ${sent.length} mensagem(ns) enviada(s) para ${number} via ${instance.name} pelo usuário ${userId}`);
+    return sent;
+  }
+}
+
+export const teamInboxService = new TeamInboxService();
@@ -1,6 +1,10 @@
 import { Request, Response } from "express";
 import { AIService } from "./aiService";
-import { EvolutionApiService } from "./evolutionApi";
+import { EvolutionApiService, isOutboundEcho } from "./evolutionApi";
+import { conversationControlService } from "./conversationControl";
+import { appointmentReminderService } from "./appointmentReminder";
+import { contactOptOutService } from "./contactOptOut";
+import { inboundMediaService, SUPPORTED_MESSAGE_TYPES } from "./inboundMedia";
 import { getStorage } from "../storage";
 import { WhatsappInstance } from "@shared/schema";
 import { propertyService } from "./propertyService";
@@ -179,6 +183,8 @@ export class WhatsAppWebhookService {
   async handleEvolutionMessage(evolutionData: EvolutionWebhookData): Promise<void> {
     const messageId = Math.random().toString(36).substr(2, 9);
     const startTime = Date.now();
+    // Depois que a resposta começou a ser enviada, um erro não deve gerar nova tentativa (resposta duplicada)
+    let replyStarted = false;
 
     try {
       console.log(`📨 [MSG-${messageId}] ========================================`);
@@ -238,185 +244,41 @@ export class WhatsAppWebhookService {
       console.log("🔍 [MESSAGE DEBUG] data.message keys:", Object.keys(data.message));
       console.log("🔍 [MESSAGE DEBUG] data.message:", JSON.stringify(data.message, null, 2));
       
-      // Verificar tipos de mensagem
-      const imageMessage = data.message.imageMessage;
-      const audioMessage = data.message.audioMessage;
-      const isImageMessage = !!imageMessage;
-      const isAudioMessage = !!audioMessage;
-      
-      console.log(`🔍 [MESSAGE DEBUG] imageMessage found: ${!!imageMessage}`);
-      console.log(`🔍 [MESSAGE DEBUG] audioMessage found: ${!!audioMessage}`);
-      console.log(`🔍 [MESSAGE DEBUG] isImageMessage: ${isImageMessage}`);
-      console.log(`🔍 [MESSAGE DEBUG] isAudioMessage: ${isAudioMessage}`);
-      
-      // DEBUG EXTRA para áudio
-      if (isAudioMessage) {
-        console.log(`🎤🎤🎤 [AUDIO DEBUG] DETECTADO ÁUDIO!!!`);
-        console.log(`🎤 [AUDIO DEBUG] audioMessage:`, JSON.stringify(audioMessage, null, 2));
-      } else {
-        console.log(`❌ [AUDIO DEBUG] Não é áudio - messageType: ${data.messageType}`);
-        console.log(`❌ [AUDIO DEBUG] data.message keys:`, Object.keys(data.message));
+      // Texto, mídia (imagem, áudio, vídeo, documento, figurinha), localização ou contato compartilhado
+      let inbound = inboundMediaService.parse(evolutionData);
+      if (!inbound) {
+        console.log("❌ No supported content found in Evolution message");
+        return;
       }
-      
-      // Extrair o conteúdo da mensagem (texto ou legenda da imagem)
-      let messageText = data.message.conversation || data.message.extendedTextMessage?.text;
-      let caption: string | undefined;
-      let mediaUrl: string | undefined;
-      let mediaBase64: string | undefined;
-      let mimeType: string | undefined;
-
-      if (isImageMessage) {
-        console.log("🖼️ Detected image message");
-        console.log("🖼️ Image message data:", JSON.stringify(imageMessage, null, 2));
-        caption = imageMessage.caption;
-        mediaUrl = imageMessage.url;
-        messageText = caption || "Imagem enviada";
-        
-        console.log(`🖼️ Extracted media URL: ${mediaUrl}`);
-        console.log(`🖼️ Caption: ${caption}`);
-        
-        // PROCURAR BASE64 EM TODOS OS LOCAIS POSSÍVEIS!
-        const evolutionMessage = evolutionData.data as any;
-        console.log(`🔍 [BASE64 SEARCH] Full evolutionData structure:`, JSON.stringify(evolutionData, null, 2));
-        
-        // Tentar diferentes locais onde o base64 pode estar
-        let foundBase64: string | undefined;
-        
-        if (evolutionMessage.message?.base64) {
-          foundBase64 = evolutionMessage.message.base64;
-          console.log(`🎯 Found base64 at evolutionMessage.message.base64`);
-        } else if (evolutionMessage.base64) {
-          foundBase64 = evolutionMessage.base64;
-          console.log(`🎯 Found base64 at evolutionMessage.base64`);
-        } else if ((imageMessage as any)?.base64) {
-          foundBase64 = (imageMessage as any).base64;
-          console.log(`🎯 Found base64 at imageMessage.base64`);
-        } else {
-          console.log(`❌ No base64 found in any expected location`);
-        }
-        
-        if (foundBase64) {
-          console.log(`🎯 USING EXISTING BASE64 from Evolution API!`);
-          mediaBase64 = foundBase64;
-          
+
+      console.log(`🔍 [MESSAGE DEBUG] messageType: ${inbound.messageType}, base64 no webhook: ${!!inbound.mediaBase64}`);
+
+      if (inbound.messageType === 'image') {
+        console.log(`🖼️ Detected image message - media URL: ${inbound.mediaUrl}, caption: ${inbound.caption}`);
+
+        if (inbound.mediaBase64) {
           // Detectar tipo de imagem pelo base64
-          const buffer = Buffer.from(foundBase64, 'base64');
+          const buffer = Buffer.from(inbound.mediaBase64, 'base64');
           const imageType = this.detectImageType(buffer.buffer);
-          mimeType = `image/${imageType}`;
-          
-          console.log(`🎯 Evolution API base64 ready: type=${imageType}, base64 length=${foundBase64.length}`);
-        } else if (mediaUrl) {
-          console.log(`🖼️ No base64 in message, trying to download from: ${mediaUrl}`);
-          const imageData = await this.downloadImageAsBase64(mediaUrl, data.instanceId);
+          inbound.mimeType = `image/${imageType}`;
+          console.log(`🎯 Evolution API base64 ready: type=${imageType}, base64 length=${inbound.mediaBase64.length}`);
+        } else if (inbound.mediaUrl) {
+          console.log(`🖼️ No base64 in message, trying to download from: ${inbound.mediaUrl}`);
+          const imageData = await this.downloadImageAsBase64(inbound.mediaUrl, data.instanceId);
           console.log(`🖼️ Download result:`, imageData ? 'SUCCESS' : 'FAILED');
           if (imageData) {
-            mediaBase64 = imageData.base64;
-            mimeType = imageData.mimeType;
-            console.log(`🖼️ Final image data: type=${mimeType}, base64 length=${mediaBase64.length}`);
-          } else {
-            console.log(`🖼️ Failed to download/process image`);
+            inbound.mediaBase64 = imageData.base64;
+            inbound.mimeType = imageData.mimeType;
           }
-        } else {
-          console.log(`🖼️ No base64 or media URL found in image message`);
-        }
-      } else if (isAudioMessage) {
-        console.log("🎤 Detected audio message");
-        console.log("🎤 Audio message data:", JSON.stringify(audioMessage, null, 2));
-        messageText = "Áudio enviado";
-        
-        // PROCURAR BASE64 DE ÁUDIO!
-        const evolutionMessage = evolutionData.data as any;
-        console.log(`🔍 [AUDIO BASE64 SEARCH] Searching for audio base64...`);
-        
-        let foundAudioBase64: string | undefined;
-        
-        if (evolutionMessage.message?.base64) {
-          foundAudioBase64 = evolutionMessage.message.base64;
-          console.log(`🎯 Found audio base64 at evolutionMessage.message.base64`);
-        } else if (evolutionMessage.base64) {
-          foundAudioBase64 = evolutionMessage.base64;
-          console.log(`🎯 Found audio base64 at evolutionMessage.base64`);
-        } else if ((audioMessage as any)?.base64) {
-          foundAudioBase64 = (audioMessage as any).base64;
-          console.log(`🎯 Found audio base64 at audioMessage.base64`);
-        } else {
-          console.log(`❌ No audio base64 found in any expected location`);
-        }
-        
-        if (foundAudioBase64) {
-          console.log(`🎯 USING EXISTING AUDIO BASE64 from Evolution API!`);
-          mediaBase64 = foundAudioBase64;
-          mimeType = 'audio/ogg'; // Default para WhatsApp
-          
-          console.log(`🎯 Evolution API audio base64 ready: base64 length=${foundAudioBase64.length}`);
-        } else {
-          console.log(`🎤 No audio base64 found`);
         }
       }
 
-      if (!messageText) {
-        console.log("❌ No text content or image found in Evolution message");
-        return;
-      }
+      const messageText = inbound.text;
 
       // Extrair o número do remetente CORRETO da mensagem
-      // Primeiro verificar se é formato LID (Linked ID) que não é número real
       const remoteJid = (evolutionData.data as any).key?.remoteJid || '';
-      const remoteJidAlt = (evolutionData.data as any).key?.remoteJidAlt || '';
       const isLidFormat = remoteJid.endsWith('@lid');
-
-      console.log(`📞 [PHONE DEBUG] remoteJid: ${remoteJid}`);
-      console.log(`📞 [PHONE DEBUG] remoteJidAlt: ${remoteJidAlt}`);
-      console.log(`📞 [PHONE DEBUG] isLidFormat: ${isLidFormat}`);
-
-      let senderPhone: string | undefined;
-
-      if (isLidFormat) {
-        // LID não é número real - usar remoteJidAlt que contém o número real
-        console.log(`⚠️ [LID] Detectado formato LID - buscando número real...`);
-
-        // Primeiro tentar remoteJidAlt (campo principal para número real em LID)
-        if (remoteJidAlt && remoteJidAlt.includes('@s.whatsapp.net')) {
-          senderPhone = remoteJidAlt.replace(/@s\.whatsapp\.net$/g, '');
-          console.log(`✅ [LID] Número real encontrado em remoteJidAlt: ${senderPhone}`);
-        } else {
-          // Fallback: tentar outros campos
-          const evolutionMessage = evolutionData.data as any;
-
-          // Campos possíveis para o número real
-          const possiblePhoneFields = [
-            evolutionMessage.key?.participant?.replace(/@s\.whatsapp\.net$/g, ''),
-            evolutionMessage.participant?.replace(/@s\.whatsapp\.net$/g, ''),
-            (evolutionData as any).phone,
-            (evolutionData as any).from?.replace(/@s\.whatsapp\.net$/g, ''),
-            evolutionMessage.from?.replace(/@s\.whatsapp\.net$/g, ''),
-          ];
-
-          console.log(`📞 [LID DEBUG] Possíveis campos de telefone:`, JSON.stringify(possiblePhoneFields, null, 2));
-
-          // Encontrar o primeiro número válido (que parece um telefone brasileiro)
-          for (const field of possiblePhoneFields) {
-            if (field) {
-              const cleanPhone = String(field).replace(/\D/g, '');
-              // Verificar se parece um telefone válido (10-13 dígitos)
-              if (cleanPhone.length >= 10 && cleanPhone.length <= 13) {
-                senderPhone = cleanPhone;
-                console.log(`✅ [LID] Número real encontrado em campo alternativo: ${senderPhone}`);
-                break;
-              }
-            }
-          }
-
-          // Se não encontrou número real, usar o LID mesmo (vai ficar no log)
-          if (!senderPhone) {
-            console.log(`❌ [LID] Não foi possível encontrar número real - usando LID como fallback`);
-            senderPhone = remoteJid.replace(/@lid$/g, '');
-          }
-        }
-      } else {
-        // Formato normal - extrair número do remoteJid
-        senderPhone = remoteJid.replace(/@s\.whatsapp\.net$/g, '');
-      }
+      const senderPhone = this.extractEvolutionPhone(evolutionData);
 
       if (!senderPhone) {
         console.log("❌ Could not extract sender phone from Evolution message");
@@ -448,37 +310,7 @@ export class WhatsAppWebhookService {
       console.log(`🔍 About to search for instance ID: ${data.instanceId}`);
       const storage = getStorage();
 
-      // Priorizar o nome da instância (deploy1) ao invés do UUID
-      let searchId = evolutionData.instance || data.instanceId;
-      console.log(`🔍 [MSG-${messageId}] Using instance name for search: ${searchId}`);
-
-      // Primeiro tentar buscar pelo evolutionInstanceId
-      let dbInstance = await storage.getWhatsappInstanceByEvolutionId(searchId);
-
-      // Se não encontrou, tentar buscar pelo nome
-      if (!dbInstance) {
-        console.log(`⚠️ No instance found with evolutionInstanceId: ${searchId}, trying by name...`);
-
-        // Buscar todas as empresas e suas instâncias
-        const companies = await storage.getAllCompanies();
-        for (const company of companies) {
-          const instances = await storage.getWhatsappInstancesByCompany(company.id);
-
-          // Tentar encontrar pelo nome da instância (deploy1) ou evolutionInstanceId
-          const found = instances.find(i =>
-            i.name === searchId ||
-            i.evolutionInstanceId === searchId ||
-            i.name === evolutionData.instance ||  // Usar o nome que vem do Evolution
-            i.evolutionInstanceId === data.instanceId
-          );
-
-          if (found) {
-            dbInstance = found;
-            console.log(`✅ Found instance by fallback: ${found.name}`);
-            break;
-          }
-        }
-      }
+      const dbInstance = await this.findDatabaseInstance(evolutionData);
 
       if (!dbInstance) {
         console.log(`❌ Could not find instance for ID: ${data.instanceId}`);
@@ -491,23 +323,55 @@ export class WhatsAppWebhookService {
 
       console.log(`📱 Processing Evolution message from ${senderPhone} to instance ${instanceName}: "${messageText}"`);
 
+      // Mídia vai para o disco; no banco fica só a referência (e o texto, no caso de PDFs)
+      inbound = await inboundMediaService.store(dbInstance, evolutionData, inbound);
+
+      // Pedido de descadastro ("sair", "parar") ou resposta a um lembrete de visita ("confirmo" / "não posso"):
+      // registra e responde sem passar pela IA
+      if (inbound.messageType === 'text' && dbInstance.companyId) {
+        const optOutReply = await contactOptOutService.handleInbound(dbInstance.companyId, senderPhone, messageText, pushName);
+        const directReply = optOutReply || await appointmentReminderService.handleReply(dbInstance.companyId, senderPhone, messageText);
+        if (directReply) {
+          replyStarted = true;
+          const replyMessageId = await this.sendResponse(instanceName, senderPhone, directReply, messageText, dbInstance.companyId);
+
+          const mainAgents = await storage.getMainAgentsByCompany(dbInstance.companyId);
+          await new AIService().saveConversation(
+            instanceName,
+            senderPhone,
+            messageText,
+            directReply,
+            mainAgents[0]?.id || 'unknown',
+            { messageType: 'text', pushName },
+            replyMessageId
+          );
+          console.log(`✅ [MSG-${messageId}] ${optOutReply ? 'Pedido de descadastro' : 'Resposta ao lembrete de visita'} processado`);
+          return;
+        }
+      }
+
       // Processar mensagem com IA (incluindo dados de imagem se presente)
       const messageContext = {
         phone: senderPhone,
         message: messageText,
         instanceId: data.instanceId, // evolutionInstanceId usado para busca no AIService
         databaseInstanceId: dbInstance.id, // ID real do banco de dados
-        mediaUrl,
-        mediaBase64,
-        caption,
-        mimeType,
-        messageType: isImageMessage ? 'image' : isAudioMessage ? 'audio' : 'text',
+        mediaUrl: inbound.mediaUrl,
+        mediaBase64: inbound.mediaBase64,
+        mediaPath: inbound.mediaPath,
+        caption: inbound.caption,
+        mimeType: inbound.mimeType,
+        fileName: inbound.fileName,
+        metadata: inbound.metadata,
+        extractedText: inbound.extractedText,
+        messageType: inbound.messageType,
         pushName: pushName // Adicionar o nome do contato
       };
 
       console.log(`🔄 About to call AIService.processMessage with:`, {
         ...messageContext,
-        mediaBase64: mediaBase64 ? `[${mediaBase64.length} chars]` : undefined // Não logar base64 completo
+        mediaBase64: inbound.mediaBase64 ? `[${inbound.mediaBase64.length} chars]` : undefined, // Não logar base64 completo
+        extractedText: inbound.extractedText ? `[${inbound.extractedText.length} chars]` : undefined
       });
       
       const aiService = new AIService();
@@ -526,6 +390,8 @@ export class WhatsAppWebhookService {
       // IMPORTANTE: Usar o nome da instância, não o evolutionInstanceId
       console.log(`🚀 About to call sendResponse with instance: ${instanceName}, phone: ${senderPhone}`);
       console.log(`🔍 Instance details for sending: name=${instanceName}, evolutionId=${dbInstance.evolutionInstanceId}`);
+      replyStarted = true;
+      let responseMessageId: string | null = null; // key.id da resposta gravada no histórico
       try {
         // Buscar configuração global da Evolution API para envio de imóveis
         const evolutionConfig = await storage.getEvolutionApiConfiguration();
@@ -557,7 +423,7 @@ export class WhatsAppWebhookService {
             });
 
             // Enviar mensagem de introdução do agente
-            await this.sendResponse(instanceName, senderPhone, aiResponse.response, messageText, dbInstance.companyId);
+            responseMessageId = await this.sendResponse(instanceName, senderPhone, aiResponse.response, messageText, dbInstance.companyId);
             console.log(`✅ Mensagem de introdução enviada`);
             await new Promise(resolve => setTimeout(resolve, 800));
 
@@ -631,7 +497,7 @@ export class WhatsAppWebhookService {
           }
         } else {
           // Fallback para o formato antigo (apenas texto sem imóveis estruturados)
-          await this.sendResponse(instanceName, senderPhone, aiResponse.response, messageText, dbInstance.companyId);
+          responseMessageId = await this.sendResponse(instanceName, senderPhone, aiResponse.response, messageText, dbInstance.companyId);
           console.log(`✅ Response sent successfully to ${senderPhone}`);
 
           // Se há imagens de imóveis para enviar (formato antigo - deprecated)
@@ -695,13 +561,16 @@ export class WhatsAppWebhookService {
       
       console.log(`💾 [DEBUG] Final agentId to save: ${agentIdToSave}`);
       
-      // Preparar dados de imagem/áudio e pushName para salvar
+      // Preparar a referência da mídia, o conteúdo estruturado e o pushName para salvar (sem o base64)
       const messageData = {
-        messageType: isImageMessage ? 'image' : isAudioMessage ? 'audio' : 'text',
-        mediaUrl,
-        mediaBase64,
-        caption,
-        mimeType,
+        messageType: inbound.messageType,
+        mediaUrl: inbound.mediaUrl,
+        mediaPath: inbound.mediaPath,
+        mimeType: inbound.mimeType,
+        fileName: inbound.fileName,
+        metadata: inbound.metadata,
+        extractedText: inbound.extractedText,
+        caption: inbound.caption,
         pushName // Adicionar o nome do contato
       };
 
@@ -720,7 +589,8 @@ export class WhatsAppWebhookService {
           messageText,
           aiResponse.response,
           agentIdToSave,
-          messageData
+          messageData,
+          responseMessageId
         );
       } else {
         console.log(`⚠️ [DEBUG] No valid agentId found, skipping conversation save with agent tracking`);
@@ -731,7 +601,8 @@ export class WhatsAppWebhookService {
           messageText,
           aiResponse.response,
           'unknown', // Usar placeholder para agente desconhecido
-          messageData
+          messageData,
+          responseMessageId
         );
       }
 
@@ -752,6 +623,47 @@ export class WhatsAppWebhookService {
         dataKeys: Object.keys(evolutionData?.data || {}),
         messageKeys: Object.keys(evolutionData?.data?.message || {})
       });
+
+      // Propaga para a fila de webhooks reprocessar a mensagem
+      if (!replyStarted) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Mensagens fromMe: ecos do que o sistema enviou são ignorados; o resto foi digitado por um
+   * corretor no próprio WhatsApp e pausa a IA na conversa (atendimento humano).
+   */
+  async handleOutgoingMessage(evolutionData: EvolutionWebhookData): Promise<void> {
+    try {
+      const data = evolutionData.data;
+      const remoteJid = data?.key?.remoteJid || '';
+
+      if (!remoteJid || remoteJid.endsWith('@g.us') || remoteJid === 'status@broadcast') {
+        return;
+      }
+
+      const contactPhone = this.extractEvolutionPhone(evolutionData);
+      if (!contactPhone) return;
+
+      if (await isOutboundEcho(data.key?.id)) {
+        console.log(`📤 [TAKEOVER] Eco de mensagem enviada pelo sistema para ${contactPhone}, ignorando`);
+        return;
+      }
+
+      const dbInstance = await this.findDatabaseInstance(evolutionData);
+      if (!dbInstance) {
+        console.log(`❌ [TAKEOVER] Instância não encontrada para mensagem fromMe: ${(evolutionData as any).instance || data.instanceId}`);
+        return;
+      }
+
+      const content = inboundMediaService.parse(evolutionData)?.text || '📎 Mídia enviada pelo corretor';
+
+      await conversationControlService.registerHumanReply(dbInstance.id, contactPhone, content, data.key?.id);
+      console.log(`🙋 [TAKEOVER] Corretor respondeu ${contactPhone} pelo WhatsApp da instância ${dbInstance.name}`);
+    } catch (error) {
+      console.error('❌ [TAKEOVER] Erro ao registrar resposta do corretor:', error);
     }
   }
 
@@ -800,7 +712,7 @@ export class WhatsAppWebhookService {
       console.log(`🤖 AI Response: "${aiResponse.response}"`);
 
       // Enviar resposta via Evolution API
-      await this.sendResponse(instanceId, senderPhone, aiResponse.response);
+      const responseMessageId = await this.sendResponse(instanceId, senderPhone, aiResponse.response);
 
       // Salvar conversa no banco de dados
       await aiService.saveConversation(
@@ -808,7 +720,9 @@ export class WhatsAppWebhookService {
         senderPhone,
         messageText,
         aiResponse.response,
-        aiResponse.activeAgentId || 'main'
+        aiResponse.activeAgentId || 'main',
+        undefined,
+        responseMessageId
       );
 
       console.log("✅ Message processed successfully");
@@ -840,6 +754,113 @@ export class WhatsAppWebhookService {
     return true;
   }
 
+  /**
+   * Localiza a instância do banco a partir do nome/ID enviado pela Evolution API.
+   */
+  private async findDatabaseInstance(evolutionData: EvolutionWebhookData) {
+    const storage = getStorage();
+    const data = evolutionData.data;
+
+    // Priorizar o nome da instância (deploy1) ao invés do UUID
+    const searchId = evolutionData.instance || data.instanceId;
+    console.log(`🔍 Using instance name for search: ${searchId}`);
+
+    // Primeiro tentar buscar pelo evolutionInstanceId
+    let dbInstance = await storage.getWhatsappInstanceByEvolutionId(searchId);
+
+    // Se não encontrou, tentar buscar pelo nome
+    if (!dbInstance) {
+      console.log(`⚠️ No instance found with evolutionInstanceId: ${searchId}, trying by name...`);
+
+      // Buscar todas as empresas e suas instâncias
+      const companies = await storage.getAllCompanies();
+      for (const company of companies) {
+        const instances = await storage.getWhatsappInstancesByCompany(company.id);
+
+        // Tentar encontrar pelo nome da instância (deploy1) ou evolutionInstanceId
+        const found = instances.find(i =>
+          i.name === searchId ||
+          i.evolutionInstanceId === searchId ||
+          i.name === evolutionData.instance ||  // Usar o nome que vem do Evolution
+          i.evolutionInstanceId === data.instanceId
+        );
+
+        if (found) {
+          dbInstance = found;
+          console.log(`✅ Found instance by fallback: ${found.name}`);
+          break;
+        }
+      }
+    }
+
+    return dbInstance;
+  }
+
+  /**
+   * Número do contato da conversa (remoteJid), resolvendo o formato LID quando necessário.
+   */
+  private extractEvolutionPhone(evolutionData: EvolutionWebhookData): string | undefined {
+    // Primeiro verificar se é formato LID (Linked ID) que não é número real
+    const remoteJid = (evolutionData.data as any).key?.remoteJid || '';
+    const remoteJidAlt = (evolutionData.data as any).key?.remoteJidAlt || '';
+    const isLidFormat = remoteJid.endsWith('@lid');
+
+    console.log(`📞 [PHONE DEBUG] remoteJid: ${remoteJid}`);
+    console.log(`📞 [PHONE DEBUG] remoteJidAlt: ${remoteJidAlt}`);
+    console.log(`📞 [PHONE DEBUG] isLidFormat: ${isLidFormat}`);
+
+    let senderPhone: string | undefined;
+
+    if (isLidFormat) {
+      // LID não é número real - usar remoteJidAlt que contém o número real
+      console.log(`⚠️ [LID] Detectado formato LID - buscando número real...`);
+
+      // Primeiro tentar remoteJidAlt (campo principal para número real em LID)
+      if (remoteJidAlt && remoteJidAlt.includes('@s.whatsapp.net')) {
+        senderPhone = remoteJidAlt.replace(/@s\.whatsapp\.net$/g, '');
+        console.log(`✅ [LID] Número real encontrado em remoteJidAlt: ${senderPhone}`);
+      } else {
+        // Fallback: tentar outros campos
+        const evolutionMessage = evolutionData.data as any;
+
+        // Campos possíveis para o número real
+        const possiblePhoneFields = [
+          evolutionMessage.key?.participant?.replace(/@s\.whatsapp\.net$/g, ''),
+          evolutionMessage.participant?.replace(/@s\.whatsapp\.net$/g, ''),
+          (evolutionData as any).phone,
+          (evolutionData as any).from?.replace(/@s\.whatsapp\.net$/g, ''),
+          evolutionMessage.from?.replace(/@s\.whatsapp\.net$/g, ''),
+        ];
+
+        console.log(`📞 [LID DEBUG] Possíveis campos de telefone:`, JSON.stringify(possiblePhoneFields, null, 2));
+
+        // Encontrar o primeiro número válido (que parece um telefone brasileiro)
+        for (const field of possiblePhoneFields) {
+          if (field) {
+            const cleanPhone = String(field).replace(/\D/g, '');
+            // Verificar se parece um telefone válido (10-13 dígitos)
+            if (cleanPhone.length >= 10 && cleanPhone.length <= 13) {
+              senderPhone = cleanPhone;
+              console.log(`✅ [LID] Número real encontrado em campo alternativo: ${senderPhone}`);
+              break;
+            }
+          }
+        }
+
+        // Se não encontrou número real, usar o LID mesmo (vai ficar no log)
+        if (!senderPhone) {
+          console.log(`❌ [LID] Não foi possível encontrar número real - usando LID como fallback`);
+          senderPhone = remoteJid.replace(/@lid$/g, '');
+        }
+      }
+    } else {
+      // Formato normal - extrair número do remoteJid
+      senderPhone = remoteJid.replace(/@s\.whatsapp\.net$/g, '');
+    }
+
+    return senderPhone;
+  }
+
   private shouldProcessEvolutionMessage(evolutionData: EvolutionWebhookData): boolean {
     const data = evolutionData.data;
     
@@ -862,25 +883,14 @@ export class WhatsAppWebhookService {
       return false;
     }
     
-    // Verificar se tem conteúdo de texto, imagem ou áudio
-    const messageText = data.message.conversation || data.message.extendedTextMessage?.text;
-    const imageMessage = data.message.imageMessage;
-    const audioMessage = data.message.audioMessage;
-    
-    if (!messageText && !imageMessage && !audioMessage) {
-      console.log("❌ Evolution message ignored - no text, image or audio content");
+    // Verificar se tem texto não vazio, mídia, localização ou contato
+    if (!inboundMediaService.parse(evolutionData)) {
+      console.log("❌ Evolution message ignored - no text, media, location or contact content");
       return false;
     }
 
-    // Se tem texto mas não tem imagem/áudio, verificar se está vazio
-    if (messageText && !imageMessage && !audioMessage && messageText.trim().length === 0) {
-      console.log("❌ Evolution message ignored - empty text content");
-      return false;
-    }
-
-    // Verificar se o tipo de mensagem é suportado (texto, imagem ou áudio)
-    const supportedTypes = ['conversation', 'extendedTextMessage', 'imageMessage', 'audioMessage', 'text'];
-    if (!supportedTypes.includes(data.messageType)) {
+    // Verificar se o tipo de mensagem é suportado
+    if (!SUPPORTED_MESSAGE_TYPES.includes(data.messageType)) {
       console.log(`❌ Evolution message ignored - unsupported type: ${data.messageType}`);
       return false;
     }
@@ -922,7 +932,8 @@ export class WhatsAppWebhookService {
     return remoteJid.replace(/@(s\.whatsapp\.net|lid)$/g, '');
   }
 
-  private async sendResponse(instanceId: string, phone: string, response: string, userMessage?: string, companyId?: string): Promise<void> {
+  // Retorna o key.id da mensagem enviada, usado para acompanhar as confirmações de entrega
+  private async sendResponse(instanceId: string, phone: string, response: string, userMessage?: string, companyId?: string): Promise<string | null> {
     const sendId = Math.random().toString(36).substr(2, 9);
     const startTime = Date.now();
 
@@ -940,7 +951,7 @@ export class WhatsAppWebhookService {
       const evolutionConfig = await storage.getEvolutionApiConfiguration();
       if (!evolutionConfig) {
         console.error(`❌ [SEND-${sendId}] Evolution API configuration not found`);
-        return;
+        return null;
       }
 
       console.log(`✅ [SEND-${sendId}] Evolution API config found: ${evolutionConfig.evolutionURL}`);
@@ -955,7 +966,7 @@ export class WhatsAppWebhookService {
       console.log(`📡 [SEND-${sendId}] URL: ${evolutionConfig.evolutionURL}/message/sendText/${instanceId}`);
 
       const sendStartTime = Date.now();
-      await evolutionService.sendMessage(instanceId, phone, response);
+      const sendResult = await evolutionService.sendMessage(instanceId, phone, response);
       const sendTime = Date.now() - sendStartTime;
 
       const totalTime = Date.now() - startTime;
@@ -1041,6 +1052,8 @@ export class WhatsAppWebhookService {
         }
       }
 
+      return sendResult?.key?.id || null;
+
     } catch (error) {
       const totalTime = Date.now() - startTime;
       console.error(`❌ [SEND-${sendId}] CRITICAL ERROR sending response after ${totalTime}ms:`, error);
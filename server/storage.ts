@@ -3,20 +3,34 @@ import {
   User, InsertUser, Company, InsertCompany, GlobalConfiguration,
   InsertGlobalConfiguration, EvolutionApiConfiguration, InsertEvolutionApiConfiguration,
   AiConfiguration, InsertAiConfiguration, WhatsappInstance, InsertWhatsappInstance,
-  AiAgent, InsertAiAgent, Conversation, InsertConversation, Message, InsertMessage,
+  AiAgent, InsertAiAgent, Conversation, InsertConversation, InboxConversation, Message, InsertMessage,
   ContactList, InsertContactList, ContactListItem, InsertContactListItem,
   ScheduledMessage, InsertScheduledMessage, FunnelStage, InsertFunnelStage,
-  Customer, InsertCustomer, Lead, InsertLead, Property, InsertProperty,
+  Customer, InsertCustomer, Lead, InsertLead, Property, InsertProperty, PropertySearchFilters, PropertySearchResult, PropertySortOption,
   Amenity, InsertAmenity, City, InsertCity,
-  Plan, InsertPlan, Broker, InsertBroker, Appointment, InsertAppointment
+  Plan, InsertPlan, Broker, InsertBroker, Appointment, InsertAppointment,
+  KnowledgeChunk, InsertKnowledgeChunk, WebhookQueueItem, InsertWebhookQueueItem,
+  BroadcastRecipient, InsertBroadcastRecipient, AudienceSegmentFilters,
+  CustomerActivity, InsertCustomerActivity, BrokerBlockedPeriod, InsertBrokerBlockedPeriod,
+  PropertySearchSession, InsertPropertySearchSession, LeadPreferences, InsertLeadPreferences,
+  PropertyAlert, InsertPropertyAlert, ContactOptOut, InsertContactOptOut,
+  ConversationNote, InsertConversationNote, WhatsappInstanceStatusEvent, InsertWhatsappInstanceStatusEvent,
+  CompanyNotification, InsertCompanyNotification, MessageDeliveryStatus, DeliveryCounts, OPENAI_MODEL_PATTERN
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
+// Conversa da caixa de entrada: nome da instância e autor da última mensagem (para o filtro "aguardando resposta")
+const INBOX_CONVERSATION_SELECT = `SELECT c.*, wi.name AS instance_name,
+  (SELECT m.sender FROM messages m WHERE m.conversation_id = c.id ORDER BY m.created_at DESC LIMIT 1) AS last_message_sender
+  FROM conversations c
+  INNER JOIN whatsapp_instances wi ON wi.id = c.whatsapp_instance_id`;
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getAllAdminUsers(): Promise<User[]>;
+  getUsersByCompany(companyId: string): Promise<User[]>;
   getAdminUsersWithPassword(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User>;
@@ -47,6 +61,7 @@ export interface IStorage {
   getWhatsappInstance(id: string): Promise<WhatsappInstance | undefined>;
   getWhatsappInstanceByEvolutionId(evolutionInstanceId: string): Promise<WhatsappInstance | undefined>;
   getWhatsappInstancesByCompany(companyId: string): Promise<WhatsappInstance[]>;
+  getAllWhatsappInstances(): Promise<WhatsappInstance[]>;
   createWhatsappInstance(instance: InsertWhatsappInstance): Promise<WhatsappInstance>;
   updateWhatsappInstance(id: string, updates: Partial<WhatsappInstance>): Promise<WhatsappInstance>;
   deleteWhatsappInstance(id: string): Promise<void>;
@@ -64,12 +79,22 @@ export interface IStorage {
   // Conversations
   getConversation(id: string): Promise<Conversation | undefined>;
   getConversationsByInstance(instanceId: string): Promise<Conversation[]>;
+  getConversationsByCompany(companyId: string): Promise<InboxConversation[]>;
+  getInboxConversation(id: string): Promise<InboxConversation | undefined>;
+  getLastConversationAssignedToBrokerToday(companyId: string): Promise<Conversation | undefined>;
+  getConversationByPhone(instanceId: string, phone: string): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation>;
   
   // Messages
   getMessagesByConversation(conversationId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  getMessageByEvolutionId(evolutionMessageId: string): Promise<Message | undefined>;
+  recordOutboundMessage(evolutionMessageId: string): Promise<void>;
+  isOutboundMessage(evolutionMessageId: string): Promise<boolean>;
+  deleteOutboundMessagesBefore(before: Date): Promise<void>;
+  updateMessageDeliveryStatus(id: string, status: MessageDeliveryStatus): Promise<Message>;
+  getInstanceDeliveryCounts(instanceId: string, since: Date, undeliveredBefore: Date): Promise<DeliveryCounts>;
   
   // Contact Lists
   getContactList(id: string): Promise<ContactList | undefined>;
@@ -95,10 +120,20 @@ export interface IStorage {
   // Additional methods for scheduled message processing
   getWhatsappInstancesByIds(ids: string[]): Promise<WhatsappInstance[]>;
   
-  // Funnel Stages (Global - fixed for all companies)
+  // Funnel Stages (Global - default for companies without their own stages)
   getFunnelStage(id: string): Promise<FunnelStage | undefined>;
   getGlobalFunnelStages(): Promise<FunnelStage[]>;
   initializeGlobalFunnelStages(): Promise<void>;
+
+  // Funnel Stages (por empresa)
+  getCompanyFunnelStages(companyId: string, includeArchived?: boolean): Promise<FunnelStage[]>;
+  getFirstFunnelStage(companyId: string): Promise<FunnelStage | undefined>;
+  ensureCompanyFunnelStages(companyId: string): Promise<Map<string, string>>;
+  createFunnelStage(stage: InsertFunnelStage): Promise<FunnelStage>;
+  updateFunnelStage(id: string, updates: Partial<FunnelStage>): Promise<FunnelStage>;
+  reorderFunnelStages(companyId: string, stageIds: string[]): Promise<FunnelStage[]>;
+  archiveFunnelStage(id: string, targetStageId: string): Promise<number>;
+  restoreFunnelStage(id: string): Promise<FunnelStage>;
   
   // Customers
   getCustomer(id: string): Promise<Customer | undefined>;
@@ -120,13 +155,9 @@ export interface IStorage {
   getProperty(id: string): Promise<Property | undefined>;
   getPropertyByCode(code: string, companyId: string): Promise<Property | undefined>;
   getPropertiesByCompany(companyId: string): Promise<Property[]>;
-  searchProperties(companyId: string, filters: {
-    city?: string;
-    transactionType?: string;
-    propertyType?: string;
-    priceMin?: number;
-    priceMax?: number;
-  }): Promise<Property[]>;
+  searchProperties(companyId: string, filters: PropertySearchFilters): Promise<PropertySearchResult>;
+  getPropertiesByIds(companyId: string, ids: string[]): Promise<Property[]>;
+  getPropertyLocations(companyId: string): Promise<{ cities: string[]; neighborhoods: string[] }>;
   createProperty(property: InsertProperty): Promise<Property>;
   updateProperty(id: string, updates: Partial<Property>): Promise<Property>;
   deleteProperty(id: string): Promise<void>;
@@ -162,19 +193,119 @@ export interface IStorage {
   updateBroker(id: string, updates: Partial<Broker>): Promise<Broker>;
   deleteBroker(id: string): Promise<void>;
 
+  // Broker Blocked Periods (Bloqueios de agenda dos corretores)
+  getBrokerBlockedPeriod(id: string): Promise<BrokerBlockedPeriod | undefined>;
+  getBrokerBlockedPeriods(companyId: string, from: Date, to: Date): Promise<BrokerBlockedPeriod[]>;
+  createBrokerBlockedPeriod(period: InsertBrokerBlockedPeriod): Promise<BrokerBlockedPeriod>;
+  deleteBrokerBlockedPeriod(id: string): Promise<void>;
+
   // Appointments (Agendamentos)
   getAppointment(id: string): Promise<Appointment | undefined>;
   getAppointmentsByCompany(companyId: string): Promise<Appointment[]>;
   getAppointmentsByBroker(brokerId: string): Promise<Appointment[]>;
   getAppointmentsByBrokerWeek(brokerId: string): Promise<Appointment[]>;
+  getLatestAppointmentWithBrokerByPhone(companyId: string, phones: string[]): Promise<Appointment | undefined>;
   getLastAppointmentOfDayWithBroker(companyId: string): Promise<Appointment | undefined>;
+  getActiveAppointmentsInRange(companyId: string, from: Date, to: Date): Promise<Appointment[]>;
+  getAppointmentsDueForReminder(kind: '24h' | '1h'): Promise<Appointment[]>;
+  getUpcomingRemindedAppointmentByPhone(companyId: string, phones: string[]): Promise<Appointment | undefined>;
+  getUpcomingAppointmentsByContact(companyId: string, phones: string[], conversationId?: string | null): Promise<Appointment[]>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
   updateAppointment(id: string, updates: Partial<Appointment>): Promise<Appointment>;
   deleteAppointment(id: string): Promise<void>;
+
+  // Knowledge Chunks (Base de conhecimento dos agentes)
+  getKnowledgeChunksByAgent(agentId: string): Promise<KnowledgeChunk[]>;
+  replaceKnowledgeChunks(agentId: string, chunks: InsertKnowledgeChunk[]): Promise<void>;
+  deleteKnowledgeChunksByAgent(agentId: string): Promise<void>;
+
+  // Webhook Queue (Fila persistente de mensagens recebidas)
+  enqueueWebhookEvent(item: InsertWebhookQueueItem): Promise<WebhookQueueItem | null>;
+  claimWebhookBuffer(bufferKey: string): Promise<WebhookQueueItem[]>;
+  claimWebhookEvent(id: string): Promise<WebhookQueueItem[]>;
+  completeWebhookBatch(batchId: string): Promise<void>;
+  failWebhookBatch(batchId: string, error: string, maxAttempts: number, retryBaseSeconds: number): Promise<void>;
+  getRecoverableWebhookEvents(): Promise<WebhookQueueItem[]>;
+  releaseStaleWebhookEvents(staleMinutes: number, maxAttempts: number): Promise<number>;
+  getWebhookQueueStats(): Promise<Record<string, number>>;
+  getWebhookQueueItems(status: string, limit: number): Promise<WebhookQueueItem[]>;
+  requeueWebhookEvent(id: string): Promise<boolean>;
+  purgeWebhookEvents(olderThanDays: number): Promise<number>;
+
+  // Broadcast Recipients (Log de entrega dos disparos)
+  createBroadcastRecipients(recipients: InsertBroadcastRecipient[]): Promise<number>;
+  getBroadcastRecipients(scheduledMessageId: string, status?: string): Promise<BroadcastRecipient[]>;
+  getBroadcastRecipientCounts(scheduledMessageId: string): Promise<Record<string, number>>;
+  startBroadcastRecipientAttempt(id: string, instanceId: string, instanceName: string): Promise<void>;
+  markBroadcastRecipientSent(id: string, evolutionMessageId: string | null): Promise<void>;
+  markBroadcastRecipientFailed(id: string, errorMessage: string): Promise<void>;
+  markBroadcastRecipientSkipped(id: string, reason: string): Promise<void>;
+  failInterruptedBroadcastRecipients(scheduledMessageId: string, errorMessage: string): Promise<number>;
+  resetFailedBroadcastRecipients(scheduledMessageId: string): Promise<number>;
+  getBroadcastSentCountsByInstance(instanceIds: string[], since: Date): Promise<Record<string, number>>;
+  getBroadcastRecipientByEvolutionId(evolutionMessageId: string): Promise<BroadcastRecipient | undefined>;
+  updateBroadcastRecipientDeliveryStatus(id: string, status: MessageDeliveryStatus): Promise<void>;
+  getBroadcastDeliveryCounts(scheduledMessageId: string, undeliveredBefore: Date): Promise<DeliveryCounts>;
+
+  // Audience Segments (Públicos de disparo a partir do CRM)
+  getSegmentLeadContacts(companyId: string, filters: AudienceSegmentFilters): Promise<SegmentContactRow[]>;
+  getSegmentCustomerContacts(companyId: string, filters: AudienceSegmentFilters): Promise<SegmentContactRow[]>;
+
+  // Customer Activities (Linha do tempo do cliente)
+  createCustomerActivity(activity: InsertCustomerActivity): Promise<CustomerActivity>;
+  getCustomerActivities(customerId: string): Promise<CustomerActivity[]>;
+  getCompanyStageActivities(companyId: string): Promise<CustomerActivity[]>;
+
+  // Property Search Sessions (paginação do "ver mais" por conversa)
+  getPropertySearchSession(conversationId: string): Promise<PropertySearchSession | undefined>;
+  savePropertySearchSession(session: InsertPropertySearchSession): Promise<PropertySearchSession>;
+  updatePropertySearchSessionCursor(conversationId: string, cursor: number): Promise<void>;
+
+  // Lead Preferences (perfil de busca do contato)
+  getLeadPreferencesByPhone(companyId: string, phones: string[]): Promise<LeadPreferences | undefined>;
+  saveLeadPreferences(preferences: InsertLeadPreferences): Promise<LeadPreferences>;
+  mergeExtractedLeadPreferences(companyId: string, phone: string, values: Partial<InsertLeadPreferences>): Promise<void>;
+  getLeadPreferencesByCompany(companyId: string): Promise<LeadPreferences[]>;
+
+  // Property Alerts (avisos de imóvel novo ou com preço reduzido)
+  createPropertyAlert(alert: InsertPropertyAlert): Promise<PropertyAlert>;
+  getPropertyAlertsByProperty(propertyId: string): Promise<PropertyAlert[]>;
+  getPropertyAlertsSince(companyId: string, since: Date): Promise<PropertyAlert[]>;
+  getPendingPropertyAlerts(limit: number): Promise<PropertyAlert[]>;
+  updatePropertyAlert(id: string, updates: Partial<Pick<PropertyAlert, 'status' | 'statusReason' | 'instanceId' | 'evolutionMessageId' | 'sentAt'>>): Promise<void>;
+
+  // Contact Opt-Outs (lista de bloqueio de envios)
+  getContactOptOuts(companyId: string): Promise<ContactOptOut[]>;
+  getContactOptOut(id: string): Promise<ContactOptOut | undefined>;
+  getContactOptOutByPhone(companyId: string, phones: string[]): Promise<ContactOptOut | undefined>;
+  createContactOptOut(optOut: InsertContactOptOut): Promise<ContactOptOut>;
+  deleteContactOptOut(id: string): Promise<void>;
+
+  // Conversation Notes (notas internas da equipe)
+  getConversationNotes(conversationId: string): Promise<ConversationNote[]>;
+  createConversationNote(note: InsertConversationNote): Promise<ConversationNote>;
+
+  // Instance Status History (monitor de saúde das instâncias)
+  createInstanceStatusEvent(event: InsertWhatsappInstanceStatusEvent): Promise<WhatsappInstanceStatusEvent>;
+  getInstanceStatusHistory(instanceId: string, since: Date): Promise<WhatsappInstanceStatusEvent[]>;
+
+  // Company Notifications (avisos no painel)
+  getCompanyNotifications(companyId: string, limit: number): Promise<CompanyNotification[]>;
+  createCompanyNotification(notification: InsertCompanyNotification): Promise<CompanyNotification>;
+  markCompanyNotificationsRead(companyId: string, id?: string): Promise<void>;
+}
+
+export interface SegmentContactRow {
+  name: string;
+  phone: string;
+  leadId: string | null;
+  customerId: string | null;
 }
 
 export class MySQLStorage implements IStorage {
   private connection: mysql.Connection | null = null;
+  // Conexões próprias para transações: a conexão acima é compartilhada por todas as requisições
+  private transactionPool: mysql.Pool | null = null;
   private isConnected: boolean = false;
 
   constructor() {
@@ -187,6 +318,25 @@ export class MySQLStorage implements IStorage {
     this.isConnected = true;
   }
 
+  private async withTransaction<T>(work: (connection: mysql.PoolConnection) => Promise<T>): Promise<T> {
+    if (!this.transactionPool) throw new Error('No database connection');
+
+    const connection = await this.transactionPool.getConnection();
+    try {
+      await connection.beginTransaction();
+      try {
+        const result = await work(connection);
+        await connection.commit();
+        return result;
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
   private async connect(): Promise<void> {
     try {
       const config = {
@@ -206,6 +356,7 @@ export class MySQLStorage implements IStorage {
       });
       
       this.connection = await mysql.createConnection(config);
+      this.transactionPool = mysql.createPool({ ...config, connectionLimit: 5 });
       
       // Create tables if they don't exist
       await this.createTables();
@@ -275,6 +426,9 @@ export class MySQLStorage implements IStorage {
         modelo VARCHAR(50) DEFAULT 'gpt-4o',
         temperatura DECIMAL(3,2) DEFAULT 0.7,
         numero_tokens INT DEFAULT 1000,
+        local_base_url TEXT,
+        local_api_key TEXT,
+        local_modelo VARCHAR(100),
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
       )`,
       
@@ -298,6 +452,7 @@ export class MySQLStorage implements IStorage {
         prompt TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci NOT NULL,
         temperatura DECIMAL(3,2) DEFAULT 0.7,
         numero_tokens INT DEFAULT 1000,
+        provider VARCHAR(20) DEFAULT 'openai',
         modelo VARCHAR(50) DEFAULT 'gpt-4o',
         training_files JSON,
         training_content TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
@@ -317,7 +472,16 @@ export class MySQLStorage implements IStorage {
         contact_phone VARCHAR(20) NOT NULL,
         last_message TEXT,
         last_message_at TIMESTAMP,
-        status VARCHAR(20) DEFAULT 'active',
+        status VARCHAR(20) DEFAULT 'open',
+        assigned_user_id VARCHAR(36),
+        assigned_broker_id VARCHAR(36),
+        assigned_at TIMESTAMP NULL,
+        tags JSON,
+        ai_state VARCHAR(20) DEFAULT 'active',
+        ai_state_reason VARCHAR(30),
+        ai_state_changed_at TIMESTAMP NULL,
+        ai_paused_by VARCHAR(36),
+        last_human_message_at TIMESTAMP NULL,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
       )`,
@@ -357,7 +521,9 @@ export class MySQLStorage implements IStorage {
       `CREATE TABLE IF NOT EXISTS scheduled_messages (
         id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
         company_id VARCHAR(36) NOT NULL,
-        contact_list_id VARCHAR(36) NOT NULL,
+        contact_list_id VARCHAR(36) NULL,
+        audience_type VARCHAR(20) DEFAULT 'contact_list',
+        segment_filters JSON,
         instance_ids JSON NOT NULL,
         message_type VARCHAR(20) NOT NULL,
         message_content TEXT NOT NULL,
@@ -370,6 +536,13 @@ export class MySQLStorage implements IStorage {
         interval_max INT DEFAULT 120,
         use_multiple_instances BOOLEAN DEFAULT FALSE,
         randomize_instances BOOLEAN DEFAULT TRUE,
+        send_window_start VARCHAR(5),
+        send_window_end VARCHAR(5),
+        send_weekdays JSON,
+        daily_limit_per_instance INT,
+        warmup_enabled BOOLEAN DEFAULT TRUE,
+        paused_until TIMESTAMP NULL,
+        pause_reason VARCHAR(255),
         status VARCHAR(20) DEFAULT 'scheduled',
         total_messages INT DEFAULT 0,
         sent_messages INT DEFAULT 0,
@@ -425,6 +598,196 @@ export class MySQLStorage implements IStorage {
         customer_id VARCHAR(36),
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS knowledge_chunks (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        agent_id VARCHAR(36) NOT NULL,
+        company_id VARCHAR(36) NOT NULL,
+        source_url TEXT,
+        source_name VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        document_index INT NOT NULL DEFAULT 0,
+        chunk_index INT NOT NULL DEFAULT 0,
+        content TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci NOT NULL,
+        embedding JSON,
+        embedding_model VARCHAR(100),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_knowledge_chunks_agent (agent_id)
+      ) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci`,
+
+      `CREATE TABLE IF NOT EXISTS webhook_queue (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        evolution_message_id VARCHAR(255),
+        buffer_key VARCHAR(255) NOT NULL,
+        aggregate BOOLEAN NOT NULL DEFAULT TRUE,
+        payload LONGTEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        last_error TEXT,
+        batch_id VARCHAR(36),
+        received_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+        next_attempt_at TIMESTAMP NULL,
+        locked_at TIMESTAMP NULL,
+        processed_at TIMESTAMP NULL,
+        UNIQUE KEY uniq_webhook_queue_message (evolution_message_id),
+        INDEX idx_webhook_queue_status (status, buffer_key),
+        INDEX idx_webhook_queue_batch (batch_id)
+      ) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci`,
+
+      `CREATE TABLE IF NOT EXISTS broadcast_recipients (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        scheduled_message_id VARCHAR(36) NOT NULL,
+        company_id VARCHAR(36) NOT NULL,
+        contact_list_item_id VARCHAR(36),
+        name VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        phone VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        instance_id VARCHAR(36),
+        instance_name VARCHAR(255),
+        evolution_message_id VARCHAR(255),
+        error_message TEXT,
+        attempts INT NOT NULL DEFAULT 0,
+        sent_at TIMESTAMP NULL,
+        failed_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_broadcast_recipients_message (scheduled_message_id, status)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS broker_blocked_periods (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        broker_id VARCHAR(36) NOT NULL,
+        company_id VARCHAR(36) NOT NULL,
+        starts_at TIMESTAMP NOT NULL,
+        ends_at TIMESTAMP NOT NULL,
+        reason VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_broker_blocked_periods_company (company_id, starts_at)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS customer_activities (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        company_id VARCHAR(36) NOT NULL,
+        customer_id VARCHAR(36) NOT NULL,
+        type VARCHAR(30) NOT NULL,
+        from_stage_id VARCHAR(36),
+        to_stage_id VARCHAR(36),
+        user_id VARCHAR(36),
+        description TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        metadata JSON,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_customer_activities_customer (customer_id, created_at),
+        INDEX idx_customer_activities_company (company_id, type)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS property_search_sessions (
+        conversation_id VARCHAR(36) PRIMARY KEY,
+        company_id VARCHAR(36) NOT NULL,
+        criteria JSON NOT NULL,
+        requested_criteria JSON,
+        result_ids JSON NOT NULL,
+        cursor_position INT NOT NULL DEFAULT 0,
+        relaxations JSON,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS lead_preferences (
+        id VARCHAR(36) PRIMARY KEY,
+        company_id VARCHAR(36) NOT NULL,
+        phone VARCHAR(20) NOT NULL,
+        transaction_type VARCHAR(20),
+        property_type VARCHAR(50),
+        city VARCHAR(100),
+        neighborhoods JSON,
+        budget_min INT,
+        budget_max INT,
+        bedrooms INT,
+        amenities JSON,
+        move_in_timeframe VARCHAR(100),
+        needs_financing BOOLEAN,
+        financing_notes TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        manual_fields JSON,
+        alerts_opt_out BOOLEAN NOT NULL DEFAULT FALSE,
+        last_extracted_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_lead_preferences_phone (company_id, phone)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS property_alerts (
+        id VARCHAR(36) PRIMARY KEY,
+        company_id VARCHAR(36) NOT NULL,
+        property_id VARCHAR(36) NOT NULL,
+        reason VARCHAR(20) NOT NULL,
+        price DECIMAL(12,2),
+        previous_price DECIMAL(12,2),
+        name VARCHAR(255) NOT NULL,
+        phone VARCHAR(20) NOT NULL,
+        lead_id VARCHAR(36),
+        customer_id VARCHAR(36),
+        matched_criteria JSON,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        status_reason TEXT,
+        instance_id VARCHAR(36),
+        evolution_message_id VARCHAR(100),
+        sent_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_property_alerts_property (property_id, created_at),
+        INDEX idx_property_alerts_company (company_id, created_at),
+        INDEX idx_property_alerts_status (status)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS contact_opt_outs (
+        id VARCHAR(36) PRIMARY KEY,
+        company_id VARCHAR(36) NOT NULL,
+        phone VARCHAR(20) NOT NULL,
+        name VARCHAR(255),
+        source VARCHAR(20) NOT NULL DEFAULT 'manual',
+        reason TEXT,
+        created_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_contact_opt_outs_phone (company_id, phone)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS conversation_notes (
+        id VARCHAR(36) PRIMARY KEY,
+        conversation_id VARCHAR(36) NOT NULL,
+        company_id VARCHAR(36) NOT NULL,
+        user_id VARCHAR(36),
+        content TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_conversation_notes_conversation (conversation_id)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS whatsapp_instance_status_history (
+        id VARCHAR(36) PRIMARY KEY,
+        instance_id VARCHAR(36) NOT NULL,
+        company_id VARCHAR(36) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        state VARCHAR(30),
+        source VARCHAR(20) NOT NULL,
+        reason VARCHAR(255),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_instance_status_history_instance (instance_id, created_at)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS company_notifications (
+        id VARCHAR(36) PRIMARY KEY,
+        company_id VARCHAR(36) NOT NULL,
+        type VARCHAR(50) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        message TEXT NOT NULL,
+        link VARCHAR(255),
+        read_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_company_notifications_company (company_id, created_at)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS outbound_messages (
+        evolution_message_id VARCHAR(255) PRIMARY KEY,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_outbound_messages_created (created_at)
       )`
     ];
 
@@ -504,123 +867,525 @@ export class MySQLStorage implements IStorage {
       }
     }
 
-    // Insert default configurations if they don't exist
-    await this.insertDefaultConfigurations();
-  }
+    // Add LLM provider columns (provedor por agente + endpoint local compatível com OpenAI)
+    const llmProviderColumns = [
+      { table: 'ai_agents', name: 'provider', type: "VARCHAR(20) DEFAULT 'openai'" },
+      { table: 'ai_configurations', name: 'local_base_url', type: 'TEXT' },
+      { table: 'ai_configurations', name: 'local_api_key', type: 'TEXT' },
+      { table: 'ai_configurations', name: 'local_modelo', type: 'VARCHAR(100)' }
+    ];
 
-  private async fixTableCharsets(): Promise<void> {
-    if (!this.connection) return;
-    
+    for (const column of llmProviderColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to ${column.table} table`);
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in ${column.table} table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
+    }
+
+    // Tipo de transação de interesse do cliente (venda/locação), usado nos alertas de imóveis
     try {
-      // Fix ai_agents table charset and add hierarchy columns
       await this.connection.execute(`
-        ALTER TABLE ai_agents 
-        MODIFY name VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
-        MODIFY prompt TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
-        ADD COLUMN IF NOT EXISTS training_content TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
-        ADD COLUMN IF NOT EXISTS agent_type VARCHAR(20) DEFAULT 'main',
-        ADD COLUMN IF NOT EXISTS parent_agent_id VARCHAR(36),
-        ADD COLUMN IF NOT EXISTS specialization VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
-        ADD COLUMN IF NOT EXISTS delegation_keywords JSON
+        ALTER TABLE customers ADD COLUMN interested_transaction_type VARCHAR(20)
       `);
-      console.log('Fixed ai_agents table charset');
+      console.log('✅ Added interested_transaction_type column to customers table');
     } catch (error: any) {
-      console.log('Table charset fix not needed or already applied:', error.message);
+      if (error.code === 'ER_DUP_FIELDNAME') {
+        console.log('✅ interested_transaction_type column already exists in customers table');
+      } else {
+        console.error('❌ Error adding interested_transaction_type column:', error);
+      }
     }
-  }
-
-  private async insertDefaultConfigurations(): Promise<void> {
-    if (!this.connection) return;
 
-    // Check and insert default global configuration
-    const [globalRows] = await this.connection.execute(
-      'SELECT COUNT(*) as count FROM global_configurations'
-    );
-    if ((globalRows as any)[0].count === 0) {
-      await this.connection.execute(
-        'INSERT INTO global_configurations (id) VALUES (UUID())'
+    // Agentes do provedor local com o modelo padrão da OpenAI gravado passam a usar o modelo local configurado
+    try {
+      const [result] = await this.connection.execute(
+        `UPDATE ai_agents SET modelo = NULL WHERE provider = 'local' AND LOWER(modelo) REGEXP ?`,
+        [OPENAI_MODEL_PATTERN]
       );
+      const affectedRows = (result as any).affectedRows || 0;
+      if (affectedRows > 0) {
+        console.log(`✅ Cleared OpenAI model from ${affectedRows} local provider agent(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Error clearing OpenAI model from local provider agents:', error);
     }
-  }
-
-  // User methods
-  async getUser(id: string): Promise<User | undefined> {
-    if (!this.connection) throw new Error('No database connection');
-    
-    const [rows] = await this.connection.execute(
-      'SELECT id, email, password, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE id = ?',
-      [id]
-    );
-    return (rows as User[])[0];
-  }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    if (!this.connection) throw new Error('No database connection');
-    
-    const [rows] = await this.connection.execute(
-      'SELECT id, email, password, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE email = ?',
-      [email]
-    );
-    return (rows as User[])[0];
-  }
+    // Critérios pedidos pelo cliente na busca (sem os padrões do perfil), para reconhecer o "ver mais"
+    try {
+      await this.connection.execute(`
+        ALTER TABLE property_search_sessions ADD COLUMN requested_criteria JSON
+      `);
+      console.log('✅ Added requested_criteria column to property_search_sessions table');
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_FIELDNAME') {
+        console.log('✅ requested_criteria column already exists in property_search_sessions table');
+      } else {
+        console.error('❌ Error adding requested_criteria column:', error);
+      }
+    }
 
-  async createUser(user: InsertUser): Promise<User> {
-    if (!this.connection) throw new Error('No database connection');
+    // Última indexação da base de conhecimento: o atendimento não reindexa agentes já tentados
+    try {
+      await this.connection.execute(`
+        ALTER TABLE ai_agents ADD COLUMN knowledge_indexed_at TIMESTAMP NULL
+      `);
+      console.log('✅ Added knowledge_indexed_at column to ai_agents table');
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_FIELDNAME') {
+        console.log('✅ knowledge_indexed_at column already exists in ai_agents table');
+      } else {
+        console.error('❌ Error adding knowledge_indexed_at column:', error);
+      }
+    }
 
-    const id = randomUUID();
-    await this.connection.execute(
-      'INSERT INTO users (id, name, email, password, role, company_id) VALUES (?, ?, ?, ?, ?, ?)',
-      [id, user.name || null, user.email, user.password, user.role || 'client', user.companyId || null]
-    );
-    return this.getUser(id) as Promise<User>;
-  }
+    // Add human takeover columns (estado da IA por conversa + tempo para retomar)
+    const aiTakeoverColumns = [
+      { table: 'conversations', name: 'ai_state', type: "VARCHAR(20) DEFAULT 'active'" },
+      { table: 'conversations', name: 'ai_state_reason', type: 'VARCHAR(30)' },
+      { table: 'conversations', name: 'ai_state_changed_at', type: 'TIMESTAMP NULL' },
+      { table: 'conversations', name: 'ai_paused_by', type: 'VARCHAR(36)' },
+      { table: 'conversations', name: 'last_human_message_at', type: 'TIMESTAMP NULL' },
+      { table: 'companies', name: 'ai_resume_idle_minutes', type: 'INT DEFAULT 30' }
+    ];
 
-  async updateUser(id: string, updates: Partial<User>): Promise<User> {
-    if (!this.connection) throw new Error('No database connection');
-    
-    const fields = Object.keys(updates).filter(key => updates[key as keyof User] !== undefined);
-    const values = fields.map(key => updates[key as keyof User]);
-    
-    if (fields.length > 0) {
-      const setClause = fields.map(field => `${field} = ?`).join(', ');
-      await this.connection.execute(
-        `UPDATE users SET ${setClause} WHERE id = ?`,
-        [...values, id]
-      );
+    for (const column of aiTakeoverColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to ${column.table} table`);
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in ${column.table} table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
     }
-    
-    return this.getUser(id) as Promise<User>;
-  }
 
-  async getAllAdminUsers(): Promise<User[]> {
-    if (!this.connection) throw new Error('No database connection');
+    // Disparos para segmentos do CRM (sem lista de contatos)
+    const audienceColumns = [
+      { table: 'scheduled_messages', name: 'audience_type', type: "VARCHAR(20) DEFAULT 'contact_list'" },
+      { table: 'scheduled_messages', name: 'segment_filters', type: 'JSON' }
+    ];
 
-    const [rows] = await this.connection.execute(
-      'SELECT id, name, email, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE role = ? ORDER BY created_at DESC',
-      ['admin']
-    );
-    return (rows as any[]).map(row => ({
-      ...row,
-      password: '', // Never return password
-    }));
-  }
+    for (const column of audienceColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to ${column.table} table`);
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in ${column.table} table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
+    }
 
-  async getAdminUsersWithPassword(): Promise<User[]> {
-    if (!this.connection) throw new Error('No database connection');
+    const brokerAvailabilityColumns = [
+      { table: 'brokers', name: 'working_hours', type: 'JSON' },
+      { table: 'brokers', name: 'visit_duration_minutes', type: 'INT DEFAULT 60' },
+      { table: 'appointments', name: 'reminder_24h_sent_at', type: 'TIMESTAMP NULL' },
+      { table: 'appointments', name: 'reminder_1h_sent_at', type: 'TIMESTAMP NULL' }
+    ];
 
-    const [rows] = await this.connection.execute(
-      'SELECT id, name, email, password, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE role = ? ORDER BY created_at DESC',
-      ['admin']
-    );
-    return rows as User[];
-  }
+    for (const column of brokerAvailabilityColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to ${column.table} table`);
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in ${column.table} table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
+    }
 
-  async deleteUser(id: string): Promise<void> {
-    if (!this.connection) throw new Error('No database connection');
+    // Sinônimos de tipos de imóvel usados na detecção de busca
+    try {
+      await this.connection.execute(`
+        ALTER TABLE companies ADD COLUMN property_type_synonyms JSON
+      `);
+      console.log('✅ Added property_type_synonyms column to companies table');
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_FIELDNAME') {
+        console.log('✅ property_type_synonyms column already exists in companies table');
+      } else {
+        console.error('❌ Error adding property_type_synonyms column:', error);
+      }
+    }
 
-    await this.connection.execute(
-      'DELETE FROM users WHERE id = ?',
-      [id]
+    // Opt-out dos alertas de imóveis no perfil do contato
+    try {
+      await this.connection.execute(`
+        ALTER TABLE lead_preferences ADD COLUMN alerts_opt_out BOOLEAN NOT NULL DEFAULT FALSE
+      `);
+      console.log('✅ Added alerts_opt_out column to lead_preferences table');
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_FIELDNAME') {
+        console.log('✅ alerts_opt_out column already exists in lead_preferences table');
+      } else {
+        console.error('❌ Error adding alerts_opt_out column:', error);
+      }
+    }
+
+    // Janela de envio, limite diário por instância e aquecimento dos disparos
+    const sendingLimitColumns = [
+      { table: 'companies', name: 'timezone', type: "VARCHAR(64) DEFAULT 'America/Sao_Paulo'" },
+      { table: 'whatsapp_instances', name: 'first_connected_at', type: 'TIMESTAMP NULL' },
+      { table: 'scheduled_messages', name: 'send_window_start', type: 'VARCHAR(5)' },
+      { table: 'scheduled_messages', name: 'send_window_end', type: 'VARCHAR(5)' },
+      { table: 'scheduled_messages', name: 'send_weekdays', type: 'JSON' },
+      { table: 'scheduled_messages', name: 'daily_limit_per_instance', type: 'INT' },
+      { table: 'scheduled_messages', name: 'warmup_enabled', type: 'BOOLEAN DEFAULT TRUE' },
+      { table: 'scheduled_messages', name: 'paused_until', type: 'TIMESTAMP NULL' },
+      { table: 'scheduled_messages', name: 'pause_reason', type: 'VARCHAR(255)' }
+    ];
+
+    for (const column of sendingLimitColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to ${column.table} table`);
+
+        // Números que já estavam em uso não passam pelo aquecimento
+        if (column.name === 'first_connected_at') {
+          await this.connection.execute(
+            "UPDATE whatsapp_instances SET first_connected_at = created_at WHERE status = 'connected'"
+          );
+        }
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in ${column.table} table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
+    }
+
+    // Caixa de entrada: qual usuário do painel enviou cada resposta humana
+    try {
+      await this.connection.execute(`
+        ALTER TABLE messages ADD COLUMN user_id VARCHAR(36)
+      `);
+      console.log(`✅ Added user_id column to messages table`);
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_FIELDNAME') {
+        console.log(`✅ user_id column already exists in messages table`);
+      } else {
+        console.error(`❌ Error adding user_id column:`, error);
+      }
+    }
+
+    // Mídia recebida fora do banco (só a referência) e conteúdo estruturado de localizações, contatos e PDFs
+    const messageMediaColumns = [
+      { name: 'media_path', type: 'VARCHAR(500)' },
+      { name: 'mime_type', type: 'VARCHAR(100)' },
+      { name: 'file_name', type: 'VARCHAR(255)' },
+      { name: 'metadata', type: 'JSON' },
+      { name: 'extracted_text', type: 'MEDIUMTEXT' }
+    ];
+
+    for (const column of messageMediaColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE messages ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to messages table`);
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in messages table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
+    }
+
+    // Confirmações de entrega (enviada, entregue, lida) das mensagens e dos disparos
+    const deliveryColumns = [
+      { table: 'messages', name: 'delivery_status', type: 'VARCHAR(20)' },
+      { table: 'messages', name: 'delivered_at', type: 'TIMESTAMP NULL' },
+      { table: 'messages', name: 'read_at', type: 'TIMESTAMP NULL' },
+      { table: 'broadcast_recipients', name: 'delivery_status', type: 'VARCHAR(20)' },
+      { table: 'broadcast_recipients', name: 'delivered_at', type: 'TIMESTAMP NULL' },
+      { table: 'broadcast_recipients', name: 'read_at', type: 'TIMESTAMP NULL' }
+    ];
+
+    for (const column of deliveryColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to ${column.table} table`);
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in ${column.table} table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
+    }
+
+    // Contatos descadastrados durante o disparo eram gravados como falha; agora são "ignorados"
+    try {
+      const [skipped] = await this.connection.execute(
+        `UPDATE broadcast_recipients SET status = 'skipped', failed_at = NULL
+         WHERE status = 'failed' AND error_message = 'Contato descadastrado (opt-out)'`
+      );
+      if ((skipped as any).affectedRows > 0) {
+        await this.connection.execute(
+          `UPDATE scheduled_messages SET failed_messages = (
+             SELECT COUNT(*) FROM broadcast_recipients WHERE broadcast_recipients.scheduled_message_id = scheduled_messages.id AND broadcast_recipients.status = 'failed'
+           ) WHERE id IN (SELECT scheduled_message_id FROM (SELECT DISTINCT scheduled_message_id FROM broadcast_recipients WHERE status = 'skipped') AS skipped_messages)`
+        );
+        console.log(`✅ ${(skipped as any).affectedRows} opted-out broadcast recipient(s) moved from failed to skipped`);
+      }
+    } catch (error) {
+      console.error('❌ Error migrating opted-out broadcast recipients:', error);
+    }
+
+    // Etapas copiadas do funil global: cada etapa global é copiada no máximo uma vez por empresa
+    try {
+      await this.connection.execute(`
+        ALTER TABLE funnel_stages ADD COLUMN source_stage_id VARCHAR(36) NULL
+      `);
+      console.log('✅ Added source_stage_id column to funnel_stages table');
+    } catch (error: any) {
+      if (error.code !== 'ER_DUP_FIELDNAME') {
+        console.error('❌ Error adding source_stage_id column:', error);
+      }
+    }
+    try {
+      await this.connection.execute(`
+        ALTER TABLE funnel_stages ADD UNIQUE KEY funnel_stages_company_source_unique (company_id, source_stage_id)
+      `);
+      console.log('✅ Added company/source stage unique key to funnel_stages table');
+    } catch (error: any) {
+      if (error.code !== 'ER_DUP_KEYNAME') {
+        console.error('❌ Error adding company/source stage unique key to funnel_stages:', error);
+      }
+    }
+
+    // As confirmações chegam só com o key.id da mensagem
+    const evolutionMessageIdIndexes = ['messages', 'broadcast_recipients'];
+    for (const table of evolutionMessageIdIndexes) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE ${table} ADD INDEX idx_${table}_evolution_message_id (evolution_message_id)
+        `);
+        console.log(`✅ Added evolution_message_id index to ${table} table`);
+      } catch (error: any) {
+        if (error.code !== 'ER_DUP_KEYNAME') {
+          console.error(`❌ Error adding evolution_message_id index to ${table}:`, error);
+        }
+      }
+    }
+
+    // Monitor de saúde das instâncias: última vez vista conectada, início do status atual e reconexões
+    const instanceHealthColumns = [
+      { name: 'last_seen_at', type: 'TIMESTAMP NULL' },
+      { name: 'status_changed_at', type: 'TIMESTAMP NULL' },
+      { name: 'reconnect_attempts', type: 'INT DEFAULT 0' },
+      { name: 'disconnect_alerted_at', type: 'TIMESTAMP NULL' }
+    ];
+
+    for (const column of instanceHealthColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE whatsapp_instances ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to whatsapp_instances table`);
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in whatsapp_instances table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
+    }
+
+    // Responsável, etiquetas e distribuição automática das conversas
+    const assignmentColumns = [
+      { table: 'conversations', name: 'assigned_user_id', type: 'VARCHAR(36)' },
+      { table: 'conversations', name: 'assigned_broker_id', type: 'VARCHAR(36)' },
+      { table: 'conversations', name: 'assigned_at', type: 'TIMESTAMP NULL' },
+      { table: 'conversations', name: 'tags', type: 'JSON' },
+      { table: 'companies', name: 'auto_assign_conversations', type: 'BOOLEAN DEFAULT FALSE' }
+    ];
+
+    for (const column of assignmentColumns) {
+      try {
+        await this.connection.execute(`
+          ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}
+        `);
+        console.log(`✅ Added ${column.name} column to ${column.table} table`);
+
+        // O status antigo "active" passa a ser "open" (aberta)
+        if (column.name === 'assigned_user_id') {
+          await this.connection.execute("ALTER TABLE conversations ALTER COLUMN status SET DEFAULT 'open'");
+          await this.connection.execute("UPDATE conversations SET status = 'open' WHERE status = 'active' OR status IS NULL");
+        }
+      } catch (error: any) {
+        if (error.code === 'ER_DUP_FIELDNAME') {
+          console.log(`✅ ${column.name} column already exists in ${column.table} table`);
+        } else {
+          console.error(`❌ Error adding ${column.name} column:`, error);
+        }
+      }
+    }
+
+    try {
+      await this.connection.execute(`
+        ALTER TABLE scheduled_messages MODIFY COLUMN contact_list_id VARCHAR(36) NULL
+      `);
+    } catch (error: any) {
+      console.error(`❌ Error making contact_list_id nullable:`, error);
+    }
+
+    // Insert default configurations if they don't exist
+    await this.insertDefaultConfigurations();
+  }
+
+  private async fixTableCharsets(): Promise<void> {
+    if (!this.connection) return;
+    
+    try {
+      // Fix ai_agents table charset and add hierarchy columns
+      await this.connection.execute(`
+        ALTER TABLE ai_agents 
+        MODIFY name VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        MODIFY prompt TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        ADD COLUMN IF NOT EXISTS training_content TEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        ADD COLUMN IF NOT EXISTS agent_type VARCHAR(20) DEFAULT 'main',
+        ADD COLUMN IF NOT EXISTS parent_agent_id VARCHAR(36),
+        ADD COLUMN IF NOT EXISTS specialization VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci,
+        ADD COLUMN IF NOT EXISTS delegation_keywords JSON
+      `);
+      console.log('Fixed ai_agents table charset');
+    } catch (error: any) {
+      console.log('Table charset fix not needed or already applied:', error.message);
+    }
+  }
+
+  private async insertDefaultConfigurations(): Promise<void> {
+    if (!this.connection) return;
+
+    // Check and insert default global configuration
+    const [globalRows] = await this.connection.execute(
+      'SELECT COUNT(*) as count FROM global_configurations'
+    );
+    if ((globalRows as any)[0].count === 0) {
+      await this.connection.execute(
+        'INSERT INTO global_configurations (id) VALUES (UUID())'
+      );
+    }
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+    
+    const [rows] = await this.connection.execute(
+      'SELECT id, email, password, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE id = ?',
+      [id]
+    );
+    return (rows as User[])[0];
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+    
+    const [rows] = await this.connection.execute(
+      'SELECT id, email, password, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE email = ?',
+      [email]
+    );
+    return (rows as User[])[0];
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    await this.connection.execute(
+      'INSERT INTO users (id, name, email, password, role, company_id) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, user.name || null, user.email, user.password, user.role || 'client', user.companyId || null]
+    );
+    return this.getUser(id) as Promise<User>;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    if (!this.connection) throw new Error('No database connection');
+    
+    const fields = Object.keys(updates).filter(key => updates[key as keyof User] !== undefined);
+    const values = fields.map(key => updates[key as keyof User]);
+    
+    if (fields.length > 0) {
+      const setClause = fields.map(field => `${field} = ?`).join(', ');
+      await this.connection.execute(
+        `UPDATE users SET ${setClause} WHERE id = ?`,
+        [...values, id]
+      );
+    }
+    
+    return this.getUser(id) as Promise<User>;
+  }
+
+  async getUsersByCompany(companyId: string): Promise<User[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT id, name, email, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE company_id = ? ORDER BY name, email',
+      [companyId]
+    );
+    return (rows as any[]).map(row => ({
+      ...row,
+      password: '', // Never return password
+    }));
+  }
+
+  async getAllAdminUsers(): Promise<User[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT id, name, email, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE role = ? ORDER BY created_at DESC',
+      ['admin']
+    );
+    return (rows as any[]).map(row => ({
+      ...row,
+      password: '', // Never return password
+    }));
+  }
+
+  async getAdminUsersWithPassword(): Promise<User[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT id, name, email, password, role, company_id as companyId, created_at as createdAt, updated_at as updatedAt FROM users WHERE role = ? ORDER BY created_at DESC',
+      ['admin']
+    );
+    return rows as User[];
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      'DELETE FROM users WHERE id = ?',
+      [id]
     );
   }
 
@@ -669,6 +1434,10 @@ export class MySQLStorage implements IStorage {
       responsibleEmail: row.responsible_email,
       planId: row.plan_id,
       status: row.status,
+      aiResumeIdleMinutes: row.ai_resume_idle_minutes ?? 30,
+      timezone: row.timezone || 'America/Sao_Paulo',
+      autoAssignConversations: !!row.auto_assign_conversations,
+      propertyTypeSynonyms: typeof row.property_type_synonyms === 'string' ? JSON.parse(row.property_type_synonyms) : row.property_type_synonyms ?? null,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -713,6 +1482,10 @@ export class MySQLStorage implements IStorage {
       responsibleEmail: 'responsible_email',
       planId: 'plan_id',
       status: 'status',
+      aiResumeIdleMinutes: 'ai_resume_idle_minutes',
+      propertyTypeSynonyms: 'property_type_synonyms',
+      timezone: 'timezone',
+      autoAssignConversations: 'auto_assign_conversations',
     };
 
     const setClauses: string[] = [];
@@ -721,7 +1494,7 @@ export class MySQLStorage implements IStorage {
     for (const [key, value] of Object.entries(updates)) {
       if (value !== undefined && fieldMap[key]) {
         setClauses.push(`${fieldMap[key]} = ?`);
-        values.push(value);
+        values.push(key === 'propertyTypeSynonyms' && value !== null ? JSON.stringify(value) : value);
       }
     }
 
@@ -870,6 +1643,9 @@ export class MySQLStorage implements IStorage {
       modelo: rawData.modelo,
       temperatura: rawData.temperatura?.toString() || "0.7",
       numeroTokens: parseInt(rawData.numero_tokens?.toString() || "1000"),
+      localBaseUrl: rawData.local_base_url || null,
+      localApiKey: rawData.local_api_key || null,
+      localModelo: rawData.local_modelo || null,
       updatedAt: rawData.updated_at,
     } as AiConfiguration;
     
@@ -885,21 +1661,25 @@ export class MySQLStorage implements IStorage {
     const existing = await this.getAiConfiguration();
     
     // Garantir que os valores não sejam undefined
-    const apiKey = config.apiKey || null;
+    // api_key é NOT NULL, mas pode ficar vazia quando só o endpoint local é usado
+    const apiKey = config.apiKey || '';
     const modelo = config.modelo || 'gpt-4o';
     const temperatura = config.temperatura ? parseFloat(config.temperatura.toString()) : 0.7;
     const numeroTokens = config.numeroTokens ? parseInt(config.numeroTokens.toString()) : 1000;
+    const localBaseUrl = config.localBaseUrl?.trim() || null;
+    const localApiKey = config.localApiKey || null;
+    const localModelo = config.localModelo || null;
     
     if (existing) {
       await this.connection.execute(
-        'UPDATE ai_configurations SET api_key = ?, modelo = ?, temperatura = ?, numero_tokens = ? WHERE id = ?',
-        [apiKey, modelo, temperatura, numeroTokens, existing.id]
+        'UPDATE ai_configurations SET api_key = ?, modelo = ?, temperatura = ?, numero_tokens = ?, local_base_url = ?, local_api_key = ?, local_modelo = ? WHERE id = ?',
+        [apiKey, modelo, temperatura, numeroTokens, localBaseUrl, localApiKey, localModelo, existing.id]
       );
     } else {
       const id = randomUUID();
       await this.connection.execute(
-        'INSERT INTO ai_configurations (id, api_key, modelo, temperatura, numero_tokens) VALUES (?, ?, ?, ?, ?)',
-        [id, apiKey, modelo, temperatura, numeroTokens]
+        'INSERT INTO ai_configurations (id, api_key, modelo, temperatura, numero_tokens, local_base_url, local_api_key, local_modelo) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, apiKey, modelo, temperatura, numeroTokens, localBaseUrl, localApiKey, localModelo]
       );
     }
     
@@ -927,6 +1707,11 @@ export class MySQLStorage implements IStorage {
       evolutionInstanceId: row.evolution_instance_id,
       qrCode: row.qr_code,
       aiAgentId: row.ai_agent_id,
+      firstConnectedAt: row.first_connected_at,
+      lastSeenAt: row.last_seen_at,
+      statusChangedAt: row.status_changed_at,
+      reconnectAttempts: row.reconnect_attempts ?? 0,
+      disconnectAlertedAt: row.disconnect_alerted_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     } as WhatsappInstance;
@@ -952,6 +1737,11 @@ export class MySQLStorage implements IStorage {
       companyId: row.company_id,
       aiAgentId: row.ai_agent_id || null,
       qrCode: row.qr_code || null,
+      firstConnectedAt: row.first_connected_at,
+      lastSeenAt: row.last_seen_at,
+      statusChangedAt: row.status_changed_at,
+      reconnectAttempts: row.reconnect_attempts ?? 0,
+      disconnectAlertedAt: row.disconnect_alerted_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     } as WhatsappInstance;
@@ -975,15 +1765,44 @@ export class MySQLStorage implements IStorage {
       evolutionInstanceId: row.evolution_instance_id,
       qrCode: row.qr_code,
       aiAgentId: row.ai_agent_id,
+      firstConnectedAt: row.first_connected_at,
+      lastSeenAt: row.last_seen_at,
+      statusChangedAt: row.status_changed_at,
+      reconnectAttempts: row.reconnect_attempts ?? 0,
+      disconnectAlertedAt: row.disconnect_alerted_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     })) as WhatsappInstance[];
   }
 
-  async createWhatsappInstance(instance: InsertWhatsappInstance): Promise<WhatsappInstance> {
+  async getAllWhatsappInstances(): Promise<WhatsappInstance[]> {
     if (!this.connection) throw new Error('No database connection');
-    
-    const id = randomUUID();
+
+    const [rows] = await this.connection.execute('SELECT * FROM whatsapp_instances ORDER BY created_at ASC');
+
+    return (rows as any[]).map(row => ({
+      id: row.id,
+      name: row.name,
+      phone: row.phone,
+      status: row.status,
+      companyId: row.company_id,
+      evolutionInstanceId: row.evolution_instance_id,
+      qrCode: row.qr_code,
+      aiAgentId: row.ai_agent_id,
+      firstConnectedAt: row.first_connected_at,
+      lastSeenAt: row.last_seen_at,
+      statusChangedAt: row.status_changed_at,
+      reconnectAttempts: row.reconnect_attempts ?? 0,
+      disconnectAlertedAt: row.disconnect_alerted_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    })) as WhatsappInstance[];
+  }
+
+  async createWhatsappInstance(instance: InsertWhatsappInstance): Promise<WhatsappInstance> {
+    if (!this.connection) throw new Error('No database connection');
+    
+    const id = randomUUID();
     await this.connection.execute(
       'INSERT INTO whatsapp_instances (id, company_id, name, phone, evolution_instance_id, status, ai_agent_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
       [
@@ -1010,6 +1829,11 @@ export class MySQLStorage implements IStorage {
       aiAgentId: 'ai_agent_id',
       evolutionInstanceId: 'evolution_instance_id',
       qrCode: 'qr_code',
+      firstConnectedAt: 'first_connected_at',
+      lastSeenAt: 'last_seen_at',
+      statusChangedAt: 'status_changed_at',
+      reconnectAttempts: 'reconnect_attempts',
+      disconnectAlertedAt: 'disconnect_alerted_at',
       createdAt: 'created_at',
       updatedAt: 'updated_at'
     };
@@ -1018,7 +1842,9 @@ export class MySQLStorage implements IStorage {
     const values = fields.map(key => updates[key as keyof WhatsappInstance]);
     
     if (fields.length > 0) {
-      const setClause = fields.map(field => `${fieldMapping[field] || field} = ?`).join(', ');
+      // A primeira conexão marca o início do aquecimento do número
+      const firstConnection = updates.status === 'connected' ? ', first_connected_at = COALESCE(first_connected_at, NOW())' : '';
+      const setClause = fields.map(field => `${fieldMapping[field] || field} = ?`).join(', ') + firstConnection;
       await this.connection.execute(
         `UPDATE whatsapp_instances SET ${setClause} WHERE id = ?`,
         [...values, id]
@@ -1064,8 +1890,10 @@ export class MySQLStorage implements IStorage {
       agentType: row.agent_type,
       parentAgentId: row.parent_agent_id,
       trainingContent: row.training_content,
+      knowledgeIndexedAt: row.knowledge_indexed_at || null,
       companyId: row.company_id,
       numeroTokens: row.numero_tokens,
+      provider: row.provider || 'openai',
       createdAt: row.created_at,
       updatedAt: row.updated_at
     }));
@@ -1076,7 +1904,7 @@ export class MySQLStorage implements IStorage {
     
     const id = randomUUID();
     await this.connection.execute(
-      'INSERT INTO ai_agents (id, company_id, name, prompt, temperatura, numero_tokens, modelo, training_files, training_content, agent_type, parent_agent_id, specialization, delegation_keywords) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      'INSERT INTO ai_agents (id, company_id, name, prompt, temperatura, numero_tokens, provider, modelo, training_files, training_content, agent_type, parent_agent_id, specialization, delegation_keywords) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
       [
         id, 
         agent.companyId, 
@@ -1084,7 +1912,8 @@ export class MySQLStorage implements IStorage {
         agent.prompt, 
         agent.temperatura, 
         agent.numeroTokens, 
-        agent.modelo, 
+        agent.provider || 'openai',
+        agent.modelo || null, 
         JSON.stringify(agent.trainingFiles || []), 
         agent.trainingContent || null,
         agent.agentType || 'main',
@@ -1104,6 +1933,7 @@ export class MySQLStorage implements IStorage {
       numeroTokens: 'numero_tokens',
       trainingFiles: 'training_files',
       trainingContent: 'training_content',
+      knowledgeIndexedAt: 'knowledge_indexed_at',
       agentType: 'agent_type',
       parentAgentId: 'parent_agent_id',
       delegationKeywords: 'delegation_keywords',
@@ -1165,8 +1995,13 @@ export class MySQLStorage implements IStorage {
     if (!this.connection) throw new Error('No database connection');
     
     // First delete all secondary agents that have this agent as parent
+    await this.connection.execute(
+      'DELETE FROM knowledge_chunks WHERE agent_id IN (SELECT id FROM ai_agents WHERE parent_agent_id = ?)',
+      [id]
+    );
     await this.connection.execute('DELETE FROM ai_agents WHERE parent_agent_id = ?', [id]);
-    // Then delete the agent itself
+    // Then delete the agent itself (and its indexed knowledge)
+    await this.connection.execute('DELETE FROM knowledge_chunks WHERE agent_id = ?', [id]);
     await this.connection.execute('DELETE FROM ai_agents WHERE id = ?', [id]);
   }
 
@@ -1178,7 +2013,19 @@ export class MySQLStorage implements IStorage {
       'SELECT * FROM conversations WHERE id = ?',
       [id]
     );
-    return (rows as Conversation[])[0];
+    const conversations = rows as any[];
+    return conversations.length > 0 ? this.mapConversationRow(conversations[0]) : undefined;
+  }
+
+  async getConversationByPhone(instanceId: string, phone: string): Promise<Conversation | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM conversations WHERE whatsapp_instance_id = ? AND contact_phone = ? ORDER BY created_at ASC LIMIT 1',
+      [instanceId, phone]
+    );
+    const conversations = rows as any[];
+    return conversations.length > 0 ? this.mapConversationRow(conversations[0]) : undefined;
   }
 
   async getConversationsByInstance(instanceId: string): Promise<Conversation[]> {
@@ -1201,16 +2048,7 @@ export class MySQLStorage implements IStorage {
     );
     
     // Mapear manualmente se necessário (corrigir snake_case para camelCase)
-    const mappedRows = rawResults.map(row => ({
-      id: row.id,
-      whatsappInstanceId: row.whatsapp_instance_id,
-      contactName: row.contact_name,
-      contactPhone: row.contact_phone, // Mapear explicitamente
-      lastMessage: row.last_message,
-      lastMessageAt: row.last_message_at,
-      status: row.status,
-      createdAt: row.created_at
-    }));
+    const mappedRows = rawResults.map(row => this.mapConversationRow(row));
     
     console.log(`🔍 [STORAGE] Mapped results:`, 
       mappedRows.map(r => ({ id: r.id, contactPhone: r.contactPhone }))
@@ -1219,6 +2057,53 @@ export class MySQLStorage implements IStorage {
     return mappedRows as Conversation[];
   }
 
+  // Conversas de todas as instâncias da empresa, mais recentes primeiro
+  async getConversationsByCompany(companyId: string): Promise<InboxConversation[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `${INBOX_CONVERSATION_SELECT}
+       WHERE wi.company_id = ?
+       ORDER BY COALESCE(c.last_message_at, c.created_at) DESC`,
+      [companyId]
+    );
+    return (rows as any[]).map(row => this.mapInboxConversationRow(row));
+  }
+
+  async getInboxConversation(id: string): Promise<InboxConversation | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(`${INBOX_CONVERSATION_SELECT} WHERE c.id = ?`, [id]);
+    const row = (rows as any[])[0];
+    return row ? this.mapInboxConversationRow(row) : undefined;
+  }
+
+  // Última conversa distribuída hoje para um corretor (para o rodízio)
+  async getLastConversationAssignedToBrokerToday(companyId: string): Promise<Conversation | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT c.* FROM conversations c
+       INNER JOIN whatsapp_instances wi ON wi.id = c.whatsapp_instance_id
+       WHERE wi.company_id = ?
+       AND c.assigned_broker_id IS NOT NULL
+       AND DATE(c.assigned_at) = CURDATE()
+       ORDER BY c.assigned_at DESC
+       LIMIT 1`,
+      [companyId]
+    );
+    const row = (rows as any[])[0];
+    return row ? this.mapConversationRow(row) : undefined;
+  }
+
+  private mapInboxConversationRow(row: any): InboxConversation {
+    return {
+      ...this.mapConversationRow(row),
+      instanceName: row.instance_name,
+      lastMessageSender: row.last_message_sender ?? null,
+    };
+  }
+
   async createConversation(conversation: InsertConversation): Promise<Conversation> {
     if (!this.connection) throw new Error('No database connection');
     
@@ -1233,20 +2118,68 @@ export class MySQLStorage implements IStorage {
   async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation> {
     if (!this.connection) throw new Error('No database connection');
     
-    const fields = Object.keys(updates).filter(key => updates[key as keyof Conversation] !== undefined);
-    const values = fields.map(key => updates[key as keyof Conversation]);
-    
-    if (fields.length > 0) {
-      const setClause = fields.map(field => `${field} = ?`).join(', ');
+    // Mapeamento de campos camelCase para snake_case
+    const fieldMap: Record<string, string> = {
+      contactName: 'contact_name',
+      contactPhone: 'contact_phone',
+      lastMessage: 'last_message',
+      lastMessageAt: 'last_message_at',
+      status: 'status',
+      aiState: 'ai_state',
+      aiStateReason: 'ai_state_reason',
+      aiStateChangedAt: 'ai_state_changed_at',
+      aiPausedBy: 'ai_paused_by',
+      lastHumanMessageAt: 'last_human_message_at',
+      assignedUserId: 'assigned_user_id',
+      assignedBrokerId: 'assigned_broker_id',
+      assignedAt: 'assigned_at',
+      tags: 'tags',
+    };
+
+    const setClauses: string[] = [];
+    const values: any[] = [];
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined && fieldMap[key]) {
+        setClauses.push(`${fieldMap[key]} = ?`);
+        values.push(key === 'tags' && value !== null ? JSON.stringify(value) : value);
+      }
+    }
+
+    if (setClauses.length > 0) {
+      values.push(id);
       await this.connection.execute(
-        `UPDATE conversations SET ${setClause} WHERE id = ?`,
-        [...values, id]
+        `UPDATE conversations SET ${setClauses.join(', ')} WHERE id = ?`,
+        values
       );
     }
     
     return this.getConversation(id) as Promise<Conversation>;
   }
 
+  private mapConversationRow(row: any): Conversation {
+    return {
+      id: row.id,
+      whatsappInstanceId: row.whatsapp_instance_id,
+      contactName: row.contact_name,
+      contactPhone: row.contact_phone,
+      lastMessage: row.last_message,
+      lastMessageAt: row.last_message_at,
+      status: row.status === 'active' ? 'open' : row.status,
+      assignedUserId: row.assigned_user_id,
+      assignedBrokerId: row.assigned_broker_id,
+      assignedAt: row.assigned_at,
+      tags: typeof row.tags === 'string' ? JSON.parse(row.tags) : row.tags ?? [],
+      aiState: row.ai_state || 'active',
+      aiStateReason: row.ai_state_reason,
+      aiStateChangedAt: row.ai_state_changed_at,
+      aiPausedBy: row.ai_paused_by,
+      lastHumanMessageAt: row.last_human_message_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
   // Message methods
   async getMessagesByConversation(conversationId: string): Promise<Message[]> {
     if (!this.connection) throw new Error('No database connection');
@@ -1256,23 +2189,7 @@ export class MySQLStorage implements IStorage {
       [conversationId]
     );
     
-    // Mapear manualmente campos snake_case para camelCase
-    const rawResults = rows as any[];
-    const mappedRows = rawResults.map(row => ({
-      id: row.id,
-      conversationId: row.conversation_id,
-      content: row.content,
-      sender: row.sender,
-      agentId: row.agent_id, // ✅ Mapear agent_id para agentId
-      messageType: row.message_type,
-      evolutionMessageId: row.evolution_message_id,
-      mediaUrl: row.media_url,
-      mediaBase64: row.media_base64,
-      caption: row.caption,
-      createdAt: row.created_at
-    }));
-    
-    return mappedRows as Message[];
+    return (rows as any[]).map(row => this.mapMessageRow(row));
   }
 
   async createMessage(message: InsertMessage): Promise<Message> {
@@ -1280,18 +2197,25 @@ export class MySQLStorage implements IStorage {
     
     const id = randomUUID();
     await this.connection.execute(
-      'INSERT INTO messages (id, conversation_id, content, sender, agent_id, message_type, evolution_message_id, media_url, media_base64, caption) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      'INSERT INTO messages (id, conversation_id, content, sender, agent_id, user_id, message_type, evolution_message_id, media_url, media_base64, media_path, mime_type, file_name, metadata, extracted_text, caption, delivery_status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
       [
         id, 
         message.conversationId, 
         message.content, 
         message.sender, 
         message.agentId || null, // Incluir o agentId
+        message.userId || null,
         message.messageType || 'text', 
         message.evolutionMessageId || null,
         message.mediaUrl || null,
         message.mediaBase64 || null,
-        message.caption || null
+        message.mediaPath || null,
+        message.mimeType || null,
+        message.fileName || null,
+        message.metadata ? JSON.stringify(message.metadata) : null,
+        message.extractedText || null,
+        message.caption || null,
+        message.deliveryStatus || null
       ]
     );
     
@@ -1300,21 +2224,107 @@ export class MySQLStorage implements IStorage {
       [id]
     );
     
-    // Mapear campos snake_case para camelCase também no createMessage
-    const rawRow = (rows as any[])[0];
+    return this.mapMessageRow((rows as any[])[0]);
+  }
+
+  async getMessageByEvolutionId(evolutionMessageId: string): Promise<Message | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM messages WHERE evolution_message_id = ? ORDER BY created_at DESC LIMIT 1',
+      [evolutionMessageId]
+    );
+    const row = (rows as any[])[0];
+    return row ? this.mapMessageRow(row) : undefined;
+  }
+
+  // key.id de todo envio do sistema pela Evolution API (imagens, lembretes e avisos não viram mensagens)
+  async recordOutboundMessage(evolutionMessageId: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      'INSERT IGNORE INTO outbound_messages (evolution_message_id) VALUES (?)',
+      [evolutionMessageId]
+    );
+  }
+
+  // Mensagem enviada pelo sistema: gravada no histórico, num disparo ou no registro de envios
+  async isOutboundMessage(evolutionMessageId: string): Promise<boolean> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT 1 FROM messages WHERE evolution_message_id = ?
+       UNION ALL SELECT 1 FROM broadcast_recipients WHERE evolution_message_id = ?
+       UNION ALL SELECT 1 FROM outbound_messages WHERE evolution_message_id = ?
+       LIMIT 1`,
+      [evolutionMessageId, evolutionMessageId, evolutionMessageId]
+    );
+    return (rows as any[]).length > 0;
+  }
+
+  async deleteOutboundMessagesBefore(before: Date): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute('DELETE FROM outbound_messages WHERE created_at < ?', [before]);
+  }
+
+  async updateMessageDeliveryStatus(id: string, status: MessageDeliveryStatus): Promise<Message> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `UPDATE messages SET delivery_status = ?,
+         delivered_at = IF(? IN ('delivered', 'read'), COALESCE(delivered_at, NOW()), delivered_at),
+         read_at = IF(? = 'read', COALESCE(read_at, NOW()), read_at)
+       WHERE id = ?`,
+      [status, status, status, id]
+    );
+
+    const [rows] = await this.connection.execute('SELECT * FROM messages WHERE id = ?', [id]);
+    return this.mapMessageRow((rows as any[])[0]);
+  }
+
+  // Envios da instância desde `since`: respostas nas conversas (IA e equipe) e disparos
+  async getInstanceDeliveryCounts(instanceId: string, since: Date, undeliveredBefore: Date): Promise<DeliveryCounts> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT ${this.deliveryCountColumns()} FROM (
+         SELECT m.delivery_status, m.created_at AS sent_at FROM messages m
+         JOIN conversations c ON c.id = m.conversation_id
+         WHERE c.whatsapp_instance_id = ? AND m.delivery_status IS NOT NULL AND m.created_at >= ?
+         UNION ALL
+         SELECT delivery_status, sent_at FROM broadcast_recipients
+         WHERE instance_id = ? AND delivery_status IS NOT NULL AND sent_at >= ?
+       ) AS sends`,
+      [undeliveredBefore, instanceId, since, instanceId, since]
+    );
+    return this.mapDeliveryCounts((rows as any[])[0]);
+  }
+
+  // Mapear campos snake_case para camelCase
+  private mapMessageRow(row: any): Message {
     return {
-      id: rawRow.id,
-      conversationId: rawRow.conversation_id,
-      content: rawRow.content,
-      sender: rawRow.sender,
-      agentId: rawRow.agent_id,
-      messageType: rawRow.message_type,
-      evolutionMessageId: rawRow.evolution_message_id,
-      mediaUrl: rawRow.media_url,
-      mediaBase64: rawRow.media_base64,
-      caption: rawRow.caption,
-      createdAt: rawRow.created_at
-    } as Message;
+      id: row.id,
+      conversationId: row.conversation_id,
+      content: row.content,
+      sender: row.sender,
+      agentId: row.agent_id,
+      userId: row.user_id,
+      messageType: row.message_type,
+      evolutionMessageId: row.evolution_message_id,
+      mediaUrl: row.media_url,
+      mediaBase64: row.media_base64,
+      mediaPath: row.media_path,
+      mimeType: row.mime_type,
+      fileName: row.file_name,
+      metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata,
+      extractedText: row.extracted_text,
+      caption: row.caption,
+      deliveryStatus: row.delivery_status,
+      deliveredAt: row.delivered_at,
+      readAt: row.read_at,
+      createdAt: row.created_at
+    };
   }
 
   // Contact Lists methods
@@ -1479,6 +2489,8 @@ export class MySQLStorage implements IStorage {
       id: message.id,
       companyId: message.company_id,
       contactListId: message.contact_list_id,
+      audienceType: message.audience_type || 'contact_list',
+      segmentFilters: message.segment_filters ? (typeof message.segment_filters === 'string' ? JSON.parse(message.segment_filters) : message.segment_filters) : null,
       instanceIds: JSON.parse(message.instance_ids || '[]'),
       messageType: message.message_type,
       messageContent: message.message_content,
@@ -1491,6 +2503,13 @@ export class MySQLStorage implements IStorage {
       intervalMax: message.interval_max,
       useMultipleInstances: !!message.use_multiple_instances,
       randomizeInstances: !!message.randomize_instances,
+      sendWindowStart: message.send_window_start,
+      sendWindowEnd: message.send_window_end,
+      sendWeekdays: typeof message.send_weekdays === 'string' ? JSON.parse(message.send_weekdays) : message.send_weekdays ?? null,
+      dailyLimitPerInstance: message.daily_limit_per_instance,
+      warmupEnabled: message.warmup_enabled == null ? true : !!message.warmup_enabled,
+      pausedUntil: message.paused_until,
+      pauseReason: message.pause_reason,
       status: message.status,
       totalMessages: message.total_messages,
       sentMessages: message.sent_messages,
@@ -1516,6 +2535,8 @@ export class MySQLStorage implements IStorage {
       id: message.id,
       companyId: message.company_id,
       contactListId: message.contact_list_id,
+      audienceType: message.audience_type || 'contact_list',
+      segmentFilters: message.segment_filters ? (typeof message.segment_filters === 'string' ? JSON.parse(message.segment_filters) : message.segment_filters) : null,
       instanceIds: JSON.parse(message.instance_ids || '[]'),
       messageType: message.message_type,
       messageContent: message.message_content,
@@ -1528,6 +2549,13 @@ export class MySQLStorage implements IStorage {
       intervalMax: message.interval_max,
       useMultipleInstances: !!message.use_multiple_instances,
       randomizeInstances: !!message.randomize_instances,
+      sendWindowStart: message.send_window_start,
+      sendWindowEnd: message.send_window_end,
+      sendWeekdays: typeof message.send_weekdays === 'string' ? JSON.parse(message.send_weekdays) : message.send_weekdays ?? null,
+      dailyLimitPerInstance: message.daily_limit_per_instance,
+      warmupEnabled: message.warmup_enabled == null ? true : !!message.warmup_enabled,
+      pausedUntil: message.paused_until,
+      pauseReason: message.pause_reason,
       status: message.status,
       totalMessages: message.total_messages,
       sentMessages: message.sent_messages,
@@ -1574,6 +2602,8 @@ export class MySQLStorage implements IStorage {
       id: message.id,
       companyId: message.company_id,
       contactListId: message.contact_list_id,
+      audienceType: message.audience_type || 'contact_list',
+      segmentFilters: message.segment_filters ? (typeof message.segment_filters === 'string' ? JSON.parse(message.segment_filters) : message.segment_filters) : null,
       instanceIds: JSON.parse(message.instance_ids || '[]'),
       messageType: message.message_type,
       messageContent: message.message_content,
@@ -1586,6 +2616,13 @@ export class MySQLStorage implements IStorage {
       intervalMax: message.interval_max,
       useMultipleInstances: !!message.use_multiple_instances,
       randomizeInstances: !!message.randomize_instances,
+      sendWindowStart: message.send_window_start,
+      sendWindowEnd: message.send_window_end,
+      sendWeekdays: typeof message.send_weekdays === 'string' ? JSON.parse(message.send_weekdays) : message.send_weekdays ?? null,
+      dailyLimitPerInstance: message.daily_limit_per_instance,
+      warmupEnabled: message.warmup_enabled == null ? true : !!message.warmup_enabled,
+      pausedUntil: message.paused_until,
+      pauseReason: message.pause_reason,
       status: message.status,
       totalMessages: message.total_messages,
       sentMessages: message.sent_messages,
@@ -1605,15 +2642,18 @@ export class MySQLStorage implements IStorage {
     
     await this.connection.execute(
       `INSERT INTO scheduled_messages (
-        id, company_id, contact_list_id, instance_ids, message_type, message_content, 
+        id, company_id, contact_list_id, audience_type, segment_filters, instance_ids, message_type, message_content, 
         messages, use_multiple_messages, file_name, file_base64, scheduled_date_time, 
         interval_min, interval_max, use_multiple_instances, randomize_instances, 
+        send_window_start, send_window_end, send_weekdays, daily_limit_per_instance, warmup_enabled,
         total_messages, status
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         message.companyId,
-        message.contactListId,
+        message.contactListId || null,
+        message.audienceType || 'contact_list',
+        message.segmentFilters ? JSON.stringify(message.segmentFilters) : null,
         JSON.stringify(message.instanceIds),
         message.messageType,
         message.messageContent,
@@ -1626,6 +2666,11 @@ export class MySQLStorage implements IStorage {
         message.intervalMax,
         message.useMultipleInstances ? 1 : 0,
         message.randomizeInstances ? 1 : 0,
+        message.sendWindowStart || null,
+        message.sendWindowEnd || null,
+        message.sendWeekdays ? JSON.stringify(message.sendWeekdays) : null,
+        message.dailyLimitPerInstance ?? null,
+        message.warmupEnabled === false ? 0 : 1,
         message.totalMessages,
         'scheduled'
       ]
@@ -1661,6 +2706,11 @@ export class MySQLStorage implements IStorage {
       values.push(updates.failedMessages);
     }
     
+    if (updates.totalMessages !== undefined) {
+      setParts.push('total_messages = ?');
+      values.push(updates.totalMessages);
+    }
+    
     if (updates.startedAt !== undefined) {
       setParts.push('started_at = ?');
       // Convert startedAt to local time format for MySQL
@@ -1683,6 +2733,16 @@ export class MySQLStorage implements IStorage {
       setParts.push('error_message = ?');
       values.push(updates.errorMessage);
     }
+
+    if (updates.pausedUntil !== undefined) {
+      setParts.push('paused_until = ?');
+      values.push(updates.pausedUntil);
+    }
+
+    if (updates.pauseReason !== undefined) {
+      setParts.push('pause_reason = ?');
+      values.push(updates.pauseReason);
+    }
     
     if (setParts.length === 0) {
       const message = await this.getScheduledMessage(id);
@@ -1709,6 +2769,7 @@ export class MySQLStorage implements IStorage {
   async deleteScheduledMessage(id: string): Promise<void> {
     if (!this.connection) throw new Error('No database connection');
     
+    await this.connection.execute('DELETE FROM broadcast_recipients WHERE scheduled_message_id = ?', [id]);
     await this.connection.execute('DELETE FROM scheduled_messages WHERE id = ?', [id]);
   }
 
@@ -1725,6 +2786,8 @@ export class MySQLStorage implements IStorage {
       id: message.id,
       companyId: message.company_id,
       contactListId: message.contact_list_id,
+      audienceType: message.audience_type || 'contact_list',
+      segmentFilters: message.segment_filters ? (typeof message.segment_filters === 'string' ? JSON.parse(message.segment_filters) : message.segment_filters) : null,
       instanceIds: JSON.parse(message.instance_ids || '[]'),
       messageType: message.message_type,
       messageContent: message.message_content,
@@ -1737,6 +2800,13 @@ export class MySQLStorage implements IStorage {
       intervalMax: message.interval_max,
       useMultipleInstances: !!message.use_multiple_instances,
       randomizeInstances: !!message.randomize_instances,
+      sendWindowStart: message.send_window_start,
+      sendWindowEnd: message.send_window_end,
+      sendWeekdays: typeof message.send_weekdays === 'string' ? JSON.parse(message.send_weekdays) : message.send_weekdays ?? null,
+      dailyLimitPerInstance: message.daily_limit_per_instance,
+      warmupEnabled: message.warmup_enabled == null ? true : !!message.warmup_enabled,
+      pausedUntil: message.paused_until,
+      pauseReason: message.pause_reason,
       status: message.status,
       totalMessages: message.total_messages,
       sentMessages: message.sent_messages,
@@ -1773,6 +2843,7 @@ export class MySQLStorage implements IStorage {
       companyId: instance.company_id,
       evolutionId: instance.evolution_instance_id,
       aiAgentId: instance.ai_agent_id,
+      firstConnectedAt: instance.first_connected_at,
       createdAt: instance.created_at,
       updatedAt: instance.updated_at
     }));
@@ -1799,15 +2870,7 @@ export class MySQLStorage implements IStorage {
     const stages = rows as any[];
     if (stages.length === 0) return undefined;
 
-    const stage = stages[0];
-    return {
-      ...stage,
-      companyId: stage.company_id,
-      isActive: Boolean(stage.is_active),
-      isGlobal: Boolean(stage.is_global),
-      createdAt: stage.created_at,
-      updatedAt: stage.updated_at
-    } as FunnelStage;
+    return this.mapFunnelStageRow(stages[0]);
   }
 
   async getGlobalFunnelStages(): Promise<FunnelStage[]> {
@@ -1817,15 +2880,7 @@ export class MySQLStorage implements IStorage {
       'SELECT * FROM funnel_stages WHERE is_global = TRUE AND is_active = TRUE ORDER BY `order` ASC'
     );
 
-    const stages = rows as any[];
-    return stages.map(stage => ({
-      ...stage,
-      companyId: stage.company_id,
-      isActive: Boolean(stage.is_active),
-      isGlobal: Boolean(stage.is_global),
-      createdAt: stage.created_at,
-      updatedAt: stage.updated_at
-    })) as FunnelStage[];
+    return (rows as any[]).map(stage => this.mapFunnelStageRow(stage));
   }
 
   async initializeGlobalFunnelStages(): Promise<void> {
@@ -1867,71 +2922,274 @@ export class MySQLStorage implements IStorage {
     console.log('✅ Global funnel stages initialized successfully');
   }
 
-  // Customer methods
-  async getCustomer(id: string): Promise<Customer | undefined> {
+  // Funnel Stages (por empresa): enquanto a empresa não personaliza o funil, usa as etapas globais
+  async getCompanyFunnelStages(companyId: string, includeArchived: boolean = false): Promise<FunnelStage[]> {
     if (!this.connection) throw new Error('No database connection');
-    
+
     const [rows] = await this.connection.execute(
-      'SELECT * FROM customers WHERE id = ?',
-      [id]
+      `SELECT * FROM funnel_stages WHERE company_id = ? ${includeArchived ? '' : 'AND is_active = TRUE'} ORDER BY is_active DESC, \`order\` ASC`,
+      [companyId]
     );
-    
-    const customers = rows as any[];
-    if (customers.length === 0) return undefined;
-    
-    return this.parseCustomer(customers[0]);
+
+    if ((rows as any[]).length === 0 && !(await this.hasCompanyFunnelStages(companyId))) {
+      return this.getGlobalFunnelStages();
+    }
+
+    return (rows as any[]).map(stage => this.mapFunnelStageRow(stage));
   }
 
-  async getCustomersByCompany(companyId: string): Promise<Customer[]> {
+  async getFirstFunnelStage(companyId: string): Promise<FunnelStage | undefined> {
+    const stages = await this.getCompanyFunnelStages(companyId);
+    return stages[0];
+  }
+
+  /**
+   * Copia as etapas globais para a empresa na primeira personalização do funil e move os
+   * clientes para as cópias. Retorna o mapa id global -> id da empresa das etapas copiadas.
+   */
+  async ensureCompanyFunnelStages(companyId: string): Promise<Map<string, string>> {
     if (!this.connection) throw new Error('No database connection');
-    
+
+    if (await this.hasCompanyFunnelStages(companyId)) return this.getCopiedFunnelStageIds(companyId);
+
+    // Numa transação: clientes e histórico nunca ficam apontando para etapas que não foram copiadas
+    const idMap = new Map<string, string>();
+    const globalStages = await this.getGlobalFunnelStages();
+    try {
+      await this.withTransaction(async connection => {
+        for (const stage of globalStages) {
+          const id = randomUUID();
+          await connection.execute(
+            'INSERT INTO funnel_stages (id, company_id, name, description, color, `order`, is_active, is_global, source_stage_id) VALUES (?, ?, ?, ?, ?, ?, TRUE, FALSE, ?)',
+            [id, companyId, stage.name, stage.description || null, stage.color, stage.order, stage.id]
+          );
+          await connection.execute(
+            'UPDATE customers SET funnel_stage_id = ? WHERE company_id = ? AND funnel_stage_id = ?',
+            [id, companyId, stage.id]
+          );
+          // Mantém o histórico de etapas apontando para as cópias
+          await connection.execute(
+            'UPDATE customer_activities SET to_stage_id = ? WHERE company_id = ? AND to_stage_id = ?',
+            [id, companyId, stage.id]
+          );
+          await connection.execute(
+            'UPDATE customer_activities SET from_stage_id = ? WHERE company_id = ? AND from_stage_id = ?',
+            [id, companyId, stage.id]
+          );
+          idMap.set(stage.id, id);
+        }
+      });
+    } catch (error: any) {
+      // Outra requisição copiou as etapas ao mesmo tempo (chave única empresa + etapa de origem):
+      // a transação desta foi desfeita na conexão própria, e as cópias da outra já estão gravadas
+      if (error.code === 'ER_DUP_ENTRY') return this.getCopiedFunnelStageIds(companyId);
+      throw error;
+    }
+
+    console.log(`🔧 Funil personalizado criado para a empresa ${companyId} (${globalStages.length} etapas copiadas)`);
+    return idMap;
+  }
+
+  private async getCopiedFunnelStageIds(companyId: string): Promise<Map<string, string>> {
+    if (!this.connection) throw new Error('No database connection');
+
     const [rows] = await this.connection.execute(
-      'SELECT * FROM customers WHERE company_id = ? ORDER BY created_at DESC',
+      'SELECT id, source_stage_id FROM funnel_stages WHERE company_id = ? AND source_stage_id IS NOT NULL',
       [companyId]
     );
-    
-    const customers = rows as any[];
-    return customers.map(row => this.parseCustomer(row));
+    return new Map((rows as any[]).map(row => [row.source_stage_id as string, row.id as string]));
   }
 
-  async getCustomerByPhone(phone: string, companyId: string): Promise<Customer | undefined> {
+  async createFunnelStage(stage: InsertFunnelStage): Promise<FunnelStage> {
     if (!this.connection) throw new Error('No database connection');
-    
-    const [rows] = await this.connection.execute(
-      'SELECT * FROM customers WHERE phone = ? AND company_id = ?',
-      [phone, companyId]
+
+    const [orderRows] = await this.connection.execute(
+      'SELECT COALESCE(MAX(`order`), 0) as maxOrder FROM funnel_stages WHERE company_id = ? AND is_active = TRUE',
+      [stage.companyId]
     );
-    
-    const customers = rows as any[];
-    if (customers.length === 0) return undefined;
-    
-    return this.parseCustomer(customers[0]);
+    const order = Number((orderRows as any[])[0].maxOrder) + 1;
+
+    const id = randomUUID();
+    await this.connection.execute(
+      'INSERT INTO funnel_stages (id, company_id, name, description, color, `order`, is_active, is_global) VALUES (?, ?, ?, ?, ?, ?, TRUE, FALSE)',
+      [id, stage.companyId, stage.name, stage.description || null, stage.color || '#3B82F6', order]
+    );
+
+    const created = await this.getFunnelStage(id);
+    if (!created) throw new Error('Failed to create funnel stage');
+    return created;
   }
 
-  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+  async updateFunnelStage(id: string, updates: Partial<FunnelStage>): Promise<FunnelStage> {
     if (!this.connection) throw new Error('No database connection');
-    
-    const id = randomUUID();
-    
-    console.log('🔍 [STORAGE] Attempting to create customer:', {
-      id,
-      companyId: customer.companyId,
-      name: customer.name,
-      phone: customer.phone,
-      funnelStageId: customer.funnelStageId,
-      lastContact: customer.lastContact,
-      source: customer.source,
-      conversationId: customer.conversationId
-    });
-    
-    try {
-      await this.connection.execute(
-        `INSERT INTO customers (id, company_id, name, phone, email, company, funnel_stage_id, last_contact, notes, value, source, conversation_id, interested_city_id, interested_property_type)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          id,
-          customer.companyId,
-          customer.name,
+
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
+    if (updates.description !== undefined) {
+      fields.push('description = ?');
+      values.push(updates.description);
+    }
+    if (updates.color !== undefined) {
+      fields.push('color = ?');
+      values.push(updates.color);
+    }
+
+    if (fields.length > 0) {
+      values.push(id);
+      await this.connection.execute(
+        `UPDATE funnel_stages SET ${fields.join(', ')} WHERE id = ?`,
+        values
+      );
+    }
+
+    const updated = await this.getFunnelStage(id);
+    if (!updated) throw new Error('Funnel stage not found');
+    return updated;
+  }
+
+  // Reordena as etapas ativas da empresa na sequência informada
+  async reorderFunnelStages(companyId: string, stageIds: string[]): Promise<FunnelStage[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    for (let i = 0; i < stageIds.length; i++) {
+      await this.connection.execute(
+        'UPDATE funnel_stages SET `order` = ? WHERE id = ? AND company_id = ?',
+        [i + 1, stageIds[i], companyId]
+      );
+    }
+
+    return this.getCompanyFunnelStages(companyId);
+  }
+
+  // Arquiva a etapa movendo os clientes dela para a etapa de destino; retorna quantos foram movidos
+  async archiveFunnelStage(id: string, targetStageId: string): Promise<number> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [result] = await this.connection.execute(
+      'UPDATE customers SET funnel_stage_id = ? WHERE funnel_stage_id = ?',
+      [targetStageId, id]
+    );
+    await this.connection.execute(
+      'UPDATE funnel_stages SET is_active = FALSE WHERE id = ?',
+      [id]
+    );
+
+    return (result as any).affectedRows || 0;
+  }
+
+  // Reativa uma etapa arquivada no fim do funil
+  async restoreFunnelStage(id: string): Promise<FunnelStage> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const stage = await this.getFunnelStage(id);
+    if (!stage) throw new Error('Funnel stage not found');
+
+    const [orderRows] = await this.connection.execute(
+      'SELECT COALESCE(MAX(`order`), 0) as maxOrder FROM funnel_stages WHERE company_id = ? AND is_active = TRUE',
+      [stage.companyId]
+    );
+    await this.connection.execute(
+      'UPDATE funnel_stages SET is_active = TRUE, `order` = ? WHERE id = ?',
+      [Number((orderRows as any[])[0].maxOrder) + 1, id]
+    );
+
+    const restored = await this.getFunnelStage(id);
+    if (!restored) throw new Error('Funnel stage not found');
+    return restored;
+  }
+
+  private async hasCompanyFunnelStages(companyId: string): Promise<boolean> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT COUNT(*) as count FROM funnel_stages WHERE company_id = ?',
+      [companyId]
+    );
+    return Number((rows as any[])[0].count) > 0;
+  }
+
+  private mapFunnelStageRow(stage: any): FunnelStage {
+    return {
+      ...stage,
+      companyId: stage.company_id,
+      isActive: Boolean(stage.is_active),
+      isGlobal: Boolean(stage.is_global),
+      sourceStageId: stage.source_stage_id || null,
+      createdAt: stage.created_at,
+      updatedAt: stage.updated_at
+    } as FunnelStage;
+  }
+
+  // Customer methods
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+    
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM customers WHERE id = ?',
+      [id]
+    );
+    
+    const customers = rows as any[];
+    if (customers.length === 0) return undefined;
+    
+    return this.parseCustomer(customers[0]);
+  }
+
+  async getCustomersByCompany(companyId: string): Promise<Customer[]> {
+    if (!this.connection) throw new Error('No database connection');
+    
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM customers WHERE company_id = ? ORDER BY created_at DESC',
+      [companyId]
+    );
+    
+    const customers = rows as any[];
+    return customers.map(row => this.parseCustomer(row));
+  }
+
+  async getCustomerByPhone(phone: string, companyId: string): Promise<Customer | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+    
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM customers WHERE phone = ? AND company_id = ?',
+      [phone, companyId]
+    );
+    
+    const customers = rows as any[];
+    if (customers.length === 0) return undefined;
+    
+    return this.parseCustomer(customers[0]);
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    if (!this.connection) throw new Error('No database connection');
+    
+    const id = randomUUID();
+    
+    console.log('🔍 [STORAGE] Attempting to create customer:', {
+      id,
+      companyId: customer.companyId,
+      name: customer.name,
+      phone: customer.phone,
+      funnelStageId: customer.funnelStageId,
+      lastContact: customer.lastContact,
+      source: customer.source,
+      conversationId: customer.conversationId
+    });
+    
+    try {
+      await this.connection.execute(
+        `INSERT INTO customers (id, company_id, name, phone, email, company, funnel_stage_id, last_contact, notes, value, source, conversation_id, interested_city_id, interested_property_type)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          customer.companyId,
+          customer.name,
           customer.phone,
           customer.email || null,
           customer.company || null,
@@ -2042,6 +3300,7 @@ export class MySQLStorage implements IStorage {
   async deleteCustomer(id: string): Promise<void> {
     if (!this.connection) throw new Error('No database connection');
     
+    await this.connection.execute('DELETE FROM customer_activities WHERE customer_id = ?', [id]);
     await this.connection.execute('DELETE FROM customers WHERE id = ?', [id]);
   }
 
@@ -2271,84 +3530,135 @@ export class MySQLStorage implements IStorage {
     return rows.map(row => this.parseProperty(row));
   }
 
-  async searchProperties(companyId: string, filters: {
-    city?: string;
-    transactionType?: string;
-    propertyType?: string;
-    priceMin?: number;
-    priceMax?: number;
-  }): Promise<Property[]> {
+  /**
+   * Busca de imóveis com todos os critérios (quantidades, áreas, comodidades, preço), cidade e bairro
+   * sem diferenciar acentos, ordenação e paginação por offset. Retorna também o total sem paginação.
+   */
+  async searchProperties(companyId: string, filters: PropertySearchFilters): Promise<PropertySearchResult> {
     if (!this.connection) throw new Error('No database connection');
 
-    console.log('🔍 [SEARCH_PROPERTIES] ========== INÍCIO DA BUSCA ==========');
-    console.log('🔍 [SEARCH_PROPERTIES] CompanyId:', companyId);
-    console.log('🔍 [SEARCH_PROPERTIES] Filtros recebidos:', JSON.stringify(filters, null, 2));
-    console.log('🔍 [SEARCH_PROPERTIES] filters.propertyType:', filters.propertyType, '(type:', typeof filters.propertyType, ')');
-    console.log('🔍 [SEARCH_PROPERTIES] filters.propertyType is undefined?', filters.propertyType === undefined);
-    console.log('🔍 [SEARCH_PROPERTIES] filters.propertyType is null?', filters.propertyType === null);
-    console.log('🔍 [SEARCH_PROPERTIES] filters.propertyType is empty string?', filters.propertyType === '');
+    console.log('🔍 [SEARCH_PROPERTIES] CompanyId:', companyId, 'Filtros:', JSON.stringify(filters));
+
+    const conditions: string[] = ['company_id = ?'];
+    const params: any[] = [companyId];
 
-    let query = 'SELECT * FROM properties WHERE company_id = ? AND status = ?';
-    const params: any[] = [companyId, 'active'];
+    const status = filters.status || 'active';
+    if (status !== 'all') {
+      conditions.push('status = ?');
+      params.push(status);
+    }
+
+    if (filters.text) {
+      conditions.push('(name LIKE ? OR code LIKE ?)');
+      params.push(`%${filters.text}%`, `%${filters.text}%`);
+    }
 
+    // Comparação sem acentos e sem diferenciar maiúsculas ("joacaba" encontra "Joaçaba")
+    const accentInsensitive = (column: string) => `CONVERT(${column} USING utf8mb4) COLLATE utf8mb4_unicode_ci LIKE ?`;
     if (filters.city) {
-      query += ' AND city = ?';
-      params.push(filters.city);
-      console.log('🔍 [SEARCH_PROPERTIES] Adicionando filtro de cidade:', filters.city);
+      conditions.push(accentInsensitive('city'));
+      params.push(`%${filters.city}%`);
+    }
+    if (filters.neighborhood) {
+      conditions.push(accentInsensitive('neighborhood'));
+      params.push(`%${filters.neighborhood}%`);
     }
 
     if (filters.transactionType) {
-      query += ' AND transaction_type = ?';
-      params.push(filters.transactionType);
-      console.log('🔍 [SEARCH_PROPERTIES] Adicionando filtro de transação:', filters.transactionType);
+      conditions.push('transaction_type = ?');
+      params.push(filters.transactionType === 'aluguel' ? 'locacao' : filters.transactionType);
     }
 
     if (filters.propertyType) {
-      // Busca APENAS no campo property_type (já populamos todos os imóveis)
-      // Converter para lowercase para comparação case-insensitive
-      query += ' AND LOWER(property_type) = LOWER(?)';
+      conditions.push('CONVERT(property_type USING utf8mb4) COLLATE utf8mb4_unicode_ci = ?');
       params.push(filters.propertyType);
-      console.log('🔍 [SEARCH_PROPERTIES] Adicionando filtro de tipo de imóvel:', filters.propertyType);
-    } else {
-      console.log('⚠️ [SEARCH_PROPERTIES] ATENÇÃO: propertyType NÃO foi fornecido! Filtro de tipo NÃO será aplicado!');
     }
 
-    if (filters.priceMin !== undefined && filters.priceMin > 0) {
-      query += ' AND price >= ?';
-      params.push(filters.priceMin);
-      console.log('🔍 [SEARCH_PROPERTIES] Adicionando filtro de preço mínimo:', filters.priceMin);
+    const ranges: Array<[number | undefined, string]> = [
+      [filters.priceMin || undefined, 'price >= ?'],
+      [filters.priceMax || undefined, 'price <= ?'],
+      [filters.bedrooms, 'bedrooms = ?'],
+      [filters.minBedrooms, 'bedrooms >= ?'],
+      [filters.maxBedrooms, 'bedrooms <= ?'],
+      [filters.bathrooms, 'bathrooms = ?'],
+      [filters.minBathrooms, 'bathrooms >= ?'],
+      [filters.maxBathrooms, 'bathrooms <= ?'],
+      [filters.parkingSpaces, 'parking_spaces = ?'],
+      [filters.minParkingSpaces, 'parking_spaces >= ?'],
+      [filters.minPrivateArea, 'private_area >= ?'],
+      [filters.maxPrivateArea, 'private_area <= ?'],
+    ];
+    for (const [value, condition] of ranges) {
+      if (value !== undefined && value !== null && !isNaN(value)) {
+        conditions.push(condition);
+        params.push(value);
+      }
     }
 
-    if (filters.priceMax !== undefined && filters.priceMax > 0) {
-      query += ' AND price <= ?';
-      params.push(filters.priceMax);
-      console.log('🔍 [SEARCH_PROPERTIES] Adicionando filtro de preço máximo:', filters.priceMax);
+    for (const amenityId of filters.amenities || []) {
+      conditions.push('JSON_CONTAINS(COALESCE(amenities, JSON_ARRAY()), JSON_QUOTE(?))');
+      params.push(amenityId);
     }
 
-    query += ' ORDER BY created_at DESC';
+    const orderBy: Record<PropertySortOption, string> = {
+      recent: 'created_at DESC',
+      price_asc: 'price IS NULL, price ASC',
+      price_desc: 'price IS NULL, price DESC',
+      area_asc: 'private_area ASC',
+      area_desc: 'private_area DESC',
+      bedrooms_desc: 'bedrooms DESC, created_at DESC',
+    };
+
+    const where = conditions.join(' AND ');
+    const [countRows] = await this.connection.execute(
+      `SELECT COUNT(*) AS total FROM properties WHERE ${where}`,
+      params
+    ) as [any[], mysql.FieldPacket[]];
 
-    console.log('🔍 [SEARCH_PROPERTIES] SQL Query Final:', query);
-    console.log('🔍 [SEARCH_PROPERTIES] Parameters Final:', params);
+    let query = `SELECT * FROM properties WHERE ${where} ORDER BY ${orderBy[filters.sortBy || 'recent']}`;
+    if (filters.limit !== undefined || filters.offset !== undefined) {
+      const limit = Math.max(1, Math.min(Math.floor(filters.limit ?? 500), 500));
+      const offset = Math.max(0, Math.floor(filters.offset ?? 0));
+      query += ` LIMIT ${limit} OFFSET ${offset}`;
+    }
 
     const [rows] = await this.connection.execute(query, params) as [any[], mysql.FieldPacket[]];
+    const total = Number(countRows[0]?.total || 0);
 
-    console.log(`🔍 [SEARCH_PROPERTIES] Found ${rows.length} properties`);
-    if (rows.length > 0) {
-      console.log('🔍 [SEARCH_PROPERTIES] First 5 results (RAW from DB):');
-      rows.slice(0, 5).forEach((r: any, idx: number) => {
-        console.log(`  [${idx + 1}] code: ${r.code}, name: ${r.name}, property_type: "${r.property_type}", transaction_type: "${r.transaction_type}"`);
-      });
-    }
+    console.log(`🔍 [SEARCH_PROPERTIES] ${rows.length} de ${total} imóveis: ${rows.slice(0, 10).map((r: any) => r.code).join(', ')}`);
 
-    const parsedProperties = rows.map(row => this.parseProperty(row));
+    return { properties: rows.map(row => this.parseProperty(row)), total };
+  }
 
-    console.log('🔍 [SEARCH_PROPERTIES] Parsed properties (first 3):');
-    parsedProperties.slice(0, 3).forEach((p: any, idx: number) => {
-      console.log(`  [${idx + 1}] code: ${p.code}, name: ${p.name}, propertyType: "${p.propertyType}"`);
-    });
-    console.log('🔍 [SEARCH_PROPERTIES] ========== FIM DA BUSCA ==========');
+  // Imóveis na ordem dos IDs informados; IDs removidos ou de outra empresa são ignorados
+  async getPropertiesByIds(companyId: string, ids: string[]): Promise<Property[]> {
+    if (!this.connection) throw new Error('No database connection');
+    if (ids.length === 0) return [];
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM properties WHERE company_id = ? AND id IN (${ids.map(() => '?').join(', ')})`,
+      [companyId, ...ids]
+    ) as [any[], mysql.FieldPacket[]];
+
+    const byId = new Map(rows.map(row => [row.id, this.parseProperty(row)]));
+    return ids.map(id => byId.get(id)).filter((property): property is Property => Boolean(property));
+  }
+
+  // Cidades e bairros distintos dos imóveis da empresa (vocabulário da detecção de busca)
+  async getPropertyLocations(companyId: string): Promise<{ cities: string[]; neighborhoods: string[] }> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT DISTINCT city, neighborhood FROM properties WHERE company_id = ?',
+      [companyId]
+    ) as [any[], mysql.FieldPacket[]];
 
-    return parsedProperties;
+    const distinct = (values: Array<string | null>) =>
+      Array.from(new Set(values.map(value => (value || '').trim()).filter(Boolean)));
+    return {
+      cities: distinct(rows.map(row => row.city)),
+      neighborhoods: distinct(rows.map(row => row.neighborhood)),
+    };
   }
 
   async createProperty(property: InsertProperty): Promise<Property> {
@@ -2875,8 +4185,16 @@ export class MySQLStorage implements IStorage {
 
     const id = randomUUID();
     await this.connection.execute(
-      'INSERT INTO brokers (id, company_id, name, email, whatsapp) VALUES (?, ?, ?, ?, ?)',
-      [id, broker.companyId, broker.name, broker.email || null, broker.whatsapp || null]
+      'INSERT INTO brokers (id, company_id, name, email, whatsapp, working_hours, visit_duration_minutes) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [
+        id,
+        broker.companyId,
+        broker.name,
+        broker.email || null,
+        broker.whatsapp || null,
+        broker.workingHours ? JSON.stringify(broker.workingHours) : null,
+        broker.visitDurationMinutes || 60
+      ]
     );
 
     const created = await this.getBroker(id);
@@ -2902,6 +4220,14 @@ export class MySQLStorage implements IStorage {
       setClauses.push('whatsapp = ?');
       values.push(updates.whatsapp);
     }
+    if (updates.workingHours !== undefined) {
+      setClauses.push('working_hours = ?');
+      values.push(updates.workingHours ? JSON.stringify(updates.workingHours) : null);
+    }
+    if (updates.visitDurationMinutes !== undefined) {
+      setClauses.push('visit_duration_minutes = ?');
+      values.push(updates.visitDurationMinutes);
+    }
 
     if (setClauses.length === 0) {
       throw new Error('No fields to update');
@@ -2923,6 +4249,7 @@ export class MySQLStorage implements IStorage {
   async deleteBroker(id: string): Promise<void> {
     if (!this.connection) throw new Error('No database connection');
 
+    await this.connection.execute('DELETE FROM broker_blocked_periods WHERE broker_id = ?', [id]);
     await this.connection.execute(
       'DELETE FROM brokers WHERE id = ?',
       [id]
@@ -2936,11 +4263,75 @@ export class MySQLStorage implements IStorage {
       name: row.name,
       email: row.email,
       whatsapp: row.whatsapp,
+      workingHours: typeof row.working_hours === 'string' ? JSON.parse(row.working_hours) : row.working_hours,
+      visitDurationMinutes: row.visit_duration_minutes ?? 60,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  // Bloqueios de agenda (folgas, férias, compromissos)
+  async getBrokerBlockedPeriod(id: string): Promise<BrokerBlockedPeriod | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM broker_blocked_periods WHERE id = ?',
+      [id]
+    );
+
+    const periods = rows as any[];
+    return periods.length > 0 ? this.mapBrokerBlockedPeriodRow(periods[0]) : undefined;
+  }
+
+  // Bloqueios que se sobrepõem ao intervalo informado
+  async getBrokerBlockedPeriods(companyId: string, from: Date, to: Date): Promise<BrokerBlockedPeriod[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM broker_blocked_periods
+       WHERE company_id = ? AND starts_at < ? AND ends_at > ?
+       ORDER BY starts_at ASC`,
+      [companyId, to, from]
+    );
+
+    return (rows as any[]).map(row => this.mapBrokerBlockedPeriodRow(row));
+  }
+
+  async createBrokerBlockedPeriod(period: InsertBrokerBlockedPeriod): Promise<BrokerBlockedPeriod> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    await this.connection.execute(
+      'INSERT INTO broker_blocked_periods (id, broker_id, company_id, starts_at, ends_at, reason) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, period.brokerId, period.companyId, period.startsAt, period.endsAt, period.reason || null]
+    );
+
+    const created = await this.getBrokerBlockedPeriod(id);
+    if (!created) throw new Error('Failed to create broker blocked period');
+    return created;
+  }
+
+  async deleteBrokerBlockedPeriod(id: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      'DELETE FROM broker_blocked_periods WHERE id = ?',
+      [id]
+    );
+  }
+
+  private mapBrokerBlockedPeriodRow(row: any): BrokerBlockedPeriod {
+    return {
+      id: row.id,
+      brokerId: row.broker_id,
+      companyId: row.company_id,
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      reason: row.reason,
+      createdAt: row.created_at,
+    };
+  }
+
   // ========== APPOINTMENTS (AGENDAMENTOS) ==========
 
   async getAppointment(id: string): Promise<Appointment | undefined> {
@@ -2998,6 +4389,25 @@ export class MySQLStorage implements IStorage {
     return (rows as any[]).map(row => this.mapAppointmentRow(row));
   }
 
+  // Último agendamento do cliente com corretor atribuído (telefone em qualquer um dos formatos informados)
+  async getLatestAppointmentWithBrokerByPhone(companyId: string, phones: string[]): Promise<Appointment | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+    if (phones.length === 0) return undefined;
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM appointments
+       WHERE company_id = ?
+       AND broker_id IS NOT NULL
+       AND client_phone IN (${phones.map(() => '?').join(', ')})
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [companyId, ...phones]
+    );
+
+    const appointments = rows as any[];
+    return appointments.length > 0 ? this.mapAppointmentRow(appointments[0]) : undefined;
+  }
+
   // Busca o último agendamento do dia que tem corretor atribuído (para rodízio)
   async getLastAppointmentOfDayWithBroker(companyId: string): Promise<Appointment | undefined> {
     if (!this.connection) throw new Error('No database connection');
@@ -3021,45 +4431,160 @@ export class MySQLStorage implements IStorage {
     return this.mapAppointmentRow(appointments[0]);
   }
 
-  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
+  // Visitas que ocupam a agenda (pendentes e confirmadas) com data entre from e to
+  async getActiveAppointmentsInRange(companyId: string, from: Date, to: Date): Promise<Appointment[]> {
     if (!this.connection) throw new Error('No database connection');
 
-    const id = randomUUID();
-    await this.connection.execute(
-      `INSERT INTO appointments (id, company_id, broker_id, property_id, client_name, client_phone, property_interest, scheduled_date, status, notes, source, conversation_id)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        id,
-        appointment.companyId,
-        appointment.brokerId || null,
-        appointment.propertyId || null,
-        appointment.clientName,
-        appointment.clientPhone,
-        appointment.propertyInterest || null,
-        appointment.scheduledDate || null,
-        appointment.status || 'pendente',
-        appointment.notes || null,
-        appointment.source || 'whatsapp',
-        appointment.conversationId || null
-      ]
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM appointments
+       WHERE company_id = ?
+       AND scheduled_date IS NOT NULL
+       AND scheduled_date >= ?
+       AND scheduled_date < ?
+       AND status IN ('pendente', 'confirmado')
+       ORDER BY scheduled_date ASC`,
+      [companyId, from, to]
     );
 
-    const created = await this.getAppointment(id);
-    if (!created) throw new Error('Failed to create appointment');
-    return created;
+    return (rows as any[]).map(row => this.mapAppointmentRow(row));
   }
 
-  async updateAppointment(id: string, updates: Partial<Appointment>): Promise<Appointment> {
+  /**
+   * Visitas pendentes/confirmadas que entraram na janela do lembrete e ainda não o receberam.
+   * Visitas marcadas há menos de 30 minutos ficam de fora (o cliente acabou de agendar), e as que
+   * faltam menos de 2 horas não recebem o de 24h: o de 1 hora já vem em seguida.
+   */
+  async getAppointmentsDueForReminder(kind: '24h' | '1h'): Promise<Appointment[]> {
     if (!this.connection) throw new Error('No database connection');
 
-    const setClauses: string[] = [];
-    const values: any[] = [];
+    const window = kind === '24h'
+      ? `scheduled_date > DATE_ADD(NOW(), INTERVAL 2 HOUR)
+       AND scheduled_date <= DATE_ADD(NOW(), INTERVAL 24 HOUR)
+       AND reminder_24h_sent_at IS NULL`
+      : `scheduled_date > NOW()
+       AND scheduled_date <= DATE_ADD(NOW(), INTERVAL 1 HOUR)
+       AND reminder_1h_sent_at IS NULL`;
 
-    if (updates.brokerId !== undefined) {
-      setClauses.push('broker_id = ?');
-      values.push(updates.brokerId);
-    }
-    if (updates.propertyId !== undefined) {
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM appointments
+       WHERE scheduled_date IS NOT NULL
+       AND status IN ('pendente', 'confirmado')
+       AND created_at <= DATE_SUB(NOW(), INTERVAL 30 MINUTE)
+       AND ${window}
+       ORDER BY scheduled_date ASC`
+    );
+
+    return (rows as any[]).map(row => this.mapAppointmentRow(row));
+  }
+
+  // Próxima visita do cliente que já recebeu lembrete (para interpretar "confirmo" / "não posso")
+  async getUpcomingRemindedAppointmentByPhone(companyId: string, phones: string[]): Promise<Appointment | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+    if (phones.length === 0) return undefined;
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM appointments
+       WHERE company_id = ?
+       AND client_phone IN (${phones.map(() => '?').join(', ')})
+       AND status IN ('pendente', 'confirmado')
+       AND scheduled_date > NOW()
+       AND (reminder_24h_sent_at IS NOT NULL OR reminder_1h_sent_at IS NOT NULL)
+       ORDER BY scheduled_date ASC
+       LIMIT 1`,
+      [companyId, ...phones]
+    );
+
+    const appointments = rows as any[];
+    return appointments.length > 0 ? this.mapAppointmentRow(appointments[0]) : undefined;
+  }
+
+  // Visitas futuras (ou sem data definida) do contato: pelo telefone informado ou pela conversa do WhatsApp
+  async getUpcomingAppointmentsByContact(companyId: string, phones: string[], conversationId?: string | null): Promise<Appointment[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const contactFilters: string[] = [];
+    const params: any[] = [companyId];
+    if (phones.length > 0) {
+      contactFilters.push(`client_phone IN (${phones.map(() => '?').join(', ')})`);
+      params.push(...phones);
+    }
+    if (conversationId) {
+      contactFilters.push('conversation_id = ?');
+      params.push(conversationId);
+    }
+    if (contactFilters.length === 0) return [];
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM appointments
+       WHERE company_id = ?
+       AND (${contactFilters.join(' OR ')})
+       AND status IN ('pendente', 'confirmado')
+       AND (scheduled_date IS NULL OR scheduled_date >= NOW())
+       ORDER BY scheduled_date IS NULL, scheduled_date ASC`,
+      params
+    );
+
+    return (rows as any[]).map(row => this.mapAppointmentRow(row));
+  }
+
+  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    await this.connection.execute(
+      `INSERT INTO appointments (id, company_id, broker_id, property_id, client_name, client_phone, property_interest, scheduled_date, status, notes, source, conversation_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        appointment.companyId,
+        appointment.brokerId || null,
+        appointment.propertyId || null,
+        appointment.clientName,
+        appointment.clientPhone,
+        appointment.propertyInterest || null,
+        appointment.scheduledDate || null,
+        appointment.status || 'pendente',
+        appointment.notes || null,
+        appointment.source || 'whatsapp',
+        appointment.conversationId || null
+      ]
+    );
+
+    const created = await this.getAppointment(id);
+    if (!created) throw new Error('Failed to create appointment');
+    return created;
+  }
+
+  async updateAppointment(id: string, updates: Partial<Appointment>): Promise<Appointment> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const setClauses: string[] = [];
+    const values: any[] = [];
+
+    if (updates.scheduledDate !== undefined) {
+      // Visita remarcada: os lembretes valem para a nova data (precisa vir antes de alterar scheduled_date)
+      if (updates.reminder24hSentAt === undefined) {
+        setClauses.push('reminder_24h_sent_at = IF(scheduled_date <=> ?, reminder_24h_sent_at, NULL)');
+        values.push(updates.scheduledDate);
+      }
+      if (updates.reminder1hSentAt === undefined) {
+        setClauses.push('reminder_1h_sent_at = IF(scheduled_date <=> ?, reminder_1h_sent_at, NULL)');
+        values.push(updates.scheduledDate);
+      }
+    }
+    if (updates.reminder24hSentAt !== undefined) {
+      setClauses.push('reminder_24h_sent_at = ?');
+      values.push(updates.reminder24hSentAt);
+    }
+    if (updates.reminder1hSentAt !== undefined) {
+      setClauses.push('reminder_1h_sent_at = ?');
+      values.push(updates.reminder1hSentAt);
+    }
+    if (updates.brokerId !== undefined) {
+      setClauses.push('broker_id = ?');
+      values.push(updates.brokerId);
+    }
+    if (updates.propertyId !== undefined) {
       setClauses.push('property_id = ?');
       values.push(updates.propertyId);
     }
@@ -3128,11 +4653,1071 @@ export class MySQLStorage implements IStorage {
       notes: row.notes,
       source: row.source,
       conversationId: row.conversation_id,
+      reminder24hSentAt: row.reminder_24h_sent_at || null,
+      reminder1hSentAt: row.reminder_1h_sent_at || null,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  // ========== KNOWLEDGE CHUNKS (BASE DE CONHECIMENTO) ==========
+
+  async getKnowledgeChunksByAgent(agentId: string): Promise<KnowledgeChunk[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM knowledge_chunks WHERE agent_id = ? ORDER BY document_index ASC, chunk_index ASC',
+      [agentId]
+    );
+    return (rows as any[]).map(row => this.mapKnowledgeChunkRow(row));
+  }
+
+  async replaceKnowledgeChunks(agentId: string, chunks: InsertKnowledgeChunk[]): Promise<void> {
+    // Numa transação: a IA nunca consulta o agente com o índice pela metade.
+    // Lotes menores que os dos disparos: cada embedding ocupa dezenas de KB no INSERT
+    const batchSize = 50;
+    await this.withTransaction(async connection => {
+      await connection.execute('DELETE FROM knowledge_chunks WHERE agent_id = ?', [agentId]);
+
+      for (let i = 0; i < chunks.length; i += batchSize) {
+        const batch = chunks.slice(i, i + batchSize);
+        const placeholders = batch.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+        const values = batch.flatMap(chunk => [
+          randomUUID(),
+          agentId,
+          chunk.companyId,
+          chunk.sourceUrl || null,
+          chunk.sourceName || null,
+          chunk.documentIndex || 0,
+          chunk.chunkIndex || 0,
+          chunk.content,
+          JSON.stringify(chunk.embedding || []),
+          chunk.embeddingModel || null
+        ]);
+        await connection.execute(
+          `INSERT INTO knowledge_chunks (id, agent_id, company_id, source_url, source_name, document_index, chunk_index, content, embedding, embedding_model)
+           VALUES ${placeholders}`,
+          values
+        );
+      }
+    });
+  }
+
+  async deleteKnowledgeChunksByAgent(agentId: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute('DELETE FROM knowledge_chunks WHERE agent_id = ?', [agentId]);
+  }
+
+  // Webhook queue methods
+  async enqueueWebhookEvent(item: InsertWebhookQueueItem): Promise<WebhookQueueItem | null> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    try {
+      await this.connection.execute(
+        'INSERT INTO webhook_queue (id, evolution_message_id, buffer_key, aggregate, payload) VALUES (?, ?, ?, ?, ?)',
+        [id, item.evolutionMessageId || null, item.bufferKey, item.aggregate !== false, item.payload]
+      );
+    } catch (error: any) {
+      // Mesma mensagem reenviada pela Evolution API
+      if (error.code === 'ER_DUP_ENTRY') return null;
+      throw error;
+    }
+
+    const [rows] = await this.connection.execute('SELECT * FROM webhook_queue WHERE id = ?', [id]);
+    return this.mapWebhookQueueRow((rows as any[])[0]);
+  }
+
+  async claimWebhookBuffer(bufferKey: string): Promise<WebhookQueueItem[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    // Pendentes e falhas anteriores da mesma conversa entram juntas na próxima tentativa
+    const batchId = randomUUID();
+    await this.connection.execute(
+      `UPDATE webhook_queue SET status = 'processing', batch_id = ?, attempts = attempts + 1, locked_at = NOW()
+       WHERE buffer_key = ? AND aggregate = TRUE AND status IN ('pending', 'failed')`,
+      [batchId, bufferKey]
+    );
+    return this.getWebhookBatch(batchId);
+  }
+
+  async claimWebhookEvent(id: string): Promise<WebhookQueueItem[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const batchId = randomUUID();
+    await this.connection.execute(
+      `UPDATE webhook_queue SET status = 'processing', batch_id = ?, attempts = attempts + 1, locked_at = NOW()
+       WHERE id = ? AND status IN ('pending', 'failed')`,
+      [batchId, id]
+    );
+    return this.getWebhookBatch(batchId);
+  }
+
+  private async getWebhookBatch(batchId: string): Promise<WebhookQueueItem[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM webhook_queue WHERE batch_id = ? ORDER BY received_at ASC',
+      [batchId]
+    );
+    return (rows as any[]).map(row => this.mapWebhookQueueRow(row));
+  }
+
+  async completeWebhookBatch(batchId: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `UPDATE webhook_queue SET status = 'done', processed_at = NOW(), locked_at = NULL, last_error = NULL WHERE batch_id = ?`,
+      [batchId]
+    );
+  }
+
+  async failWebhookBatch(batchId: string, error: string, maxAttempts: number, retryBaseSeconds: number): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    // Backoff exponencial: base, 2x base, 4x base... até virar dead-letter
+    await this.connection.execute(
+      `UPDATE webhook_queue
+       SET status = IF(attempts >= ?, 'dead', 'failed'),
+           last_error = ?,
+           locked_at = NULL,
+           next_attempt_at = DATE_ADD(NOW(), INTERVAL (? * POW(2, attempts - 1)) SECOND)
+       WHERE batch_id = ?`,
+      [maxAttempts, error.substring(0, 2000), retryBaseSeconds, batchId]
+    );
+  }
+
+  async getRecoverableWebhookEvents(): Promise<WebhookQueueItem[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    // Sem o payload: só o necessário para reagendar as janelas de agregação
+    const [rows] = await this.connection.execute(
+      `SELECT id, evolution_message_id, buffer_key, aggregate, '' AS payload, status, attempts, last_error,
+              batch_id, received_at, next_attempt_at, locked_at, processed_at
+       FROM webhook_queue WHERE status IN ('pending', 'failed') ORDER BY received_at ASC`
+    );
+    return (rows as any[]).map(row => this.mapWebhookQueueRow(row));
+  }
+
+  async releaseStaleWebhookEvents(staleMinutes: number, maxAttempts: number): Promise<number> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [result] = await this.connection.execute(
+      `UPDATE webhook_queue
+       SET status = IF(attempts >= ?, 'dead', 'failed'),
+           last_error = 'Processamento interrompido antes de concluir',
+           locked_at = NULL,
+           next_attempt_at = NOW()
+       WHERE status = 'processing' AND locked_at <= DATE_SUB(NOW(), INTERVAL ? MINUTE)`,
+      [maxAttempts, staleMinutes]
+    );
+    return (result as any).affectedRows || 0;
+  }
+
+  async getWebhookQueueStats(): Promise<Record<string, number>> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT status, COUNT(*) AS total FROM webhook_queue GROUP BY status'
+    );
+    const stats: Record<string, number> = { pending: 0, processing: 0, done: 0, failed: 0, dead: 0 };
+    (rows as any[]).forEach(row => {
+      stats[row.status] = Number(row.total);
+    });
+    return stats;
+  }
+
+  async getWebhookQueueItems(status: string, limit: number): Promise<WebhookQueueItem[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM webhook_queue WHERE status = ? ORDER BY received_at DESC LIMIT ${Math.max(1, Math.min(limit, 500))}`,
+      [status]
+    );
+    return (rows as any[]).map(row => this.mapWebhookQueueRow(row));
+  }
+
+  async requeueWebhookEvent(id: string): Promise<boolean> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [result] = await this.connection.execute(
+      `UPDATE webhook_queue SET status = 'pending', attempts = 0, last_error = NULL, next_attempt_at = NULL, locked_at = NULL
+       WHERE id = ? AND status IN ('dead', 'failed')`,
+      [id]
+    );
+    return ((result as any).affectedRows || 0) > 0;
+  }
+
+  async purgeWebhookEvents(olderThanDays: number): Promise<number> {
+    if (!this.connection) throw new Error('No database connection');
+
+    // Mantém as processadas por alguns dias para continuar barrando reenvios da Evolution API
+    const [result] = await this.connection.execute(
+      `DELETE FROM webhook_queue WHERE status = 'done' AND processed_at < DATE_SUB(NOW(), INTERVAL ? DAY)`,
+      [olderThanDays]
+    );
+    return (result as any).affectedRows || 0;
+  }
+
+  // Broadcast recipients methods
+  async createBroadcastRecipients(recipients: InsertBroadcastRecipient[]): Promise<number> {
+    if (!this.connection) throw new Error('No database connection');
+
+    // Inserção em lotes para listas grandes
+    const batchSize = 500;
+    for (let i = 0; i < recipients.length; i += batchSize) {
+      const batch = recipients.slice(i, i + batchSize);
+      const placeholders = batch.map(() => '(?, ?, ?, ?, ?, ?)').join(', ');
+      const values = batch.flatMap(r => [
+        randomUUID(), r.scheduledMessageId, r.companyId, r.contactListItemId || null, r.name || null, r.phone
+      ]);
+      await this.connection.execute(
+        `INSERT INTO broadcast_recipients (id, scheduled_message_id, company_id, contact_list_item_id, name, phone) VALUES ${placeholders}`,
+        values
+      );
+    }
+    return recipients.length;
+  }
+
+  async getBroadcastRecipients(scheduledMessageId: string, status?: string): Promise<BroadcastRecipient[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = status
+      ? await this.connection.execute(
+          'SELECT * FROM broadcast_recipients WHERE scheduled_message_id = ? AND status = ? ORDER BY created_at ASC, name ASC',
+          [scheduledMessageId, status]
+        )
+      : await this.connection.execute(
+          'SELECT * FROM broadcast_recipients WHERE scheduled_message_id = ? ORDER BY created_at ASC, name ASC',
+          [scheduledMessageId]
+        );
+    return (rows as any[]).map(row => this.mapBroadcastRecipientRow(row));
+  }
+
+  async getBroadcastRecipientCounts(scheduledMessageId: string): Promise<Record<string, number>> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT status, COUNT(*) AS total FROM broadcast_recipients WHERE scheduled_message_id = ? GROUP BY status',
+      [scheduledMessageId]
+    );
+    const counts: Record<string, number> = { pending: 0, sending: 0, sent: 0, failed: 0, skipped: 0 };
+    (rows as any[]).forEach(row => {
+      counts[row.status] = Number(row.total);
+    });
+    return counts;
+  }
+
+  async startBroadcastRecipientAttempt(id: string, instanceId: string, instanceName: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `UPDATE broadcast_recipients SET status = 'sending', instance_id = ?, instance_name = ?, attempts = attempts + 1, error_message = NULL
+       WHERE id = ?`,
+      [instanceId, instanceName, id]
+    );
+  }
+
+  async markBroadcastRecipientSent(id: string, evolutionMessageId: string | null): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `UPDATE broadcast_recipients SET status = 'sent', evolution_message_id = ?, sent_at = NOW(), failed_at = NULL, error_message = NULL,
+         delivery_status = 'sent', delivered_at = NULL, read_at = NULL
+       WHERE id = ?`,
+      [evolutionMessageId, id]
+    );
+  }
+
+  async markBroadcastRecipientFailed(id: string, errorMessage: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `UPDATE broadcast_recipients SET status = 'failed', error_message = ?, failed_at = NOW() WHERE id = ?`,
+      [errorMessage.substring(0, 2000), id]
+    );
+  }
+
+  // Não conta como falha: o reenvio das falhas e o total de falhas do disparo ignoram esses contatos
+  async markBroadcastRecipientSkipped(id: string, reason: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `UPDATE broadcast_recipients SET status = 'skipped', error_message = ? WHERE id = ?`,
+      [reason.substring(0, 2000), id]
+    );
+  }
+
+  async failInterruptedBroadcastRecipients(scheduledMessageId: string, errorMessage: string): Promise<number> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [result] = await this.connection.execute(
+      `UPDATE broadcast_recipients SET status = 'failed', error_message = ?, failed_at = NOW()
+       WHERE scheduled_message_id = ? AND status = 'sending'`,
+      [errorMessage, scheduledMessageId]
+    );
+    return (result as any).affectedRows || 0;
+  }
+
+  async resetFailedBroadcastRecipients(scheduledMessageId: string): Promise<number> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [result] = await this.connection.execute(
+      `UPDATE broadcast_recipients SET status = 'pending', error_message = NULL, failed_at = NULL
+       WHERE scheduled_message_id = ? AND status = 'failed'`,
+      [scheduledMessageId]
+    );
+    return (result as any).affectedRows || 0;
+  }
+
+  // Envios de disparos por instância desde `since`, somando todas as campanhas
+  async getBroadcastSentCountsByInstance(instanceIds: string[], since: Date): Promise<Record<string, number>> {
+    if (!this.connection) throw new Error('No database connection');
+    if (instanceIds.length === 0) return {};
+
+    const [rows] = await this.connection.execute(
+      `SELECT instance_id, COUNT(*) AS total FROM broadcast_recipients
+       WHERE instance_id IN (${instanceIds.map(() => '?').join(', ')}) AND status = 'sent' AND sent_at >= ?
+       GROUP BY instance_id`,
+      [...instanceIds, since]
+    );
+    return Object.fromEntries((rows as any[]).map(row => [row.instance_id, Number(row.total)]));
+  }
+
+  async getBroadcastRecipientByEvolutionId(evolutionMessageId: string): Promise<BroadcastRecipient | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM broadcast_recipients WHERE evolution_message_id = ? ORDER BY sent_at DESC LIMIT 1',
+      [evolutionMessageId]
+    );
+    const row = (rows as any[])[0];
+    return row ? this.mapBroadcastRecipientRow(row) : undefined;
+  }
+
+  async updateBroadcastRecipientDeliveryStatus(id: string, status: MessageDeliveryStatus): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `UPDATE broadcast_recipients SET delivery_status = ?,
+         delivered_at = IF(? IN ('delivered', 'read'), COALESCE(delivered_at, NOW()), delivered_at),
+         read_at = IF(? = 'read', COALESCE(read_at, NOW()), read_at)
+       WHERE id = ?`,
+      [status, status, status, id]
+    );
+  }
+
+  async getBroadcastDeliveryCounts(scheduledMessageId: string, undeliveredBefore: Date): Promise<DeliveryCounts> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT ${this.deliveryCountColumns()} FROM broadcast_recipients
+       WHERE scheduled_message_id = ? AND delivery_status IS NOT NULL`,
+      [undeliveredBefore, scheduledMessageId]
+    );
+    return this.mapDeliveryCounts((rows as any[])[0]);
+  }
+
+  // Colunas agregadas sobre delivery_status / sent_at; o único parâmetro é o prazo de "não entregue"
+  private deliveryCountColumns(): string {
+    return `COUNT(*) AS total,
+      SUM(delivery_status IN ('delivered', 'read')) AS delivered,
+      SUM(delivery_status = 'read') AS read_count,
+      SUM(delivery_status = 'failed') AS failed,
+      SUM(delivery_status = 'sent' AND sent_at < ?) AS undelivered`;
+  }
+
+  private mapDeliveryCounts(row: any): DeliveryCounts {
+    return {
+      total: Number(row?.total || 0),
+      delivered: Number(row?.delivered || 0),
+      read: Number(row?.read_count || 0),
+      failed: Number(row?.failed || 0),
+      undelivered: Number(row?.undelivered || 0),
+    };
+  }
+
+  // Audience segment methods
+  async getSegmentLeadContacts(companyId: string, filters: AudienceSegmentFilters): Promise<SegmentContactRow[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    // Funil e último contato vêm do cliente vinculado quando o lead já foi convertido
+    const where: string[] = ['l.company_id = ?'];
+    const params: any[] = [companyId];
+    this.addSegmentInFilter(where, params, 'l.status', filters.leadStatuses);
+    this.addSegmentInFilter(where, params, 'c.funnel_stage_id', filters.funnelStageIds);
+    this.addSegmentInFilter(where, params, 'l.interested_city_id', filters.interestedCityIds);
+    this.addSegmentInFilter(where, params, 'l.interested_property_type', filters.interestedPropertyTypes);
+    this.addSegmentInFilter(where, params, 'l.interested_transaction_type', filters.interestedTransactionTypes);
+    this.addSegmentInFilter(where, params, 'l.source', filters.sources);
+    this.addSegmentDateFilter(where, params, 'COALESCE(c.last_contact, l.updated_at)', filters);
+
+    const [rows] = await this.connection.execute(
+      `SELECT l.id AS lead_id, l.customer_id, l.name, l.phone
+       FROM leads l LEFT JOIN customers c ON c.id = l.customer_id
+       WHERE ${where.join(' AND ')}
+       ORDER BY l.created_at ASC`,
+      params
+    );
+    return (rows as any[]).map(row => ({
+      name: row.name,
+      phone: row.phone,
+      leadId: row.lead_id,
+      customerId: row.customer_id || null,
+    }));
+  }
+
+  async getSegmentCustomerContacts(companyId: string, filters: AudienceSegmentFilters): Promise<SegmentContactRow[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    // Status e tipo de transação só existem no lead de origem do cliente
+    const where: string[] = ['c.company_id = ?'];
+    const params: any[] = [companyId];
+    this.addSegmentInFilter(where, params, 'l.status', filters.leadStatuses);
+    this.addSegmentInFilter(where, params, 'c.funnel_stage_id', filters.funnelStageIds);
+    this.addSegmentInFilter(where, params, 'COALESCE(c.interested_city_id, l.interested_city_id)', filters.interestedCityIds);
+    this.addSegmentInFilter(where, params, 'COALESCE(c.interested_property_type, l.interested_property_type)', filters.interestedPropertyTypes);
+    this.addSegmentInFilter(where, params, 'l.interested_transaction_type', filters.interestedTransactionTypes);
+    this.addSegmentInFilter(where, params, 'c.source', filters.sources);
+    this.addSegmentDateFilter(where, params, 'COALESCE(c.last_contact, c.updated_at)', filters);
+
+    const [rows] = await this.connection.execute(
+      `SELECT c.id AS customer_id, MIN(l.id) AS lead_id, c.name, c.phone
+       FROM customers c LEFT JOIN leads l ON l.customer_id = c.id
+       WHERE ${where.join(' AND ')}
+       GROUP BY c.id, c.name, c.phone
+       ORDER BY MIN(c.created_at) ASC`,
+      params
+    );
+    return (rows as any[]).map(row => ({
+      name: row.name,
+      phone: row.phone,
+      leadId: row.lead_id || null,
+      customerId: row.customer_id,
+    }));
+  }
+
+  private addSegmentInFilter(where: string[], params: any[], column: string, values?: string[]) {
+    const list = (values || []).filter(value => value);
+    if (list.length === 0) return;
+    where.push(`${column} IN (${list.map(() => '?').join(', ')})`);
+    params.push(...list);
+  }
+
+  private addSegmentDateFilter(where: string[], params: any[], column: string, filters: AudienceSegmentFilters) {
+    if (filters.lastContactFrom) {
+      where.push(`${column} >= ?`);
+      params.push(`${filters.lastContactFrom} 00:00:00`);
+    }
+    if (filters.lastContactTo) {
+      where.push(`${column} <= ?`);
+      params.push(`${filters.lastContactTo} 23:59:59`);
+    }
+  }
+
+  // Customer activity methods
+  async createCustomerActivity(activity: InsertCustomerActivity): Promise<CustomerActivity> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    await this.connection.execute(
+      `INSERT INTO customer_activities (id, company_id, customer_id, type, from_stage_id, to_stage_id, user_id, description, metadata)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        activity.companyId,
+        activity.customerId,
+        activity.type,
+        activity.fromStageId || null,
+        activity.toStageId || null,
+        activity.userId || null,
+        activity.description || null,
+        activity.metadata ? JSON.stringify(activity.metadata) : null,
+      ]
+    );
+
+    const [rows] = await this.connection.execute('SELECT * FROM customer_activities WHERE id = ?', [id]);
+    return this.mapCustomerActivityRow((rows as any[])[0]);
+  }
+
+  async getCustomerActivities(customerId: string): Promise<CustomerActivity[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM customer_activities WHERE customer_id = ? ORDER BY created_at DESC',
+      [customerId]
+    );
+    return (rows as any[]).map(row => this.mapCustomerActivityRow(row));
+  }
+
+  // Eventos que definem a etapa do cliente, em ordem cronológica por cliente (base dos relatórios do funil)
+  async getCompanyStageActivities(companyId: string): Promise<CustomerActivity[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM customer_activities
+       WHERE company_id = ? AND type IN ('created', 'stage_change', 'lead_conversion') AND to_stage_id IS NOT NULL
+       ORDER BY customer_id ASC, created_at ASC`,
+      [companyId]
+    );
+    return (rows as any[]).map(row => this.mapCustomerActivityRow(row));
+  }
+
+  private mapCustomerActivityRow(row: any): CustomerActivity {
+    return {
+      id: row.id,
+      companyId: row.company_id,
+      customerId: row.customer_id,
+      type: row.type,
+      fromStageId: row.from_stage_id,
+      toStageId: row.to_stage_id,
+      userId: row.user_id,
+      description: row.description,
+      metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata,
+      createdAt: row.created_at,
+    };
+  }
+
+  // Property search session methods
+  async getPropertySearchSession(conversationId: string): Promise<PropertySearchSession | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM property_search_sessions WHERE conversation_id = ?',
+      [conversationId]
+    );
+    const row = (rows as any[])[0];
+    return row ? this.mapPropertySearchSessionRow(row) : undefined;
+  }
+
+  // Uma sessão por conversa: uma nova busca substitui a anterior e reinicia o cursor
+  async savePropertySearchSession(session: InsertPropertySearchSession): Promise<PropertySearchSession> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `INSERT INTO property_search_sessions (conversation_id, company_id, criteria, requested_criteria, result_ids, cursor_position, relaxations)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE company_id = VALUES(company_id), criteria = VALUES(criteria), requested_criteria = VALUES(requested_criteria),
+         result_ids = VALUES(result_ids), cursor_position = VALUES(cursor_position), relaxations = VALUES(relaxations), created_at = CURRENT_TIMESTAMP`,
+      [
+        session.conversationId,
+        session.companyId,
+        JSON.stringify(session.criteria ?? {}),
+        session.requestedCriteria ? JSON.stringify(session.requestedCriteria) : null,
+        JSON.stringify(session.resultIds ?? []),
+        session.cursor ?? 0,
+        session.relaxations ? JSON.stringify(session.relaxations) : null,
+      ]
+    );
+
+    return (await this.getPropertySearchSession(session.conversationId))!;
+  }
+
+  async updatePropertySearchSessionCursor(conversationId: string, cursor: number): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      'UPDATE property_search_sessions SET cursor_position = ? WHERE conversation_id = ?',
+      [cursor, conversationId]
+    );
+  }
+
+  private mapPropertySearchSessionRow(row: any): PropertySearchSession {
+    const parse = (value: any) => typeof value === 'string' ? JSON.parse(value) : value;
+    return {
+      conversationId: row.conversation_id,
+      companyId: row.company_id,
+      criteria: parse(row.criteria),
+      requestedCriteria: parse(row.requested_criteria),
+      resultIds: parse(row.result_ids),
+      cursor: row.cursor_position,
+      relaxations: parse(row.relaxations),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // Lead preference methods
+  async getLeadPreferencesByPhone(companyId: string, phones: string[]): Promise<LeadPreferences | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+    if (phones.length === 0) return undefined;
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM lead_preferences WHERE company_id = ? AND phone IN (${phones.map(() => '?').join(', ')})
+       ORDER BY updated_at DESC LIMIT 1`,
+      [companyId, ...phones]
+    );
+    const row = (rows as any[])[0];
+    return row ? this.mapLeadPreferencesRow(row) : undefined;
+  }
+
+  // Um perfil por telefone: grava o perfil completo, substituindo o anterior
+  async saveLeadPreferences(preferences: InsertLeadPreferences): Promise<LeadPreferences> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const json = (value: unknown) => value ? JSON.stringify(value) : null;
+    await this.connection.execute(
+      `INSERT INTO lead_preferences (id, company_id, phone, transaction_type, property_type, city, neighborhoods, budget_min, budget_max,
+         bedrooms, amenities, move_in_timeframe, needs_financing, financing_notes, manual_fields, alerts_opt_out, last_extracted_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE transaction_type = VALUES(transaction_type), property_type = VALUES(property_type), city = VALUES(city),
+         neighborhoods = VALUES(neighborhoods), budget_min = VALUES(budget_min), budget_max = VALUES(budget_max), bedrooms = VALUES(bedrooms),
+         amenities = VALUES(amenities), move_in_timeframe = VALUES(move_in_timeframe), needs_financing = VALUES(needs_financing),
+         financing_notes = VALUES(financing_notes), manual_fields = VALUES(manual_fields), alerts_opt_out = VALUES(alerts_opt_out),
+         last_extracted_at = VALUES(last_extracted_at)`,
+      [
+        randomUUID(),
+        preferences.companyId,
+        preferences.phone,
+        preferences.transactionType ?? null,
+        preferences.propertyType ?? null,
+        preferences.city ?? null,
+        json(preferences.neighborhoods),
+        preferences.budgetMin ?? null,
+        preferences.budgetMax ?? null,
+        preferences.bedrooms ?? null,
+        json(preferences.amenities),
+        preferences.moveInTimeframe ?? null,
+        preferences.needsFinancing ?? null,
+        preferences.financingNotes ?? null,
+        json(preferences.manualFields),
+        preferences.alertsOptOut ?? false,
+        preferences.lastExtractedAt ?? null,
+      ]
+    );
+
+    return (await this.getLeadPreferencesByPhone(preferences.companyId, [preferences.phone]))!;
+  }
+
+  /**
+   * Grava só os campos extraídos pela IA, num único comando: cria o perfil se não existir e, se
+   * existir, não toca nos demais campos nem nos marcados como manuais (conferidos no próprio UPDATE,
+   * para não sobrescrever uma edição feita no painel durante a extração).
+   */
+  async mergeExtractedLeadPreferences(companyId: string, phone: string, values: Partial<InsertLeadPreferences>): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const columns: Record<string, string> = {
+      transactionType: 'transaction_type', propertyType: 'property_type', city: 'city', neighborhoods: 'neighborhoods',
+      budgetMin: 'budget_min', budgetMax: 'budget_max', bedrooms: 'bedrooms', amenities: 'amenities',
+      moveInTimeframe: 'move_in_timeframe', needsFinancing: 'needs_financing', financingNotes: 'financing_notes',
+    };
+    const fields = Object.keys(columns).filter(field => values[field as keyof InsertLeadPreferences] !== undefined);
+    const fieldValues = fields.map(field => {
+      const value = values[field as keyof InsertLeadPreferences];
+      return field === 'neighborhoods' || field === 'amenities' ? JSON.stringify(value) : value ?? null;
+    });
+
+    const insertColumns = ['id', 'company_id', 'phone', ...fields.map(field => columns[field]), 'last_extracted_at'];
+    const updates = fields.map(field =>
+      `${columns[field]} = IF(JSON_CONTAINS(COALESCE(manual_fields, JSON_ARRAY()), JSON_QUOTE('${field}')), ${columns[field]}, VALUES(${columns[field]}))`
+    );
+    await this.connection.execute(
+      `INSERT INTO lead_preferences (${insertColumns.join(', ')}) VALUES (${insertColumns.map(() => '?').join(', ')})
+       ON DUPLICATE KEY UPDATE ${[...updates, 'last_extracted_at = VALUES(last_extracted_at)'].join(', ')}`,
+      [randomUUID(), companyId, phone, ...fieldValues, new Date()]
+    );
+  }
+
+  async getLeadPreferencesByCompany(companyId: string): Promise<LeadPreferences[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM lead_preferences WHERE company_id = ?',
+      [companyId]
+    );
+    return (rows as any[]).map(row => this.mapLeadPreferencesRow(row));
+  }
+
+  private mapLeadPreferencesRow(row: any): LeadPreferences {
+    const parse = (value: any) => typeof value === 'string' ? JSON.parse(value) : value;
+    return {
+      id: row.id,
+      companyId: row.company_id,
+      phone: row.phone,
+      transactionType: row.transaction_type,
+      propertyType: row.property_type,
+      city: row.city,
+      neighborhoods: parse(row.neighborhoods),
+      budgetMin: row.budget_min,
+      budgetMax: row.budget_max,
+      bedrooms: row.bedrooms,
+      amenities: parse(row.amenities),
+      moveInTimeframe: row.move_in_timeframe,
+      needsFinancing: row.needs_financing === null ? null : Boolean(row.needs_financing),
+      financingNotes: row.financing_notes,
+      manualFields: parse(row.manual_fields),
+      alertsOptOut: Boolean(row.alerts_opt_out),
+      lastExtractedAt: row.last_extracted_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // Property alert methods
+  async createPropertyAlert(alert: InsertPropertyAlert): Promise<PropertyAlert> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    await this.connection.execute(
+      `INSERT INTO property_alerts (id, company_id, property_id, reason, price, previous_price, name, phone, lead_id, customer_id,
+         matched_criteria, status, status_reason)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        alert.companyId,
+        alert.propertyId,
+        alert.reason,
+        alert.price ?? null,
+        alert.previousPrice ?? null,
+        alert.name,
+        alert.phone,
+        alert.leadId ?? null,
+        alert.customerId ?? null,
+        alert.matchedCriteria ? JSON.stringify(alert.matchedCriteria) : null,
+        alert.status || 'pending',
+        alert.statusReason ?? null,
+      ]
+    );
+
+    const [rows] = await this.connection.execute('SELECT * FROM property_alerts WHERE id = ?', [id]);
+    return this.mapPropertyAlertRow((rows as any[])[0]);
+  }
+
+  async getPropertyAlertsByProperty(propertyId: string): Promise<PropertyAlert[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM property_alerts WHERE property_id = ? ORDER BY created_at DESC',
+      [propertyId]
+    );
+    return (rows as any[]).map(row => this.mapPropertyAlertRow(row));
+  }
+
+  async getPropertyAlertsSince(companyId: string, since: Date): Promise<PropertyAlert[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM property_alerts WHERE company_id = ? AND created_at >= ? ORDER BY created_at DESC',
+      [companyId, since]
+    );
+    return (rows as any[]).map(row => this.mapPropertyAlertRow(row));
+  }
+
+  async getPendingPropertyAlerts(limit: number): Promise<PropertyAlert[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const safeLimit = Math.max(1, Math.min(500, Math.floor(limit)));
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM property_alerts WHERE status = 'pending' ORDER BY created_at ASC LIMIT ${safeLimit}`
+    );
+    return (rows as any[]).map(row => this.mapPropertyAlertRow(row));
+  }
+
+  async updatePropertyAlert(id: string, updates: Partial<Pick<PropertyAlert, 'status' | 'statusReason' | 'instanceId' | 'evolutionMessageId' | 'sentAt'>>): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const columns: Record<string, string> = {
+      status: 'status',
+      statusReason: 'status_reason',
+      instanceId: 'instance_id',
+      evolutionMessageId: 'evolution_message_id',
+      sentAt: 'sent_at',
+    };
+    const entries = Object.entries(updates).filter(([key, value]) => columns[key] && value !== undefined);
+    if (entries.length === 0) return;
+
+    await this.connection.execute(
+      `UPDATE property_alerts SET ${entries.map(([key]) => `${columns[key]} = ?`).join(', ')} WHERE id = ?`,
+      [...entries.map(([, value]) => value), id]
+    );
+  }
+
+  private mapPropertyAlertRow(row: any): PropertyAlert {
+    return {
+      id: row.id,
+      companyId: row.company_id,
+      propertyId: row.property_id,
+      reason: row.reason,
+      price: row.price,
+      previousPrice: row.previous_price,
+      name: row.name,
+      phone: row.phone,
+      leadId: row.lead_id,
+      customerId: row.customer_id,
+      matchedCriteria: typeof row.matched_criteria === 'string' ? JSON.parse(row.matched_criteria) : row.matched_criteria,
+      status: row.status,
+      statusReason: row.status_reason,
+      instanceId: row.instance_id,
+      evolutionMessageId: row.evolution_message_id,
+      sentAt: row.sent_at,
+      createdAt: row.created_at,
+    };
+  }
+
+  // Contact opt-out methods
+  async getContactOptOuts(companyId: string): Promise<ContactOptOut[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM contact_opt_outs WHERE company_id = ? ORDER BY created_at DESC',
+      [companyId]
+    );
+    return (rows as any[]).map(row => this.mapContactOptOutRow(row));
+  }
+
+  async getContactOptOut(id: string): Promise<ContactOptOut | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute('SELECT * FROM contact_opt_outs WHERE id = ?', [id]);
+    const row = (rows as any[])[0];
+    return row ? this.mapContactOptOutRow(row) : undefined;
+  }
+
+  async getContactOptOutByPhone(companyId: string, phones: string[]): Promise<ContactOptOut | undefined> {
+    if (!this.connection) throw new Error('No database connection');
+    if (phones.length === 0) return undefined;
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM contact_opt_outs WHERE company_id = ? AND phone IN (${phones.map(() => '?').join(', ')}) LIMIT 1`,
+      [companyId, ...phones]
+    );
+    const row = (rows as any[])[0];
+    return row ? this.mapContactOptOutRow(row) : undefined;
+  }
+
+  // Número já bloqueado: mantém o registro original (origem e data do primeiro pedido)
+  async createContactOptOut(optOut: InsertContactOptOut): Promise<ContactOptOut> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute(
+      `INSERT IGNORE INTO contact_opt_outs (id, company_id, phone, name, source, reason, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        randomUUID(),
+        optOut.companyId,
+        optOut.phone,
+        optOut.name ?? null,
+        optOut.source || 'manual',
+        optOut.reason ?? null,
+        optOut.createdBy ?? null,
+      ]
+    );
+
+    return (await this.getContactOptOutByPhone(optOut.companyId, [optOut.phone]))!;
+  }
+
+  async deleteContactOptOut(id: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    await this.connection.execute('DELETE FROM contact_opt_outs WHERE id = ?', [id]);
+  }
+
+  // Conversation note methods
+  async getConversationNotes(conversationId: string): Promise<ConversationNote[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      'SELECT * FROM conversation_notes WHERE conversation_id = ? ORDER BY created_at ASC',
+      [conversationId]
+    );
+    return (rows as any[]).map(row => this.mapConversationNoteRow(row));
+  }
+
+  async createConversationNote(note: InsertConversationNote): Promise<ConversationNote> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    await this.connection.execute(
+      'INSERT INTO conversation_notes (id, conversation_id, company_id, user_id, content) VALUES (?, ?, ?, ?, ?)',
+      [id, note.conversationId, note.companyId, note.userId ?? null, note.content]
+    );
+
+    const [rows] = await this.connection.execute('SELECT * FROM conversation_notes WHERE id = ?', [id]);
+    return this.mapConversationNoteRow((rows as any[])[0]);
+  }
+
+  async createInstanceStatusEvent(event: InsertWhatsappInstanceStatusEvent): Promise<WhatsappInstanceStatusEvent> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    await this.connection.execute(
+      'INSERT INTO whatsapp_instance_status_history (id, instance_id, company_id, status, state, source, reason) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [id, event.instanceId, event.companyId, event.status, event.state ?? null, event.source, event.reason ?? null]
+    );
+
+    const [rows] = await this.connection.execute('SELECT * FROM whatsapp_instance_status_history WHERE id = ?', [id]);
+    return this.mapInstanceStatusEventRow((rows as any[])[0]);
+  }
+
+  // Eventos do período e o último anterior a ele (status em que a instância estava no início do período)
+  async getInstanceStatusHistory(instanceId: string, since: Date): Promise<WhatsappInstanceStatusEvent[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM whatsapp_instance_status_history
+       WHERE instance_id = ? AND (created_at >= ? OR id = (
+         SELECT id FROM (
+           SELECT id FROM whatsapp_instance_status_history
+           WHERE instance_id = ? AND created_at < ?
+           ORDER BY created_at DESC LIMIT 1
+         ) AS previous_event
+       ))
+       ORDER BY created_at ASC`,
+      [instanceId, since, instanceId, since]
+    );
+    return (rows as any[]).map(row => this.mapInstanceStatusEventRow(row));
+  }
+
+  async getCompanyNotifications(companyId: string, limit: number): Promise<CompanyNotification[]> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const [rows] = await this.connection.execute(
+      `SELECT * FROM company_notifications WHERE company_id = ? ORDER BY created_at DESC LIMIT ${Math.max(1, Math.floor(limit))}`,
+      [companyId]
+    );
+    return (rows as any[]).map(row => this.mapCompanyNotificationRow(row));
+  }
+
+  async createCompanyNotification(notification: InsertCompanyNotification): Promise<CompanyNotification> {
+    if (!this.connection) throw new Error('No database connection');
+
+    const id = randomUUID();
+    await this.connection.execute(
+      'INSERT INTO company_notifications (id, company_id, type, title, message, link) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, notification.companyId, notification.type, notification.title, notification.message, notification.link ?? null]
+    );
+
+    const [rows] = await this.connection.execute('SELECT * FROM company_notifications WHERE id = ?', [id]);
+    return this.mapCompanyNotificationRow((rows as any[])[0]);
+  }
+
+  // Sem id: marca todos os avisos da empresa como lidos
+  async markCompanyNotificationsRead(companyId: string, id?: string): Promise<void> {
+    if (!this.connection) throw new Error('No database connection');
+
+    if (id) {
+      await this.connection.execute(
+        'UPDATE company_notifications SET read_at = NOW() WHERE company_id = ? AND id = ? AND read_at IS NULL',
+        [companyId, id]
+      );
+    } else {
+      await this.connection.execute(
+        'UPDATE company_notifications SET read_at = NOW() WHERE company_id = ? AND read_at IS NULL',
+        [companyId]
+      );
+    }
+  }
+
+  private mapInstanceStatusEventRow(row: any): WhatsappInstanceStatusEvent {
+    return {
+      id: row.id,
+      instanceId: row.instance_id,
+      companyId: row.company_id,
+      status: row.status,
+      state: row.state,
+      source: row.source,
+      reason: row.reason,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapCompanyNotificationRow(row: any): CompanyNotification {
+    return {
+      id: row.id,
+      companyId: row.company_id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      link: row.link,
+      readAt: row.read_at,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapConversationNoteRow(row: any): ConversationNote {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      companyId: row.company_id,
+      userId: row.user_id,
+      content: row.content,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapContactOptOutRow(row: any): ContactOptOut {
+    return {
+      id: row.id,
+      companyId: row.company_id,
+      phone: row.phone,
+      name: row.name,
+      source: row.source,
+      reason: row.reason,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapBroadcastRecipientRow(row: any): BroadcastRecipient {
+    return {
+      id: row.id,
+      scheduledMessageId: row.scheduled_message_id,
+      companyId: row.company_id,
+      contactListItemId: row.contact_list_item_id,
+      name: row.name,
+      phone: row.phone,
+      status: row.status,
+      instanceId: row.instance_id,
+      instanceName: row.instance_name,
+      evolutionMessageId: row.evolution_message_id,
+      errorMessage: row.error_message,
+      attempts: row.attempts,
+      deliveryStatus: row.delivery_status,
+      sentAt: row.sent_at,
+      deliveredAt: row.delivered_at,
+      readAt: row.read_at,
+      failedAt: row.failed_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapWebhookQueueRow(row: any): WebhookQueueItem {
+    return {
+      id: row.id,
+      evolutionMessageId: row.evolution_message_id,
+      bufferKey: row.buffer_key,
+      aggregate: !!row.aggregate,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      batchId: row.batch_id,
+      receivedAt: row.received_at,
+      nextAttemptAt: row.next_attempt_at,
+      lockedAt: row.locked_at,
+      processedAt: row.processed_at,
+    };
+  }
+
+  private mapKnowledgeChunkRow(row: any): KnowledgeChunk {
+    return {
+      id: row.id,
+      agentId: row.agent_id,
+      companyId: row.company_id,
+      sourceUrl: row.source_url,
+      sourceName: row.source_name,
+      documentIndex: row.document_index,
+      chunkIndex: row.chunk_index,
+      content: row.content,
+      embedding: row.embedding ? (typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding) : [],
+      embeddingModel: row.embedding_model,
+      createdAt: row.created_at,
+    };
+  }
+
   private mapPlanRow(row: any): Plan {
     return {
       id: row.id,
@@ -0,0 +1,78 @@
+// Personalização de mensagens de disparo: variáveis {{nome}} e spintax {Olá|Oi}.
+// Usado no envio (servidor) e na pré-visualização (cliente).
+
+export const TEMPLATE_VARIABLES = [
+  { name: "nome", description: "Nome do contato" },
+  { name: "primeiro_nome", description: "Primeiro nome do contato" },
+  { name: "cidade_interesse", description: "Cidade de interesse registrada no CRM" },
+  { name: "corretor", description: "Corretor do último agendamento do contato" },
+] as const;
+
+export type TemplateVariableName = typeof TEMPLATE_VARIABLES[number]["name"];
+export type TemplateVariables = Partial<Record<TemplateVariableName, string | null | undefined>>;
+
+// {{variavel}} ou {{variavel|valor padrão}}
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*(?:\|([^{}]*))?\}\}/gi;
+// Grupo de spintax mais interno: {a|b|c} sem chaves dentro
+const SPINTAX_PATTERN = /\{([^{}]*\|[^{}]*)\}/;
+
+export function hasTemplateSyntax(text: string): boolean {
+  return new RegExp(VARIABLE_PATTERN.source, "i").test(text) || SPINTAX_PATTERN.test(text);
+}
+
+/**
+ * Escolhe uma opção de cada grupo de spintax, de dentro para fora ({Oi|{Olá|Bom dia}}).
+ */
+export function spin(text: string, random: () => number = Math.random): string {
+  let result = text;
+  let match: RegExpExecArray | null;
+  while ((match = SPINTAX_PATTERN.exec(result)) !== null) {
+    const options = match[1].split("|");
+    const choice = options[Math.floor(random() * options.length)] ?? "";
+    result = result.slice(0, match.index) + choice + result.slice(match.index + match[0].length);
+  }
+  return result;
+}
+
+/**
+ * Aplica spintax e substitui as variáveis. Variáveis sem valor usam o padrão informado
+ * ou ficam vazias; nomes desconhecidos são mantidos como estão para o erro ficar visível.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables, random: () => number = Math.random): string {
+  if (!template) return template;
+
+  // Protege as variáveis para que o "|" do valor padrão não seja lido como spintax
+  const tokens: string[] = [];
+  const masked = template.replace(VARIABLE_PATTERN, (token) => {
+    tokens.push(token);
+    return `\u0000${tokens.length - 1}\u0000`;
+  });
+
+  let hasEmptyValue = false;
+  const rendered = spin(masked, random).replace(/\u0000(\d+)\u0000/g, (_, index) => {
+    const value = resolveVariable(tokens[Number(index)], variables);
+    if (!value) hasEmptyValue = true;
+    return value;
+  });
+
+  // "Olá {{primeiro_nome}}, tudo bem?" sem nome vira "Olá, tudo bem?"
+  return hasEmptyValue
+    ? rendered.replace(/[ \t]{2,}/g, " ").replace(/[ \t]+([,.!?;:])/g, "$1")
+    : rendered;
+}
+
+export function firstName(fullName: string | null | undefined): string {
+  const first = (fullName || "").trim().split(/\s+/)[0] || "";
+  return first ? first.charAt(0).toUpperCase() + first.slice(1).toLowerCase() : "";
+}
+
+function resolveVariable(token: string, variables: TemplateVariables): string {
+  const match = /^\{\{\s*([a-z_]+)\s*(?:\|([^{}]*))?\}\}$/i.exec(token);
+  if (!match) return token;
+
+  const name = match[1].toLowerCase();
+  if (!TEMPLATE_VARIABLES.some(variable => variable.name === name)) return token;
+
+  const value = variables[name as TemplateVariableName];
+  return value && value.trim() ? value.trim() : (match[2] || "").trim();
+}
@@ -29,6 +29,10 @@ export const companies = mysqlTable("companies", {
   responsibleEmail: varchar("responsible_email", { length: 255 }),
   planId: varchar("plan_id", { length: 36 }),
   status: varchar("status", { length: 20 }).notNull().default("active"),
+  aiResumeIdleMinutes: int("ai_resume_idle_minutes").default(30), // 0 = IA pausada só volta manualmente
+  propertyTypeSynonyms: json("property_type_synonyms"), // PropertyTypeSynonyms; nulo = DEFAULT_PROPERTY_TYPE_SYNONYMS
+  timezone: varchar("timezone", { length: 64 }).default("America/Sao_Paulo"), // Fuso das janelas de envio dos disparos
+  autoAssignConversations: boolean("auto_assign_conversations").default(false), // Distribui conversas novas entre os corretores (rodízio)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
@@ -62,6 +66,9 @@ export const aiConfigurations = mysqlTable("ai_configurations", {
   modelo: varchar("modelo", { length: 50 }).default("gpt-4o"),
   temperatura: decimal("temperatura", { precision: 3, scale: 2 }).default("0.7"),
   numeroTokens: int("numero_tokens").default(1000),
+  localBaseUrl: text("local_base_url"), // Endpoint compatível com OpenAI (ex: http://localhost:11434/v1)
+  localApiKey: text("local_api_key"),
+  localModelo: varchar("local_modelo", { length: 100 }),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
 
@@ -75,6 +82,11 @@ export const whatsappInstances = mysqlTable("whatsapp_instances", {
   status: varchar("status", { length: 20 }).default("disconnected"), // 'connected' | 'disconnected'
   qrCode: text("qr_code"),
   aiAgentId: varchar("ai_agent_id", { length: 36 }),
+  firstConnectedAt: timestamp("first_connected_at"), // Início do aquecimento do número nos disparos
+  lastSeenAt: timestamp("last_seen_at"), // Última verificação com a instância conectada
+  statusChangedAt: timestamp("status_changed_at"), // Desde quando está no status atual
+  reconnectAttempts: int("reconnect_attempts").default(0), // Tentativas automáticas desde a queda
+  disconnectAlertedAt: timestamp("disconnect_alerted_at"), // Alerta de queda já enviado; limpo ao reconectar
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
@@ -86,9 +98,11 @@ export const aiAgents = mysqlTable("ai_agents", {
   prompt: text("prompt").notNull(),
   temperatura: decimal("temperatura", { precision: 3, scale: 2 }).default("0.7"),
   numeroTokens: int("numero_tokens").default(1000),
+  provider: varchar("provider", { length: 20 }).default("openai"), // 'openai' | 'local'
   modelo: varchar("modelo", { length: 50 }).default("gpt-4o"),
   trainingFiles: json("training_files"), // Array of file paths
   trainingContent: text("training_content"), // Extracted content from PDFs
+  knowledgeIndexedAt: timestamp("knowledge_indexed_at"), // Última tentativa de indexar a base de conhecimento (mesmo sem gerar trechos)
   agentType: varchar("agent_type", { length: 20 }).default("main"), // 'main' | 'secondary'
   parentAgentId: varchar("parent_agent_id", { length: 36 }), // References another agent
   specialization: varchar("specialization", { length: 255 }), // What this secondary agent specializes in
@@ -105,7 +119,16 @@ export const conversations = mysqlTable("conversations", {
   contactPhone: varchar("contact_phone", { length: 20 }).notNull(),
   lastMessage: text("last_message"),
   lastMessageAt: timestamp("last_message_at"),
-  status: varchar("status", { length: 20 }).default("active"),
+  status: varchar("status", { length: 20 }).default("open"), // 'open' | 'pending' | 'resolved'
+  assignedUserId: varchar("assigned_user_id", { length: 36 }), // Responsável: usuário do painel...
+  assignedBrokerId: varchar("assigned_broker_id", { length: 36 }), // ...ou corretor (apenas um dos dois)
+  assignedAt: timestamp("assigned_at"),
+  tags: json("tags"), // string[]
+  aiState: varchar("ai_state", { length: 20 }).default("active"), // 'active' | 'paused' | 'handed_off'
+  aiStateReason: varchar("ai_state_reason", { length: 30 }), // 'human_reply' | 'manual' | 'client_request' | 'idle_timeout'
+  aiStateChangedAt: timestamp("ai_state_changed_at"),
+  aiPausedBy: varchar("ai_paused_by", { length: 36 }), // Usuário que pausou pelo painel
+  lastHumanMessageAt: timestamp("last_human_message_at"), // Última mensagem de um corretor na conversa
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
@@ -116,11 +139,20 @@ export const messages = mysqlTable("messages", {
   content: text("content").notNull(),
   sender: varchar("sender", { length: 20 }).notNull(), // 'user' | 'ai' | 'agent'
   agentId: varchar("agent_id", { length: 36 }), // Which AI agent responded (if sender is 'ai')
-  messageType: varchar("message_type", { length: 20 }).default("text"), // 'text' | 'image' | 'document'
+  userId: varchar("user_id", { length: 36 }), // Usuário do painel que respondeu (se sender for 'agent')
+  messageType: varchar("message_type", { length: 20 }).default("text"), // 'text' | 'image' | 'audio' | 'video' | 'document' | 'sticker' | 'location' | 'contact'
   evolutionMessageId: varchar("evolution_message_id", { length: 255 }),
   mediaUrl: text("media_url"), // URL to download the image from Evolution API
-  mediaBase64: text("media_base64"), // Base64 encoded image data
+  mediaBase64: text("media_base64"), // Legado: mensagens novas guardam só a referência em media_path
+  mediaPath: varchar("media_path", { length: 500 }), // Arquivo salvo em /uploads/whatsapp
+  mimeType: varchar("mime_type", { length: 100 }),
+  fileName: varchar("file_name", { length: 255 }),
+  metadata: json("metadata"), // MessageMetadata: coordenadas da localização ou contatos compartilhados
+  extractedText: text("extracted_text"), // Texto de PDFs enviados pelo cliente, lido pelo agente
   caption: text("caption"), // Image caption/description from user
+  deliveryStatus: varchar("delivery_status", { length: 20 }), // Só mensagens enviadas: 'sent' | 'delivered' | 'read' | 'failed'
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -147,7 +179,9 @@ export const contactListItems = mysqlTable("contact_list_items", {
 export const scheduledMessages = mysqlTable("scheduled_messages", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
   companyId: varchar("company_id", { length: 36 }).notNull(),
-  contactListId: varchar("contact_list_id", { length: 36 }).notNull(),
+  contactListId: varchar("contact_list_id", { length: 36 }), // Null quando o público é um segmento do CRM
+  audienceType: varchar("audience_type", { length: 20 }).default("contact_list"), // 'contact_list' | 'segment'
+  segmentFilters: json("segment_filters"), // AudienceSegmentFilters, resolvido no momento do envio
   instanceIds: json("instance_ids").notNull(), // Array of whatsapp instance IDs
   messageType: varchar("message_type", { length: 20 }).notNull(), // 'text' | 'audio' | 'image' | 'video'
   messageContent: text("message_content").notNull(),
@@ -160,6 +194,13 @@ export const scheduledMessages = mysqlTable("scheduled_messages", {
   intervalMax: int("interval_max").default(120), // Maximum interval between messages in seconds
   useMultipleInstances: boolean("use_multiple_instances").default(false),
   randomizeInstances: boolean("randomize_instances").default(true),
+  sendWindowStart: varchar("send_window_start", { length: 5 }), // "HH:MM" no fuso da empresa; nulo = qualquer horário
+  sendWindowEnd: varchar("send_window_end", { length: 5 }),
+  sendWeekdays: json("send_weekdays"), // Dias permitidos (0 = domingo); nulo = todos
+  dailyLimitPerInstance: int("daily_limit_per_instance"), // Máximo de envios por instância por dia; nulo = sem limite
+  warmupEnabled: boolean("warmup_enabled").default(true), // Aplica BROADCAST_WARMUP_PROFILE em números recém-conectados
+  pausedUntil: timestamp("paused_until"), // Fora da janela ou limite diário atingido: continua nesse horário
+  pauseReason: varchar("pause_reason", { length: 255 }),
   status: varchar("status", { length: 20 }).default("scheduled"), // 'scheduled' | 'processing' | 'completed' | 'cancelled' | 'failed'
   totalMessages: int("total_messages").default(0),
   sentMessages: int("sent_messages").default(0),
@@ -180,6 +221,7 @@ export const funnelStages = mysqlTable("funnel_stages", {
   order: int("order").notNull().default(0),
   isActive: boolean("is_active").default(true),
   isGlobal: boolean("is_global").default(false), // Flag para etapas globais
+  sourceStageId: varchar("source_stage_id", { length: 36 }), // Etapa global da qual esta foi copiada
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
@@ -199,6 +241,7 @@ export const customers = mysqlTable("customers", {
   conversationId: varchar("conversation_id", { length: 36 }), // Link to the conversation that created this customer
   interestedCityId: varchar("interested_city_id", { length: 36 }), // Cidade de interesse extraída da conversa
   interestedPropertyType: varchar("interested_property_type", { length: 50 }), // Tipo de imóvel extraído da conversa
+  interestedTransactionType: varchar("interested_transaction_type", { length: 20 }), // 'venda' | 'aluguel'
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
@@ -286,10 +329,23 @@ export const brokers = mysqlTable("brokers", {
   name: varchar("name", { length: 255 }).notNull(),
   email: varchar("email", { length: 255 }),
   whatsapp: varchar("whatsapp", { length: 20 }),
+  workingHours: json("working_hours"), // BrokerWorkingHours; nulo = horário padrão (DEFAULT_BROKER_WORKING_HOURS)
+  visitDurationMinutes: int("visit_duration_minutes").default(60), // Duração de cada visita, define o tamanho dos horários livres
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
 
+// Broker Blocked Periods Table (Folgas, férias e compromissos que bloqueiam a agenda do corretor)
+export const brokerBlockedPeriods = mysqlTable("broker_blocked_periods", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  brokerId: varchar("broker_id", { length: 36 }).notNull(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: varchar("reason", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Appointments Table (Agendamentos de Visitas)
 export const appointments = mysqlTable("appointments", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
@@ -304,10 +360,220 @@ export const appointments = mysqlTable("appointments", {
   notes: text("notes"), // Observações
   source: varchar("source", { length: 50 }).default("whatsapp"), // 'whatsapp' | 'manual' | 'website'
   conversationId: varchar("conversation_id", { length: 36 }), // Link para conversa do WhatsApp
+  reminder24hSentAt: timestamp("reminder_24h_sent_at"), // Lembrete de véspera enviado
+  reminder1hSentAt: timestamp("reminder_1h_sent_at"), // Lembrete de 1 hora antes enviado
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+// Knowledge Chunks Table (Base de conhecimento indexada dos agentes)
+export const knowledgeChunks = mysqlTable("knowledge_chunks", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  agentId: varchar("agent_id", { length: 36 }).notNull(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  sourceUrl: text("source_url"), // URL do PDF de origem (trainingFiles)
+  sourceName: varchar("source_name", { length: 255 }), // Nome amigável do documento para citação
+  documentIndex: int("document_index").notNull().default(0),
+  chunkIndex: int("chunk_index").notNull().default(0),
+  content: text("content").notNull(),
+  embedding: json("embedding"), // Array de floats gerado pelo provedor de LLM
+  embeddingModel: varchar("embedding_model", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Webhook Queue Table (Fila persistente de mensagens recebidas da Evolution API)
+export const webhookQueue = mysqlTable("webhook_queue", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  evolutionMessageId: varchar("evolution_message_id", { length: 255 }).unique(), // Garante processamento único
+  bufferKey: varchar("buffer_key", { length: 255 }).notNull(), // instância:telefone (janela de agregação)
+  aggregate: boolean("aggregate").notNull().default(true), // false = mídia, processada sozinha
+  payload: text("payload").notNull(), // JSON original do webhook
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending' | 'processing' | 'done' | 'failed' | 'dead'
+  attempts: int("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  batchId: varchar("batch_id", { length: 36 }), // Mensagens processadas juntas na mesma agregação
+  receivedAt: timestamp("received_at").defaultNow(),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lockedAt: timestamp("locked_at"),
+  processedAt: timestamp("processed_at"),
+});
+
+// Broadcast Recipients Table (Log de entrega por contato dos disparos agendados)
+export const broadcastRecipients = mysqlTable("broadcast_recipients", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  scheduledMessageId: varchar("scheduled_message_id", { length: 36 }).notNull(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  contactListItemId: varchar("contact_list_item_id", { length: 36 }),
+  name: varchar("name", { length: 255 }),
+  phone: varchar("phone", { length: 20 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending' | 'sending' | 'sent' | 'failed' | 'skipped' (opt-out)
+  instanceId: varchar("instance_id", { length: 36 }), // Instância usada no último envio
+  instanceName: varchar("instance_name", { length: 255 }),
+  evolutionMessageId: varchar("evolution_message_id", { length: 255 }), // key.id retornado pela Evolution API
+  errorMessage: text("error_message"),
+  attempts: int("attempts").notNull().default(0),
+  deliveryStatus: varchar("delivery_status", { length: 20 }), // Confirmações do WhatsApp: 'sent' | 'delivered' | 'read' | 'failed'
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  failedAt: timestamp("failed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+// Customer Activities Table (Linha do tempo do cliente: etapas do funil, notas, agendamentos, conversas)
+export const customerActivities = mysqlTable("customer_activities", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  customerId: varchar("customer_id", { length: 36 }).notNull(),
+  type: varchar("type", { length: 30 }).notNull(), // 'created' | 'stage_change' | 'note' | 'appointment' | 'conversation' | 'broadcast' | 'lead_conversion' | 'property_alert' | 'opt_out'
+  fromStageId: varchar("from_stage_id", { length: 36 }), // Só em mudanças de etapa
+  toStageId: varchar("to_stage_id", { length: 36 }), // Etapa de destino (ou inicial, na criação/conversão)
+  userId: varchar("user_id", { length: 36 }), // Usuário do painel; nulo quando automático (IA, disparos)
+  description: text("description"),
+  metadata: json("metadata"), // Ids relacionados (agendamento, conversa, disparo, lead)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Property Search Sessions Table (última busca de imóveis de cada conversa, para o "ver mais")
+export const propertySearchSessions = mysqlTable("property_search_sessions", {
+  conversationId: varchar("conversation_id", { length: 36 }).primaryKey(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  criteria: json("criteria").notNull(), // Filtros da busca, sem limit/offset
+  requestedCriteria: json("requested_criteria"), // Só o que o cliente pediu (sem os padrões do perfil): identifica o "ver mais"
+  resultIds: json("result_ids").notNull(), // IDs dos imóveis na ordem em que devem ser mostrados
+  cursor: int("cursor_position").notNull().default(0), // Quantos resultados já foram enviados
+  relaxations: json("relaxations"), // Critérios flexibilizados quando não houve resultado exato
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
 
+// Lead Preferences Table (perfil de busca de cada contato: extraído das conversas pela IA ou editado pela equipe)
+export const leadPreferences = mysqlTable("lead_preferences", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  phone: varchar("phone", { length: 20 }).notNull(), // Telefone do contato no formato da conversa
+  transactionType: varchar("transaction_type", { length: 20 }), // 'venda' | 'locacao'
+  propertyType: varchar("property_type", { length: 50 }),
+  city: varchar("city", { length: 100 }),
+  neighborhoods: json("neighborhoods"), // Bairros de interesse
+  budgetMin: int("budget_min"), // Em reais
+  budgetMax: int("budget_max"),
+  bedrooms: int("bedrooms"), // Mínimo de quartos
+  amenities: json("amenities"), // Comodidades indispensáveis (nomes)
+  moveInTimeframe: varchar("move_in_timeframe", { length: 100 }), // Ex.: "imediato", "até 3 meses"
+  needsFinancing: boolean("needs_financing"), // null = ainda não informado
+  financingNotes: text("financing_notes"), // FGTS, entrada, carta de crédito...
+  manualFields: json("manual_fields"), // Campos editados pela equipe: a extração da IA não sobrescreve
+  alertsOptOut: boolean("alerts_opt_out").notNull().default(false), // Não receber alertas de imóveis novos/com preço reduzido
+  lastExtractedAt: timestamp("last_extracted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+// Property Alerts Table (avisos de imóvel novo ou com preço reduzido enviados aos contatos interessados)
+export const propertyAlerts = mysqlTable("property_alerts", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  propertyId: varchar("property_id", { length: 36 }).notNull(),
+  reason: varchar("reason", { length: 20 }).notNull(), // 'new_property' | 'price_drop'
+  price: decimal("price", { precision: 12, scale: 2 }), // Preço do imóvel no momento do alerta
+  previousPrice: decimal("previous_price", { precision: 12, scale: 2 }), // Só em reduções de preço
+  name: varchar("name", { length: 255 }).notNull(),
+  phone: varchar("phone", { length: 20 }).notNull(),
+  leadId: varchar("lead_id", { length: 36 }),
+  customerId: varchar("customer_id", { length: 36 }),
+  matchedCriteria: json("matched_criteria"), // Interesses do contato que o imóvel atende
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending' | 'sending' | 'sent' | 'failed' | 'skipped'
+  statusReason: text("status_reason"), // Motivo do skipped (opt-out, limite) ou erro do envio
+  instanceId: varchar("instance_id", { length: 36 }),
+  evolutionMessageId: varchar("evolution_message_id", { length: 100 }),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Contact Opt-Outs Table (números que pediram para não receber mais mensagens da empresa)
+export const contactOptOuts = mysqlTable("contact_opt_outs", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  phone: varchar("phone", { length: 20 }).notNull(), // Só dígitos, com DDI 55
+  name: varchar("name", { length: 255 }),
+  source: varchar("source", { length: 20 }).notNull().default("manual"), // 'keyword' | 'manual'
+  reason: text("reason"), // Mensagem recebida ou observação da equipe
+  createdBy: varchar("created_by", { length: 36 }), // Usuário que bloqueou pelo painel
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Notas internas da equipe em uma conversa (nunca são enviadas ao cliente)
+export const conversationNotes = mysqlTable("conversation_notes", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  conversationId: varchar("conversation_id", { length: 36 }).notNull(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  userId: varchar("user_id", { length: 36 }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Histórico de conexão das instâncias (monitor de saúde, webhook CONNECTION_UPDATE e reconexões)
+export const whatsappInstanceStatusHistory = mysqlTable("whatsapp_instance_status_history", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  instanceId: varchar("instance_id", { length: 36 }).notNull(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull(), // 'connected' | 'disconnected'
+  state: varchar("state", { length: 30 }), // Estado informado pela Evolution API: 'open' | 'close' | 'connecting'
+  source: varchar("source", { length: 20 }).notNull(), // 'poll' | 'webhook' | 'reconnect'
+  reason: varchar("reason", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Avisos exibidos no painel da empresa (sino do cabeçalho)
+export const companyNotifications = mysqlTable("company_notifications", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  companyId: varchar("company_id", { length: 36 }).notNull(),
+  type: varchar("type", { length: 50 }).notNull(), // 'instance_disconnected' | 'instance_reconnected'
+  title: varchar("title", { length: 255 }).notNull(),
+  message: text("message").notNull(),
+  link: varchar("link", { length: 255 }), // Página do painel relacionada ao aviso
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Palavras que o cliente usa para cada tipo de imóvel: chave = valor gravado em properties.property_type
+export const propertyTypeSynonymsSchema = z.record(
+  z.string().trim().min(1),
+  z.array(z.string().trim().min(1)).max(30)
+);
+
+export const DEFAULT_PROPERTY_TYPE_SYNONYMS: PropertyTypeSynonyms = {
+  "casa": ["casa", "residência"],
+  "apartamento": ["apartamento", "apto", "ap", "kitnet", "kitinete", "cobertura", "flat"],
+  "sala": ["sala comercial", "sala", "loja", "ponto comercial", "escritório"],
+  "terreno": ["terreno", "lote"],
+  "sobrado": ["sobrado", "geminado"],
+  "chácara": ["chácara", "sítio"],
+};
+
+export const DEFAULT_COMPANY_TIMEZONE = "America/Sao_Paulo";
+
+// Modelos da OpenAI (gpt-4o, o1, o3-mini...), que não valem para agentes do provedor local.
+// Serve tanto para RegExp quanto para o REGEXP do MySQL: a regra e a limpeza do banco são a mesma
+export const OPENAI_MODEL_PATTERN = "^(gpt-|chatgpt-|o[0-9])";
+
+// Aquecimento: limite diário de disparos por instância nos primeiros dias após a primeira conexão
+export const BROADCAST_WARMUP_PROFILE = [
+  { untilDay: 3, dailyLimit: 20 },
+  { untilDay: 7, dailyLimit: 50 },
+  { untilDay: 14, dailyLimit: 100 },
+  { untilDay: 21, dailyLimit: 200 },
+] as const;
+
+// Confirmações de entrega do WhatsApp, em ordem: um status nunca volta para um anterior
+// ('failed' ainda pode virar 'delivered' se a confirmação chegar depois do erro)
+export const MESSAGE_DELIVERY_STATUSES = ["sent", "failed", "delivered", "read"] as const;
+
+// Envios sem confirmação de entrega depois desse prazo são sinalizados (número banido ou restrito)
+export const UNDELIVERED_AFTER_MINUTES = 60;
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   name: true,
@@ -331,6 +597,13 @@ export const insertCompanySchema = createInsertSchema(companies).pick({
   responsibleEmail: true,
   planId: true,
   status: true,
+  aiResumeIdleMinutes: true,
+  propertyTypeSynonyms: true,
+  timezone: true,
+  autoAssignConversations: true,
+}).extend({
+  propertyTypeSynonyms: propertyTypeSynonymsSchema.nullable().optional(),
+  timezone: z.string().trim().min(1).max(64).optional(),
 });
 
 export const insertGlobalConfigSchema = createInsertSchema(globalConfigurations).pick({
@@ -356,6 +629,9 @@ export const insertAiConfigSchema = createInsertSchema(aiConfigurations).pick({
   modelo: true,
   temperatura: true,
   numeroTokens: true,
+  localBaseUrl: true,
+  localApiKey: true,
+  localModelo: true,
 });
 
 export const insertWhatsappInstanceSchema = createInsertSchema(whatsappInstances).pick({
@@ -373,6 +649,7 @@ export const insertAiAgentSchema = createInsertSchema(aiAgents).pick({
   prompt: true,
   temperatura: true,
   numeroTokens: true,
+  provider: true,
   modelo: true,
   trainingFiles: true,
   trainingContent: true,
@@ -394,11 +671,30 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   content: true,
   sender: true,
   agentId: true,
+  userId: true,
   messageType: true,
   evolutionMessageId: true,
   mediaUrl: true,
   mediaBase64: true,
+  mediaPath: true,
+  mimeType: true,
+  fileName: true,
+  metadata: true,
+  extractedText: true,
   caption: true,
+  deliveryStatus: true,
+});
+
+// Resposta enviada pela equipe na caixa de entrada (texto, mídia ou ambos)
+export const inboxReplySchema = z.object({
+  content: z.string().trim().max(4096).optional(),
+  media: z.object({
+    base64: z.string().min(1),
+    fileName: z.string().min(1).max(255),
+    mediaType: z.enum(["image", "audio", "video"]),
+  }).optional(),
+}).refine(data => !!data.content || !!data.media, {
+  message: "Digite uma mensagem ou anexe um arquivo",
 });
 
 export const insertContactListSchema = createInsertSchema(contactLists).pick({
@@ -416,9 +712,42 @@ export const insertContactListItemSchema = createInsertSchema(contactListItems).
   error: true,
 });
 
+// Expediente semanal do corretor: chave = dia da semana (0 = domingo), intervalos em HH:MM
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Horário inválido (HH:MM)");
+export const brokerWorkingHoursSchema = z.record(
+  z.enum(["0", "1", "2", "3", "4", "5", "6"]),
+  z.array(z.object({ start: timeOfDaySchema, end: timeOfDaySchema }).refine(
+    interval => interval.start < interval.end,
+    "O fim do expediente deve ser depois do início"
+  ))
+);
+
+export const DEFAULT_BROKER_WORKING_HOURS: BrokerWorkingHours = {
+  "1": [{ start: "09:00", end: "12:00" }, { start: "13:30", end: "18:00" }],
+  "2": [{ start: "09:00", end: "12:00" }, { start: "13:30", end: "18:00" }],
+  "3": [{ start: "09:00", end: "12:00" }, { start: "13:30", end: "18:00" }],
+  "4": [{ start: "09:00", end: "12:00" }, { start: "13:30", end: "18:00" }],
+  "5": [{ start: "09:00", end: "12:00" }, { start: "13:30", end: "18:00" }],
+};
+
+// Filtros de segmento do CRM usados como público de disparos (listas vazias = sem filtro)
+export const audienceSegmentFiltersSchema = z.object({
+  target: z.enum(["leads", "customers", "all"]).default("all"),
+  leadStatuses: z.array(z.string()).optional(),
+  funnelStageIds: z.array(z.string()).optional(),
+  interestedCityIds: z.array(z.string()).optional(),
+  interestedPropertyTypes: z.array(z.string()).optional(),
+  interestedTransactionTypes: z.array(z.string()).optional(),
+  sources: z.array(z.string()).optional(),
+  lastContactFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // YYYY-MM-DD
+  lastContactTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
 export const insertScheduledMessageSchema = createInsertSchema(scheduledMessages).pick({
   companyId: true,
   contactListId: true,
+  audienceType: true,
+  segmentFilters: true,
   instanceIds: true,
   messageType: true,
   messageContent: true,
@@ -432,6 +761,19 @@ export const insertScheduledMessageSchema = createInsertSchema(scheduledMessages
   useMultipleInstances: true,
   randomizeInstances: true,
   totalMessages: true,
+  sendWindowStart: true,
+  sendWindowEnd: true,
+  sendWeekdays: true,
+  dailyLimitPerInstance: true,
+  warmupEnabled: true,
+}).extend({
+  audienceType: z.enum(["contact_list", "segment"]).default("contact_list"),
+  segmentFilters: audienceSegmentFiltersSchema.nullable().optional(),
+  sendWindowStart: timeOfDaySchema.nullable().optional(),
+  sendWindowEnd: timeOfDaySchema.nullable().optional(),
+  sendWeekdays: z.array(z.number().int().min(0).max(6)).min(1, "Selecione ao menos um dia").nullable().optional(),
+  dailyLimitPerInstance: z.number().int().min(1).nullable().optional(),
+  warmupEnabled: z.boolean().optional(),
 });
 
 export const insertFunnelStageSchema = createInsertSchema(funnelStages).pick({
@@ -444,6 +786,20 @@ export const insertFunnelStageSchema = createInsertSchema(funnelStages).pick({
   isGlobal: true,
 });
 
+// Etapas criadas/editadas pela empresa (ordem e arquivamento têm rotas próprias)
+export const funnelStageFormSchema = insertFunnelStageSchema.pick({
+  name: true,
+  description: true,
+  color: true,
+}).extend({
+  name: z.string().trim().min(1, "Nome é obrigatório").max(255),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Cor inválida").optional(),
+});
+
+export const funnelStageReorderSchema = z.object({
+  stageIds: z.array(z.string()).min(1),
+});
+
 export const insertCustomerSchema = createInsertSchema(customers).pick({
   companyId: true,
   name: true,
@@ -515,6 +871,41 @@ export const insertPropertySchema = createInsertSchema(properties).pick({
   price: z.union([z.string(), z.number()]).nullable().optional().transform(val => val != null ? (typeof val === 'number' ? val.toString() : val) : null),
 });
 
+// Busca de imóveis (storage.searchProperties): IA, tool HTTP e listagem do painel usam os mesmos filtros
+export const PROPERTY_SORT_OPTIONS = ["recent", "price_asc", "price_desc", "area_asc", "area_desc", "bedrooms_desc"] as const;
+
+const optionalCount = z.coerce.number().int().min(0).optional();
+const optionalAmount = z.coerce.number().min(0).optional();
+
+export const propertySearchSchema = z.object({
+  text: z.string().trim().optional(), // Nome ou código
+  status: z.enum(["active", "inactive", "all"]).optional(), // Padrão: active
+  city: z.string().trim().optional(),
+  neighborhood: z.string().trim().optional(),
+  transactionType: z.string().trim().optional(),
+  propertyType: z.string().trim().optional(),
+  priceMin: optionalAmount,
+  priceMax: optionalAmount,
+  bedrooms: optionalCount,
+  minBedrooms: optionalCount,
+  maxBedrooms: optionalCount,
+  bathrooms: optionalCount,
+  minBathrooms: optionalCount,
+  maxBathrooms: optionalCount,
+  parkingSpaces: optionalCount,
+  minParkingSpaces: optionalCount,
+  minPrivateArea: optionalAmount,
+  maxPrivateArea: optionalAmount,
+  // IDs de comodidades; o imóvel precisa ter todas. Na query string: separados por vírgula
+  amenities: z.preprocess(
+    value => typeof value === "string" ? value.split(",").map(id => id.trim()).filter(Boolean) : value,
+    z.array(z.string()).optional()
+  ),
+  sortBy: z.enum(PROPERTY_SORT_OPTIONS).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
 export const insertAmenitySchema = createInsertSchema(amenities).pick({
   companyId: true,
   name: true,
@@ -540,6 +931,25 @@ export const insertBrokerSchema = createInsertSchema(brokers).pick({
   name: true,
   email: true,
   whatsapp: true,
+  workingHours: true,
+  visitDurationMinutes: true,
+}).extend({
+  workingHours: brokerWorkingHoursSchema.nullable().optional(),
+  visitDurationMinutes: z.number().int().min(15).max(480).optional(),
+});
+
+export const insertBrokerBlockedPeriodSchema = createInsertSchema(brokerBlockedPeriods).pick({
+  brokerId: true,
+  companyId: true,
+  startsAt: true,
+  endsAt: true,
+  reason: true,
+}).extend({
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+}).refine(period => period.startsAt < period.endsAt, {
+  message: "O fim do bloqueio deve ser depois do início",
+  path: ["endsAt"],
 });
 
 export const insertAppointmentSchema = createInsertSchema(appointments).pick({
@@ -556,6 +966,177 @@ export const insertAppointmentSchema = createInsertSchema(appointments).pick({
   conversationId: true,
 });
 
+export const insertKnowledgeChunkSchema = createInsertSchema(knowledgeChunks).pick({
+  agentId: true,
+  companyId: true,
+  sourceUrl: true,
+  sourceName: true,
+  documentIndex: true,
+  chunkIndex: true,
+  content: true,
+  embedding: true,
+  embeddingModel: true,
+});
+
+export const insertWebhookQueueItemSchema = createInsertSchema(webhookQueue).pick({
+  evolutionMessageId: true,
+  bufferKey: true,
+  aggregate: true,
+  payload: true,
+});
+
+export const insertBroadcastRecipientSchema = createInsertSchema(broadcastRecipients).pick({
+  scheduledMessageId: true,
+  companyId: true,
+  contactListItemId: true,
+  name: true,
+  phone: true,
+});
+
+export const insertCustomerActivitySchema = createInsertSchema(customerActivities).pick({
+  companyId: true,
+  customerId: true,
+  type: true,
+  fromStageId: true,
+  toStageId: true,
+  userId: true,
+  description: true,
+  metadata: true,
+});
+
+export const insertPropertySearchSessionSchema = createInsertSchema(propertySearchSessions).pick({
+  conversationId: true,
+  companyId: true,
+  criteria: true,
+  requestedCriteria: true,
+  resultIds: true,
+  cursor: true,
+  relaxations: true,
+});
+
+export const LEAD_PREFERENCE_FIELDS = [
+  "transactionType", "propertyType", "city", "neighborhoods", "budgetMin", "budgetMax",
+  "bedrooms", "amenities", "moveInTimeframe", "needsFinancing", "financingNotes",
+] as const;
+
+const nullableText = (max: number) => z.string().trim().max(max).nullable().optional();
+const nullableCount = z.number().int().min(0).nullable().optional();
+const nullableList = z.array(z.string().trim().min(1)).max(30).nullable().optional();
+
+export const insertLeadPreferencesSchema = createInsertSchema(leadPreferences).pick({
+  companyId: true,
+  phone: true,
+  transactionType: true,
+  propertyType: true,
+  city: true,
+  budgetMin: true,
+  budgetMax: true,
+  bedrooms: true,
+  moveInTimeframe: true,
+  needsFinancing: true,
+  financingNotes: true,
+  lastExtractedAt: true,
+  alertsOptOut: true,
+}).extend({
+  neighborhoods: nullableList,
+  amenities: nullableList,
+  manualFields: z.array(z.enum(LEAD_PREFERENCE_FIELDS)).nullable().optional(),
+});
+
+// Perfil editado no painel (leads e atendimentos): os campos enviados passam a ser manuais
+export const leadPreferencesUpdateSchema = z.object({
+  phone: z.string().trim().min(1),
+  transactionType: z.enum(["venda", "locacao"]).nullable().optional(),
+  propertyType: nullableText(50),
+  city: nullableText(100),
+  neighborhoods: nullableList,
+  budgetMin: nullableCount,
+  budgetMax: nullableCount,
+  bedrooms: nullableCount,
+  amenities: nullableList,
+  moveInTimeframe: nullableText(100),
+  needsFinancing: z.boolean().nullable().optional(),
+  financingNotes: nullableText(1000),
+  alertsOptOut: z.boolean().optional(),
+});
+
+export const insertPropertyAlertSchema = createInsertSchema(propertyAlerts).pick({
+  companyId: true,
+  propertyId: true,
+  reason: true,
+  price: true,
+  previousPrice: true,
+  name: true,
+  phone: true,
+  leadId: true,
+  customerId: true,
+  matchedCriteria: true,
+  status: true,
+  statusReason: true,
+});
+
+export const insertContactOptOutSchema = createInsertSchema(contactOptOuts).pick({
+  companyId: true,
+  phone: true,
+  name: true,
+  source: true,
+  reason: true,
+  createdBy: true,
+});
+
+// Bloqueio manual pelo painel
+export const contactOptOutFormSchema = z.object({
+  phone: z.string().trim().refine(phone => {
+    const digits = phone.replace(/\D/g, "");
+    return digits.length >= 10 && digits.length <= 13;
+  }, "Telefone inválido"),
+  name: z.string().trim().max(255).optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const CONVERSATION_STATUSES = ["open", "pending", "resolved"] as const;
+
+// Filtros da caixa de entrada: "waiting" = última mensagem é do cliente e ninguém respondeu ainda
+export const INBOX_FILTERS = ["all", "mine", "unassigned", "waiting"] as const;
+
+// Alterações da equipe na conversa: status, responsável e etiquetas
+export const conversationUpdateSchema = z.object({
+  status: z.enum(CONVERSATION_STATUSES).optional(),
+  assignedUserId: z.string().nullable().optional(),
+  assignedBrokerId: z.string().nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+}).refine(data => !(data.assignedUserId && data.assignedBrokerId), {
+  message: "A conversa só pode ter um responsável",
+});
+
+export const insertConversationNoteSchema = createInsertSchema(conversationNotes).pick({
+  conversationId: true,
+  companyId: true,
+  userId: true,
+  content: true,
+});
+
+export const conversationNoteFormSchema = z.object({
+  content: z.string().trim().min(1, "Digite a nota").max(4000),
+});
+
+export const insertWhatsappInstanceStatusEventSchema = createInsertSchema(whatsappInstanceStatusHistory).pick({
+  instanceId: true,
+  companyId: true,
+  status: true,
+  state: true,
+  source: true,
+  reason: true,
+});
+
+export const insertCompanyNotificationSchema = createInsertSchema(companyNotifications).pick({
+  companyId: true,
+  type: true,
+  title: true,
+  message: true,
+  link: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -575,12 +1156,34 @@ export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type InboxReply = z.infer<typeof inboxReplySchema>;
+export type MessageLocation = { latitude: number; longitude: number; name?: string; address?: string };
+export type SharedContact = { name: string; phones: string[] };
+export type MessageMetadata = { location?: MessageLocation; contacts?: SharedContact[] };
+export type MessageDeliveryStatus = typeof MESSAGE_DELIVERY_STATUSES[number];
+// total = envios com confirmação acompanhada; delivered inclui as lidas
+export type DeliveryCounts = { total: number; delivered: number; read: number; failed: number; undelivered: number };
+export type InboxConversation = Conversation & { instanceName: string; lastMessageSender: string | null };
+export type ConversationStatus = typeof CONVERSATION_STATUSES[number];
+export type InboxFilter = typeof INBOX_FILTERS[number];
+export type ConversationUpdate = z.infer<typeof conversationUpdateSchema>;
+export type ConversationNote = typeof conversationNotes.$inferSelect;
+export type InsertConversationNote = z.infer<typeof insertConversationNoteSchema>;
+export type WhatsappInstanceStatusEvent = typeof whatsappInstanceStatusHistory.$inferSelect;
+export type InsertWhatsappInstanceStatusEvent = z.infer<typeof insertWhatsappInstanceStatusEventSchema>;
+export type WhatsappInstanceWithHealth = WhatsappInstance & {
+  uptime: number | null; // % conectada nos últimos 7 dias
+  delivery: DeliveryCounts; // Envios das últimas 24h
+};
+export type CompanyNotification = typeof companyNotifications.$inferSelect;
+export type InsertCompanyNotification = z.infer<typeof insertCompanyNotificationSchema>;
 export type ContactList = typeof contactLists.$inferSelect;
 export type InsertContactList = z.infer<typeof insertContactListSchema>;
 export type ContactListItem = typeof contactListItems.$inferSelect;
 export type InsertContactListItem = z.infer<typeof insertContactListItemSchema>;
 export type ScheduledMessage = typeof scheduledMessages.$inferSelect;
 export type InsertScheduledMessage = z.infer<typeof insertScheduledMessageSchema>;
+export type AudienceSegmentFilters = z.infer<typeof audienceSegmentFiltersSchema>;
 export type FunnelStage = typeof funnelStages.$inferSelect;
 export type InsertFunnelStage = z.infer<typeof insertFunnelStageSchema>;
 export type Customer = typeof customers.$inferSelect;
@@ -597,5 +1200,34 @@ export type Plan = typeof plans.$inferSelect;
 export type InsertPlan = z.infer<typeof insertPlanSchema>;
 export type Broker = typeof brokers.$inferSelect;
 export type InsertBroker = z.infer<typeof insertBrokerSchema>;
+export type BrokerWorkingHours = z.infer<typeof brokerWorkingHoursSchema>;
+export type PropertyTypeSynonyms = z.infer<typeof propertyTypeSynonymsSchema>;
+export type BrokerBlockedPeriod = typeof brokerBlockedPeriods.$inferSelect;
+export type InsertBrokerBlockedPeriod = z.infer<typeof insertBrokerBlockedPeriodSchema>;
 export type Appointment = typeof appointments.$inferSelect;
-export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
\ No newline at end of file
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
+export type InsertKnowledgeChunk = z.infer<typeof insertKnowledgeChunkSchema>;
+export type WebhookQueueItem = typeof webhookQueue.$inferSelect;
+export type InsertWebhookQueueItem = z.infer<typeof insertWebhookQueueItemSchema>;
+export type BroadcastRecipient = typeof broadcastRecipients.$inferSelect;
+export type InsertBroadcastRecipient = z.infer<typeof insertBroadcastRecipientSchema>;
+export type CustomerActivity = typeof customerActivities.$inferSelect;
+export type InsertCustomerActivity = z.infer<typeof insertCustomerActivitySchema>;
+export type PropertySearchFilters = z.infer<typeof propertySearchSchema>;
+export type PropertySortOption = typeof PROPERTY_SORT_OPTIONS[number];
+export interface PropertySearchResult {
+  properties: Property[];
+  total: number; // Total de imóveis que atendem aos filtros, ignorando limit/offset
+}
+export type PropertySearchSession = typeof propertySearchSessions.$inferSelect;
+export type InsertPropertySearchSession = z.infer<typeof insertPropertySearchSessionSchema>;
+export type LeadPreferences = typeof leadPreferences.$inferSelect;
+export type InsertLeadPreferences = z.infer<typeof insertLeadPreferencesSchema>;
+export type LeadPreferencesUpdate = z.infer<typeof leadPreferencesUpdateSchema>;
+export type LeadPreferenceField = typeof LEAD_PREFERENCE_FIELDS[number];
+export type PropertyAlert = typeof propertyAlerts.$inferSelect;
+export type InsertPropertyAlert = z.infer<typeof insertPropertyAlertSchema>;
+export type ContactOptOut = typeof contactOptOuts.$inferSelect;
+export type InsertContactOptOut = z.infer<typeof insertContactOptOutSchema>;
+export type ContactOptOutForm = z.infer<typeof contactOptOutFormSchema>;
\ No newline at end of file